@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "dkp_transactions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "character_id" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "reason" TEXT,
+    "source_type" TEXT NOT NULL,
+    "source_id" INTEGER,
+    "actor_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "dkp_transactions_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "dkp_transactions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "dkp_transactions_character_id_created_at_idx" ON "dkp_transactions"("character_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "dkp_transactions_source_type_source_id_idx" ON "dkp_transactions"("source_type", "source_id");
+
+-- Seed the ledger with an opening balance for every existing character
+INSERT INTO "dkp_transactions" ("character_id", "delta", "balance_after", "reason", "source_type")
+SELECT "id", "dkp", "dkp", 'Opening balance', 'ADJUSTMENT' FROM "characters" WHERE "dkp" <> 0;
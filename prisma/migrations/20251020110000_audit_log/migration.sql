@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "audit_entries" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "actor_id" INTEGER,
+    "actor_role" TEXT,
+    "action" TEXT NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "target_id" TEXT,
+    "before" TEXT,
+    "after" TEXT,
+    "changes" TEXT,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "ip" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_entries_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "audit_entries_target_type_target_id_idx" ON "audit_entries"("target_type", "target_id");
+
+-- CreateIndex
+CREATE INDEX "audit_entries_actor_id_idx" ON "audit_entries"("actor_id");
+
+-- CreateIndex
+CREATE INDEX "audit_entries_created_at_idx" ON "audit_entries"("created_at");
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "auctions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "item_id" INTEGER NOT NULL,
+    "event_id" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "mode" TEXT NOT NULL DEFAULT 'OPEN',
+    "min_bid" INTEGER NOT NULL,
+    "tie_breaker" TEXT NOT NULL DEFAULT 'ATTENDANCE',
+    "ends_at" DATETIME,
+    "opened_by_id" INTEGER,
+    "closed_by_id" INTEGER,
+    "winner_character_id" INTEGER,
+    "winning_bid" INTEGER,
+    "tie_break_detail" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" DATETIME,
+    CONSTRAINT "auctions_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "auctions_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "auctions_opened_by_id_fkey" FOREIGN KEY ("opened_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "auctions_closed_by_id_fkey" FOREIGN KEY ("closed_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "auctions_winner_character_id_fkey" FOREIGN KEY ("winner_character_id") REFERENCES "characters" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "auction_bids" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "auction_id" INTEGER NOT NULL,
+    "character_id" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "auction_bids_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "auction_bids_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "auctions_status_ends_at_idx" ON "auctions"("status", "ends_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_bids_auction_id_character_id_key" ON "auction_bids"("auction_id", "character_id");
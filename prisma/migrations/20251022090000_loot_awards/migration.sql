@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "loot_awards" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "item_id" INTEGER NOT NULL,
+    "character_id" INTEGER NOT NULL,
+    "event_id" INTEGER,
+    "auction_id" INTEGER,
+    "dkp_cost" INTEGER NOT NULL DEFAULT 0,
+    "awarded_by_id" INTEGER,
+    "note" TEXT,
+    "awarded_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "loot_awards_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "items" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "loot_awards_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "loot_awards_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "loot_awards_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "loot_awards_awarded_by_id_fkey" FOREIGN KEY ("awarded_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loot_awards_auction_id_key" ON "loot_awards"("auction_id");
+
+-- CreateIndex
+CREATE INDEX "loot_awards_character_id_awarded_at_idx" ON "loot_awards"("character_id", "awarded_at");
+
+-- CreateIndex
+CREATE INDEX "loot_awards_item_id_awarded_at_idx" ON "loot_awards"("item_id", "awarded_at");
+
+-- Backfill awards for auctions that were already settled with a winner
+INSERT INTO "loot_awards" ("item_id", "character_id", "event_id", "auction_id", "dkp_cost", "awarded_by_id", "note", "awarded_at")
+SELECT "item_id", "winner_character_id", "event_id", "id", "winning_bid", "closed_by_id", 'Won auction', COALESCE("closed_at", "created_at")
+FROM "auctions"
+WHERE "status" = 'CLOSED' AND "winner_character_id" IS NOT NULL;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "wishes" ADD COLUMN "priority" INTEGER NOT NULL DEFAULT 1;
+
+-- Rank existing wishes per character in item order
+UPDATE "wishes" SET "priority" = (
+    SELECT COUNT(*) FROM "wishes" AS "other"
+    WHERE "other"."character_id" = "wishes"."character_id"
+      AND "other"."item_id" <= "wishes"."item_id"
+);
+
+-- CreateIndex
+CREATE INDEX "wishes_character_id_priority_idx" ON "wishes"("character_id", "priority");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "items" ADD COLUMN "slot" TEXT;
+ALTER TABLE "items" ADD COLUMN "category" TEXT;
+ALTER TABLE "items" ADD COLUMN "rarity" TEXT;
+
+-- CreateTable
+CREATE TABLE "wishlist_limits" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "slot" TEXT,
+    "max_wishes" INTEGER NOT NULL,
+    "updated_by_id" INTEGER,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "wishlist_limits_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishlist_limits_slot_key" ON "wishlist_limits"("slot");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "characters" ADD COLUMN "wishlist_points" INTEGER NOT NULL DEFAULT 10;
+
+-- AlterTable
+ALTER TABLE "items" ADD COLUMN "wishlist_point_cost" INTEGER;
+
+-- AlterTable
+ALTER TABLE "wishes" ADD COLUMN "point_cost" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "wishlist_point_transactions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "character_id" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "reason" TEXT,
+    "source_type" TEXT NOT NULL,
+    "item_id" INTEGER,
+    "actor_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "wishlist_point_transactions_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "wishlist_point_transactions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "wishlist_point_transactions_character_id_created_at_idx" ON "wishlist_point_transactions"("character_id", "created_at");
+
+-- Existing characters start with the default budget; existing wishes are kept free of charge
+INSERT INTO "wishlist_point_transactions" ("character_id", "delta", "balance_after", "reason", "source_type")
+SELECT "id", "wishlist_points", "wishlist_points", 'Starting budget', 'ADJUSTMENT' FROM "characters";
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "signup_cutoff" DATETIME;
+
+-- CreateTable
+CREATE TABLE "event_signups" (
+    "event_id" INTEGER NOT NULL,
+    "character_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "role" TEXT,
+    "note" TEXT,
+    "confirmed" BOOLEAN NOT NULL DEFAULT false,
+    "reviewed_by_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+
+    PRIMARY KEY ("event_id", "character_id"),
+    CONSTRAINT "event_signups_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "event_signups_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "event_signups_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "event_compositions" (
+    "event_id" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+
+    PRIMARY KEY ("event_id", "role"),
+    CONSTRAINT "event_compositions_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'PRESENT';
+ALTER TABLE "attendances" ADD COLUMN "dkp_awarded" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing attendance was always awarded the full event reward
+UPDATE "attendances" SET "dkp_awarded" = (SELECT "dkp_reward" FROM "events" WHERE "events"."id" = "attendances"."event_id");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "start_time" DATETIME NOT NULL,
+    "end_time" DATETIME NOT NULL,
+    "dkp_reward" INTEGER NOT NULL DEFAULT 0,
+    "signup_cutoff" DATETIME,
+    "finalized_at" DATETIME,
+    "finalized_by_id" INTEGER,
+    CONSTRAINT "events_finalized_by_id_fkey" FOREIGN KEY ("finalized_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_events" ("description", "dkp_reward", "end_time", "id", "signup_cutoff", "start_time", "title") SELECT "description", "dkp_reward", "end_time", "id", "signup_cutoff", "start_time", "title" FROM "events";
+DROP TABLE "events";
+ALTER TABLE "new_events" RENAME TO "events";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
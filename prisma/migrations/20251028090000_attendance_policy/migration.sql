@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN "pending" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "check_in_code" TEXT;
@@ -0,0 +1,151 @@
+-- CreateTable
+CREATE TABLE "guilds" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "guild_members" (
+    "guild_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'MEMBER',
+    "joined_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("guild_id", "user_id"),
+    CONSTRAINT "guild_members_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "guild_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Existing single-guild data moves into guild 1, and every user keeps their role there
+INSERT INTO "guilds" ("id", "name", "slug", "created_at", "updated_at")
+SELECT 1, 'Guild', 'guild', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "users") OR EXISTS (SELECT 1 FROM "characters") OR EXISTS (SELECT 1 FROM "items") OR EXISTS (SELECT 1 FROM "events");
+
+INSERT INTO "guild_members" ("guild_id", "user_id", "role", "joined_at")
+SELECT 1, "id", "role", "created_at" FROM "users";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_users" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "discord_id" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "discriminator" TEXT NOT NULL DEFAULT '0',
+    "avatar" TEXT,
+    "email" TEXT,
+    "access_token" TEXT NOT NULL,
+    "refresh_token" TEXT NOT NULL,
+    "expires_at" BIGINT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+INSERT INTO "new_users" ("access_token", "avatar", "created_at", "discord_id", "discriminator", "email", "expires_at", "id", "refresh_token", "updated_at", "username") SELECT "access_token", "avatar", "created_at", "discord_id", "discriminator", "email", "expires_at", "id", "refresh_token", "updated_at", "username" FROM "users";
+DROP TABLE "users";
+ALTER TABLE "new_users" RENAME TO "users";
+CREATE UNIQUE INDEX "users_discord_id_key" ON "users"("discord_id");
+CREATE TABLE "new_characters" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT,
+    "weapon1" TEXT,
+    "weapon2" TEXT,
+    "combat_power" INTEGER,
+    "gear_image_url" TEXT,
+    "active" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "dkp" INTEGER NOT NULL DEFAULT 0,
+    "wishlist_points" INTEGER NOT NULL DEFAULT 10,
+    CONSTRAINT "characters_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "characters_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_characters" ("active", "combat_power", "dkp", "gear_image_url", "guild_id", "id", "name", "role", "user_id", "weapon1", "weapon2", "wishlist_points") SELECT "active", "combat_power", "dkp", "gear_image_url", 1, "id", "name", "role", "user_id", "weapon1", "weapon2", "wishlist_points" FROM "characters";
+DROP TABLE "characters";
+ALTER TABLE "new_characters" RENAME TO "characters";
+CREATE UNIQUE INDEX "characters_guild_id_name_key" ON "characters"("guild_id", "name");
+CREATE TABLE "new_items" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "image_url" TEXT,
+    "min_dkp_cost" INTEGER NOT NULL DEFAULT 1,
+    "slot" TEXT,
+    "category" TEXT,
+    "rarity" TEXT,
+    "wishlist_point_cost" INTEGER,
+    CONSTRAINT "items_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_items" ("category", "guild_id", "id", "image_url", "min_dkp_cost", "name", "rarity", "slot", "wishlist_point_cost") SELECT "category", 1, "id", "image_url", "min_dkp_cost", "name", "rarity", "slot", "wishlist_point_cost" FROM "items";
+DROP TABLE "items";
+ALTER TABLE "new_items" RENAME TO "items";
+CREATE UNIQUE INDEX "items_guild_id_name_key" ON "items"("guild_id", "name");
+CREATE TABLE "new_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "start_time" DATETIME NOT NULL,
+    "end_time" DATETIME NOT NULL,
+    "dkp_reward" INTEGER NOT NULL DEFAULT 0,
+    "signup_cutoff" DATETIME,
+    "finalized_at" DATETIME,
+    "finalized_by_id" INTEGER,
+    "check_in_code" TEXT,
+    CONSTRAINT "events_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "events_finalized_by_id_fkey" FOREIGN KEY ("finalized_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_events" ("check_in_code", "description", "dkp_reward", "end_time", "finalized_at", "finalized_by_id", "guild_id", "id", "signup_cutoff", "start_time", "title") SELECT "check_in_code", "description", "dkp_reward", "end_time", "finalized_at", "finalized_by_id", 1, "id", "signup_cutoff", "start_time", "title" FROM "events";
+DROP TABLE "events";
+ALTER TABLE "new_events" RENAME TO "events";
+CREATE INDEX "events_guild_id_start_time_idx" ON "events"("guild_id", "start_time");
+CREATE TABLE "new_wishlist_limits" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "slot" TEXT,
+    "max_wishes" INTEGER NOT NULL,
+    "updated_by_id" INTEGER,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "wishlist_limits_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "wishlist_limits_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_wishlist_limits" ("guild_id", "id", "max_wishes", "slot", "updated_at", "updated_by_id") SELECT 1, "id", "max_wishes", "slot", "updated_at", "updated_by_id" FROM "wishlist_limits";
+DROP TABLE "wishlist_limits";
+ALTER TABLE "new_wishlist_limits" RENAME TO "wishlist_limits";
+CREATE UNIQUE INDEX "wishlist_limits_guild_id_slot_key" ON "wishlist_limits"("guild_id", "slot");
+CREATE TABLE "new_audit_entries" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER,
+    "actor_id" INTEGER,
+    "actor_role" TEXT,
+    "action" TEXT NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "target_id" TEXT,
+    "before" TEXT,
+    "after" TEXT,
+    "changes" TEXT,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "ip" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "audit_entries_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "audit_entries_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_audit_entries" ("action", "actor_id", "actor_role", "after", "before", "changes", "created_at", "guild_id", "id", "ip", "method", "path", "target_id", "target_type") SELECT "action", "actor_id", "actor_role", "after", "before", "changes", "created_at", (SELECT "id" FROM "guilds" WHERE "id" = 1), "id", "ip", "method", "path", "target_id", "target_type" FROM "audit_entries";
+DROP TABLE "audit_entries";
+ALTER TABLE "new_audit_entries" RENAME TO "audit_entries";
+CREATE INDEX "audit_entries_guild_id_idx" ON "audit_entries"("guild_id");
+CREATE INDEX "audit_entries_target_type_target_id_idx" ON "audit_entries"("target_type", "target_id");
+CREATE INDEX "audit_entries_actor_id_idx" ON "audit_entries"("actor_id");
+CREATE INDEX "audit_entries_created_at_idx" ON "audit_entries"("created_at");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guilds_slug_key" ON "guilds"("slug");
+
+-- CreateIndex
+CREATE INDEX "guild_members_user_id_idx" ON "guild_members"("user_id");
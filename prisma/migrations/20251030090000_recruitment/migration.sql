@@ -0,0 +1,84 @@
+-- CreateTable
+CREATE TABLE "recruitment_forms" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "recruitment_forms_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recruitment_forms_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "recruitment_questions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "form_id" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT true,
+    "options" TEXT,
+    CONSTRAINT "recruitment_questions_form_id_fkey" FOREIGN KEY ("form_id") REFERENCES "recruitment_forms" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "recruitment_applications" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "form_id" INTEGER NOT NULL,
+    "discord_id" TEXT NOT NULL,
+    "discord_username" TEXT NOT NULL,
+    "answers" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'NEW',
+    "user_id" INTEGER,
+    "reviewed_by_id" INTEGER,
+    "reviewed_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "recruitment_applications_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recruitment_applications_form_id_fkey" FOREIGN KEY ("form_id") REFERENCES "recruitment_forms" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recruitment_applications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "recruitment_applications_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "application_comments" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "application_id" INTEGER NOT NULL,
+    "author_id" INTEGER,
+    "body" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "application_comments_application_id_fkey" FOREIGN KEY ("application_id") REFERENCES "recruitment_applications" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "application_comments_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "application_votes" (
+    "application_id" INTEGER NOT NULL,
+    "voter_id" INTEGER NOT NULL,
+    "approve" BOOLEAN NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+
+    PRIMARY KEY ("application_id", "voter_id"),
+    CONSTRAINT "application_votes_application_id_fkey" FOREIGN KEY ("application_id") REFERENCES "recruitment_applications" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "application_votes_voter_id_fkey" FOREIGN KEY ("voter_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "recruitment_forms_guild_id_idx" ON "recruitment_forms"("guild_id");
+
+-- CreateIndex
+CREATE INDEX "recruitment_questions_form_id_position_idx" ON "recruitment_questions"("form_id", "position");
+
+-- CreateIndex
+CREATE INDEX "recruitment_applications_guild_id_status_idx" ON "recruitment_applications"("guild_id", "status");
+
+-- CreateIndex
+CREATE INDEX "recruitment_applications_discord_id_idx" ON "recruitment_applications"("discord_id");
+
+-- CreateIndex
+CREATE INDEX "application_comments_application_id_created_at_idx" ON "application_comments"("application_id", "created_at");
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "gear_checks" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "due_at" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "created_by_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" DATETIME,
+    CONSTRAINT "gear_checks_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "gear_checks_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "gear_check_targets" (
+    "gear_check_id" INTEGER NOT NULL,
+    "character_id" INTEGER NOT NULL,
+
+    PRIMARY KEY ("gear_check_id", "character_id"),
+    CONSTRAINT "gear_check_targets_gear_check_id_fkey" FOREIGN KEY ("gear_check_id") REFERENCES "gear_checks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "gear_check_targets_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "gear_submissions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "gear_check_id" INTEGER NOT NULL,
+    "character_id" INTEGER NOT NULL,
+    "image_urls" TEXT NOT NULL,
+    "skill_build" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "feedback" TEXT,
+    "submitted_by_id" INTEGER,
+    "reviewed_by_id" INTEGER,
+    "reviewed_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "gear_submissions_gear_check_id_fkey" FOREIGN KEY ("gear_check_id") REFERENCES "gear_checks" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "gear_submissions_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "gear_submissions_submitted_by_id_fkey" FOREIGN KEY ("submitted_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "gear_submissions_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "gear_checks_guild_id_status_due_at_idx" ON "gear_checks"("guild_id", "status", "due_at");
+
+-- CreateIndex
+CREATE INDEX "gear_check_targets_character_id_idx" ON "gear_check_targets"("character_id");
+
+-- CreateIndex
+CREATE INDEX "gear_submissions_gear_check_id_character_id_created_at_idx" ON "gear_submissions"("gear_check_id", "character_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "gear_submissions_character_id_created_at_idx" ON "gear_submissions"("character_id", "created_at");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "uploads" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "thumbnail_key" TEXT NOT NULL,
+    "original_name" TEXT,
+    "mime_type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "uploaded_by_id" INTEGER,
+    "character_id" INTEGER,
+    "item_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "uploads_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "uploads_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "uploads_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "uploads_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "items" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uploads_key_key" ON "uploads"("key");
+
+-- CreateIndex
+CREATE INDEX "uploads_character_id_idx" ON "uploads"("character_id");
+
+-- CreateIndex
+CREATE INDEX "uploads_item_id_idx" ON "uploads"("item_id");
+
+-- CreateIndex
+CREATE INDEX "uploads_created_at_idx" ON "uploads"("created_at");
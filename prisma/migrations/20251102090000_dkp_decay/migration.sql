@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "characters" ADD COLUMN "decay_exempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "dkp_decay_policies" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "percent" REAL NOT NULL,
+    "period" TEXT NOT NULL DEFAULT 'WEEKLY',
+    "floor" INTEGER NOT NULL DEFAULT 0,
+    "enabled_at" DATETIME,
+    "updated_by_id" INTEGER,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "dkp_decay_policies_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "dkp_decay_policies_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "dkp_decay_runs" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "period" TEXT NOT NULL,
+    "period_key" TEXT NOT NULL,
+    "percent" REAL NOT NULL,
+    "floor" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'APPLIED',
+    "character_count" INTEGER NOT NULL,
+    "total_decayed" INTEGER NOT NULL,
+    "triggered_by_id" INTEGER,
+    "reverted_by_id" INTEGER,
+    "reverted_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "dkp_decay_runs_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "dkp_decay_runs_triggered_by_id_fkey" FOREIGN KEY ("triggered_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "dkp_decay_runs_reverted_by_id_fkey" FOREIGN KEY ("reverted_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dkp_decay_policies_guild_id_key" ON "dkp_decay_policies"("guild_id");
+
+-- CreateIndex
+CREATE INDEX "dkp_decay_runs_guild_id_period_key_idx" ON "dkp_decay_runs"("guild_id", "period_key");
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "items" ADD COLUMN "gp_cost" INTEGER;
+
+-- AlterTable
+ALTER TABLE "loot_awards" ADD COLUMN "loot_system" TEXT NOT NULL DEFAULT 'DKP';
+ALTER TABLE "loot_awards" ADD COLUMN "gp_cost" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "loot_system_settings" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "category" TEXT,
+    "system" TEXT NOT NULL,
+    "updated_by_id" INTEGER,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "loot_system_settings_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "loot_system_settings_updated_by_id_fkey" FOREIGN KEY ("updated_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "epgp_settings" (
+    "guild_id" INTEGER NOT NULL PRIMARY KEY,
+    "base_gp" INTEGER NOT NULL DEFAULT 100,
+    "decay_percent" REAL NOT NULL DEFAULT 10,
+    "min_ep" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "epgp_settings_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "suicide_kings_positions" (
+    "character_id" INTEGER NOT NULL PRIMARY KEY,
+    "guild_id" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    CONSTRAINT "suicide_kings_positions_character_id_fkey" FOREIGN KEY ("character_id") REFERENCES "characters" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "suicide_kings_positions_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loot_system_settings_guild_id_category_key" ON "loot_system_settings"("guild_id", "category");
+
+-- CreateIndex
+CREATE INDEX "suicide_kings_positions_guild_id_position_idx" ON "suicide_kings_positions"("guild_id", "position");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "jobs" (
+    "name" TEXT NOT NULL PRIMARY KEY,
+    "description" TEXT,
+    "interval_seconds" INTEGER NOT NULL,
+    "max_retries" INTEGER NOT NULL DEFAULT 3,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "next_run_at" DATETIME NOT NULL,
+    "locked_by" TEXT,
+    "locked_until" DATETIME,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "last_run_at" DATETIME,
+    "last_status" TEXT,
+    "last_result" TEXT,
+    "last_error" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "job_name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "trigger" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "worker_id" TEXT NOT NULL,
+    "triggered_by_id" INTEGER,
+    "result" TEXT,
+    "error" TEXT,
+    "started_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" DATETIME,
+    CONSTRAINT "job_runs_job_name_fkey" FOREIGN KEY ("job_name") REFERENCES "jobs" ("name") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "job_runs_triggered_by_id_fkey" FOREIGN KEY ("triggered_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_name_started_at_idx" ON "job_runs"("job_name", "started_at");
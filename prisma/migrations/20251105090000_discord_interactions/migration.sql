@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "guilds" ADD COLUMN "discord_guild_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guilds_discord_guild_id_key" ON "guilds"("discord_guild_id");
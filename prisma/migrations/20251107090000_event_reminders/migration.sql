@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "event_reminders" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "event_id" INTEGER NOT NULL,
+    "minutes_before" INTEGER NOT NULL,
+    "audience" TEXT NOT NULL DEFAULT 'SIGNED_UP',
+    "channels" TEXT NOT NULL,
+    "send_at" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "sent_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "event_reminders_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "events" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "reminder_deliveries" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "reminder_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "sent_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "reminder_deliveries_reminder_id_fkey" FOREIGN KEY ("reminder_id") REFERENCES "event_reminders" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "reminder_deliveries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "user_id" INTEGER NOT NULL PRIMARY KEY,
+    "reminders_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "channels" TEXT NOT NULL DEFAULT '["DISCORD_DM"]',
+    "email" TEXT,
+    "quiet_hours_start" TEXT,
+    "quiet_hours_end" TEXT,
+    "time_zone" TEXT NOT NULL DEFAULT 'UTC',
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "notification_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_reminders_event_id_minutes_before_key" ON "event_reminders"("event_id", "minutes_before");
+
+-- CreateIndex
+CREATE INDEX "event_reminders_status_send_at_idx" ON "event_reminders"("status", "send_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminder_deliveries_reminder_id_user_id_channel_key" ON "reminder_deliveries"("reminder_id", "user_id", "channel");
+
+-- CreateIndex
+CREATE INDEX "reminder_deliveries_status_next_attempt_at_idx" ON "reminder_deliveries"("status", "next_attempt_at");
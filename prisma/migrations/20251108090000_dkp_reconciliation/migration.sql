@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "dkp_reconciliations" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "event_id" INTEGER NOT NULL,
+    "event_title" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "previous_reward" INTEGER NOT NULL,
+    "new_reward" INTEGER,
+    "character_count" INTEGER NOT NULL,
+    "total_delta" INTEGER NOT NULL,
+    "adjustments" TEXT NOT NULL,
+    "actor_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "dkp_reconciliations_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "dkp_reconciliations_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "dkp_reconciliations_guild_id_created_at_idx" ON "dkp_reconciliations"("guild_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "dkp_reconciliations_event_id_idx" ON "dkp_reconciliations"("event_id");
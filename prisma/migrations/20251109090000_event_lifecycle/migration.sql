@@ -0,0 +1,33 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "start_time" DATETIME NOT NULL,
+    "end_time" DATETIME NOT NULL,
+    "dkp_reward" INTEGER NOT NULL DEFAULT 0,
+    "signup_cutoff" DATETIME,
+    "finalized_at" DATETIME,
+    "finalized_by_id" INTEGER,
+    "check_in_code" TEXT,
+    "webhook_reminder_at" DATETIME,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "completed_at" DATETIME,
+    "cancelled_at" DATETIME,
+    "reopened_at" DATETIME,
+    "reopened_by_id" INTEGER,
+    CONSTRAINT "events_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "events_finalized_by_id_fkey" FOREIGN KEY ("finalized_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "events_reopened_by_id_fkey" FOREIGN KEY ("reopened_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Existing events start out scheduled; the event-lifecycle job moves past ones to completed as of their end time
+INSERT INTO "new_events" ("check_in_code", "description", "dkp_reward", "end_time", "finalized_at", "finalized_by_id", "guild_id", "id", "signup_cutoff", "start_time", "title", "webhook_reminder_at") SELECT "check_in_code", "description", "dkp_reward", "end_time", "finalized_at", "finalized_by_id", "guild_id", "id", "signup_cutoff", "start_time", "title", "webhook_reminder_at" FROM "events";
+DROP TABLE "events";
+ALTER TABLE "new_events" RENAME TO "events";
+CREATE INDEX "events_guild_id_start_time_idx" ON "events"("guild_id", "start_time");
+CREATE INDEX "events_status_start_time_idx" ON "events"("status", "start_time");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
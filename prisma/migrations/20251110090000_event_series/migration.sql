@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "event_series" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "rrule" TEXT NOT NULL,
+    "start_time" DATETIME NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "dkp_reward" INTEGER NOT NULL DEFAULT 0,
+    "signup_cutoff_minutes" INTEGER,
+    "composition" TEXT NOT NULL DEFAULT '[]',
+    "reminders" TEXT NOT NULL DEFAULT '[]',
+    "exdates" TEXT NOT NULL DEFAULT '[]',
+    "ends_at" DATETIME,
+    "materialized_until" DATETIME,
+    "created_by_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "event_series_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "event_series_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "guild_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "start_time" DATETIME NOT NULL,
+    "end_time" DATETIME NOT NULL,
+    "dkp_reward" INTEGER NOT NULL DEFAULT 0,
+    "signup_cutoff" DATETIME,
+    "finalized_at" DATETIME,
+    "finalized_by_id" INTEGER,
+    "check_in_code" TEXT,
+    "webhook_reminder_at" DATETIME,
+    "status" TEXT NOT NULL DEFAULT 'SCHEDULED',
+    "completed_at" DATETIME,
+    "cancelled_at" DATETIME,
+    "reopened_at" DATETIME,
+    "reopened_by_id" INTEGER,
+    "series_id" INTEGER,
+    "recurrence_id" DATETIME,
+    CONSTRAINT "events_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "events_finalized_by_id_fkey" FOREIGN KEY ("finalized_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "events_reopened_by_id_fkey" FOREIGN KEY ("reopened_by_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "events_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "event_series" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_events" ("cancelled_at", "check_in_code", "completed_at", "description", "dkp_reward", "end_time", "finalized_at", "finalized_by_id", "guild_id", "id", "reopened_at", "reopened_by_id", "signup_cutoff", "start_time", "status", "title", "webhook_reminder_at") SELECT "cancelled_at", "check_in_code", "completed_at", "description", "dkp_reward", "end_time", "finalized_at", "finalized_by_id", "guild_id", "id", "reopened_at", "reopened_by_id", "signup_cutoff", "start_time", "status", "title", "webhook_reminder_at" FROM "events";
+DROP TABLE "events";
+ALTER TABLE "new_events" RENAME TO "events";
+CREATE INDEX "events_guild_id_start_time_idx" ON "events"("guild_id", "start_time");
+CREATE INDEX "events_status_start_time_idx" ON "events"("status", "start_time");
+CREATE UNIQUE INDEX "events_series_id_recurrence_id_key" ON "events"("series_id", "recurrence_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "event_series_guild_id_idx" ON "event_series"("guild_id");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "guilds" ADD COLUMN "time_zone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "time_zone" TEXT;
+
+-- AlterTable
+ALTER TABLE "event_series" ADD COLUMN "time_zone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'OTHER';
+ALTER TABLE "events" ADD COLUMN "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "event_series" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'OTHER';
+
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "user_id" INTEGER NOT NULL,
+    "guild_id" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "last_fetched_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "calendar_feeds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "calendar_feeds_guild_id_fkey" FOREIGN KEY ("guild_id") REFERENCES "guilds" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_token_key" ON "calendar_feeds"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_user_id_guild_id_key" ON "calendar_feeds"("user_id", "guild_id");
@@ -0,0 +1,24 @@
+-- Rank wishes again in case concurrent writes left two with the same priority.
+-- Ranks are computed from a copy so the update does not read its own changes.
+CREATE TEMP TABLE "wish_ranks" AS
+SELECT "character_id", "item_id", (
+    SELECT COUNT(*) FROM "wishes" AS "other"
+    WHERE "other"."character_id" = "wishes"."character_id"
+      AND ("other"."priority" < "wishes"."priority"
+        OR ("other"."priority" = "wishes"."priority" AND "other"."item_id" <= "wishes"."item_id"))
+) AS "priority"
+FROM "wishes";
+
+UPDATE "wishes" SET "priority" = (
+    SELECT "wish_ranks"."priority" FROM "wish_ranks"
+    WHERE "wish_ranks"."character_id" = "wishes"."character_id"
+      AND "wish_ranks"."item_id" = "wishes"."item_id"
+);
+
+DROP TABLE "wish_ranks";
+
+-- DropIndex
+DROP INDEX "wishes_character_id_priority_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishes_character_id_priority_key" ON "wishes"("character_id", "priority");
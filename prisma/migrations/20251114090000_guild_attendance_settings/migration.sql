@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "guilds" ADD COLUMN "attendance_grace_hours" INTEGER NOT NULL DEFAULT 24;
+ALTER TABLE "guilds" ADD COLUMN "attendance_approval_required" BOOLEAN NOT NULL DEFAULT false;
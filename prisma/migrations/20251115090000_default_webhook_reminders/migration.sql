@@ -0,0 +1,53 @@
+-- Webhook reminders are sent by WEBHOOK reminder rules only. Upcoming events that were waiting for the
+-- old fixed webhook reminder get the default rule, 60 minutes before the start, in its place.
+-- Times may be stored as epoch milliseconds or as text, so both are converted to milliseconds.
+
+-- An existing 60 minute rule also posts to the webhooks
+UPDATE "event_reminders" SET
+    "channels" = substr("channels", 1, length("channels") - 1) || CASE WHEN "channels" = '[]' THEN '' ELSE ',' END || '"WEBHOOK"]',
+    "updated_at" = CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER)
+WHERE "minutes_before" = 60
+  AND "status" = 'SCHEDULED'
+  AND "channels" NOT LIKE '%"WEBHOOK"%'
+  AND "event_id" IN (
+    SELECT "id" FROM "events"
+    WHERE "status" = 'SCHEDULED'
+      AND "webhook_reminder_at" IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM "event_reminders" AS "rule"
+        WHERE "rule"."event_id" = "events"."id" AND "rule"."channels" LIKE '%"WEBHOOK"%'
+      )
+  );
+
+-- Other events get a new rule
+INSERT INTO "event_reminders" ("event_id", "minutes_before", "audience", "channels", "send_at", "status", "updated_at")
+SELECT
+    "id",
+    60,
+    'SIGNED_UP',
+    '["WEBHOOK"]',
+    (CASE typeof("start_time")
+        WHEN 'integer' THEN "start_time"
+        ELSE CAST(ROUND((julianday("start_time") - 2440587.5) * 86400000) AS INTEGER)
+    END) - 60 * 60 * 1000,
+    'SCHEDULED',
+    CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER)
+FROM "events"
+WHERE "status" = 'SCHEDULED'
+  AND "webhook_reminder_at" IS NULL
+  AND (CASE typeof("start_time")
+        WHEN 'integer' THEN "start_time"
+        ELSE CAST(ROUND((julianday("start_time") - 2440587.5) * 86400000) AS INTEGER)
+      END) > CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INTEGER)
+  AND NOT EXISTS (
+    SELECT 1 FROM "event_reminders" AS "rule"
+    WHERE "rule"."event_id" = "events"."id"
+      AND ("rule"."channels" LIKE '%"WEBHOOK"%' OR "rule"."minutes_before" = 60)
+  );
+
+-- The old reminder job and its run history
+DELETE FROM "job_runs" WHERE "job_name" = 'event-reminder-webhooks';
+DELETE FROM "jobs" WHERE "name" = 'event-reminder-webhooks';
+
+-- AlterTable
+ALTER TABLE "events" DROP COLUMN "webhook_reminder_at";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "overridden_fields" TEXT NOT NULL DEFAULT '[]';
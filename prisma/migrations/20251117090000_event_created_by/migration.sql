@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "created_by_id" INTEGER REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Occurrences were created by whoever created their series
+UPDATE "events"
+SET "created_by_id" = (SELECT "created_by_id" FROM "event_series" WHERE "event_series"."id" = "events"."series_id")
+WHERE "series_id" IS NOT NULL;
@@ -5,7 +5,7 @@ const swaggerDefinition = {
   info: {
     title: 'Guildie API',
     version: '1.0.0',
-    description: 'A comprehensive guild management REST API with Discord authentication, character management, DKP tracking, and event attendance.',
+    description: 'A comprehensive guild management REST API with Discord authentication, character management, DKP tracking, and event attendance. Guild data is scoped to the active guild, chosen with the X-Guild-Id header or the /api/guild/{guildId}/... path prefix; roles are per guild.',
     contact: {
       name: 'Guildie API Support',
       url: 'https://github.com/Tubnielsen/Guildie'
@@ -44,19 +44,51 @@ const swaggerDefinition = {
           discriminator: { type: 'string', description: 'Discord discriminator' },
           avatar: { type: 'string', nullable: true, description: 'Discord avatar URL' },
           email: { type: 'string', nullable: true, description: 'Discord email' },
-          role: { 
-            type: 'string', 
-            enum: ['MEMBER', 'OFFICER', 'ADMIN'], 
-            description: 'User role in guild' 
+          timeZone: { type: 'string', nullable: true, example: 'America/New_York', description: 'Zone times are shown in; null follows the guild' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      Guild: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Guild ID' },
+          name: { type: 'string', description: 'Guild name' },
+          slug: { type: 'string', description: 'Unique URL-friendly identifier' },
+          discordGuildId: { type: 'string', nullable: true, description: 'Linked Discord server; its slash commands act on this guild' },
+          timeZone: { type: 'string', default: 'UTC', example: 'Europe/Copenhagen', description: 'Zone for entered event times and recurring events' },
+          attendanceGraceHours: { type: 'integer', default: 24, description: 'Hours after an event completes during which attendance can still change' },
+          attendanceApprovalRequired: { type: 'boolean', default: false, description: "Members' self check-ins wait for officer approval before DKP is awarded" },
+          role: {
+            type: 'string',
+            enum: ['MEMBER', 'OFFICER', 'ADMIN'],
+            description: 'Your role in this guild'
           },
+          memberCount: { type: 'integer' },
+          characterCount: { type: 'integer' },
+          eventCount: { type: 'integer' },
           createdAt: { type: 'string', format: 'date-time' },
           updatedAt: { type: 'string', format: 'date-time' }
         }
       },
+      GuildMember: {
+        type: 'object',
+        properties: {
+          guildId: { type: 'integer', description: 'Guild ID' },
+          userId: { type: 'integer', description: 'User ID' },
+          role: {
+            type: 'string',
+            enum: ['MEMBER', 'OFFICER', 'ADMIN'],
+            description: 'Role within the guild'
+          },
+          joinedAt: { type: 'string', format: 'date-time' }
+        }
+      },
       Character: {
         type: 'object',
         properties: {
           id: { type: 'integer', description: 'Character ID' },
+          guildId: { type: 'integer', description: 'Guild the character belongs to' },
           userId: { type: 'integer', description: 'Owner user ID' },
           name: { type: 'string', description: 'Character name' },
           role: { 
@@ -74,16 +106,37 @@ const swaggerDefinition = {
             enum: ['ACTIVE', 'NOT_ACTIVE'],
             description: 'Character status' 
           },
-          dkp: { type: 'integer', description: 'Dragon Kill Points' }
+          dkp: { type: 'integer', description: 'Dragon Kill Points' },
+          wishlistPoints: { type: 'integer', description: 'Remaining wishlist point budget' },
+          decayExempt: { type: 'boolean', description: 'Excluded from DKP decay' }
         }
       },
       Item: {
         type: 'object',
         properties: {
           id: { type: 'integer', description: 'Item ID' },
+          guildId: { type: 'integer', description: 'Guild the item belongs to' },
           name: { type: 'string', description: 'Item name' },
           imageUrl: { type: 'string', nullable: true, description: 'Item image URL' },
           minDkpCost: { type: 'integer', description: 'Minimum DKP cost' },
+          slot: {
+            type: 'string',
+            nullable: true,
+            enum: ['HEAD', 'SHOULDERS', 'CHEST', 'HANDS', 'LEGS', 'FEET', 'CLOAK', 'BELT', 'NECKLACE', 'BRACELET', 'RING', 'EARRING', 'MAIN_HAND', 'OFF_HAND', 'OTHER'],
+            description: 'Gear slot'
+          },
+          category: {
+            type: 'string',
+            nullable: true,
+            enum: ['ARMOR', 'WEAPON', 'ACCESSORY', 'MATERIAL', 'CONSUMABLE', 'OTHER']
+          },
+          rarity: {
+            type: 'string',
+            nullable: true,
+            enum: ['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY']
+          },
+          wishlistPointCost: { type: 'integer', nullable: true, description: 'Wishlist points a wish costs (null = rarity default)' },
+          gpCost: { type: 'integer', nullable: true, description: 'GP charged under EPGP (null = minimum DKP cost)' },
           wishesCount: { type: 'integer', description: 'Number of characters wanting this item' }
         }
       },
@@ -91,19 +144,197 @@ const swaggerDefinition = {
         type: 'object',
         properties: {
           id: { type: 'integer', description: 'Event ID' },
+          guildId: { type: 'integer', description: 'Guild the event belongs to' },
           title: { type: 'string', description: 'Event title' },
           description: { type: 'string', nullable: true, description: 'Event description' },
           startTime: { type: 'string', format: 'date-time', description: 'Event start time' },
           endTime: { type: 'string', format: 'date-time', description: 'Event end time' },
+          local: { $ref: '#/components/schemas/LocalTimes' },
           dkpReward: { type: 'integer', description: 'DKP reward for attendance' },
+          signupCutoff: { type: 'string', format: 'date-time', description: 'When signups close' },
+          status: { type: 'string', enum: ['DRAFT', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'], description: 'Lifecycle status' },
+          type: { type: 'string', enum: ['RAID', 'DUNGEON', 'PVP', 'SOCIAL', 'OTHER'] },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+          cancelledAt: { type: 'string', format: 'date-time', nullable: true },
+          reopenedAt: { type: 'string', format: 'date-time', nullable: true, description: 'When an officer last reopened the event' },
+          seriesId: { type: 'integer', nullable: true, description: 'Recurring series the event is an occurrence of' },
+          recurrenceId: { type: 'string', format: 'date-time', nullable: true, description: 'Start time the series gave this occurrence, which stays the same when the occurrence is moved' },
+          overriddenFields: { type: 'array', items: { type: 'string', enum: ['title', 'description', 'dkpReward', 'type', 'signupCutoff', 'composition', 'reminders'] }, description: 'Fields edited on this occurrence alone, which series edits leave as they are' },
+          composition: { $ref: '#/components/schemas/EventComposition' },
+          reminders: { type: 'array', items: { $ref: '#/components/schemas/EventReminder' } },
+          finalizedAt: { type: 'string', format: 'date-time', nullable: true, description: 'When attendance and DKP were finalized' },
+          checkInCodeRequired: { type: 'boolean', description: 'Members need a check-in code to record their own attendance' },
           attendanceCount: { type: 'integer', description: 'Number of attendees' }
         }
       },
+      EventSeries: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          title: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          rrule: { type: 'string', example: 'FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20261231', description: 'iCalendar RRULE (FREQ DAILY, WEEKLY or MONTHLY; INTERVAL, BYDAY, COUNT, UNTIL)' },
+          startTime: { type: 'string', format: 'date-time', description: 'Start of the first occurrence' },
+          timeZone: { type: 'string', example: 'Europe/Copenhagen', description: 'Occurrences keep their local time of day in this zone' },
+          durationMinutes: { type: 'integer' },
+          dkpReward: { type: 'integer' },
+          type: { type: 'string', enum: ['RAID', 'DUNGEON', 'PVP', 'SOCIAL', 'OTHER'] },
+          signupCutoffMinutes: { type: 'integer', nullable: true, description: 'Signups close this many minutes before each occurrence' },
+          composition: { $ref: '#/components/schemas/EventComposition' },
+          reminders: { type: 'array', items: { $ref: '#/components/schemas/EventReminderInput' } },
+          exdates: { type: 'array', items: { type: 'string', format: 'date-time' }, description: 'Occurrence start times that are skipped' },
+          endsAt: { type: 'string', format: 'date-time', nullable: true, description: 'Last occurrence, or null for a series without an end' },
+          materializedUntil: { type: 'string', format: 'date-time', nullable: true, description: 'Occurrences up to this time have been created as events' },
+          createdById: { type: 'integer', nullable: true },
+          eventCount: { type: 'integer', description: 'Occurrences created so far (list only)' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      EventSeriesInput: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', maxLength: 200 },
+          description: { type: 'string', nullable: true, maxLength: 1000 },
+          rrule: { type: 'string', example: 'FREQ=MONTHLY;BYDAY=-1FR;COUNT=12' },
+          startTime: { type: 'string', format: 'date-time', description: 'Without an offset, a local time in the series time zone' },
+          timeZone: { type: 'string', example: 'Europe/Copenhagen' },
+          durationMinutes: { type: 'integer', minimum: 1, maximum: 10080 },
+          dkpReward: { type: 'integer', minimum: 0 },
+          type: { type: 'string', enum: ['RAID', 'DUNGEON', 'PVP', 'SOCIAL', 'OTHER'] },
+          signupCutoffMinutes: { type: 'integer', nullable: true, minimum: 0 },
+          composition: { $ref: '#/components/schemas/EventComposition' },
+          reminders: { type: 'array', items: { $ref: '#/components/schemas/EventReminderInput' } },
+          exdates: { type: 'array', items: { type: 'string', format: 'date-time' } }
+        }
+      },
+      CalendarFeed: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', example: 'https://api.guildie.com/api/calendar/<token>.ics', description: 'Subscription URL for calendar apps' },
+          lastFetchedAt: { type: 'string', format: 'date-time', nullable: true, description: 'When a calendar app last read the feed' },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      LocalTimes: {
+        type: 'object',
+        description: "The response's times in the reader's time zone (their own, or the guild's when they have not set one)",
+        properties: {
+          timeZone: { type: 'string', example: 'Europe/Copenhagen' },
+          startTime: { type: 'string', example: '2025-11-10T20:00:00+01:00' },
+          endTime: { type: 'string', example: '2025-11-10T23:00:00+01:00' },
+          signupCutoff: { type: 'string', nullable: true }
+        }
+      },
+      EventComposition: {
+        type: 'object',
+        description: 'Desired number of characters per role',
+        additionalProperties: { type: 'integer', minimum: 0 },
+        example: { TANK: 2, HEALER: 4, DPS: 14 }
+      },
+      EventReminderInput: {
+        type: 'object',
+        required: ['minutesBefore'],
+        properties: {
+          minutesBefore: { type: 'integer', minimum: 1, maximum: 20160, example: 60 },
+          audience: { type: 'string', enum: ['SIGNED_UP', 'ALL_ACTIVE'], default: 'SIGNED_UP', description: 'Members signed up (except declined) or every member with an active character' },
+          channels: {
+            type: 'array',
+            items: { type: 'string', example: 'DISCORD_DM' },
+            default: ['DISCORD_DM'],
+            description: 'DISCORD_DM, EMAIL (each member gets the ones they accept) and WEBHOOK (posted once to EVENT_REMINDER webhooks)'
+          }
+        }
+      },
+      EventReminder: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          minutesBefore: { type: 'integer' },
+          audience: { type: 'string', enum: ['SIGNED_UP', 'ALL_ACTIVE'] },
+          channels: { type: 'array', items: { type: 'string' } },
+          sendAt: { type: 'string', format: 'date-time' },
+          status: { type: 'string', enum: ['SCHEDULED', 'SENT', 'SKIPPED'], description: 'SKIPPED when its time had passed when set or when the event moved' },
+          sentAt: { type: 'string', format: 'date-time', nullable: true },
+          deliveries: { type: 'object', additionalProperties: { type: 'integer' }, description: 'Member deliveries per status (PENDING, SENT, FAILED, SKIPPED)' }
+        }
+      },
+      NotificationPreferences: {
+        type: 'object',
+        properties: {
+          remindersEnabled: { type: 'boolean', default: true },
+          channels: { type: 'array', items: { type: 'string' }, default: ['DISCORD_DM'], description: 'Personal channels to be reminded on' },
+          email: { type: 'string', nullable: true, description: 'Address for email reminders; defaults to the Discord account email' },
+          quietHours: {
+            type: 'object',
+            nullable: true,
+            description: 'Reminders due in this window are held until it ends, or skipped if the event starts first',
+            properties: {
+              start: { type: 'string', example: '23:00' },
+              end: { type: 'string', example: '08:00' }
+            }
+          },
+          timeZone: { type: 'string', default: 'UTC', example: 'Europe/Copenhagen' }
+        }
+      },
+      EventSignup: {
+        type: 'object',
+        properties: {
+          character: {
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              name: { type: 'string' },
+              role: { type: 'string', nullable: true, enum: ['DPS', 'TANK', 'HEALER'] }
+            }
+          },
+          status: { type: 'string', enum: ['ACCEPTED', 'TENTATIVE', 'DECLINED', 'BENCH'] },
+          role: { type: 'string', nullable: true, enum: ['DPS', 'TANK', 'HEALER'], description: 'Role the character fills for this event' },
+          note: { type: 'string', nullable: true },
+          confirmed: { type: 'boolean', description: 'Confirmed by an officer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      EventRoster: {
+        type: 'object',
+        properties: {
+          roles: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                role: { type: 'string', enum: ['TANK', 'HEALER', 'DPS', 'UNASSIGNED'] },
+                needed: { type: 'integer' },
+                accepted: { type: 'integer' },
+                confirmed: { type: 'integer' },
+                tentative: { type: 'integer' },
+                bench: { type: 'integer' },
+                declined: { type: 'integer' },
+                open: { type: 'integer', description: 'Slots still to fill' },
+                isFilled: { type: 'boolean' }
+              }
+            }
+          },
+          totals: {
+            type: 'object',
+            properties: {
+              needed: { type: 'integer' },
+              accepted: { type: 'integer' },
+              open: { type: 'integer' },
+              isFilled: { type: 'boolean' }
+            }
+          }
+        }
+      },
       Attendance: {
         type: 'object',
         properties: {
           eventId: { type: 'integer', description: 'Event ID' },
           characterId: { type: 'integer', description: 'Character ID' },
+          status: { type: 'string', enum: ['PRESENT', 'LATE', 'BENCH'], description: 'How the character took part' },
+          dkpAwarded: { type: 'integer', description: 'DKP awarded for this attendance' },
+          pending: { type: 'boolean', description: 'Self check-in waiting for officer approval' },
           event: { $ref: '#/components/schemas/Event' },
           character: { $ref: '#/components/schemas/Character' }
         }
@@ -113,10 +344,375 @@ const swaggerDefinition = {
         properties: {
           characterId: { type: 'integer', description: 'Character ID' },
           itemId: { type: 'integer', description: 'Item ID' },
+          priority: { type: 'integer', description: 'Rank on the character\'s wishlist (1 = most wanted)' },
+          pointCost: { type: 'integer', description: 'Wishlist points paid for this wish' },
           character: { $ref: '#/components/schemas/Character' },
           item: { $ref: '#/components/schemas/Item' }
         }
       },
+      WishlistLimits: {
+        type: 'object',
+        properties: {
+          globalLimit: { type: 'integer', nullable: true, description: 'Maximum wishes per character across all slots (null = unlimited)' },
+          slotLimits: {
+            type: 'object',
+            additionalProperties: { type: 'integer', minimum: 0 },
+            description: 'Maximum wishes per character for each slot; 0 closes the slot',
+            example: { RING: 2, CHEST: 1 }
+          }
+        }
+      },
+      LootSystems: {
+        type: 'object',
+        properties: {
+          defaultSystem: { type: 'string', enum: ['DKP', 'EPGP', 'SUICIDE_KINGS'], description: 'System for items without a category override' },
+          categorySystems: {
+            type: 'object',
+            additionalProperties: { type: 'string', enum: ['DKP', 'EPGP', 'SUICIDE_KINGS'] },
+            description: 'Loot system per item category',
+            example: { WEAPON: 'EPGP', ACCESSORY: 'SUICIDE_KINGS' }
+          },
+          epgp: {
+            type: 'object',
+            properties: {
+              baseGp: { type: 'integer', description: 'GP every character starts with', example: 100 },
+              decayPercent: { type: 'number', description: 'EP and GP lost per week', example: 10 },
+              minEp: { type: 'integer', description: 'Characters below this EP rank last' }
+            }
+          }
+        }
+      },
+      LootStanding: {
+        type: 'object',
+        properties: {
+          rank: { type: 'integer' },
+          character: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' }, role: { type: 'string', nullable: true } } },
+          dkp: { type: 'integer', description: 'DKP only' },
+          ep: { type: 'number', description: 'EPGP only: decayed effort points from attendance' },
+          gp: { type: 'number', description: 'EPGP only: base GP plus decayed gear points from loot' },
+          priority: { type: 'number', description: 'EPGP only: EP / GP' },
+          eligible: { type: 'boolean', description: 'EPGP only: has the minimum EP' },
+          position: { type: 'integer', description: 'Suicide kings only: place on the full list' },
+          wishPriority: { type: 'integer', nullable: true, description: "How high the character ranks the item on their wishlist (item standings only)" }
+        }
+      },
+      WishlistPointTransaction: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Transaction ID' },
+          delta: { type: 'integer', description: 'Point change (negative when spent or revoked)' },
+          balanceAfter: { type: 'integer', description: 'Remaining points after this transaction' },
+          reason: { type: 'string', nullable: true },
+          sourceType: {
+            type: 'string',
+            enum: ['GRANT', 'REVOKE', 'WISH', 'REFUND', 'FULFILLED', 'ADJUSTMENT'],
+            description: 'What caused the change'
+          },
+          itemId: { type: 'integer', nullable: true, description: 'Item the points were spent on or refunded for' },
+          actor: { type: 'object', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      DkpTransaction: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Transaction ID' },
+          characterId: { type: 'integer', description: 'Character ID' },
+          delta: { type: 'integer', description: 'DKP change (negative for spending)' },
+          balanceAfter: { type: 'integer', description: 'Character balance after this transaction' },
+          reason: { type: 'string', nullable: true, description: 'Why the balance changed' },
+          sourceType: {
+            type: 'string',
+            enum: ['ATTENDANCE', 'MANUAL', 'AUCTION', 'LOOT', 'DECAY', 'ADJUSTMENT', 'RECONCILIATION'],
+            description: 'What caused the change'
+          },
+          sourceId: { type: 'integer', nullable: true, description: 'ID of the source record (event, auction, ...)' },
+          actorId: { type: 'integer', nullable: true, description: 'User who made the change' },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      DkpDecayPolicy: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', description: 'Whether decay runs automatically' },
+          percent: { type: 'number', description: 'Share of each balance removed per period', example: 10 },
+          period: { type: 'string', enum: ['WEEKLY', 'MONTHLY'] },
+          floor: { type: 'integer', description: 'Balances never decay below this' },
+          enabledAt: { type: 'string', format: 'date-time', nullable: true },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      DkpDecayRun: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Run ID; DECAY ledger entries use it as their sourceId' },
+          period: { type: 'string', enum: ['WEEKLY', 'MONTHLY'] },
+          periodKey: { type: 'string', example: '2025-W44', description: 'ISO week or month the run belongs to (UTC)' },
+          percent: { type: 'number' },
+          floor: { type: 'integer' },
+          status: { type: 'string', enum: ['APPLIED', 'REVERTED'] },
+          characterCount: { type: 'integer', description: 'Characters that lost DKP' },
+          totalDecayed: { type: 'integer' },
+          triggeredById: { type: 'integer', nullable: true, description: 'Admin who ran it; null for scheduled runs' },
+          revertedById: { type: 'integer', nullable: true },
+          revertedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      DkpReconciliation: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          eventId: { type: 'integer', description: 'The event, which may have been deleted since' },
+          eventTitle: { type: 'string' },
+          reason: { type: 'string', enum: ['EVENT_UPDATED', 'EVENT_DELETED'] },
+          status: { type: 'string', enum: ['APPLIED', 'SKIPPED'], description: 'SKIPPED when the change was made with reconcileDkp=false' },
+          previousReward: { type: 'integer' },
+          newReward: { type: 'integer', nullable: true },
+          characterCount: { type: 'integer' },
+          totalDelta: { type: 'integer' },
+          adjustments: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                characterId: { type: 'integer' },
+                name: { type: 'string' },
+                status: { type: 'string', enum: ['PRESENT', 'LATE', 'BENCH'] },
+                previousAward: { type: 'integer' },
+                newAward: { type: 'integer' },
+                delta: { type: 'integer' }
+              }
+            }
+          },
+          actor: { type: 'object', nullable: true, properties: { id: { type: 'integer' }, username: { type: 'string' } } },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      NotificationWebhook: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          category: { type: 'string', enum: ['EVENT_CREATED', 'EVENT_REMINDER', 'LOOT_AWARDED', 'DKP_ADJUSTED', 'APPLICATION_RECEIVED'] },
+          name: { type: 'string', nullable: true },
+          url: { type: 'string', description: 'Webhook URL with its token masked' },
+          enabled: { type: 'boolean' },
+          createdById: { type: 'integer', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      WebhookDelivery: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          webhook: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string', nullable: true }, category: { type: 'string' } } },
+          category: { type: 'string' },
+          status: { type: 'string', enum: ['PENDING', 'SENT', 'FAILED'] },
+          attempts: { type: 'integer', description: 'Up to 5, with backoff from 30 seconds between them' },
+          nextAttemptAt: { type: 'string', format: 'date-time', nullable: true },
+          lastStatusCode: { type: 'integer', nullable: true },
+          lastError: { type: 'string', nullable: true },
+          payload: { type: 'object', description: 'Message posted to Discord' },
+          sentAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      Job: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', example: 'dkp-decay' },
+          description: { type: 'string', nullable: true },
+          intervalSeconds: { type: 'integer' },
+          maxRetries: { type: 'integer', description: 'Retries with backoff after a failure before waiting for the next interval' },
+          enabled: { type: 'boolean', description: 'Disabled jobs only run when triggered manually' },
+          nextRunAt: { type: 'string', format: 'date-time' },
+          lockedBy: { type: 'string', nullable: true, description: 'Worker holding the lease' },
+          lockedUntil: { type: 'string', format: 'date-time', nullable: true },
+          failures: { type: 'integer', description: 'Consecutive failed runs' },
+          lastRunAt: { type: 'string', format: 'date-time', nullable: true },
+          lastStatus: { type: 'string', enum: ['RUNNING', 'SUCCEEDED', 'FAILED'], nullable: true },
+          lastResult: { type: 'object', nullable: true },
+          lastError: { type: 'string', nullable: true },
+          registered: { type: 'boolean', description: 'Whether this server knows the job; unregistered jobs are left over from older versions' },
+          running: { type: 'boolean' }
+        }
+      },
+      JobRun: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          jobName: { type: 'string' },
+          status: { type: 'string', enum: ['RUNNING', 'SUCCEEDED', 'FAILED'] },
+          trigger: { type: 'string', enum: ['SCHEDULE', 'MANUAL'] },
+          attempt: { type: 'integer', description: '1 for a normal run, higher for retries' },
+          workerId: { type: 'string' },
+          triggeredBy: { type: 'object', nullable: true },
+          result: { type: 'object', nullable: true },
+          error: { type: 'string', nullable: true },
+          startedAt: { type: 'string', format: 'date-time' },
+          finishedAt: { type: 'string', format: 'date-time', nullable: true }
+        }
+      },
+      Auction: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Auction ID' },
+          status: { type: 'string', enum: ['OPEN', 'CLOSED', 'CANCELLED'] },
+          mode: { type: 'string', enum: ['OPEN', 'SEALED'], description: 'Open auctions show bids; sealed bids stay hidden until close' },
+          minBid: { type: 'integer', description: 'Lowest accepted bid' },
+          tieBreaker: { type: 'string', enum: ['ATTENDANCE', 'ROLL', 'WISHLIST'], description: 'How equal top bids are resolved' },
+          endsAt: { type: 'string', format: 'date-time', nullable: true, description: 'Auto-close time' },
+          item: { $ref: '#/components/schemas/Item' },
+          event: { type: 'object', nullable: true },
+          winner: { type: 'object', nullable: true },
+          winningBid: { type: 'integer', nullable: true },
+          bidCount: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          closedAt: { type: 'string', format: 'date-time', nullable: true }
+        }
+      },
+      AuctionBid: {
+        type: 'object',
+        properties: {
+          character: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' } } },
+          amount: { type: 'integer', description: 'Bid in DKP' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      LootAward: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Loot award ID' },
+          item: { $ref: '#/components/schemas/Item' },
+          character: { type: 'object', properties: { id: { type: 'integer' }, name: { type: 'string' }, role: { type: 'string', nullable: true } } },
+          event: { type: 'object', nullable: true, description: 'Event the item dropped in' },
+          auctionId: { type: 'integer', nullable: true, description: 'Auction the item was won in' },
+          lootSystem: { type: 'string', enum: ['DKP', 'EPGP', 'SUICIDE_KINGS'], description: 'Loot system the item was awarded under' },
+          dkpCost: { type: 'integer', description: 'DKP paid for the item' },
+          gpCost: { type: 'integer', description: 'GP charged under EPGP' },
+          awardedBy: { type: 'object', nullable: true, properties: { id: { type: 'integer' }, username: { type: 'string' } } },
+          note: { type: 'string', nullable: true },
+          awardedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      AuditEntry: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Audit entry ID' },
+          actor: { $ref: '#/components/schemas/User' },
+          actorRole: { type: 'string', nullable: true, description: 'Role of the actor at the time of the change' },
+          action: { type: 'string', description: 'Action performed', example: 'CHARACTER_DKP_UPDATE' },
+          targetType: { type: 'string', description: 'Type of the changed record', example: 'CHARACTER' },
+          targetId: { type: 'string', nullable: true, description: 'ID of the changed record' },
+          before: { type: 'object', nullable: true, description: 'Snapshot before the change' },
+          after: { type: 'object', nullable: true, description: 'Snapshot after the change' },
+          changes: { type: 'object', nullable: true, description: 'Changed fields as { field: { from, to } }' },
+          method: { type: 'string', description: 'HTTP method' },
+          path: { type: 'string', description: 'Request path' },
+          ip: { type: 'string', nullable: true, description: 'Client IP address' },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      RecruitmentQuestion: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Question ID' },
+          position: { type: 'integer', description: 'Order on the form (1 = first)' },
+          label: { type: 'string', description: 'Question text' },
+          type: { type: 'string', enum: ['TEXT', 'CHOICE', 'NUMBER', 'URL'], description: 'Expected answer type' },
+          required: { type: 'boolean' },
+          options: { type: 'array', nullable: true, items: { type: 'string' }, description: 'Choices for CHOICE questions' }
+        }
+      },
+      RecruitmentForm: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Form ID' },
+          title: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          active: { type: 'boolean', description: 'Whether the form accepts applications' },
+          questions: { type: 'array', items: { $ref: '#/components/schemas/RecruitmentQuestion' } },
+          applicationCount: { type: 'integer' }
+        }
+      },
+      RecruitmentApplication: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Application ID' },
+          form: { type: 'object', properties: { id: { type: 'integer' }, title: { type: 'string' } } },
+          discordId: { type: 'string', description: 'Applicant Discord user ID' },
+          discordUsername: { type: 'string' },
+          status: { type: 'string', enum: ['NEW', 'REVIEWING', 'ACCEPTED', 'REJECTED'] },
+          userId: { type: 'integer', nullable: true, description: 'Linked user once accepted' },
+          votes: {
+            type: 'object',
+            properties: {
+              approve: { type: 'integer' },
+              reject: { type: 'integer' },
+              total: { type: 'integer' }
+            }
+          },
+          commentCount: { type: 'integer' },
+          reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      GearCheck: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Gear check ID' },
+          title: { type: 'string' },
+          description: { type: 'string', nullable: true },
+          dueAt: { type: 'string', format: 'date-time' },
+          status: { type: 'string', enum: ['OPEN', 'CLOSED'] },
+          progress: {
+            type: 'object',
+            description: 'Target characters by the state of their latest submission',
+            properties: {
+              targets: { type: 'integer' },
+              approved: { type: 'integer' },
+              pending: { type: 'integer' },
+              rejected: { type: 'integer' },
+              missing: { type: 'integer' },
+              overdue: { type: 'integer' }
+            }
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+          closedAt: { type: 'string', format: 'date-time', nullable: true }
+        }
+      },
+      GearSubmission: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Submission ID' },
+          gearCheckId: { type: 'integer' },
+          characterId: { type: 'integer' },
+          imageUrls: { type: 'array', items: { type: 'string' }, description: 'Gear and skill screenshots' },
+          skillBuild: { type: 'string', nullable: true, description: 'Skill setup as text' },
+          status: { type: 'string', enum: ['PENDING', 'APPROVED', 'REJECTED'] },
+          feedback: { type: 'string', nullable: true, description: 'Officer feedback' },
+          reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      Upload: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Upload ID' },
+          url: { type: 'string', description: 'Stable URL of the re-encoded image', example: '/api/uploads/files/3f2a9c0d4b1e8f7a6c5d4e3f2a1b0c9d.png' },
+          thumbnailUrl: { type: 'string', description: 'Stable URL of the WebP thumbnail' },
+          mimeType: { type: 'string', enum: ['image/jpeg', 'image/png', 'image/webp'] },
+          size: { type: 'integer', description: 'Stored size in bytes' },
+          width: { type: 'integer' },
+          height: { type: 'integer' },
+          originalName: { type: 'string', nullable: true },
+          characterId: { type: 'integer', nullable: true, description: 'Character the image belongs to' },
+          itemId: { type: 'integer', nullable: true, description: 'Item the image belongs to' },
+          createdAt: { type: 'string', format: 'date-time' }
+        }
+      },
       Error: {
         type: 'object',
         properties: {
@@ -136,6 +732,15 @@ const swaggerDefinition = {
         }
       }
     },
+    parameters: {
+      GuildHeader: {
+        in: 'header',
+        name: 'X-Guild-Id',
+        required: false,
+        schema: { type: 'integer' },
+        description: 'Active guild for /api/<resource> routes. Optional when you belong to a single guild; the same routes are also served under /api/guild/{guildId}/<resource>'
+      }
+    },
     responses: {
       UnauthorizedError: {
         description: 'Authentication token is missing or invalid',
@@ -185,6 +790,10 @@ const swaggerDefinition = {
       name: 'Users',
       description: 'User profile and management'
     },
+    {
+      name: 'Guilds',
+      description: 'Guild creation, membership and settings'
+    },
     {
       name: 'Characters',
       description: 'Character CRUD operations'
@@ -205,9 +814,45 @@ const swaggerDefinition = {
       name: 'Wishes',
       description: 'Item wishlist system'
     },
+    {
+      name: 'DKP',
+      description: 'DKP ledger and balance reconciliation'
+    },
+    {
+      name: 'Auctions',
+      description: 'Loot auctions with DKP bidding'
+    },
+    {
+      name: 'Loot',
+      description: 'Loot distribution history'
+    },
+    {
+      name: 'Gear Checks',
+      description: 'Officer requests for gear and skill setups, with review and history'
+    },
+    {
+      name: 'Uploads',
+      description: 'Image uploads for characters, items and gear checks'
+    },
+    {
+      name: 'Recruitment',
+      description: 'Public guild applications and the officer review inbox'
+    },
     {
       name: 'Admin',
       description: 'Administrative operations'
+    },
+    {
+      name: 'Notifications',
+      description: 'Discord webhook notifications per category, with delivery log'
+    },
+    {
+      name: 'Discord',
+      description: 'Slash commands via the signed Discord interactions endpoint'
+    },
+    {
+      name: 'Jobs',
+      description: 'Background job schedules and run history (system administrators only)'
     }
   ]
 };
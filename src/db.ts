@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 
 // Create a global variable to store the Prisma client in development
 const globalForPrisma = globalThis as unknown as {
@@ -35,6 +35,226 @@ export type UpdateUserTokens = {
   expiresAt: bigint;
 };
 
+export type TransactionClient = Prisma.TransactionClient;
+
+// Wish ranks are unique per character and SQLite checks that row by row, so ranks being shifted
+// are parked above this offset first instead of passing through each other
+const WISH_RANK_OFFSET = 1_000_000;
+
+export type DkpSourceType = 'ATTENDANCE' | 'MANUAL' | 'AUCTION' | 'LOOT' | 'DECAY' | 'ADJUSTMENT' | 'RECONCILIATION';
+
+// Describes why a DKP balance changed; every change is written to the ledger
+export type DkpLedgerEntry = {
+  sourceType: DkpSourceType;
+  sourceId?: number | null;
+  reason?: string | null;
+  actorId?: number | null;
+};
+
+export type DecayPeriod = 'WEEKLY' | 'MONTHLY';
+
+export type DkpReconciliationReason = 'EVENT_UPDATED' | 'EVENT_DELETED';
+
+export type WishlistPointSource = 'GRANT' | 'REVOKE' | 'WISH' | 'REFUND' | 'FULFILLED' | 'ADJUSTMENT';
+
+// Describes why a wishlist point balance changed; mirrors the DKP ledger
+export type WishlistPointEntry = {
+  sourceType: WishlistPointSource;
+  itemId?: number | null;
+  reason?: string | null;
+  actorId?: number | null;
+};
+
+export type CharacterRole = 'DPS' | 'TANK' | 'HEALER';
+
+export type SignupStatus = 'ACCEPTED' | 'TENTATIVE' | 'DECLINED' | 'BENCH';
+
+// Desired number of characters per role for an event
+export type EventCompositionInput = { role: CharacterRole; count: number }[];
+
+export type AttendanceStatus = 'PRESENT' | 'LATE' | 'BENCH';
+
+export type EventStatus = 'DRAFT' | 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+// Mirrored from the Prisma enum so routes can validate input
+export const EVENT_TYPES = ['RAID', 'DUNGEON', 'PVP', 'SOCIAL', 'OTHER'] as const;
+export type EventType = typeof EVENT_TYPES[number];
+
+// What finalizing an event needs to know about its signups and existing attendance
+export type FinalizationRoster = {
+  title: string;
+  dkpReward: number;
+  signups: {
+    characterId: number;
+    status: SignupStatus;
+    confirmed: boolean;
+    character: { id: number; name: string };
+  }[];
+  attendances: { characterId: number }[];
+};
+
+// One attendance row written when an event is finalized
+export type FinalizedAttendance = {
+  characterId: number;
+  status: AttendanceStatus;
+  dkpAwarded: number;
+  reason: string;
+};
+
+export type QuestionType = 'TEXT' | 'CHOICE' | 'NUMBER' | 'URL';
+
+export type ApplicationStatus = 'NEW' | 'REVIEWING' | 'ACCEPTED' | 'REJECTED';
+
+export type RecruitmentQuestionInput = {
+  label: string;
+  type: QuestionType;
+  required: boolean;
+  options: string[] | null;
+};
+
+// Answers are stored with a copy of the question so later form edits do not change old applications
+export type ApplicationAnswer = {
+  questionId: number;
+  label: string;
+  type: QuestionType;
+  value: string | number | null;
+};
+
+export type LootSystem = 'DKP' | 'EPGP' | 'SUICIDE_KINGS';
+
+export type NotificationCategory = 'EVENT_CREATED' | 'EVENT_REMINDER' | 'LOOT_AWARDED' | 'DKP_ADJUSTED' | 'APPLICATION_RECEIVED';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SENT' | 'FAILED';
+
+export type ReminderAudience = 'SIGNED_UP' | 'ALL_ACTIVE';
+
+export type ReminderDeliveryStatus = 'PENDING' | 'SENT' | 'FAILED' | 'SKIPPED';
+
+// A reminder rule for an event; when it goes out follows from the event's start
+export type EventReminderInput = {
+  minutesBefore: number;
+  audience: ReminderAudience;
+  channels: string[];
+};
+
+// Reminders whose time has already passed are kept but skipped, so they do not all go out at once
+const reminderSchedule = (startTime: Date, minutesBefore: number, now: Date = new Date()) => {
+  const sendAt = new Date(startTime.getTime() - minutesBefore * 60 * 1000);
+  return { sendAt, status: sendAt > now ? 'SCHEDULED' as const : 'SKIPPED' as const };
+};
+
+export type EventUpdateData = {
+  title?: string;
+  description?: string | null;
+  startTime?: Date;
+  endTime?: Date;
+  dkpReward?: number;
+  signupCutoff?: Date | null;
+  type?: EventType;
+  checkInCode?: string | null;
+  overriddenFields?: string[];
+};
+
+export type CreateEventData = {
+  guildId: number;
+  title: string;
+  description?: string | null;
+  startTime: Date;
+  endTime: Date;
+  dkpReward?: number;
+  signupCutoff?: Date | null;
+  status?: EventStatus;
+  type?: EventType;
+  composition?: EventCompositionInput;
+  reminders?: EventReminderInput[];
+  createdById?: number | null;
+  seriesId?: number;
+  recurrenceId?: Date;
+};
+
+export type EventSeriesData = {
+  title: string;
+  description: string | null;
+  rrule: string;
+  startTime: Date;
+  // Zone the rule is followed in, so occurrences keep their wall-clock time across DST changes
+  timeZone: string;
+  durationMinutes: number;
+  dkpReward: number;
+  type: EventType;
+  signupCutoffMinutes: number | null;
+  composition: EventCompositionInput;
+  reminders: EventReminderInput[];
+  exdates: Date[];
+  endsAt: Date | null;
+};
+
+// Composition, reminders and exdates are stored as JSON
+const seriesJson = (seriesData: Pick<EventSeriesData, 'composition' | 'reminders' | 'exdates'>) => ({
+  composition: JSON.stringify(seriesData.composition),
+  reminders: JSON.stringify(seriesData.reminders),
+  exdates: JSON.stringify(seriesData.exdates.map((date) => date.toISOString())),
+});
+
+const eventSeriesColumns = <T extends Partial<EventSeriesData>>(seriesData: T) => {
+  const { composition, reminders, exdates, ...fields } = seriesData;
+  return {
+    ...fields,
+    ...(composition && { composition: JSON.stringify(composition) }),
+    ...(reminders && { reminders: JSON.stringify(reminders) }),
+    ...(exdates && { exdates: JSON.stringify(exdates.map((date) => date.toISOString())) }),
+  };
+};
+
+const upcomingSeriesEventFilter = (seriesId: number, now: Date, from?: Date) => ({
+  seriesId,
+  startTime: { gt: now },
+  status: { in: ['DRAFT', 'SCHEDULED'] as EventStatus[] },
+  attendances: { none: {} },
+  ...(from && { recurrenceId: { gte: from } }),
+});
+
+// Shared by single events and series occurrences
+const eventCreateData = (eventData: CreateEventData) => ({
+  guildId: eventData.guildId,
+  title: eventData.title,
+  description: eventData.description ?? null,
+  startTime: eventData.startTime,
+  endTime: eventData.endTime,
+  dkpReward: eventData.dkpReward || 0,
+  signupCutoff: eventData.signupCutoff ?? null,
+  status: eventData.status ?? 'SCHEDULED',
+  type: eventData.type ?? 'OTHER',
+  createdById: eventData.createdById ?? null,
+  seriesId: eventData.seriesId ?? null,
+  recurrenceId: eventData.recurrenceId ?? null,
+  composition: {
+    create: eventData.composition ?? [],
+  },
+  reminders: {
+    create: (eventData.reminders ?? []).map((reminder) => ({
+      minutesBefore: reminder.minutesBefore,
+      audience: reminder.audience,
+      channels: JSON.stringify(reminder.channels),
+      ...reminderSchedule(eventData.startTime, reminder.minutesBefore),
+    })),
+  },
+});
+
+export type GearSubmissionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Item taxonomy, mirrored from the Prisma enums so routes can validate input
+export const ITEM_SLOTS = [
+  'HEAD', 'SHOULDERS', 'CHEST', 'HANDS', 'LEGS', 'FEET', 'CLOAK', 'BELT',
+  'NECKLACE', 'BRACELET', 'RING', 'EARRING', 'MAIN_HAND', 'OFF_HAND', 'OTHER',
+] as const;
+export const ITEM_CATEGORIES = ['ARMOR', 'WEAPON', 'ACCESSORY', 'MATERIAL', 'CONSUMABLE', 'OTHER'] as const;
+export const ITEM_RARITIES = ['COMMON', 'UNCOMMON', 'RARE', 'EPIC', 'LEGENDARY'] as const;
+
+export type ItemSlot = typeof ITEM_SLOTS[number];
+export type ItemCategory = typeof ITEM_CATEGORIES[number];
+export type ItemRarity = typeof ITEM_RARITIES[number];
+
 // Database operations class
 export class PrismaDatabase {
   prisma: any;
@@ -93,6 +313,13 @@ export class PrismaDatabase {
     });
   }
 
+  async updateUserTimeZone(userId: number, timeZone: string | null) {
+    return await prisma.user.update({
+      where: { id: userId },
+      data: { timeZone },
+    });
+  }
+
   // Session operations
   async createSession(userId: number, sessionToken: string, expiresIn: number = 7 * 24 * 60 * 60 * 1000) {
     const expiresAt = BigInt(Date.now() + expiresIn);
@@ -156,6 +383,7 @@ export class PrismaDatabase {
 
   // Character operations
   async createCharacter(characterData: {
+    guildId: number;
     userId: number;
     name: string;
     role?: 'DPS' | 'TANK' | 'HEALER' | null;
@@ -166,38 +394,80 @@ export class PrismaDatabase {
     active?: 'ACTIVE' | 'NOT_ACTIVE';
     dkp?: number;
   }) {
-    return await prisma.character.create({
-      data: {
-        userId: characterData.userId,
-        name: characterData.name,
-        role: characterData.role,
-        weapon1: characterData.weapon1,
-        weapon2: characterData.weapon2,
-        combatPower: characterData.combatPower,
-        gearImageUrl: characterData.gearImageUrl,
-        active: characterData.active || 'ACTIVE',
-        dkp: characterData.dkp || 0,
+    return await prisma.$transaction(async (tx) => {
+      const character = await tx.character.create({
+        data: {
+          guildId: characterData.guildId,
+          userId: characterData.userId,
+          name: characterData.name,
+          role: characterData.role,
+          weapon1: characterData.weapon1,
+          weapon2: characterData.weapon2,
+          combatPower: characterData.combatPower,
+          gearImageUrl: characterData.gearImageUrl,
+          active: characterData.active || 'ACTIVE',
+          dkp: characterData.dkp || 0,
+        },
+      });
+
+      await tx.wishlistPointTransaction.create({
+        data: {
+          characterId: character.id,
+          delta: character.wishlistPoints,
+          balanceAfter: character.wishlistPoints,
+          reason: 'Starting budget',
+          sourceType: 'ADJUSTMENT',
+          actorId: characterData.userId,
+        },
+      });
+
+      // Starting DKP is recorded so the ledger always sums to the balance
+      if (character.dkp !== 0) {
+        await tx.dkpTransaction.create({
+          data: {
+            characterId: character.id,
+            delta: character.dkp,
+            balanceAfter: character.dkp,
+            reason: 'Opening balance',
+            sourceType: 'ADJUSTMENT',
+            actorId: characterData.userId,
+          },
+        });
+      }
+
+      return character;
+    });
+  }
+
+  async getCharacterByName(name: string, guildId: number) {
+    return await prisma.character.findUnique({
+      where: {
+        guildId_name: {
+          guildId,
+          name,
+        },
       },
     });
   }
 
-  async getCharactersByUserId(userId: number) {
+  async getCharactersByUserId(userId: number, guildId: number) {
     return await prisma.character.findMany({
-      where: { userId },
+      where: { userId, guildId },
       orderBy: { createdAt: 'desc' },
     });
   }
 
-  async getCharacterById(characterId: number, userId: number) {
+  async getCharacterById(characterId: number, userId: number, guildId: number) {
     return await prisma.character.findFirst({
       where: {
         id: characterId,
         userId: userId, // Ensure user can only access their own characters
+        guildId,
       },
     });
   }
 
-  async updateCharacter(characterId: number, userId: number, updateData: {
+  async updateCharacter(characterId: number, userId: number, guildId: number, updateData: {
     name?: string;
     role?: 'DPS' | 'TANK' | 'HEALER' | null;
     weapon1?: string | null;
@@ -211,6 +481,7 @@ export class PrismaDatabase {
       where: {
         id: characterId,
         userId: userId, // Ensure user can only update their own characters
+        guildId,
       },
       data: {
         ...updateData,
@@ -218,37 +489,50 @@ export class PrismaDatabase {
       },
     }).then(async (result: any) => {
       if (result.count === 0) return null;
-      return await this.getCharacterById(characterId, userId);
+      return await this.getCharacterById(characterId, userId, guildId);
     });
   }
 
-  async deleteCharacter(characterId: number, userId: number) {
+  async deleteCharacter(characterId: number, userId: number, guildId: number) {
     const result = await prisma.character.deleteMany({
       where: {
         id: characterId,
         userId: userId, // Ensure user can only delete their own characters
+        guildId,
       },
     });
     return result.count > 0;
   }
 
-  async getCharacterCount(userId?: number) {
+  async getCharacterCount(guildId: number, userId?: number) {
     return await prisma.character.count({
-      where: userId ? { userId } : undefined,
+      where: userId ? { guildId, userId } : { guildId },
     });
   }
 
   // Item operations
   async createItem(itemData: {
+    guildId: number;
     name: string;
     imageUrl?: string | null;
     minDkpCost?: number;
+    slot?: ItemSlot | null;
+    category?: ItemCategory | null;
+    rarity?: ItemRarity | null;
+    wishlistPointCost?: number | null;
+    gpCost?: number | null;
   }) {
     return await prisma.item.create({
       data: {
+        guildId: itemData.guildId,
         name: itemData.name,
         imageUrl: itemData.imageUrl,
         minDkpCost: itemData.minDkpCost || 1,
+        slot: itemData.slot ?? null,
+        category: itemData.category ?? null,
+        rarity: itemData.rarity ?? null,
+        wishlistPointCost: itemData.wishlistPointCost ?? null,
+        gpCost: itemData.gpCost ?? null,
       },
     });
   }
@@ -267,15 +551,20 @@ export class PrismaDatabase {
     });
   }
 
-  async getItemById(itemId: number) {
+  async getItemById(itemId: number, guildId: number) {
     return await prisma.item.findUnique({
-      where: { id: itemId },
+      where: { id: itemId, guildId },
     });
   }
 
-  async getItemByName(name: string) {
+  async getItemByName(name: string, guildId: number) {
     return await prisma.item.findUnique({
-      where: { name },
+      where: {
+        guildId_name: {
+          guildId,
+          name,
+        },
+      },
     });
   }
 
@@ -283,6 +572,11 @@ export class PrismaDatabase {
     name?: string;
     imageUrl?: string | null;
     minDkpCost?: number;
+    slot?: ItemSlot | null;
+    category?: ItemCategory | null;
+    rarity?: ItemRarity | null;
+    wishlistPointCost?: number | null;
+    gpCost?: number | null;
   }) {
     return await prisma.item.update({
       where: { id: itemId },
@@ -292,8 +586,20 @@ export class PrismaDatabase {
 
   async deleteItem(itemId: number) {
     try {
-      await prisma.item.delete({
-        where: { id: itemId },
+      await prisma.$transaction(async (tx) => {
+        // Wishes cascade with the item, so hand their points back first
+        const item = await tx.item.findUniqueOrThrow({ where: { id: itemId } });
+        const wishes = await tx.wish.findMany({ where: { itemId } });
+        for (const wish of wishes) {
+          await this.removeWish(tx, wish.characterId, itemId, {
+            sourceType: 'REFUND',
+            reason: `${item.name} was removed`,
+          });
+        }
+
+        await tx.item.delete({
+          where: { id: itemId },
+        });
       });
       return true;
     } catch (error) {
@@ -316,6 +622,7 @@ export class PrismaDatabase {
   async getItemWishes(itemId: number) {
     return await prisma.wish.findMany({
       where: { itemId },
+      orderBy: [{ priority: 'asc' }, { character: { dkp: 'desc' } }],
       include: {
         character: {
           include: {
@@ -332,26 +639,99 @@ export class PrismaDatabase {
   }
 
   // Wish operations
-  async createWish(characterId: number, itemId: number) {
-    return await prisma.wish.create({
-      data: {
-        characterId,
-        itemId,
-      },
+  // Wish priorities are contiguous, unique ranks per character (1 = most wanted); every write keeps them that way
+  async shiftWishRanks(tx: TransactionClient, characterId: number, range: { gt?: number; gte?: number; lt?: number; lte?: number }, by: number) {
+    await tx.wish.updateMany({
+      where: { characterId, priority: range },
+      data: { priority: { increment: WISH_RANK_OFFSET } },
+    });
+    await tx.wish.updateMany({
+      where: { characterId, priority: { gte: WISH_RANK_OFFSET } },
+      data: { priority: { increment: by - WISH_RANK_OFFSET } },
     });
   }
 
-  async deleteWish(characterId: number, itemId: number) {
-    try {
-      await prisma.wish.delete({
-        where: {
-          characterId_itemId: {
-            characterId,
-            itemId,
-          },
+  // Adds a wish at a rank and pays its points. The caller's check runs inside the same transaction, so limits and
+  // budgets are judged on what the character has when the wish is made; a violation it returns is passed back.
+  async createWish<Violation>(characterId: number, itemId: number, options: {
+    priority?: number | undefined;
+    pointCost?: number;
+    actorId?: number | null;
+  }, checkWish: (tx: TransactionClient) => Promise<Violation | null> = async () => null) {
+    const { priority, pointCost = 0 } = options;
+
+    return await prisma.$transaction(async (tx) => {
+      const violation = await checkWish(tx);
+      if (violation) return { violation };
+
+      const wishCount = await tx.wish.count({ where: { characterId } });
+      const rank = Math.min(Math.max(priority ?? wishCount + 1, 1), wishCount + 1);
+
+      // Make room at the requested rank
+      await this.shiftWishRanks(tx, characterId, { gte: rank }, 1);
+
+      const wish = await tx.wish.create({
+        data: {
+          characterId,
+          itemId,
+          priority: rank,
+          pointCost,
+        },
+        include: {
+          item: true,
         },
       });
-      return true;
+
+      if (pointCost > 0) {
+        await this.applyWishlistPointChange(tx, characterId, -pointCost, {
+          sourceType: 'WISH',
+          itemId,
+          reason: `Wished for ${wish.item.name}`,
+          actorId: options.actorId ?? null,
+        });
+      }
+
+      return { wish };
+    });
+  }
+
+  // Removes a wish, refunds its points and closes the gap it leaves in the character's ranking
+  async removeWish(tx: TransactionClient, characterId: number, itemId: number, refund: WishlistPointEntry) {
+    const wish = await tx.wish.findUnique({
+      where: {
+        characterId_itemId: {
+          characterId,
+          itemId,
+        },
+      },
+    });
+    if (!wish) return false;
+
+    if (wish.pointCost > 0) {
+      await this.applyWishlistPointChange(tx, characterId, wish.pointCost, { ...refund, itemId });
+    }
+
+    await tx.wish.delete({
+      where: {
+        characterId_itemId: {
+          characterId,
+          itemId,
+        },
+      },
+    });
+
+    await this.shiftWishRanks(tx, characterId, { gt: wish.priority }, -1);
+
+    return true;
+  }
+
+  async deleteWish(characterId: number, itemId: number, actorId?: number | null) {
+    try {
+      return await prisma.$transaction((tx) => this.removeWish(tx, characterId, itemId, {
+        sourceType: 'REFUND',
+        reason: 'Wish removed',
+        actorId: actorId ?? null,
+      }));
     } catch (error) {
       return false;
     }
@@ -360,12 +740,94 @@ export class PrismaDatabase {
   async getCharacterWishes(characterId: number) {
     return await prisma.wish.findMany({
       where: { characterId },
+      orderBy: { priority: 'asc' },
       include: {
         item: true,
       },
     });
   }
 
+  // Move one wish to a new rank, shifting the wishes in between by one
+  async moveWish(characterId: number, itemId: number, priority: number) {
+    return await prisma.$transaction(async (tx) => {
+      const wish = await tx.wish.findUniqueOrThrow({
+        where: {
+          characterId_itemId: {
+            characterId,
+            itemId,
+          },
+        },
+      });
+      const wishCount = await tx.wish.count({ where: { characterId } });
+      const rank = Math.min(Math.max(priority, 1), wishCount);
+
+      if (rank === wish.priority) return wish;
+
+      // Free the wish's own rank before the others shift into it
+      await tx.wish.update({
+        where: {
+          characterId_itemId: {
+            characterId,
+            itemId,
+          },
+        },
+        data: { priority: 0 },
+      });
+
+      if (rank < wish.priority) {
+        await this.shiftWishRanks(tx, characterId, { gte: rank, lt: wish.priority }, 1);
+      } else {
+        await this.shiftWishRanks(tx, characterId, { gt: wish.priority, lte: rank }, -1);
+      }
+
+      return await tx.wish.update({
+        where: {
+          characterId_itemId: {
+            characterId,
+            itemId,
+          },
+        },
+        data: { priority: rank },
+      });
+    });
+  }
+
+  // Rank a character's whole wishlist in the given item order. Returns null when the item IDs no longer
+  // match the wishlist, e.g. because a wish was added or removed in the meantime.
+  async reorderWishes(characterId: number, itemIds: number[]) {
+    return await prisma.$transaction(async (tx) => {
+      const wishCount = await tx.wish.count({ where: { characterId, itemId: { in: itemIds } } });
+      if (wishCount !== itemIds.length || wishCount !== await tx.wish.count({ where: { characterId } })) {
+        return null;
+      }
+
+      // Park every rank above the offset, then hand them out in the new order
+      await tx.wish.updateMany({
+        where: { characterId },
+        data: { priority: { increment: WISH_RANK_OFFSET } },
+      });
+      for (const [index, itemId] of itemIds.entries()) {
+        await tx.wish.update({
+          where: {
+            characterId_itemId: {
+              characterId,
+              itemId,
+            },
+          },
+          data: { priority: index + 1 },
+        });
+      }
+
+      return await tx.wish.findMany({
+        where: { characterId },
+        orderBy: { priority: 'asc' },
+        include: {
+          item: true,
+        },
+      });
+    });
+  }
+
   async checkWishExists(characterId: number, itemId: number) {
     const wish = await prisma.wish.findUnique({
       where: {
@@ -400,24 +862,79 @@ export class PrismaDatabase {
     });
   }
 
-  async deleteAllCharacterWishes(characterId: number) {
-    return await prisma.wish.deleteMany({
-      where: { characterId },
+  async deleteAllCharacterWishes(characterId: number, actorId?: number | null) {
+    return await prisma.$transaction(async (tx) => {
+      const wishes = await tx.wish.findMany({ where: { characterId } });
+      const refund = wishes.reduce((total, wish) => total + wish.pointCost, 0);
+
+      const result = await tx.wish.deleteMany({
+        where: { characterId },
+      });
+
+      if (refund > 0) {
+        await this.applyWishlistPointChange(tx, characterId, refund, {
+          sourceType: 'REFUND',
+          reason: 'Wishlist cleared',
+          actorId: actorId ?? null,
+        });
+      }
+
+      return result;
     });
   }
 
-  async getUserWishesCount(userId: number) {
+  async getUserWishesCount(userId: number, guildId: number) {
     return await prisma.wish.count({
       where: {
         character: {
           userId: userId,
+          guildId,
+        },
+      },
+    });
+  }
+
+  async getWishlistLimits(guildId: number) {
+    return await prisma.wishlistLimit.findMany({
+      where: { guildId },
+      orderBy: { slot: 'asc' },
+      include: {
+        updatedBy: {
+          select: {
+            id: true,
+            username: true,
+          },
         },
       },
     });
   }
 
-  async getMostWishedItems(limit: number = 10) {
+  // Replace the whole limit configuration; a null slot is the global cap per character
+  async setWishlistLimits(guildId: number, limits: { slot: ItemSlot | null; maxWishes: number }[], updatedById: number) {
+    return await prisma.$transaction(async (tx) => {
+      await tx.wishlistLimit.deleteMany({ where: { guildId } });
+
+      for (const limit of limits) {
+        await tx.wishlistLimit.create({
+          data: {
+            guildId,
+            slot: limit.slot,
+            maxWishes: limit.maxWishes,
+            updatedById,
+          },
+        });
+      }
+
+      return await tx.wishlistLimit.findMany({
+        where: { guildId },
+        orderBy: { slot: 'asc' },
+      });
+    });
+  }
+
+  async getMostWishedItems(guildId: number, limit: number = 10) {
     return await prisma.item.findMany({
+      where: { guildId },
       include: {
         _count: {
           select: {
@@ -435,20 +952,14 @@ export class PrismaDatabase {
   }
 
   // Event operations
-  async createEvent(eventData: {
-    title: string;
-    description?: string | null;
-    startTime: Date;
-    endTime: Date;
-    dkpReward?: number;
-  }) {
+  async createEvent(eventData: CreateEventData) {
     return await prisma.event.create({
-      data: {
-        title: eventData.title,
-        description: eventData.description,
-        startTime: eventData.startTime,
-        endTime: eventData.endTime,
-        dkpReward: eventData.dkpReward || 0,
+      data: eventCreateData(eventData),
+      include: {
+        composition: true,
+        reminders: {
+          orderBy: { minutesBefore: 'desc' },
+        },
       },
     });
   }
@@ -483,10 +994,33 @@ export class PrismaDatabase {
     });
   }
 
-  async getEventById(eventId: number) {
+  async getEventById(eventId: number, guildId: number) {
     return await prisma.event.findUnique({
-      where: { id: eventId },
+      where: { id: eventId, guildId },
       include: {
+        composition: true,
+        reminders: {
+          orderBy: { minutesBefore: 'desc' },
+        },
+        signups: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            character: {
+              select: {
+                id: true,
+                name: true,
+                role: true,
+                userId: true,
+                user: {
+                  select: {
+                    username: true,
+                    discordId: true,
+                  },
+                },
+              },
+            },
+          },
+        },
         attendances: {
           include: {
             character: {
@@ -505,16 +1039,88 @@ export class PrismaDatabase {
     });
   }
 
-  async updateEvent(eventId: number, updateData: {
-    title?: string;
-    description?: string | null;
-    startTime?: Date;
-    endTime?: Date;
-    dkpReward?: number;
+  async updateEvent(eventId: number, updateData: EventUpdateData, composition?: EventCompositionInput) {
+    return await prisma.$transaction((tx) => this.applyEventUpdate(tx, eventId, updateData, composition));
+  }
+
+  // Updates an event within a caller's transaction, e.g. together with the DKP reconciliation of a new reward
+  async applyEventUpdate(tx: TransactionClient, eventId: number, updateData: EventUpdateData, composition?: EventCompositionInput) {
+    const { overriddenFields, ...columns } = updateData;
+    const { title, description, startTime, endTime, type } = columns;
+    const calendarChanged = [title, description, startTime, endTime, type].some((value) => value !== undefined);
+
+    // A new composition replaces the old one entirely
+    if (composition) {
+      await tx.eventComposition.deleteMany({ where: { eventId } });
+      await tx.eventComposition.createMany({
+        data: composition.map((entry) => ({ eventId, ...entry })),
+      });
+    }
+
+    // Reminders move with the event. Ones already sent go out again so members hear about the new time.
+    if (updateData.startTime) {
+      const current = await tx.event.findUnique({ where: { id: eventId }, select: { startTime: true } });
+      if (current && current.startTime.getTime() !== updateData.startTime.getTime()) {
+        const reminders = await tx.eventReminder.findMany({ where: { eventId } });
+        for (const reminder of reminders) {
+          await tx.reminderDelivery.deleteMany({ where: { reminderId: reminder.id } });
+          await tx.eventReminder.update({
+            where: { id: reminder.id },
+            data: { ...reminderSchedule(updateData.startTime, reminder.minutesBefore), sentAt: null },
+          });
+        }
+      }
+    }
+
+    return await tx.event.update({
+      where: { id: eventId },
+      data: {
+        ...columns,
+        ...(overriddenFields && { overriddenFields: JSON.stringify(overriddenFields) }),
+        ...(calendarChanged && { sequence: { increment: 1 } }),
+      },
+      include: {
+        composition: true,
+      },
+    });
+  }
+
+  // Move an event on from the status it was read in. Returns null if its status changed in the meantime.
+  async transitionEvent(eventId: number, from: EventStatus, data: {
+    status: EventStatus;
+    completedAt?: Date | null;
+    cancelledAt?: Date | null;
+    reopenedAt?: Date;
+    reopenedById?: number;
   }) {
-    return await prisma.event.update({
+    const claimed = await prisma.event.updateMany({
+      where: { id: eventId, status: from },
+      data: { ...data, sequence: { increment: 1 } },
+    });
+    if (claimed.count === 0) return null;
+
+    return await prisma.event.findUniqueOrThrow({
       where: { id: eventId },
-      data: updateData,
+    });
+  }
+
+  // Scheduled events that have started and in-progress events that have ended. Events reopened after
+  // their end stay in progress until an officer completes them.
+  async getEventsDueStatusChange(now: Date, take: number) {
+    return await prisma.event.findMany({
+      where: {
+        OR: [
+          { status: 'SCHEDULED', startTime: { lte: now } },
+          {
+            status: 'IN_PROGRESS',
+            endTime: { lte: now },
+            OR: [{ reopenedAt: null }, { reopenedAt: { lt: prisma.event.fields.endTime } }],
+          },
+        ],
+      },
+      orderBy: { startTime: 'asc' },
+      select: { id: true, status: true, startTime: true, endTime: true, reopenedAt: true },
+      take,
     });
   }
 
@@ -535,42 +1141,398 @@ export class PrismaDatabase {
     });
   }
 
-  // Attendance operations
-  async addAttendance(eventId: number, characterId: number) {
-    return await prisma.attendance.create({
-      data: {
-        eventId,
-        characterId,
-      },
+  // Event series operations
+  async createEventSeries(seriesData: EventSeriesData & { guildId: number; createdById: number }) {
+    return await prisma.eventSeries.create({
+      data: { ...eventSeriesColumns(seriesData), ...seriesJson(seriesData) },
     });
   }
 
-  async removeAttendance(eventId: number, characterId: number) {
-    try {
-      await prisma.attendance.delete({
-        where: {
-          eventId_characterId: {
-            eventId,
-            characterId,
-          },
-        },
-      });
-      return true;
-    } catch (error) {
-      return false;
-    }
+  async getEventSeriesById(seriesId: number, guildId: number) {
+    return await prisma.eventSeries.findUnique({
+      where: { id: seriesId, guildId },
+    });
   }
 
-  async getEventAttendances(eventId: number) {
-    return await prisma.attendance.findMany({
-      where: { eventId },
+  async getEventSeriesList(options: { where: any; skip: number; take: number }) {
+    return await prisma.eventSeries.findMany({
+      where: options.where,
+      skip: options.skip,
+      take: options.take,
+      orderBy: { startTime: 'asc' },
       include: {
-        character: {
-          include: {
-            user: {
-              select: {
-                username: true,
-                discordId: true,
+        _count: { select: { events: true } },
+      },
+    });
+  }
+
+  async getEventSeriesCount(where: any) {
+    return await prisma.eventSeries.count({ where });
+  }
+
+  async updateEventSeries(seriesId: number, seriesData: Partial<EventSeriesData> & { materializedUntil?: Date | null }) {
+    return await prisma.eventSeries.update({
+      where: { id: seriesId },
+      data: eventSeriesColumns(seriesData),
+    });
+  }
+
+  // Series that still have occurrences to create before the horizon
+  async getEventSeriesDueMaterialization(horizon: Date, take: number) {
+    return await prisma.eventSeries.findMany({
+      where: {
+        OR: [
+          { materializedUntil: null },
+          {
+            materializedUntil: { lt: horizon },
+            OR: [{ endsAt: null }, { endsAt: { gt: prisma.eventSeries.fields.materializedUntil } }],
+          },
+        ],
+      },
+      orderBy: { id: 'asc' },
+      take,
+    });
+  }
+
+  // Create the occurrences of a series up to `until`. The series is claimed by the point it was materialized to,
+  // so two workers never create the same stretch; occurrences that already exist are left alone.
+  async materializeEventSeries(seriesId: number, from: Date | null, until: Date, occurrences: CreateEventData[]) {
+    return await prisma.$transaction(async (tx) => {
+      const claimed = await tx.eventSeries.updateMany({
+        where: { id: seriesId, materializedUntil: from },
+        data: { materializedUntil: until },
+      });
+      if (claimed.count === 0) return null;
+
+      const existing = await tx.event.findMany({
+        where: { seriesId, recurrenceId: { in: occurrences.map((occurrence) => occurrence.recurrenceId!) } },
+        select: { recurrenceId: true },
+      });
+      const existingStarts = new Set(existing.map((event) => event.recurrenceId!.getTime()));
+
+      const created = [];
+      for (const occurrence of occurrences) {
+        if (existingStarts.has(occurrence.recurrenceId!.getTime())) continue;
+        created.push(await tx.event.create({ data: eventCreateData(occurrence) }));
+      }
+      return created;
+    });
+  }
+
+  // Occurrences a series edit may still change: not started, nothing recorded, not cancelled
+  async getUpcomingSeriesEvents(seriesId: number, now: Date, from?: Date) {
+    return await prisma.event.findMany({
+      where: upcomingSeriesEventFilter(seriesId, now, from),
+      orderBy: { startTime: 'asc' },
+    });
+  }
+
+  async deleteUpcomingSeriesEvents(seriesId: number, now: Date, from?: Date) {
+    const { count } = await prisma.event.deleteMany({
+      where: upcomingSeriesEventFilter(seriesId, now, from),
+    });
+    return count;
+  }
+
+  // End a series before `at` and carry on from there as a new series that takes over the occurrences from `at` on
+  async splitEventSeries(
+    seriesId: number,
+    at: Date,
+    before: Partial<EventSeriesData>,
+    after: EventSeriesData & { guildId: number; createdById: number }
+  ) {
+    return await prisma.$transaction(async (tx) => {
+      await tx.eventSeries.update({
+        where: { id: seriesId },
+        data: eventSeriesColumns(before),
+      });
+
+      const created = await tx.eventSeries.create({
+        data: { ...eventSeriesColumns(after), ...seriesJson(after) },
+      });
+
+      await tx.event.updateMany({
+        where: { seriesId, recurrenceId: { gte: at } },
+        data: { seriesId: created.id },
+      });
+
+      return created;
+    });
+  }
+
+  // Occurrences that already happened stay as standalone events
+  async deleteEventSeries(seriesId: number, now: Date) {
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.event.deleteMany({
+        where: upcomingSeriesEventFilter(seriesId, now),
+      });
+      await tx.eventSeries.delete({ where: { id: seriesId } });
+      return count;
+    });
+  }
+
+  // Event signup operations
+  async getEventSignup(eventId: number, characterId: number) {
+    return await prisma.eventSignup.findUnique({
+      where: {
+        eventId_characterId: {
+          eventId,
+          characterId,
+        },
+      },
+    });
+  }
+
+  // A user signs up with at most one character per event
+  async getUserEventSignup(eventId: number, userId: number) {
+    return await prisma.eventSignup.findFirst({
+      where: {
+        eventId,
+        character: { userId },
+      },
+      include: {
+        character: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+  }
+
+  async upsertEventSignup(eventId: number, characterId: number, signupData: {
+    status: SignupStatus;
+    role: CharacterRole | null;
+    note: string | null;
+  }) {
+    return await prisma.eventSignup.upsert({
+      where: {
+        eventId_characterId: {
+          eventId,
+          characterId,
+        },
+      },
+      // Any change by the member needs to be confirmed again
+      update: {
+        ...signupData,
+        confirmed: false,
+        reviewedById: null,
+      },
+      create: {
+        eventId,
+        characterId,
+        ...signupData,
+      },
+    });
+  }
+
+  async reviewEventSignup(eventId: number, characterId: number, reviewData: {
+    status?: SignupStatus;
+    confirmed?: boolean;
+    reviewedById: number;
+  }) {
+    return await prisma.eventSignup.update({
+      where: {
+        eventId_characterId: {
+          eventId,
+          characterId,
+        },
+      },
+      data: reviewData,
+    });
+  }
+
+  async deleteEventSignup(eventId: number, characterId: number) {
+    const result = await prisma.eventSignup.deleteMany({
+      where: { eventId, characterId },
+    });
+    return result.count > 0;
+  }
+
+  // Attendance operations
+
+  // Records attendance and awards its DKP in one transaction. Returns null if the character already has attendance
+  // for the event; the primary key settles concurrent check-ins.
+  async addAttendance(eventId: number, characterId: number, attendanceData: {
+    status?: AttendanceStatus;
+    dkpAwarded: number;
+    pending?: boolean;
+  }, entry: DkpLedgerEntry) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const attendance = await tx.attendance.create({
+          data: {
+            eventId,
+            characterId,
+            ...attendanceData,
+          },
+        });
+
+        if (attendance.dkpAwarded !== 0) {
+          await this.applyDkpChange(tx, characterId, attendance.dkpAwarded, entry);
+        }
+
+        return attendance;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+      throw error;
+    }
+  }
+
+  async getAttendance(eventId: number, characterId: number) {
+    return await prisma.attendance.findUnique({
+      where: {
+        eventId_characterId: {
+          eventId,
+          characterId,
+        },
+      },
+    });
+  }
+
+  // Approves a pending self check-in and awards the event reward; returns null if nothing was pending
+  async approveAttendance(eventId: number, characterId: number, actorId: number) {
+    return await prisma.$transaction(async (tx) => {
+      const event = await tx.event.findUnique({
+        where: { id: eventId },
+      });
+      if (!event) return null;
+
+      const approved = await tx.attendance.updateMany({
+        where: { eventId, characterId, pending: true },
+        data: {
+          pending: false,
+          dkpAwarded: event.dkpReward,
+        },
+      });
+      if (approved.count === 0) return null;
+
+      if (event.dkpReward !== 0) {
+        await this.applyDkpChange(tx, characterId, event.dkpReward, {
+          sourceType: 'ATTENDANCE',
+          sourceId: event.id,
+          reason: `Attended ${event.title}`,
+          actorId,
+        });
+      }
+
+      return await tx.attendance.findUniqueOrThrow({
+        where: {
+          eventId_characterId: {
+            eventId,
+            characterId,
+          },
+        },
+      });
+    });
+  }
+
+  // Records attendance and awards DKP for a whole event at once; returns null if it was already finalized.
+  // The plan is built from the roster read inside the transaction, so check-ins recorded while the
+  // officer was finalizing are skipped instead of inserted twice.
+  async finalizeEvent<Plan extends { error?: string; attendances?: FinalizedAttendance[] }>(
+    eventId: number,
+    actorId: number,
+    planFinalization: (event: FinalizationRoster) => Plan
+  ) {
+    return await prisma.$transaction(async (tx) => {
+      const roster = await tx.event.findUniqueOrThrow({
+        where: { id: eventId },
+        select: {
+          title: true,
+          dkpReward: true,
+          finalizedAt: true,
+          signups: {
+            orderBy: { createdAt: 'asc' },
+            select: {
+              characterId: true,
+              status: true,
+              confirmed: true,
+              character: { select: { id: true, name: true } },
+            },
+          },
+          attendances: { select: { characterId: true } },
+        },
+      });
+      if (roster.finalizedAt) return null;
+
+      const plan = planFinalization(roster);
+      if (plan.error !== undefined || !plan.attendances) return { plan, event: null };
+      const attendances = plan.attendances;
+
+      const claimed = await tx.event.updateMany({
+        where: { id: eventId, finalizedAt: null },
+        data: {
+          finalizedAt: new Date(),
+          finalizedById: actorId,
+        },
+      });
+      if (claimed.count === 0) return null;
+
+      for (const attendance of attendances) {
+        await tx.attendance.create({
+          data: {
+            eventId,
+            characterId: attendance.characterId,
+            status: attendance.status,
+            dkpAwarded: attendance.dkpAwarded,
+          },
+        });
+
+        if (attendance.dkpAwarded !== 0) {
+          await this.applyDkpChange(tx, attendance.characterId, attendance.dkpAwarded, {
+            sourceType: 'ATTENDANCE',
+            sourceId: eventId,
+            reason: attendance.reason,
+            actorId,
+          });
+        }
+      }
+
+      const event = await tx.event.findUniqueOrThrow({
+        where: { id: eventId },
+      });
+      return { plan, event };
+    });
+  }
+
+  // Removes attendance and takes back whatever DKP it awarded in one transaction; returns null if there was none
+  async removeAttendance(eventId: number, characterId: number, entry: DkpLedgerEntry) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const attendance = await tx.attendance.delete({
+          where: {
+            eventId_characterId: {
+              eventId,
+              characterId,
+            },
+          },
+        });
+
+        if (attendance.dkpAwarded !== 0) {
+          await this.applyDkpChange(tx, characterId, -attendance.dkpAwarded, entry);
+        }
+
+        return attendance;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') return null;
+      throw error;
+    }
+  }
+
+  async getEventAttendances(eventId: number) {
+    return await prisma.attendance.findMany({
+      where: { eventId },
+      include: {
+        character: {
+          include: {
+            user: {
+              select: {
+                username: true,
+                discordId: true,
               },
             },
           },
@@ -623,8 +1585,9 @@ export class PrismaDatabase {
     return !!attendance;
   }
 
-  async updateCharacterDkp(characterId: number, dkpChange: number) {
-    return await prisma.character.update({
+  // DKP ledger operations
+  async applyDkpChange(tx: TransactionClient, characterId: number, dkpChange: number, entry: DkpLedgerEntry) {
+    const character = await tx.character.update({
       where: { id: characterId },
       data: {
         dkp: {
@@ -632,119 +1595,2044 @@ export class PrismaDatabase {
         },
       },
     });
+
+    const transaction = await tx.dkpTransaction.create({
+      data: {
+        characterId,
+        delta: dkpChange,
+        balanceAfter: character.dkp,
+        reason: entry.reason ?? null,
+        sourceType: entry.sourceType,
+        sourceId: entry.sourceId ?? null,
+        actorId: entry.actorId ?? null,
+      },
+    });
+
+    return { character, transaction };
   }
 
-  async getCharacterByIdAdmin(characterId: number) {
-    return await prisma.character.findUnique({
-      where: { id: characterId },
+  async updateCharacterDkp(characterId: number, dkpChange: number, entry: DkpLedgerEntry) {
+    return await prisma.$transaction(async (tx) => {
+      return await this.applyDkpChange(tx, characterId, dkpChange, entry);
+    });
+  }
+
+  async setCharacterDkp(characterId: number, newDkp: number, entry: DkpLedgerEntry) {
+    return await prisma.$transaction(async (tx) => {
+      const current = await tx.character.findUnique({
+        where: { id: characterId },
+      });
+      if (!current) return null;
+
+      const dkpChange = newDkp - current.dkp;
+      if (dkpChange === 0) {
+        return { character: current, transaction: null, previousDkp: current.dkp };
+      }
+
+      const result = await this.applyDkpChange(tx, characterId, dkpChange, entry);
+      return { ...result, previousDkp: current.dkp };
+    });
+  }
+
+  // Applies a relative change without letting the balance drop below zero. The change is an increment,
+  // so it composes with auctions, decay or other adjustments committed at the same time.
+  async adjustCharacterDkp(characterId: number, dkpChange: number, entry: DkpLedgerEntry) {
+    return await prisma.$transaction(async (tx) => {
+      const current = await tx.character.findUnique({
+        where: { id: characterId },
+        select: { dkp: true },
+      });
+      if (!current) return null;
+
+      // Deductions stop at zero (or leave a negative balance as it is); additions are always credited in full
+      const delta = dkpChange < 0 ? Math.max(dkpChange, -Math.max(current.dkp, 0)) : dkpChange;
+      if (delta === 0) {
+        const character = await tx.character.findUniqueOrThrow({ where: { id: characterId } });
+        return { character, transaction: null, previousDkp: character.dkp };
+      }
+
+      const result = await this.applyDkpChange(tx, characterId, delta, entry);
+      return { ...result, previousDkp: result.character.dkp - delta };
+    });
+  }
+
+  async getDkpTransactions(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.DkpTransactionWhereInput;
+  } = {}) {
+    return await prisma.dkpTransaction.findMany({
+      ...options,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
       include: {
-        user: {
+        character: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        actor: {
           select: {
             id: true,
             username: true,
-            discordId: true,
           },
         },
       },
     });
   }
 
-  async getUniqueEventCount(attendanceFilters?: any) {
-    const result = await prisma.attendance.findMany({
-      where: attendanceFilters,
-      select: { eventId: true },
-      distinct: ['eventId'],
+  async getDkpTransactionCount(filters: Prisma.DkpTransactionWhereInput = {}) {
+    return await prisma.dkpTransaction.count({
+      where: filters,
     });
-    return result.length;
   }
 
-  async getUniqueCharacterCount(attendanceFilters?: any) {
-    const result = await prisma.attendance.findMany({
-      where: attendanceFilters,
-      select: { characterId: true },
-      distinct: ['characterId'],
+  async sumDkpTransactions(filters: Prisma.DkpTransactionWhereInput = {}) {
+    const result = await prisma.dkpTransaction.aggregate({
+      where: filters,
+      _sum: { delta: true },
     });
-    return result.length;
+    return result._sum.delta ?? 0;
   }
 
-  async getTopAttenders(limit: number = 10, attendanceFilters?: any) {
-    const attendances = await prisma.attendance.groupBy({
-      by: ['characterId'],
-      where: attendanceFilters,
-      _count: {
-        eventId: true,
-      },
-      orderBy: {
-        _count: {
-          eventId: 'desc',
-        },
-      },
-      take: limit,
-    });
+  // Compare every character's cached balance with the sum of its ledger entries
+  async getDkpDiscrepancies(guildId: number) {
+    const [characters, sums] = await Promise.all([
+      prisma.character.findMany({
+        where: { guildId },
+        select: { id: true, name: true, dkp: true },
+      }),
+      prisma.dkpTransaction.groupBy({
+        by: ['characterId'],
+        where: { character: { guildId } },
+        _sum: { delta: true },
+      }),
+    ]);
+
+    const ledgerTotals = new Map(sums.map((sum) => [sum.characterId, sum._sum.delta ?? 0]));
+
+    return characters
+      .map((character) => ({
+        characterId: character.id,
+        name: character.name,
+        balance: character.dkp,
+        ledgerBalance: ledgerTotals.get(character.id) ?? 0,
+      }))
+      .filter((entry) => entry.balance !== entry.ledgerBalance);
+  }
 
-    // Get character details for top attenders
-    const topAttendersWithDetails = await Promise.all(
-      attendances.map(async (attendance) => {
-        const character = await this.getCharacterByIdAdmin(attendance.characterId);
-        return {
-          character: character ? {
-            id: character.id,
-            name: character.name,
-            role: character.role,
-            dkp: character.dkp,
-            user: character.user,
-          } : null,
-          attendanceCount: attendance._count.eventId,
-        };
-      })
+  // The ledger is authoritative: cached balances are reset to the ledger sum
+  async reconcileDkpBalances(guildId: number, characterIds?: number[]) {
+    const discrepancies = (await this.getDkpDiscrepancies(guildId))
+      .filter((entry) => !characterIds || characterIds.includes(entry.characterId));
+
+    await prisma.$transaction(
+      discrepancies.map((entry) => prisma.character.update({
+        where: { id: entry.characterId },
+        data: { dkp: entry.ledgerBalance },
+      }))
     );
 
-    return topAttendersWithDetails.filter(item => item.character !== null);
+    return discrepancies;
   }
 
-  // Utility methods
-  async getUserCount() {
-    return await prisma.user.count();
+  // DKP decay operations
+  async getDkpDecayPolicy(guildId: number) {
+    return await prisma.dkpDecayPolicy.findUnique({
+      where: { guildId },
+    });
   }
 
-  async getActiveSessionCount() {
-    const now = BigInt(Date.now());
-    return await prisma.session.count({
-      where: {
-        expiresAt: {
-          gt: now,
-        },
-      },
+  async upsertDkpDecayPolicy(guildId: number, policyData: {
+    enabled?: boolean;
+    percent?: number;
+    period?: DecayPeriod;
+    floor?: number;
+    enabledAt?: Date | null;
+    updatedById: number;
+  }) {
+    return await prisma.dkpDecayPolicy.upsert({
+      where: { guildId },
+      update: policyData,
+      create: { guildId, percent: 0, ...policyData },
     });
   }
 
-  // Role management operations
-  async updateUserRole(userId: number, role: 'MEMBER' | 'OFFICER' | 'ADMIN') {
-    return await prisma.user.update({
-      where: { id: userId },
-      data: { role },
+  async getEnabledDkpDecayPolicies() {
+    return await prisma.dkpDecayPolicy.findMany({
+      where: { enabled: true },
+    });
+  }
+
+  async getDecayCandidates(guildId: number) {
+    return await prisma.character.findMany({
+      where: { guildId },
+      select: { id: true, name: true, dkp: true, decayExempt: true },
+    });
+  }
+
+  async getDecayExemptCharacters(guildId: number) {
+    return await prisma.character.findMany({
+      where: { guildId, decayExempt: true },
+      select: { id: true, name: true, dkp: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  // Replaces the guild's exemption list
+  async setDecayExemptCharacters(guildId: number, characterIds: number[]) {
+    return await prisma.$transaction([
+      prisma.character.updateMany({
+        where: { guildId, decayExempt: true, id: { notIn: characterIds } },
+        data: { decayExempt: false },
+      }),
+      prisma.character.updateMany({
+        where: { guildId, id: { in: characterIds } },
+        data: { decayExempt: true },
+      }),
+    ]);
+  }
+
+  async getDkpDecayRunForPeriod(guildId: number, periodKey: string) {
+    return await prisma.dkpDecayRun.findFirst({
+      where: { guildId, periodKey, status: 'APPLIED' },
+    });
+  }
+
+  async getDkpDecayRuns(guildId: number, options: { skip?: number; take?: number } = {}) {
+    return await prisma.dkpDecayRun.findMany({
+      ...options,
+      where: { guildId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        triggeredBy: { select: { id: true, username: true } },
+        revertedBy: { select: { id: true, username: true } },
+      },
+    });
+  }
+
+  async getDkpDecayRunCount(guildId: number) {
+    return await prisma.dkpDecayRun.count({
+      where: { guildId },
+    });
+  }
+
+  async getDkpDecayRunById(runId: number, guildId: number) {
+    return await prisma.dkpDecayRun.findUnique({
+      where: { id: runId, guildId },
+      include: {
+        triggeredBy: { select: { id: true, username: true } },
+        revertedBy: { select: { id: true, username: true } },
+      },
+    });
+  }
+
+  // DKP reconciliation operations
+  async getDkpReconciliations(where: Prisma.DkpReconciliationWhereInput, options: { skip?: number; take?: number } = {}) {
+    return await prisma.dkpReconciliation.findMany({
+      ...options,
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        actor: { select: { id: true, username: true } },
+      },
+    });
+  }
+
+  async getDkpReconciliationCount(where: Prisma.DkpReconciliationWhereInput) {
+    return await prisma.dkpReconciliation.count({ where });
+  }
+
+  async getDkpReconciliationById(reconciliationId: number, guildId: number) {
+    return await prisma.dkpReconciliation.findUnique({
+      where: { id: reconciliationId, guildId },
+      include: {
+        actor: { select: { id: true, username: true } },
+      },
+    });
+  }
+
+  async getCharacterByIdAdmin(characterId: number, guildId: number) {
+    return await prisma.character.findUnique({
+      where: { id: characterId, guildId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            discordId: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getUniqueEventCount(attendanceFilters?: any) {
+    const result = await prisma.attendance.findMany({
+      where: attendanceFilters,
+      select: { eventId: true },
+      distinct: ['eventId'],
+    });
+    return result.length;
+  }
+
+  async getUniqueCharacterCount(attendanceFilters?: any) {
+    const result = await prisma.attendance.findMany({
+      where: attendanceFilters,
+      select: { characterId: true },
+      distinct: ['characterId'],
+    });
+    return result.length;
+  }
+
+  async getTopAttenders(guildId: number, limit: number = 10, attendanceFilters?: any) {
+    const attendances = await prisma.attendance.groupBy({
+      by: ['characterId'],
+      where: { ...attendanceFilters, event: { ...attendanceFilters?.event, guildId } },
+      _count: {
+        eventId: true,
+      },
+      orderBy: {
+        _count: {
+          eventId: 'desc',
+        },
+      },
+      take: limit,
+    });
+
+    // Get character details for top attenders
+    const topAttendersWithDetails = await Promise.all(
+      attendances.map(async (attendance) => {
+        const character = await this.getCharacterByIdAdmin(attendance.characterId, guildId);
+        return {
+          character: character ? {
+            id: character.id,
+            name: character.name,
+            role: character.role,
+            dkp: character.dkp,
+            user: character.user,
+          } : null,
+          attendanceCount: attendance._count.eventId,
+        };
+      })
+    );
+
+    return topAttendersWithDetails.filter(item => item.character !== null);
+  }
+
+  // Wishlist point operations
+  async applyWishlistPointChange(tx: TransactionClient, characterId: number, delta: number, entry: WishlistPointEntry) {
+    const character = await tx.character.update({
+      where: { id: characterId },
+      data: {
+        wishlistPoints: {
+          increment: delta,
+        },
+      },
+    });
+
+    const transaction = await tx.wishlistPointTransaction.create({
+      data: {
+        characterId,
+        delta,
+        balanceAfter: character.wishlistPoints,
+        reason: entry.reason ?? null,
+        sourceType: entry.sourceType,
+        itemId: entry.itemId ?? null,
+        actorId: entry.actorId ?? null,
+      },
+    });
+
+    return { character, transaction };
+  }
+
+  async updateWishlistPoints(characterId: number, delta: number, entry: WishlistPointEntry) {
+    return await prisma.$transaction(async (tx) => {
+      return await this.applyWishlistPointChange(tx, characterId, delta, entry);
+    });
+  }
+
+  async getCommittedWishlistPoints(characterId: number) {
+    const result = await prisma.wish.aggregate({
+      where: { characterId },
+      _sum: { pointCost: true },
+    });
+    return result._sum.pointCost ?? 0;
+  }
+
+  async getWishlistPointTransactions(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.WishlistPointTransactionWhereInput;
+  } = {}) {
+    return await prisma.wishlistPointTransaction.findMany({
+      ...options,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      include: {
+        actor: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getWishlistPointTransactionCount(filters: Prisma.WishlistPointTransactionWhereInput = {}) {
+    return await prisma.wishlistPointTransaction.count({
+      where: filters,
+    });
+  }
+
+  // Auction operations
+  async createAuction(auctionData: {
+    itemId: number;
+    eventId?: number | null;
+    mode: 'OPEN' | 'SEALED';
+    minBid: number;
+    tieBreaker: 'ATTENDANCE' | 'ROLL' | 'WISHLIST';
+    endsAt?: Date | null;
+    openedById: number;
+  }) {
+    return await prisma.auction.create({
+      data: {
+        itemId: auctionData.itemId,
+        eventId: auctionData.eventId ?? null,
+        mode: auctionData.mode,
+        minBid: auctionData.minBid,
+        tieBreaker: auctionData.tieBreaker,
+        endsAt: auctionData.endsAt ?? null,
+        openedById: auctionData.openedById,
+      },
+    });
+  }
+
+  async getAuctions(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.AuctionWhereInput;
+  } = {}) {
+    return await prisma.auction.findMany({
+      ...options,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        item: true,
+        event: {
+          select: {
+            id: true,
+            title: true,
+            startTime: true,
+          },
+        },
+        winner: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        _count: {
+          select: {
+            bids: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getAuctionCount(filters: Prisma.AuctionWhereInput = {}) {
+    return await prisma.auction.count({
+      where: filters,
+    });
+  }
+
+  async getAuctionById(auctionId: number, guildId: number) {
+    return await prisma.auction.findUnique({
+      where: { id: auctionId, item: { guildId } },
+      include: {
+        item: true,
+        event: {
+          select: {
+            id: true,
+            title: true,
+            startTime: true,
+          },
+        },
+        openedBy: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+        closedBy: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+        winner: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        bids: {
+          orderBy: [{ amount: 'desc' }, { updatedAt: 'asc' }],
+          include: {
+            character: {
+              select: {
+                id: true,
+                name: true,
+                userId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  async upsertAuctionBid(auctionId: number, characterId: number, amount: number) {
+    return await prisma.auctionBid.upsert({
+      where: {
+        auctionId_characterId: {
+          auctionId,
+          characterId,
+        },
+      },
+      update: { amount },
+      create: {
+        auctionId,
+        characterId,
+        amount,
+      },
+    });
+  }
+
+  async cancelAuction(auctionId: number, actorId: number) {
+    const result = await prisma.auction.updateMany({
+      where: { id: auctionId, status: 'OPEN' },
+      data: {
+        status: 'CANCELLED',
+        closedById: actorId,
+        closedAt: new Date(),
+      },
+    });
+    return result.count > 0;
+  }
+
+  async getExpiredAuctionIds(now: Date = new Date()) {
+    const auctions = await prisma.auction.findMany({
+      where: {
+        status: 'OPEN',
+        endsAt: { lte: now },
+      },
+      select: { id: true },
+    });
+    return auctions.map((auction) => auction.id);
+  }
+
+  // Loot operations
+  // Records who received an item and removes the wish it fulfilled. DKP is charged by the caller.
+  async recordLootAward(tx: TransactionClient, awardData: {
+    itemId: number;
+    characterId: number;
+    eventId?: number | null;
+    auctionId?: number | null;
+    dkpCost: number;
+    lootSystem?: LootSystem;
+    gpCost?: number;
+    awardedById?: number | null;
+    note?: string | null;
+  }) {
+    const award = await tx.lootAward.create({
+      data: {
+        itemId: awardData.itemId,
+        characterId: awardData.characterId,
+        eventId: awardData.eventId ?? null,
+        auctionId: awardData.auctionId ?? null,
+        dkpCost: awardData.dkpCost,
+        lootSystem: awardData.lootSystem ?? 'DKP',
+        gpCost: awardData.gpCost ?? 0,
+        awardedById: awardData.awardedById ?? null,
+        note: awardData.note ?? null,
+      },
+    });
+
+    const wishFulfilled = await this.removeWish(tx, awardData.characterId, awardData.itemId, {
+      sourceType: 'FULFILLED',
+      reason: 'Wish fulfilled',
+      actorId: awardData.awardedById ?? null,
+    });
+
+    return { award, wishFulfilled };
+  }
+
+  // Awards an item and charges its DKP cost. The balance is checked in the same transaction that spends it, so
+  // concurrent awards cannot both spend the same DKP; a character who cannot pay gets only their balance back.
+  async awardLoot(awardData: {
+    itemId: number;
+    characterId: number;
+    eventId?: number | null;
+    dkpCost: number;
+    lootSystem?: LootSystem;
+    gpCost?: number;
+    awardedById: number;
+    note?: string | null;
+  }) {
+    return await prisma.$transaction(async (tx) => {
+      if (awardData.dkpCost > 0) {
+        const { dkp } = await tx.character.findUniqueOrThrow({
+          where: { id: awardData.characterId },
+          select: { dkp: true },
+        });
+        if (awardData.dkpCost > dkp) return { balance: dkp };
+      }
+
+      const { award, wishFulfilled } = await this.recordLootAward(tx, awardData);
+
+      // Suicide kings: the winner drops to the bottom of the list
+      if (award.lootSystem === 'SUICIDE_KINGS') {
+        const item = await tx.item.findUniqueOrThrow({ where: { id: award.itemId } });
+        const order = await this.getSuicideKingsOrder(item.guildId, tx);
+        await this.writeSuicideKingsOrder(tx, item.guildId, [
+          ...order.map((character) => character.id).filter((id) => id !== award.characterId),
+          award.characterId,
+        ]);
+      }
+
+      let transaction = null;
+      if (award.dkpCost !== 0) {
+        const item = await tx.item.findUniqueOrThrow({ where: { id: award.itemId } });
+        ({ transaction } = await this.applyDkpChange(tx, award.characterId, -award.dkpCost, {
+          sourceType: 'LOOT',
+          sourceId: award.id,
+          reason: `Received ${item.name}`,
+          actorId: awardData.awardedById,
+        }));
+      }
+
+      return { award, transaction, wishFulfilled };
+    });
+  }
+
+  async getLootAwards(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.LootAwardWhereInput;
+  } = {}) {
+    return await prisma.lootAward.findMany({
+      ...options,
+      orderBy: [{ awardedAt: 'desc' }, { id: 'desc' }],
+      include: {
+        item: true,
+        character: {
+          select: {
+            id: true,
+            name: true,
+            role: true,
+          },
+        },
+        event: {
+          select: {
+            id: true,
+            title: true,
+            startTime: true,
+          },
+        },
+        awardedBy: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getLootAwardCount(filters: Prisma.LootAwardWhereInput = {}) {
+    return await prisma.lootAward.count({
+      where: filters,
+    });
+  }
+
+  async sumLootAwardCost(filters: Prisma.LootAwardWhereInput = {}) {
+    const result = await prisma.lootAward.aggregate({
+      where: filters,
+      _sum: { dkpCost: true },
+    });
+    return result._sum.dkpCost ?? 0;
+  }
+
+  // Loot system operations
+  async getLootSystemSettings(guildId: number) {
+    return await prisma.lootSystemSetting.findMany({
+      where: { guildId },
+      orderBy: { category: 'asc' },
+      include: {
+        updatedBy: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+    });
+  }
+
+  // Replace the whole configuration; a null category is the guild default
+  async setLootSystemSettings(guildId: number, settings: { category: ItemCategory | null; system: LootSystem }[], updatedById: number) {
+    return await prisma.$transaction(async (tx) => {
+      await tx.lootSystemSetting.deleteMany({ where: { guildId } });
+
+      for (const setting of settings) {
+        await tx.lootSystemSetting.create({
+          data: {
+            guildId,
+            category: setting.category,
+            system: setting.system,
+            updatedById,
+          },
+        });
+      }
+
+      return await tx.lootSystemSetting.findMany({
+        where: { guildId },
+        orderBy: { category: 'asc' },
+      });
+    });
+  }
+
+  async getEpgpSettings(guildId: number) {
+    return await prisma.epgpSettings.findUnique({
+      where: { guildId },
+    });
+  }
+
+  async upsertEpgpSettings(guildId: number, settings: { baseGp?: number; decayPercent?: number; minEp?: number }) {
+    return await prisma.epgpSettings.upsert({
+      where: { guildId },
+      update: settings,
+      create: { guildId, ...settings },
+    });
+  }
+
+  async getStandingsCandidates(guildId: number) {
+    return await prisma.character.findMany({
+      where: { guildId, active: 'ACTIVE' },
+      select: { id: true, name: true, role: true, dkp: true },
+    });
+  }
+
+  // Everything EP and GP are computed from: finalized attendance and loot awarded under EPGP
+  async getEpgpRecords(guildId: number, characterIds: number[]) {
+    const [attendances, awards] = await Promise.all([
+      prisma.attendance.findMany({
+        where: {
+          characterId: { in: characterIds },
+          pending: false,
+          event: { guildId },
+        },
+        select: {
+          characterId: true,
+          dkpAwarded: true,
+          event: { select: { startTime: true } },
+        },
+      }),
+      prisma.lootAward.findMany({
+        where: {
+          characterId: { in: characterIds },
+          lootSystem: 'EPGP',
+        },
+        select: {
+          characterId: true,
+          gpCost: true,
+          awardedAt: true,
+        },
+      }),
+    ]);
+
+    return {
+      effort: attendances.map((attendance) => ({
+        characterId: attendance.characterId,
+        points: attendance.dkpAwarded,
+        earnedAt: attendance.event.startTime,
+      })),
+      gear: awards.map((award) => ({
+        characterId: award.characterId,
+        points: award.gpCost,
+        earnedAt: award.awardedAt,
+      })),
+    };
+  }
+
+  // Listed characters by position, then characters not on the list yet in the order they were created
+  async getSuicideKingsOrder(guildId: number, tx: TransactionClient = prisma) {
+    const characters = await tx.character.findMany({
+      where: { guildId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        role: true,
+        active: true,
+        suicideKingsPosition: { select: { position: true } },
+      },
+    });
+
+    const positionOf = (character: typeof characters[number]) =>
+      character.suicideKingsPosition?.position ?? Number.MAX_SAFE_INTEGER;
+    return characters.sort((a, b) => positionOf(a) - positionOf(b));
+  }
+
+  async writeSuicideKingsOrder(tx: TransactionClient, guildId: number, characterIds: number[]) {
+    await tx.suicideKingsPosition.deleteMany({ where: { guildId } });
+    await tx.suicideKingsPosition.createMany({
+      data: characterIds.map((characterId, index) => ({ guildId, characterId, position: index + 1 })),
+    });
+  }
+
+  // Characters left out of the new order keep their relative order below it
+  async setSuicideKingsOrder(guildId: number, characterIds: number[]) {
+    return await prisma.$transaction(async (tx) => {
+      const current = await this.getSuicideKingsOrder(guildId, tx);
+      const known = new Set(current.map((character) => character.id));
+      const listed = characterIds.filter((id) => known.has(id));
+
+      await this.writeSuicideKingsOrder(tx, guildId, [
+        ...listed,
+        ...current.map((character) => character.id).filter((id) => !listed.includes(id)),
+      ]);
+
+      return await this.getSuicideKingsOrder(guildId, tx);
+    });
+  }
+
+  // Audit log operations
+  async createAuditEntry(entry: {
+    guildId: number | null;
+    actorId: number | null;
+    actorRole: string | null;
+    action: string;
+    targetType: string;
+    targetId: string | null;
+    before: string | null;
+    after: string | null;
+    changes: string | null;
+    method: string;
+    path: string;
+    ip: string | null;
+  }) {
+    return await prisma.auditEntry.create({
+      data: entry,
+    });
+  }
+
+  async getAuditEntries(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.AuditEntryWhereInput;
+  } = {}) {
+    return await prisma.auditEntry.findMany({
+      ...options,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      include: {
+        actor: {
+          select: {
+            id: true,
+            username: true,
+            discordId: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getAuditEntryCount(filters: Prisma.AuditEntryWhereInput = {}) {
+    return await prisma.auditEntry.count({
+      where: filters,
+    });
+  }
+
+  async getWish(characterId: number, itemId: number) {
+    return await prisma.wish.findUnique({
+      where: {
+        characterId_itemId: {
+          characterId,
+          itemId,
+        },
+      },
+    });
+  }
+
+  // Utility methods
+  async getUserCount() {
+    return await prisma.user.count();
+  }
+
+  async getActiveSessionCount() {
+    const now = BigInt(Date.now());
+    return await prisma.session.count({
+      where: {
+        expiresAt: {
+          gt: now,
+        },
+      },
+    });
+  }
+
+  // Recruitment operations
+  async createRecruitmentForm(guildId: number, formData: {
+    title: string;
+    description?: string | null;
+    active?: boolean;
+  }, questions: RecruitmentQuestionInput[], createdById: number) {
+    return await prisma.recruitmentForm.create({
+      data: {
+        guildId,
+        ...formData,
+        createdById,
+        questions: {
+          create: questions.map((question, index) => ({
+            ...question,
+            position: index + 1,
+            options: question.options ? JSON.stringify(question.options) : null,
+          })),
+        },
+      },
+      include: {
+        questions: { orderBy: { position: 'asc' } },
+      },
+    });
+  }
+
+  async getRecruitmentForms(guildId: number) {
+    return await prisma.recruitmentForm.findMany({
+      where: { guildId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        questions: { orderBy: { position: 'asc' } },
+        _count: { select: { applications: true } },
+      },
+    });
+  }
+
+  async getRecruitmentFormById(formId: number, guildId: number) {
+    return await prisma.recruitmentForm.findUnique({
+      where: { id: formId, guildId },
+      include: {
+        questions: { orderBy: { position: 'asc' } },
+        _count: { select: { applications: true } },
+      },
+    });
+  }
+
+  // Forms outsiders can fill in; only active forms are ever exposed publicly
+  async getActiveRecruitmentForms(filters: { guildSlug?: string; formId?: number }) {
+    return await prisma.recruitmentForm.findMany({
+      where: {
+        active: true,
+        ...(filters.formId !== undefined && { id: filters.formId }),
+        ...(filters.guildSlug !== undefined && { guild: { slug: filters.guildSlug } }),
+      },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        guild: { select: { id: true, name: true, slug: true } },
+        questions: { orderBy: { position: 'asc' } },
+      },
+    });
+  }
+
+  // Replaces the question list when one is given
+  async updateRecruitmentForm(formId: number, updateData: {
+    title?: string;
+    description?: string | null;
+    active?: boolean;
+  }, questions?: RecruitmentQuestionInput[]) {
+    return await prisma.$transaction(async (tx) => {
+      if (questions) {
+        await tx.recruitmentQuestion.deleteMany({ where: { formId } });
+        await tx.recruitmentQuestion.createMany({
+          data: questions.map((question, index) => ({
+            formId,
+            ...question,
+            position: index + 1,
+            options: question.options ? JSON.stringify(question.options) : null,
+          })),
+        });
+      }
+
+      return await tx.recruitmentForm.update({
+        where: { id: formId },
+        data: updateData,
+        include: {
+          questions: { orderBy: { position: 'asc' } },
+          _count: { select: { applications: true } },
+        },
+      });
+    });
+  }
+
+  async deleteRecruitmentForm(formId: number) {
+    return await prisma.recruitmentForm.delete({
+      where: { id: formId },
+    });
+  }
+
+  async createApplication(applicationData: {
+    guildId: number;
+    formId: number;
+    discordId: string;
+    discordUsername: string;
+    answers: ApplicationAnswer[];
+  }) {
+    return await prisma.recruitmentApplication.create({
+      data: {
+        ...applicationData,
+        answers: JSON.stringify(applicationData.answers),
+      },
+    });
+  }
+
+  // An applicant may only have one application under consideration per guild
+  async getOpenApplication(guildId: number, discordId: string) {
+    return await prisma.recruitmentApplication.findFirst({
+      where: {
+        guildId,
+        discordId,
+        status: { in: ['NEW', 'REVIEWING'] },
+      },
+    });
+  }
+
+  async getApplications(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.RecruitmentApplicationWhereInput;
+  }) {
+    return await prisma.recruitmentApplication.findMany({
+      ...(options.skip !== undefined && { skip: options.skip }),
+      ...(options.take !== undefined && { take: options.take }),
+      where: options.where ?? {},
+      orderBy: { createdAt: 'desc' },
+      include: {
+        form: { select: { id: true, title: true } },
+        votes: { select: { approve: true } },
+        _count: { select: { comments: true } },
+      },
+    });
+  }
+
+  async getApplicationCount(filters: Prisma.RecruitmentApplicationWhereInput = {}) {
+    return await prisma.recruitmentApplication.count({
+      where: filters,
+    });
+  }
+
+  async getApplicationById(applicationId: number, guildId: number) {
+    return await prisma.recruitmentApplication.findUnique({
+      where: { id: applicationId, guildId },
+      include: {
+        form: { select: { id: true, title: true } },
+        reviewedBy: { select: { id: true, username: true } },
+        comments: {
+          orderBy: { createdAt: 'asc' },
+          include: { author: { select: { id: true, username: true } } },
+        },
+        votes: {
+          orderBy: { createdAt: 'asc' },
+          include: { voter: { select: { id: true, username: true } } },
+        },
+      },
+    });
+  }
+
+  async updateApplicationStatus(applicationId: number, status: ApplicationStatus, reviewedById: number) {
+    return await prisma.recruitmentApplication.update({
+      where: { id: applicationId },
+      data: {
+        status,
+        reviewedById,
+        reviewedAt: new Date(),
+      },
+    });
+  }
+
+  // Accepting links the applicant's Discord account to a user (created on the spot if they never
+  // signed in; their tokens are filled in on first login) and makes them a MEMBER of the guild
+  async acceptApplication(applicationId: number, reviewedById: number) {
+    return await prisma.$transaction(async (tx) => {
+      const application = await tx.recruitmentApplication.findUniqueOrThrow({
+        where: { id: applicationId },
+      });
+
+      const user = await tx.user.upsert({
+        where: { discordId: application.discordId },
+        update: {},
+        create: {
+          discordId: application.discordId,
+          username: application.discordUsername,
+          accessToken: '',
+          refreshToken: '',
+          expiresAt: BigInt(0),
+        },
+      });
+
+      const existingMembership = await tx.guildMember.findUnique({
+        where: {
+          guildId_userId: {
+            guildId: application.guildId,
+            userId: user.id,
+          },
+        },
+      });
+
+      if (!existingMembership) {
+        await tx.guildMember.create({
+          data: {
+            guildId: application.guildId,
+            userId: user.id,
+            role: 'MEMBER',
+          },
+        });
+      }
+
+      const accepted = await tx.recruitmentApplication.update({
+        where: { id: applicationId },
+        data: {
+          status: 'ACCEPTED',
+          userId: user.id,
+          reviewedById,
+          reviewedAt: new Date(),
+        },
+      });
+
+      return { application: accepted, user, alreadyMember: !!existingMembership };
+    });
+  }
+
+  async addApplicationComment(applicationId: number, authorId: number, body: string) {
+    return await prisma.applicationComment.create({
+      data: {
+        applicationId,
+        authorId,
+        body,
+      },
+      include: { author: { select: { id: true, username: true } } },
+    });
+  }
+
+  async setApplicationVote(applicationId: number, voterId: number, approve: boolean) {
+    return await prisma.applicationVote.upsert({
+      where: {
+        applicationId_voterId: {
+          applicationId,
+          voterId,
+        },
+      },
+      update: { approve },
+      create: {
+        applicationId,
+        voterId,
+        approve,
+      },
+    });
+  }
+
+  async removeApplicationVote(applicationId: number, voterId: number) {
+    const result = await prisma.applicationVote.deleteMany({
+      where: { applicationId, voterId },
+    });
+    return result.count > 0;
+  }
+
+  // Gear check operations
+  // Active characters a gear check is aimed at: the listed ones plus everyone playing one of the roles
+  async getGearCheckCandidates(guildId: number, characterIds: number[], roles: CharacterRole[]) {
+    return await prisma.character.findMany({
+      where: {
+        guildId,
+        active: 'ACTIVE',
+        OR: [
+          { id: { in: characterIds } },
+          { role: { in: roles } },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        role: true,
+      },
+    });
+  }
+
+  async createGearCheck(guildId: number, checkData: {
+    title: string;
+    description?: string | null;
+    dueAt: Date;
+  }, characterIds: number[], createdById: number) {
+    return await prisma.gearCheck.create({
+      data: {
+        guildId,
+        ...checkData,
+        createdById,
+        targets: {
+          create: characterIds.map((characterId) => ({ characterId })),
+        },
+      },
+      include: {
+        _count: { select: { targets: true } },
+      },
+    });
+  }
+
+  async getGearChecks(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.GearCheckWhereInput;
+  }) {
+    return await prisma.gearCheck.findMany({
+      ...(options.skip !== undefined && { skip: options.skip }),
+      ...(options.take !== undefined && { take: options.take }),
+      where: options.where ?? {},
+      orderBy: { dueAt: 'asc' },
+      include: {
+        createdBy: { select: { id: true, username: true } },
+        targets: { select: { characterId: true } },
+        submissions: {
+          orderBy: { createdAt: 'desc' },
+          select: { characterId: true, status: true, createdAt: true },
+        },
+      },
+    });
+  }
+
+  async getGearCheckCount(filters: Prisma.GearCheckWhereInput = {}) {
+    return await prisma.gearCheck.count({
+      where: filters,
+    });
+  }
+
+  async getGearCheckById(gearCheckId: number, guildId: number) {
+    return await prisma.gearCheck.findUnique({
+      where: { id: gearCheckId, guildId },
+      include: {
+        createdBy: { select: { id: true, username: true } },
+        targets: {
+          include: {
+            character: { select: { id: true, name: true, role: true, userId: true } },
+          },
+        },
+        submissions: {
+          orderBy: { createdAt: 'desc' },
+          include: {
+            submittedBy: { select: { id: true, username: true } },
+            reviewedBy: { select: { id: true, username: true } },
+          },
+        },
+      },
+    });
+  }
+
+  async closeGearCheck(gearCheckId: number) {
+    return await prisma.gearCheck.update({
+      where: { id: gearCheckId },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+      },
+    });
+  }
+
+  async deleteGearCheck(gearCheckId: number) {
+    return await prisma.gearCheck.delete({
+      where: { id: gearCheckId },
+    });
+  }
+
+  async createGearSubmission(submissionData: {
+    gearCheckId: number;
+    characterId: number;
+    imageUrls: string[];
+    skillBuild?: string | null;
+    submittedById: number;
+  }) {
+    return await prisma.gearSubmission.create({
+      data: {
+        ...submissionData,
+        imageUrls: JSON.stringify(submissionData.imageUrls),
+      },
+    });
+  }
+
+  async getGearSubmission(submissionId: number, gearCheckId: number) {
+    return await prisma.gearSubmission.findUnique({
+      where: { id: submissionId, gearCheckId },
+    });
+  }
+
+  // Only pending submissions can be reviewed; returns null if someone else got there first
+  async reviewGearSubmission(submissionId: number, reviewData: {
+    status: Exclude<GearSubmissionStatus, 'PENDING'>;
+    feedback: string | null;
+    reviewedById: number;
+  }) {
+    const result = await prisma.gearSubmission.updateMany({
+      where: { id: submissionId, status: 'PENDING' },
+      data: {
+        ...reviewData,
+        reviewedAt: new Date(),
+      },
+    });
+    if (result.count === 0) return null;
+
+    return await prisma.gearSubmission.findUnique({
+      where: { id: submissionId },
+    });
+  }
+
+  async getCharacterGearSubmissions(characterId: number) {
+    return await prisma.gearSubmission.findMany({
+      where: { characterId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        gearCheck: { select: { id: true, title: true, dueAt: true } },
+        reviewedBy: { select: { id: true, username: true } },
+      },
+    });
+  }
+
+  // Open gear checks past their due date, with each target's submissions (newest first)
+  async getPastDueGearChecks(guildId: number, now: Date = new Date()) {
+    return await prisma.gearCheck.findMany({
+      where: {
+        guildId,
+        status: 'OPEN',
+        dueAt: { lt: now },
+      },
+      orderBy: { dueAt: 'asc' },
+      include: {
+        targets: {
+          include: {
+            character: {
+              select: {
+                id: true,
+                name: true,
+                role: true,
+                user: { select: { id: true, username: true, discordId: true } },
+              },
+            },
+          },
+        },
+        submissions: {
+          orderBy: { createdAt: 'desc' },
+          select: { characterId: true, status: true, createdAt: true },
+        },
+      },
+    });
+  }
+
+  // Upload operations
+  async createUpload(uploadData: {
+    guildId: number;
+    key: string;
+    thumbnailKey: string;
+    originalName: string | null;
+    mimeType: string;
+    size: number;
+    width: number;
+    height: number;
+    uploadedById: number;
+    characterId?: number | null;
+    itemId?: number | null;
+  }) {
+    return await prisma.upload.create({
+      data: uploadData,
+    });
+  }
+
+  async getUploadById(uploadId: number, guildId: number) {
+    return await prisma.upload.findUnique({
+      where: { id: uploadId, guildId },
+    });
+  }
+
+  async getUploadsFor(link: { characterId: number } | { itemId: number }) {
+    return await prisma.upload.findMany({
+      where: link,
+    });
+  }
+
+  // Only unattached uploads are claimed; one already in use elsewhere keeps its owner
+  async linkUploads(guildId: number, keys: string[], link: { characterId: number } | { itemId: number }) {
+    return await prisma.upload.updateMany({
+      where: {
+        guildId,
+        key: { in: keys },
+        characterId: null,
+        itemId: null,
+      },
+      data: link,
+    });
+  }
+
+  async deleteUploads(uploadIds: number[]) {
+    return await prisma.upload.deleteMany({
+      where: { id: { in: uploadIds } },
+    });
+  }
+
+  // Uploads not attached to a character or item, created before the cutoff
+  async getOrphanedUploads(createdBefore: Date) {
+    return await prisma.upload.findMany({
+      where: {
+        characterId: null,
+        itemId: null,
+        createdAt: { lt: createdBefore },
+      },
+    });
+  }
+
+  // Notification webhook operations
+  async getNotificationWebhooks(guildId: number) {
+    return await prisma.notificationWebhook.findMany({
+      where: { guildId },
+      orderBy: [{ category: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async getNotificationWebhookById(webhookId: number, guildId: number) {
+    return await prisma.notificationWebhook.findUnique({
+      where: { id: webhookId, guildId },
+    });
+  }
+
+  async getEnabledNotificationWebhooks(guildId: number, category: NotificationCategory) {
+    return await prisma.notificationWebhook.findMany({
+      where: { guildId, category, enabled: true },
+    });
+  }
+
+  async createNotificationWebhook(webhookData: {
+    guildId: number;
+    category: NotificationCategory;
+    name: string | null;
+    url: string;
+    createdById: number;
+  }) {
+    return await prisma.notificationWebhook.create({
+      data: webhookData,
+    });
+  }
+
+  async updateNotificationWebhook(webhookId: number, updateData: {
+    category?: NotificationCategory;
+    name?: string | null;
+    url?: string;
+    enabled?: boolean;
+  }) {
+    return await prisma.notificationWebhook.update({
+      where: { id: webhookId },
+      data: updateData,
+    });
+  }
+
+  async deleteNotificationWebhook(webhookId: number) {
+    return await prisma.notificationWebhook.delete({
+      where: { id: webhookId },
+    });
+  }
+
+  async createWebhookDeliveries(deliveries: {
+    guildId: number;
+    webhookId: number;
+    category: NotificationCategory;
+    payload: string;
+  }[]) {
+    return await prisma.$transaction(
+      deliveries.map((delivery) => prisma.webhookDelivery.create({ data: delivery }))
+    );
+  }
+
+  // Take a due delivery for one attempt. Pushing nextAttemptAt out works as a lease, so a worker
+  // that dies mid-send leaves the delivery to be picked up again once the lease passes.
+  async claimWebhookDelivery(deliveryId: number, now: Date, leaseUntil: Date) {
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: leaseUntil, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return null;
+
+    return await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+  }
+
+  async finishWebhookDeliveryAttempt(deliveryId: number, outcome: {
+    status: WebhookDeliveryStatus;
+    nextAttemptAt?: Date;
+    lastStatusCode: number | null;
+    lastError: string | null;
+    sentAt?: Date;
+  }) {
+    return await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: outcome,
+    });
+  }
+
+  async getDueWebhookDeliveryIds(now: Date, take: number) {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      select: { id: true },
+      take,
+    });
+    return deliveries.map((delivery) => delivery.id);
+  }
+
+  async getWebhookDeliveries(options: {
+    skip?: number;
+    take?: number;
+    where?: Prisma.WebhookDeliveryWhereInput;
+  } = {}) {
+    return await prisma.webhookDelivery.findMany({
+      ...options,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      include: {
+        webhook: {
+          select: {
+            id: true,
+            name: true,
+            category: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getWebhookDeliveryCount(where: Prisma.WebhookDeliveryWhereInput) {
+    return await prisma.webhookDelivery.count({ where });
+  }
+
+  async getWebhookDeliveryById(deliveryId: number, guildId: number) {
+    return await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId, guildId },
+    });
+  }
+
+  // Give a failed delivery a fresh set of attempts
+  async retryWebhookDelivery(deliveryId: number) {
+    return await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), lastError: null, lastStatusCode: null },
+    });
+  }
+
+  async deleteWebhookDeliveriesBefore(before: Date) {
+    return await prisma.webhookDelivery.deleteMany({
+      where: { createdAt: { lt: before }, status: { not: 'PENDING' } },
+    });
+  }
+
+  // Event reminder operations
+  // Replace an event's reminder rules. Rules for an unchanged lead time keep their schedule and deliveries.
+  async setEventReminders(eventId: number, startTime: Date, reminders: EventReminderInput[]) {
+    return await prisma.$transaction(async (tx) => {
+      await tx.eventReminder.deleteMany({
+        where: { eventId, minutesBefore: { notIn: reminders.map((reminder) => reminder.minutesBefore) } },
+      });
+
+      for (const reminder of reminders) {
+        const fields = { audience: reminder.audience, channels: JSON.stringify(reminder.channels) };
+        await tx.eventReminder.upsert({
+          where: { eventId_minutesBefore: { eventId, minutesBefore: reminder.minutesBefore } },
+          update: fields,
+          create: {
+            eventId,
+            minutesBefore: reminder.minutesBefore,
+            ...fields,
+            ...reminderSchedule(startTime, reminder.minutesBefore),
+          },
+        });
+      }
+
+      return await tx.eventReminder.findMany({
+        where: { eventId },
+        orderBy: { minutesBefore: 'desc' },
+      });
+    });
+  }
+
+  async getEventReminderDeliveryCounts(eventId: number) {
+    return await prisma.reminderDelivery.groupBy({
+      by: ['reminderId', 'status'],
+      where: { reminder: { eventId } },
+      _count: { _all: true },
+    });
+  }
+
+  async getDueEventReminderIds(now: Date, take: number) {
+    const reminders = await prisma.eventReminder.findMany({
+      where: { status: 'SCHEDULED', sendAt: { lte: now }, event: { status: { in: ['SCHEDULED', 'IN_PROGRESS'] } } },
+      orderBy: { sendAt: 'asc' },
+      select: { id: true },
+      take,
+    });
+    return reminders.map((reminder) => reminder.id);
+  }
+
+  // Mark a due reminder as sent so only one worker fans it out to members
+  async claimEventReminder(reminderId: number, now: Date) {
+    const claimed = await prisma.eventReminder.updateMany({
+      where: { id: reminderId, status: 'SCHEDULED', sendAt: { lte: now } },
+      data: { status: 'SENT', sentAt: now },
+    });
+    if (claimed.count === 0) return null;
+
+    return await prisma.eventReminder.findUnique({
+      where: { id: reminderId },
+      include: {
+        event: {
+          include: {
+            guild: true,
+            signups: {
+              select: {
+                status: true,
+                character: { select: { userId: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  // Members with at least one active character in the guild
+  async getActiveMemberUserIds(guildId: number) {
+    const characters = await prisma.character.findMany({
+      where: { guildId, active: 'ACTIVE' },
+      select: { userId: true },
+      distinct: ['userId'],
     });
+    return characters.map((character) => character.userId);
   }
 
-  async getUsersByRole(role: 'MEMBER' | 'OFFICER' | 'ADMIN') {
+  async getReminderRecipients(userIds: number[]) {
     return await prisma.user.findMany({
-      where: { role },
+      where: { id: { in: userIds } },
       select: {
         id: true,
         username: true,
         discordId: true,
-        role: true,
-        createdAt: true,
+        email: true,
+        notificationPreference: true,
+      },
+    });
+  }
+
+  async createReminderDeliveries(deliveries: {
+    reminderId: number;
+    userId: number;
+    channel: string;
+    status: ReminderDeliveryStatus;
+    nextAttemptAt: Date;
+    lastError: string | null;
+  }[]) {
+    return await prisma.reminderDelivery.createMany({ data: deliveries });
+  }
+
+  // Same lease as webhook deliveries: a worker that dies mid-send leaves the delivery for the next run
+  async claimReminderDelivery(deliveryId: number, now: Date, leaseUntil: Date) {
+    const claimed = await prisma.reminderDelivery.updateMany({
+      where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: leaseUntil, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return null;
+
+    return await prisma.reminderDelivery.findUnique({
+      where: { id: deliveryId },
+      include: {
+        reminder: {
+          include: {
+            event: { include: { guild: true } },
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            username: true,
+            discordId: true,
+            email: true,
+            timeZone: true,
+            notificationPreference: true,
+          },
+        },
+      },
+    });
+  }
+
+  async finishReminderDeliveryAttempt(deliveryId: number, outcome: {
+    status: ReminderDeliveryStatus;
+    nextAttemptAt?: Date;
+    lastError: string | null;
+    sentAt?: Date;
+  }) {
+    return await prisma.reminderDelivery.update({
+      where: { id: deliveryId },
+      data: outcome,
+    });
+  }
+
+  async getDueReminderDeliveryIds(now: Date, take: number) {
+    const deliveries = await prisma.reminderDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      select: { id: true },
+      take,
+    });
+    return deliveries.map((delivery) => delivery.id);
+  }
+
+  // Notification preference operations
+  async getNotificationPreference(userId: number) {
+    return await prisma.notificationPreference.findUnique({
+      where: { userId },
+    });
+  }
+
+  async upsertNotificationPreference(userId: number, preferenceData: {
+    remindersEnabled?: boolean;
+    channels?: string[];
+    email?: string | null;
+    quietHoursStart?: string | null;
+    quietHoursEnd?: string | null;
+    timeZone?: string;
+  }) {
+    const { channels, ...fields } = preferenceData;
+    const data = { ...fields, ...(channels && { channels: JSON.stringify(channels) }) };
+    return await prisma.notificationPreference.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data },
+    });
+  }
+
+  // Calendar feed operations
+  async getCalendarFeed(userId: number, guildId: number) {
+    return await prisma.calendarFeed.findUnique({
+      where: { userId_guildId: { userId, guildId } },
+    });
+  }
+
+  async getCalendarFeedByToken(token: string) {
+    return await prisma.calendarFeed.findUnique({
+      where: { token },
+      include: { guild: true, user: { select: { id: true, timeZone: true } } },
+    });
+  }
+
+  // Creating a feed that already exists gives it a new token, so the old URL stops working
+  async saveCalendarFeed(userId: number, guildId: number, token: string) {
+    return await prisma.calendarFeed.upsert({
+      where: { userId_guildId: { userId, guildId } },
+      update: { token, lastFetchedAt: null },
+      create: { userId, guildId, token },
+    });
+  }
+
+  async deleteCalendarFeed(userId: number, guildId: number) {
+    const result = await prisma.calendarFeed.deleteMany({
+      where: { userId, guildId },
+    });
+    return result.count > 0;
+  }
+
+  async markCalendarFeedFetched(feedId: number, fetchedAt: Date) {
+    return await prisma.calendarFeed.update({
+      where: { id: feedId },
+      data: { lastFetchedAt: fetchedAt },
+    });
+  }
+
+  // Published events for a feed, with the signups of the feed owner's characters
+  async getCalendarFeedEvents(guildId: number, userId: number, options: { endsAfter: Date; types?: EventType[]; take: number }) {
+    return await prisma.event.findMany({
+      where: {
+        guildId,
+        status: { not: 'DRAFT' },
+        endTime: { gte: options.endsAfter },
+        ...(options.types && { type: { in: options.types } }),
+      },
+      orderBy: { startTime: 'asc' },
+      take: options.take,
+      include: {
+        guild: { select: { name: true } },
+        signups: {
+          where: { character: { userId } },
+          include: { character: { select: { name: true } } },
+        },
+      },
+    });
+  }
+
+  // Job operations
+  // Registered jobs keep their schedule across restarts; only the definition is refreshed
+  async syncJob(name: string, definition: { description: string | null; intervalSeconds: number; maxRetries: number }, firstRunAt: Date) {
+    return await prisma.job.upsert({
+      where: { name },
+      update: definition,
+      create: { name, ...definition, nextRunAt: firstRunAt },
+    });
+  }
+
+  async getJobs() {
+    return await prisma.job.findMany({
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getJob(name: string) {
+    return await prisma.job.findUnique({
+      where: { name },
+    });
+  }
+
+  // Take the job's lease if nobody holds it (or theirs expired). Scheduled claims also need the job enabled and due.
+  async claimJob(name: string, workerId: string, now: Date, leaseUntil: Date, scheduled: boolean) {
+    const claimed = await prisma.job.updateMany({
+      where: {
+        name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(scheduled && { enabled: true, nextRunAt: { lte: now } }),
+      },
+      data: { lockedBy: workerId, lockedUntil: leaseUntil },
+    });
+    return claimed.count === 1;
+  }
+
+  // Only the lease holder can release; a worker whose lease expired mid-run leaves the new holder alone
+  async releaseJob(name: string, workerId: string, updateData: {
+    nextRunAt: Date;
+    failures: number;
+    lastRunAt: Date;
+    lastStatus: 'SUCCEEDED' | 'FAILED';
+    lastResult: string | null;
+    lastError: string | null;
+  }) {
+    return await prisma.job.updateMany({
+      where: { name, lockedBy: workerId },
+      data: { ...updateData, lockedBy: null, lockedUntil: null },
+    });
+  }
+
+  async setJobEnabled(name: string, enabled: boolean) {
+    return await prisma.job.update({
+      where: { name },
+      data: { enabled },
+    });
+  }
+
+  async createJobRun(runData: {
+    jobName: string;
+    trigger: 'SCHEDULE' | 'MANUAL';
+    attempt: number;
+    workerId: string;
+    triggeredById?: number | null;
+  }) {
+    return await prisma.jobRun.create({
+      data: runData,
+    });
+  }
+
+  async finishJobRun(runId: number, outcome: { status: 'SUCCEEDED' | 'FAILED'; result: string | null; error: string | null }) {
+    return await prisma.jobRun.update({
+      where: { id: runId },
+      data: { ...outcome, finishedAt: new Date() },
+    });
+  }
+
+  async getJobRuns(jobName: string, options: { skip?: number; take?: number } = {}) {
+    return await prisma.jobRun.findMany({
+      ...options,
+      where: { jobName },
+      orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+      include: {
+        triggeredBy: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getJobRunCount(jobName: string) {
+    return await prisma.jobRun.count({
+      where: { jobName },
+    });
+  }
+
+  async deleteJobRunsBefore(before: Date) {
+    return await prisma.jobRun.deleteMany({
+      where: { startedAt: { lt: before }, status: { not: 'RUNNING' } },
+    });
+  }
+
+  // Guild operations
+  // The creator becomes the guild's first admin
+  async createGuild(guildData: { name: string; slug: string; timeZone?: string }, ownerId: number) {
+    return await prisma.guild.create({
+      data: {
+        ...guildData,
+        members: {
+          create: {
+            userId: ownerId,
+            role: 'ADMIN',
+          },
+        },
+      },
+    });
+  }
+
+  async getGuildById(guildId: number) {
+    return await prisma.guild.findUnique({
+      where: { id: guildId },
+      include: {
+        _count: {
+          select: {
+            members: true,
+            characters: true,
+            events: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getGuildBySlug(slug: string) {
+    return await prisma.guild.findUnique({
+      where: { slug },
+    });
+  }
+
+  async getGuildByDiscordId(discordGuildId: string) {
+    return await prisma.guild.findUnique({
+      where: { discordGuildId },
+    });
+  }
+
+  async updateGuild(guildId: number, updateData: {
+    name?: string;
+    slug?: string;
+    discordGuildId?: string | null;
+    timeZone?: string;
+    attendanceGraceHours?: number;
+    attendanceApprovalRequired?: boolean;
+  }) {
+    return await prisma.guild.update({
+      where: { id: guildId },
+      data: updateData,
+    });
+  }
+
+  async getUserGuilds(userId: number) {
+    return await prisma.guildMember.findMany({
+      where: { userId },
+      orderBy: { joinedAt: 'asc' },
+      include: { guild: true },
+    });
+  }
+
+  async getGuildMembership(guildId: number, userId: number) {
+    return await prisma.guildMember.findUnique({
+      where: {
+        guildId_userId: {
+          guildId,
+          userId,
+        },
+      },
+      include: { guild: true },
+    });
+  }
+
+  async getGuildMembers(guildId: number, options: {
+    skip?: number;
+    take?: number;
+    role?: 'MEMBER' | 'OFFICER' | 'ADMIN';
+  } = {}) {
+    return await prisma.guildMember.findMany({
+      where: {
+        guildId,
+        ...(options.role && { role: options.role }),
+      },
+      ...(options.skip !== undefined && { skip: options.skip }),
+      ...(options.take !== undefined && { take: options.take }),
+      orderBy: { joinedAt: 'asc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            discordId: true,
+            username: true,
+            avatar: true,
+            createdAt: true,
+            characters: {
+              where: { guildId },
+              select: {
+                id: true,
+                name: true,
+                role: true,
+                dkp: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  async getGuildMemberCount(filters: Prisma.GuildMemberWhereInput = {}) {
+    return await prisma.guildMember.count({
+      where: filters,
+    });
+  }
+
+  async addGuildMember(guildId: number, userId: number, role: 'MEMBER' | 'OFFICER' | 'ADMIN' = 'MEMBER') {
+    return await prisma.guildMember.create({
+      data: {
+        guildId,
+        userId,
+        role,
       },
     });
   }
 
-  async promoteUser(userId: number) {
-    const user = await this.getUserById(userId);
-    if (!user) return null;
+  async removeGuildMember(guildId: number, userId: number) {
+    const result = await prisma.guildMember.deleteMany({
+      where: { guildId, userId },
+    });
+    return result.count > 0;
+  }
+
+  // Role management operations (roles are per guild)
+  async updateGuildMemberRole(guildId: number, userId: number, role: 'MEMBER' | 'OFFICER' | 'ADMIN') {
+    const result = await prisma.guildMember.updateMany({
+      where: { guildId, userId },
+      data: { role },
+    });
+    if (result.count === 0) return null;
+    return await this.getGuildMembership(guildId, userId);
+  }
+
+  async promoteGuildMember(guildId: number, userId: number) {
+    const membership = await this.getGuildMembership(guildId, userId);
+    if (!membership) return null;
 
     let newRole: 'MEMBER' | 'OFFICER' | 'ADMIN';
-    switch (user.role) {
+    switch (membership.role) {
       case 'MEMBER':
         newRole = 'OFFICER';
         break;
@@ -755,15 +3643,15 @@ export class PrismaDatabase {
         return null; // Already admin or invalid role
     }
 
-    return await this.updateUserRole(userId, newRole);
+    return await this.updateGuildMemberRole(guildId, userId, newRole);
   }
 
-  async demoteUser(userId: number) {
-    const user = await this.getUserById(userId);
-    if (!user) return null;
+  async demoteGuildMember(guildId: number, userId: number) {
+    const membership = await this.getGuildMembership(guildId, userId);
+    if (!membership) return null;
 
     let newRole: 'MEMBER' | 'OFFICER' | 'ADMIN';
-    switch (user.role) {
+    switch (membership.role) {
       case 'ADMIN':
         newRole = 'OFFICER';
         break;
@@ -774,7 +3662,7 @@ export class PrismaDatabase {
         return null; // Already member or invalid role
     }
 
-    return await this.updateUserRole(userId, newRole);
+    return await this.updateGuildMemberRole(guildId, userId, newRole);
   }
 }
 
@@ -9,9 +9,30 @@ import characterRouter from './routes/character.js';
 import itemRouter from './routes/item.js';
 import wishRouter from './routes/wish.js';
 import eventRouter from './routes/event.js';
+import seriesRouter from './routes/series.js';
+import calendarRouter from './routes/calendar.js';
 import adminRouter from './routes/admin.js';
 import attendanceRouter from './routes/attendance.js';
-import { authenticateToken } from './middleware/auth.js';
+import dkpRouter from './routes/dkp.js';
+import auctionRouter from './routes/auction.js';
+import lootRouter from './routes/loot.js';
+import guildRouter from './routes/guild.js';
+import recruitmentRouter from './routes/recruitment.js';
+import gearCheckRouter from './routes/gearcheck.js';
+import uploadRouter from './routes/upload.js';
+import jobRouter from './routes/jobs.js';
+import discordRouter from './routes/discord.js';
+import notificationRouter from './routes/notification.js';
+import userRouter from './routes/user.js';
+import { authenticateToken, requireGuild, requireSystemAdmin } from './middleware/auth.js';
+import { closeExpiredAuctions } from './services/auction.js';
+import { cleanupOrphanedUploads } from './services/uploads.js';
+import { runScheduledDkpDecay } from './services/decay.js';
+import { registerJob, startScheduler, stopScheduler } from './services/scheduler.js';
+import { processWebhookDeliveries } from './services/notifications.js';
+import { processEventReminders } from './services/reminders.js';
+import { advanceEventStatuses } from './services/lifecycle.js';
+import { materializeDueSeries } from './services/series.js';
 
 // Load environment variables
 dotenv.config();
@@ -24,6 +45,9 @@ const DISCORD_CLIENT_ID = process.env.DISCORD_CLIENT_ID || 'your_discord_client_
 const DISCORD_CLIENT_SECRET = process.env.DISCORD_CLIENT_SECRET || 'your_discord_client_secret';
 const DISCORD_REDIRECT_URI = process.env.DISCORD_REDIRECT_URI || 'http://localhost:3000/auth/discord/callback';
 
+// Mounted before express.json: Discord signs the raw request body
+app.use('/api/discord', discordRouter);
+
 app.use(express.json());
 
 // Swagger Documentation
@@ -79,10 +103,24 @@ app.get('/', (req, res) => {
     endpoints: {
       authentication: '/auth/discord',
       users: '/api/user/profile',
+      notificationPreferences: '/api/user/notification-preferences',
+      timeZone: '/api/user/time-zone',
+      guilds: '/api/guild',
       characters: '/api/character',
       items: '/api/item',
       events: '/api/event',
+      eventSeries: '/api/event-series',
+      calendarFeed: '/api/calendar/feed',
       attendance: '/api/attendance',
+      dkp: '/api/dkp',
+      auctions: '/api/auction',
+      loot: '/api/loot',
+      recruitment: '/api/recruitment',
+      gearChecks: '/api/gear-check',
+      uploads: '/api/uploads',
+      notifications: '/api/notifications',
+      jobs: '/api/jobs',
+      discordInteractions: '/api/discord/interactions',
       wishes: '/api/wish',
       admin: '/api/admin'
     }
@@ -270,12 +308,18 @@ app.post('/auth/discord/callback', async (req, res) => {
  *               properties:
  *                 user:
  *                   $ref: '#/components/schemas/User'
+ *                 guilds:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Guild'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  */
 app.get('/api/user/profile', authenticateToken, async (req: any, res) => {
+  const memberships = await database.getUserGuilds(req.user.id);
+
   res.json({
     user: {
       id: req.user.id,
@@ -284,9 +328,17 @@ app.get('/api/user/profile', authenticateToken, async (req: any, res) => {
       discriminator: req.user.discriminator,
       avatar: req.user.avatar,
       email: req.user.email,
+      time_zone: req.user.timeZone,
       created_at: req.user.createdAt,
       updated_at: req.user.updatedAt
-    }
+    },
+    guilds: memberships.map((membership) => ({
+      id: membership.guild.id,
+      name: membership.guild.name,
+      slug: membership.guild.slug,
+      time_zone: membership.guild.timeZone,
+      role: membership.role
+    }))
   });
 });
 
@@ -358,13 +410,31 @@ app.get('/api/stats', async (req, res) => {
   }
 });
 
-// API Routes
-app.use('/api/character', characterRouter);
-app.use('/api/item', itemRouter);
-app.use('/api/wish', wishRouter);
-app.use('/api/event', eventRouter);
-app.use('/api/admin', adminRouter);
-app.use('/api/attendance', attendanceRouter);
+// API Routes - guild data is reachable as /api/<resource> (guild from X-Guild-Id) or /api/guild/:guildId/<resource>
+const guildScoped = (resource: string) => [`/api/${resource}`, `/api/guild/:guildId/${resource}`];
+
+app.use(guildScoped('character'), authenticateToken, requireGuild, characterRouter);
+app.use(guildScoped('item'), authenticateToken, requireGuild, itemRouter);
+app.use(guildScoped('wish'), authenticateToken, requireGuild, wishRouter);
+app.use(guildScoped('event'), authenticateToken, requireGuild, eventRouter);
+app.use(guildScoped('event-series'), authenticateToken, requireGuild, seriesRouter);
+app.use(guildScoped('admin'), authenticateToken, requireGuild, adminRouter);
+app.use(guildScoped('attendance'), authenticateToken, requireGuild, attendanceRouter);
+app.use(guildScoped('dkp'), authenticateToken, requireGuild, dkpRouter);
+app.use(guildScoped('auction'), authenticateToken, requireGuild, auctionRouter);
+app.use(guildScoped('loot'), authenticateToken, requireGuild, lootRouter);
+app.use(guildScoped('gear-check'), authenticateToken, requireGuild, gearCheckRouter);
+app.use(guildScoped('notifications'), authenticateToken, requireGuild, notificationRouter);
+// Applying is public, so the recruitment router authenticates per route
+app.use(guildScoped('recruitment'), recruitmentRouter);
+// Calendar feeds are read by calendar apps with a token instead of a login; managing them authenticates per route
+app.use(guildScoped('calendar'), calendarRouter);
+// Uploaded files are served publicly; uploading and deleting authenticate per route
+app.use(guildScoped('uploads'), uploadRouter);
+app.use('/api/user', authenticateToken, userRouter);
+app.use('/api/guild', guildRouter);
+// Jobs are instance-wide, not per guild
+app.use('/api/jobs', authenticateToken, requireSystemAdmin, jobRouter);
 
 /**
  * @swagger
@@ -393,28 +463,103 @@ app.get('/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+// Background jobs - run by the persisted scheduler, so schedules survive restarts and each run happens on one process only
+registerJob({
+  name: 'session-cleanup',
+  description: 'Delete expired sessions',
+  intervalMs: 60 * 60 * 1000,
+  handler: async () => {
+    const { count } = await database.deleteExpiredSessions();
+    return { deleted: count };
+  }
+});
+
+registerJob({
+  name: 'auction-settlement',
+  description: 'Settle timed auctions whose timer has run out',
+  intervalMs: 60 * 1000,
+  handler: async () => {
+    const settled = await closeExpiredAuctions();
+    return { settled: settled.length };
+  }
+});
+
+// Checked hourly so a new decay period starts promptly; each period is applied once per guild
+registerJob({
+  name: 'dkp-decay',
+  description: 'Apply DKP decay for guilds that have it enabled',
+  intervalMs: 60 * 60 * 1000,
+  handler: async () => {
+    const runs = await runScheduledDkpDecay();
+    return { runs: runs.map((run) => ({ guildId: run.guildId, periodKey: run.periodKey, totalDecayed: run.totalDecayed })) };
+  }
+});
+
+registerJob({
+  name: 'upload-cleanup',
+  description: 'Remove uploaded images nothing uses',
+  intervalMs: 60 * 60 * 1000,
+  handler: async () => ({ removed: await cleanupOrphanedUploads() })
+});
+
+registerJob({
+  name: 'webhook-delivery',
+  description: 'Retry queued Discord webhook notifications',
+  intervalMs: 30 * 1000,
+  handler: () => processWebhookDeliveries()
+});
+
+registerJob({
+  name: 'event-lifecycle',
+  description: 'Start scheduled events and complete running ones at their start and end times',
+  intervalMs: 60 * 1000,
+  handler: () => advanceEventStatuses()
+});
+
+registerJob({
+  name: 'event-series',
+  description: 'Create upcoming occurrences of recurring events',
+  intervalMs: 60 * 60 * 1000,
+  handler: () => materializeDueSeries()
+});
+
+registerJob({
+  name: 'event-reminders',
+  description: 'Send event reminders to members by Discord DM and email',
+  intervalMs: 60 * 1000,
+  handler: () => processEventReminders()
+});
+
+registerJob({
+  name: 'job-history-cleanup',
+  description: 'Delete job run history and webhook delivery logs older than 30 days',
+  intervalMs: 24 * 60 * 60 * 1000,
+  handler: async () => {
+    const before = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const [runs, deliveries] = await Promise.all([
+      database.deleteJobRunsBefore(before),
+      database.deleteWebhookDeliveriesBefore(before)
+    ]);
+    return { deletedRuns: runs.count, deletedDeliveries: deliveries.count };
+  }
+});
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Discord OAuth URL: http://localhost:${PORT}/auth/discord`);
+
+  startScheduler().catch((error) => console.error('Failed to start job scheduler:', error));
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  stopScheduler();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  stopScheduler();
   process.exit(0);
 });
-
-// Clean up expired sessions every hour
-setInterval(async () => {
-  try {
-    await database.deleteExpiredSessions();
-    console.log('Cleaned up expired sessions');
-  } catch (error) {
-    console.error('Error cleaning up sessions:', error);
-  }
-}, 60 * 60 * 1000);
\ No newline at end of file
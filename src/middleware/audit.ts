@@ -0,0 +1,135 @@
+import type { Request, Response, NextFunction } from 'express';
+import { database } from '../db.js';
+
+type AuditTargetId = string | number | null | undefined;
+
+type AuditOptions = {
+  // Defaults to TARGET_CREATE / TARGET_UPDATE / TARGET_DELETE based on the HTTP method
+  action?: string;
+  // Resolves the target ID; called before the handler without a body and after it with the response body
+  targetId?: (req: Request, body?: any) => AuditTargetId;
+  // Loads the current state of the target so before/after can be diffed
+  snapshot?: (req: Request, targetId: string) => Promise<any>;
+};
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'CREATE',
+  PUT: 'UPDATE',
+  PATCH: 'UPDATE',
+  DELETE: 'DELETE'
+};
+
+// Never persist credentials, even if a snapshot or response happens to contain them
+const REDACTED_KEYS = ['accessToken', 'refreshToken', 'sessionToken', 'access_token', 'refresh_token', 'session_token'];
+
+const serialize = (value: any): string | null => {
+  if (value === null || value === undefined) return null;
+  return JSON.stringify(value, (key, val) => {
+    if (REDACTED_KEYS.includes(key)) return '[redacted]';
+    if (typeof val === 'bigint') return val.toString();
+    return val;
+  });
+};
+
+const isPlainObject = (value: any) =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Shallow field-level diff of two snapshots: { field: { from, to } }
+export const diffSnapshots = (before: any, after: any) => {
+  if (!isPlainObject(before) && !isPlainObject(after)) return null;
+
+  const previous = isPlainObject(before) ? before : {};
+  const next = isPlainObject(after) ? after : {};
+  const changes: Record<string, { from: any; to: any }> = {};
+
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    const from = serialize(previous[key]);
+    const to = serialize(next[key]);
+    if (from !== to) {
+      changes[key] = { from: previous[key] ?? null, to: next[key] ?? null };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+// Stores one audit entry with the field-level changes between its snapshots. Shared with entry points that are
+// not REST routes, such as Discord commands, so their entries read the same.
+export const recordAuditEntry = async (entry: {
+  guildId: number | null;
+  actorId: number | null;
+  actorRole: string | null;
+  action: string;
+  targetType: string;
+  targetId: AuditTargetId;
+  before: any;
+  after: any;
+  method: string;
+  path: string;
+  ip: string | null;
+}) => {
+  const { targetId, before, after } = entry;
+  await database.createAuditEntry({
+    ...entry,
+    targetId: targetId !== null && targetId !== undefined ? String(targetId) : null,
+    before: serialize(before),
+    after: serialize(after),
+    changes: serialize(diffSnapshots(before, after))
+  });
+};
+
+// Audit middleware factory - records successful mutating requests after the response is sent
+export const auditLog = (targetType: string, options: AuditOptions = {}) => {
+  const resolveTargetId = options.targetId ?? ((req: Request) => req.params.id);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const initialTargetId = resolveTargetId(req);
+    let before: any = null;
+
+    if (options.snapshot && initialTargetId !== null && initialTargetId !== undefined) {
+      try {
+        before = await options.snapshot(req, String(initialTargetId));
+      } catch (error) {
+        console.error('Audit snapshot error:', error);
+      }
+    }
+
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = ((body?: any) => {
+      responseBody = body;
+      return json(body);
+    }) as Response['json'];
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400) return;
+
+      const record = async () => {
+        const targetId = resolveTargetId(req, responseBody) ?? initialTargetId;
+        let after: any = req.method === 'DELETE' ? null : responseBody;
+
+        if (options.snapshot && targetId !== null && targetId !== undefined && req.method !== 'DELETE') {
+          after = await options.snapshot(req, String(targetId));
+        }
+
+        await recordAuditEntry({
+          guildId: req.guild?.id ?? null,
+          actorId: req.user?.id ?? null,
+          actorRole: req.user?.role ?? null,
+          action: options.action ?? `${targetType}_${METHOD_ACTIONS[req.method] ?? req.method}`,
+          targetType,
+          targetId,
+          before,
+          after,
+          method: req.method,
+          path: req.originalUrl,
+          ip: req.ip ?? null
+        });
+      };
+
+      record().catch((error) => console.error('Audit log error:', error));
+    });
+
+    next();
+  };
+};
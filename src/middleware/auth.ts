@@ -7,12 +7,18 @@ declare global {
     interface Request {
       user?: any;
       session?: any;
+      guild?: any;
     }
   }
 }
 
 // Base authentication middleware
 export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  // Guild-scoped routers authenticate once at mount; the per-route check then has nothing left to do
+  if (req.user) {
+    return next();
+  }
+
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -35,13 +41,60 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
   }
 };
 
-// Authorization middleware factory
+// Guild context middleware - picks the active guild from the /api/guild/:guildId/... path or the
+// X-Guild-Id header (falling back to the user's only guild) and replaces req.user.role with the
+// user's role in that guild, so every role check below is evaluated within the active guild
+export const requireGuild = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const requested = req.params.guildId ?? req.headers['x-guild-id'];
+    const memberships = await database.getUserGuilds(req.user.id);
+
+    let membership;
+    if (requested !== undefined) {
+      const guildId = parseInt(String(requested));
+      if (isNaN(guildId)) {
+        return res.status(400).json({ error: 'Invalid guild ID' });
+      }
+
+      membership = memberships.find((entry) => entry.guildId === guildId);
+      if (!membership) {
+        return res.status(403).json({ error: 'You are not a member of this guild' });
+      }
+    } else if (memberships.length === 1) {
+      membership = memberships[0];
+    }
+
+    if (!membership) {
+      return res.status(400).json({
+        error: 'Select a guild with the X-Guild-Id header or the /api/guild/{guildId}/... path',
+        guilds: memberships.map((entry) => ({ id: entry.guild.id, name: entry.guild.name, role: entry.role }))
+      });
+    }
+
+    req.guild = membership.guild;
+    req.user = { ...req.user, role: membership.role };
+    next();
+  } catch (error) {
+    console.error('Guild resolution error:', error);
+    return res.status(500).json({ error: 'Failed to resolve guild' });
+  }
+};
+
+// Authorization middleware factory - roles are per guild, so this needs requireGuild first
 export const requireRole = (allowedRoles: string[]) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
+    if (!req.guild) {
+      return res.status(400).json({ error: 'No active guild selected' });
+    }
+
     if (!allowedRoles.includes(req.user.role)) {
       return res.status(403).json({ 
         error: 'Insufficient permissions',
@@ -59,12 +112,34 @@ export const requireAdmin = requireRole(['ADMIN']);
 export const requireOfficerOrAdmin = requireRole(['OFFICER', 'ADMIN']);
 export const requireMemberOrHigher = requireRole(['MEMBER', 'OFFICER', 'ADMIN']);
 
+// Instance operators, for things that span every guild (background jobs). Listed by Discord ID in SYSTEM_ADMIN_DISCORD_IDS.
+export const requireSystemAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const operators = (process.env.SYSTEM_ADMIN_DISCORD_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (!operators.includes(req.user.discordId)) {
+    return res.status(403).json({ error: 'System administrator access required' });
+  }
+
+  next();
+};
+
 // Ownership middleware - user can access their own resources
 export const requireOwnershipOrAdmin = async (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Authentication required' });
   }
 
+  if (!req.guild) {
+    return res.status(400).json({ error: 'No active guild selected' });
+  }
+
   // Admins can access anything
   if (req.user.role === 'ADMIN') {
     return next();
@@ -74,7 +149,7 @@ export const requireOwnershipOrAdmin = async (req: Request, res: Response, next:
   if (req.params.characterId || req.body.characterId) {
     try {
       const characterId = parseInt(req.params.characterId || req.body.characterId);
-      const character = await database.getCharacterById(characterId, req.user.id);
+      const character = await database.getCharacterById(characterId, req.user.id, req.guild.id);
       
       if (!character) {
         return res.status(403).json({ error: 'Access denied: You can only modify your own characters' });
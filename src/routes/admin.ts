@@ -1,15 +1,36 @@
 import express from 'express';
 import { database } from '../db.js';
 import { authenticateToken, requireAdmin, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
 
 const router = express.Router();
 
+const auditUser = (action: string) => auditLog('USER', {
+  action,
+  targetId: (req: any) => req.params.userId,
+  snapshot: async (req: any, id: string) => {
+    const membership = await database.getGuildMembership(req.guild.id, parseInt(id));
+    return membership ? { userId: membership.userId, guildId: membership.guildId, role: membership.role } : null;
+  }
+});
+
+const parseJsonColumn = (value: string | null) => (value ? JSON.parse(value) : null);
+
+const formatMember = async (membership: { userId: number; role: string }) => {
+  const user = await database.getUserById(membership.userId);
+  return {
+    id: membership.userId,
+    username: user?.username,
+    role: membership.role
+  };
+};
+
 /**
  * @swagger
  * /api/admin/users:
  *   get:
- *     summary: Get all users (Admin only)
- *     description: Retrieve all users with their roles and statistics
+ *     summary: Get guild members (Admin only)
+ *     description: Retrieve the members of the active guild with their guild roles and statistics
  *     tags: [Admin]
  *     security:
  *       - BearerAuth: []
@@ -51,13 +72,17 @@ const router = express.Router();
  *                       - $ref: '#/components/schemas/User'
  *                       - type: object
  *                         properties:
+ *                           role:
+ *                             type: string
+ *                             enum: [MEMBER, OFFICER, ADMIN]
+ *                           joinedAt:
+ *                             type: string
+ *                             format: date-time
  *                           _count:
  *                             type: object
  *                             properties:
  *                               characters:
  *                                 type: integer
- *                               sessions:
- *                                 type: integer
  *                 pagination:
  *                   $ref: '#/components/schemas/PaginationInfo'
  *       403:
@@ -76,50 +101,59 @@ router.get('/users', authenticateToken, requireAdmin, async (req: any, res) => {
     const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
     const offset = (pageNum - 1) * limitNum;
 
-    const filters: any = {};
+    const filters: any = {
+      guildId: req.guild.id
+    };
     
     if (role && ['MEMBER', 'OFFICER', 'ADMIN'].includes(role)) {
       filters.role = role;
     }
 
     if (search) {
-      filters.OR = [
-        { username: { contains: search, mode: 'insensitive' } },
-        { discordId: { contains: search, mode: 'insensitive' } }
-      ];
+      filters.user = {
+        OR: [
+          { username: { contains: search, mode: 'insensitive' } },
+          { discordId: { contains: search, mode: 'insensitive' } }
+        ]
+      };
     }
 
-    // Note: These will work after Prisma client is regenerated
-    const users = await database.prisma.user.findMany({
+    const members = await database.prisma.guildMember.findMany({
       skip: offset,
       take: limitNum,
       where: filters,
-      select: {
-        id: true,
-        discordId: true,
-        username: true,
-        discriminator: true,
-        avatar: true,
-        email: true,
-        role: true,
-        createdAt: true,
-        updatedAt: true,
-        _count: {
+      include: {
+        user: {
           select: {
-            characters: true,
-            sessions: true
+            id: true,
+            discordId: true,
+            username: true,
+            discriminator: true,
+            avatar: true,
+            email: true,
+            createdAt: true,
+            updatedAt: true,
+            _count: {
+              select: {
+                characters: { where: { guildId: req.guild.id } }
+              }
+            }
           }
         }
       },
       orderBy: {
-        createdAt: 'desc'
+        joinedAt: 'desc'
       }
     });
 
-    const totalCount = await database.getUserCount();
+    const totalCount = await database.getGuildMemberCount(filters);
 
     res.json({
-      users,
+      users: members.map((member: any) => ({
+        ...member.user,
+        role: member.role,
+        joinedAt: member.joinedAt
+      })),
       pagination: {
         currentPage: pageNum,
         totalPages: Math.ceil(totalCount / limitNum),
@@ -137,8 +171,8 @@ router.get('/users', authenticateToken, requireAdmin, async (req: any, res) => {
  * @swagger
  * /api/admin/users/{userId}/role:
  *   put:
- *     summary: Update user role (Admin only)
- *     description: Change a user's role in the guild
+ *     summary: Update member role (Admin only)
+ *     description: Change a member's role in the active guild
  *     tags: [Admin]
  *     security:
  *       - BearerAuth: []
@@ -186,9 +220,9 @@ router.get('/users', authenticateToken, requireAdmin, async (req: any, res) => {
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  *       404:
- *         description: User not found
+ *         description: User is not a member of this guild
  */
-router.put('/users/:userId/role', authenticateToken, requireAdmin, async (req: any, res) => {
+router.put('/users/:userId/role', authenticateToken, requireAdmin, auditUser('USER_ROLE_UPDATE'), async (req: any, res) => {
   try {
     const userId = parseInt(req.params.userId);
     const { role } = req.body;
@@ -206,19 +240,15 @@ router.put('/users/:userId/role', authenticateToken, requireAdmin, async (req: a
       return res.status(400).json({ error: 'Cannot demote yourself from admin role' });
     }
 
-    const updatedUser = await database.updateUserRole(userId, role);
+    const membership = await database.updateGuildMemberRole(req.guild.id, userId, role);
     
-    if (!updatedUser) {
-      return res.status(404).json({ error: 'User not found' });
+    if (!membership) {
+      return res.status(404).json({ error: 'User is not a member of this guild' });
     }
 
     res.json({
       message: 'User role updated successfully',
-      user: {
-        id: updatedUser.id,
-        username: updatedUser.username,
-        role: updatedUser.role
-      }
+      user: await formatMember(membership)
     });
   } catch (error) {
     console.error('Update user role error:', error);
@@ -227,7 +257,7 @@ router.put('/users/:userId/role', authenticateToken, requireAdmin, async (req: a
 });
 
 // POST /api/admin/users/:userId/promote - Promote user (Admin only)
-router.post('/users/:userId/promote', authenticateToken, requireAdmin, async (req: any, res) => {
+router.post('/users/:userId/promote', authenticateToken, requireAdmin, auditUser('USER_PROMOTE'), async (req: any, res) => {
   try {
     const userId = parseInt(req.params.userId);
 
@@ -235,19 +265,15 @@ router.post('/users/:userId/promote', authenticateToken, requireAdmin, async (re
       return res.status(400).json({ error: 'Invalid user ID' });
     }
 
-    const updatedUser = await database.promoteUser(userId);
+    const membership = await database.promoteGuildMember(req.guild.id, userId);
     
-    if (!updatedUser) {
+    if (!membership) {
       return res.status(400).json({ error: 'User not found or cannot be promoted further' });
     }
 
     res.json({
       message: 'User promoted successfully',
-      user: {
-        id: updatedUser.id,
-        username: updatedUser.username,
-        role: updatedUser.role
-      }
+      user: await formatMember(membership)
     });
   } catch (error) {
     console.error('Promote user error:', error);
@@ -256,7 +282,7 @@ router.post('/users/:userId/promote', authenticateToken, requireAdmin, async (re
 });
 
 // POST /api/admin/users/:userId/demote - Demote user (Admin only)
-router.post('/users/:userId/demote', authenticateToken, requireAdmin, async (req: any, res) => {
+router.post('/users/:userId/demote', authenticateToken, requireAdmin, auditUser('USER_DEMOTE'), async (req: any, res) => {
   try {
     const userId = parseInt(req.params.userId);
 
@@ -269,19 +295,15 @@ router.post('/users/:userId/demote', authenticateToken, requireAdmin, async (req
       return res.status(400).json({ error: 'Cannot demote yourself from admin role' });
     }
 
-    const updatedUser = await database.demoteUser(userId);
+    const membership = await database.demoteGuildMember(req.guild.id, userId);
     
-    if (!updatedUser) {
+    if (!membership) {
       return res.status(400).json({ error: 'User not found or cannot be demoted further' });
     }
 
     res.json({
       message: 'User demoted successfully',
-      user: {
-        id: updatedUser.id,
-        username: updatedUser.username,
-        role: updatedUser.role
-      }
+      user: await formatMember(membership)
     });
   } catch (error) {
     console.error('Demote user error:', error);
@@ -289,30 +311,135 @@ router.post('/users/:userId/demote', authenticateToken, requireAdmin, async (req
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/users:
+ *   post:
+ *     summary: Add guild member (Admin only)
+ *     description: Add a user who has signed in with Discord to the active guild
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - discordId
+ *             properties:
+ *               discordId:
+ *                 type: string
+ *                 example: "123456789012345678"
+ *               role:
+ *                 type: string
+ *                 enum: [MEMBER, OFFICER, ADMIN]
+ *                 default: MEMBER
+ *     responses:
+ *       201:
+ *         description: Member added successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: User not found (they must sign in once first)
+ *       409:
+ *         description: User is already a member of this guild
+ */
+router.post('/users', authenticateToken, requireAdmin, auditLog('USER', {
+  action: 'GUILD_MEMBER_ADD',
+  targetId: (req: any, body: any) => body?.user?.id
+}), async (req: any, res) => {
+  try {
+    const { discordId, role = 'MEMBER' } = req.body;
+
+    if (!discordId || typeof discordId !== 'string') {
+      return res.status(400).json({ error: 'Discord ID is required' });
+    }
+
+    if (!['MEMBER', 'OFFICER', 'ADMIN'].includes(role)) {
+      return res.status(400).json({ error: 'Invalid role. Must be MEMBER, OFFICER, or ADMIN' });
+    }
+
+    const user = await database.getUserByDiscordId(discordId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found. They need to sign in with Discord first' });
+    }
+
+    const existing = await database.getGuildMembership(req.guild.id, user.id);
+    if (existing) {
+      return res.status(409).json({ error: 'User is already a member of this guild' });
+    }
+
+    const membership = await database.addGuildMember(req.guild.id, user.id, role);
+
+    res.status(201).json({
+      message: 'Member added successfully',
+      user: await formatMember(membership)
+    });
+  } catch (error) {
+    console.error('Add guild member error:', error);
+    res.status(500).json({ error: 'Failed to add guild member' });
+  }
+});
+
+// DELETE /api/admin/users/:userId - Remove a member from the guild (Admin only)
+router.delete('/users/:userId', authenticateToken, requireAdmin, auditUser('GUILD_MEMBER_REMOVE'), async (req: any, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+
+    if (req.user.id === userId) {
+      return res.status(400).json({ error: 'Cannot remove yourself. Leave the guild instead' });
+    }
+
+    const removed = await database.removeGuildMember(req.guild.id, userId);
+    if (!removed) {
+      return res.status(404).json({ error: 'User is not a member of this guild' });
+    }
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove guild member error:', error);
+    res.status(500).json({ error: 'Failed to remove guild member' });
+  }
+});
+
 // GET /api/admin/stats - Enhanced admin statistics
 router.get('/stats', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
   try {
+    const guildId = req.guild.id;
     const [
       totalUsers,
       activeSessionCount,
       totalCharacters,
       totalItems,
       totalWishes,
-      totalEvents
+      totalEvents,
+      members,
+      officers,
+      admins
     ] = await Promise.all([
-      database.getUserCount(),
+      database.getGuildMemberCount({ guildId }),
       database.getActiveSessionCount(),
-      database.getCharacterCount(),
-      database.getItemCount(),
-      database.getWishesCount(),
-      database.getEventCount()
+      database.getCharacterCount(guildId),
+      database.getItemCount({ guildId }),
+      database.getWishesCount({ character: { guildId } }),
+      database.getEventCount({ guildId, status: { not: 'CANCELLED' } }),
+      database.getGuildMemberCount({ guildId, role: 'MEMBER' }),
+      database.getGuildMemberCount({ guildId, role: 'OFFICER' }),
+      database.getGuildMemberCount({ guildId, role: 'ADMIN' })
     ]);
 
-    // Role distribution (will work after Prisma regeneration)
     const roleStats = {
-      members: 0, // await database.getUsersByRole('MEMBER').then(users => users.length),
-      officers: 0, // await database.getUsersByRole('OFFICER').then(users => users.length),
-      admins: 0 // await database.getUsersByRole('ADMIN').then(users => users.length)
+      members,
+      officers,
+      admins
     };
 
     res.json({
@@ -335,13 +462,169 @@ router.get('/stats', authenticateToken, requireOfficerOrAdmin, async (req: any,
   }
 });
 
-// GET /api/admin/audit-log - Basic audit log (future enhancement)
-router.get('/audit-log', authenticateToken, requireAdmin, async (req: any, res) => {
-  // This is a placeholder for future audit logging functionality
-  res.json({
-    message: 'Audit log functionality coming soon',
-    events: []
-  });
+/**
+ * @swagger
+ * /api/admin/audit-log:
+ *   get:
+ *     summary: Get audit log (Officers+ only)
+ *     description: Retrieve recorded mutating calls with before/after snapshots, newest first
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: integer
+ *         description: Filter by the user who made the change
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           example: CHARACTER
+ *         description: Filter by target type
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *         description: Filter by target ID (requires targetType to be meaningful)
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: CHARACTER_DKP_UPDATE
+ *         description: Filter by action
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Audit entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditEntry'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/audit-log', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 50,
+      actorId,
+      targetType,
+      targetId,
+      action,
+      startDate,
+      endDate
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const filters: any = {
+      guildId: req.guild.id
+    };
+
+    if (actorId) {
+      const actorIdNum = parseInt(actorId);
+      if (isNaN(actorIdNum)) {
+        return res.status(400).json({ error: 'Invalid actor ID' });
+      }
+      filters.actorId = actorIdNum;
+    }
+
+    if (targetType) filters.targetType = String(targetType).toUpperCase();
+    if (targetId) filters.targetId = String(targetId);
+    if (action) filters.action = String(action).toUpperCase();
+
+    if (startDate || endDate) {
+      filters.createdAt = {};
+      if (startDate) {
+        const start = new Date(startDate);
+        if (isNaN(start.getTime())) {
+          return res.status(400).json({ error: 'Invalid start date' });
+        }
+        filters.createdAt.gte = start;
+      }
+      if (endDate) {
+        const end = new Date(endDate);
+        if (isNaN(end.getTime())) {
+          return res.status(400).json({ error: 'Invalid end date' });
+        }
+        filters.createdAt.lte = end;
+      }
+    }
+
+    const [entries, totalCount] = await Promise.all([
+      database.getAuditEntries({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getAuditEntryCount(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      entries: entries.map((entry: any) => ({
+        id: entry.id,
+        actor: entry.actor,
+        actorRole: entry.actorRole,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        before: parseJsonColumn(entry.before),
+        after: parseJsonColumn(entry.after),
+        changes: parseJsonColumn(entry.changes),
+        method: entry.method,
+        path: entry.path,
+        ip: entry.ip,
+        createdAt: entry.createdAt
+      })),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalEntries: totalCount,
+        entriesPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
 });
 
 export default router;
\ No newline at end of file
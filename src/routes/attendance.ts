@@ -1,9 +1,17 @@
 import express from 'express';
 import { database } from '../db.js';
 import { authenticateToken, requireOfficerOrAdmin, requireOwnershipOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { checkAttendanceEditable, recordAttendance } from '../services/attendance.js';
 
 const router = express.Router();
 
+// Attendance is keyed by event and character, so audit entries use "eventId:characterId"
+const attendanceTargetId = (req: any) => {
+  const { eventId, characterId } = req.body ?? {};
+  return eventId && characterId ? `${parseInt(eventId)}:${parseInt(characterId)}` : undefined;
+};
+
 /**
  * @swagger
  * /api/attendance:
@@ -60,7 +68,14 @@ const router = express.Router();
  *         $ref: '#/components/responses/UnauthorizedError'
  *   post:
  *     summary: Add attendance record
- *     description: Record attendance for a character at an event. Awards DKP automatically.
+ *     description: |
+ *       Record attendance for a character at an event. Awards DKP automatically.
+ *       Members can only check in their own characters while the event is running, with the
+ *       event's check-in code if one is set. When the guild has attendanceApprovalRequired enabled,
+ *       self check-ins stay pending (no DKP) until an officer approves them.
+ *       Attendance can only change while the event is in progress or for the guild's
+ *       attendanceGraceHours (default 24) after it completes.
+ *       Attendance can never be recorded for an event that has not started.
  *     tags: [Attendance]
  *     security:
  *       - BearerAuth: []
@@ -82,6 +97,10 @@ const router = express.Router();
  *                 type: integer
  *                 description: Character ID (must be owned by user unless Officer+)
  *                 example: 2
+ *               checkInCode:
+ *                 type: string
+ *                 description: Officer-issued code, required for self check-in when the event has one
+ *                 example: "K7Q2XP"
  *     responses:
  *       201:
  *         description: Attendance recorded successfully
@@ -103,12 +122,17 @@ const router = express.Router();
  *                     dkpAwarded:
  *                       type: integer
  *                       description: DKP points awarded for attendance
+ *                     pending:
+ *                       type: boolean
+ *                       description: Waiting for officer approval before DKP is awarded
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Missing or invalid check-in code, or checking in your own character to an event you created
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       409:
- *         description: Attendance already exists
+ *         description: Attendance already exists, the event is outside its check-in window, or its attendance is locked
  *         content:
  *           application/json:
  *             schema:
@@ -131,7 +155,9 @@ router.get('/', authenticateToken, async (req: any, res) => {
     const offset = (pageNum - 1) * limitNum;
 
     // Build filter conditions
-    const filters: any = {};
+    const filters: any = {
+      event: { guildId: req.guild.id }
+    };
     
     if (eventId) {
       const eventIdNum = parseInt(eventId);
@@ -255,7 +281,7 @@ router.get('/event/:eventId', authenticateToken, async (req: any, res) => {
     }
 
     // Check if event exists
-    const event = await database.getEventById(eventId);
+    const event = await database.getEventById(eventId, req.guild.id);
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
     }
@@ -281,7 +307,10 @@ router.get('/event/:eventId', authenticateToken, async (req: any, res) => {
             username: attendance.character.user.username,
             discordId: attendance.character.user.discordId
           }
-        }
+        },
+        status: attendance.status,
+        dkpAwarded: attendance.dkpAwarded,
+        pending: attendance.pending
       })),
       totalAttendees: attendances.length
     });
@@ -300,16 +329,19 @@ router.get('/character/:characterId', authenticateToken, async (req: any, res) =
     }
 
     // Check if character exists and user has permission to view
-    const character = await database.getCharacterById(characterId, req.user.id);
-    if (!character && req.user.role !== 'ADMIN' && req.user.role !== 'OFFICER') {
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterId, req.guild.id)
+      : await database.getCharacterById(characterId, req.user.id, req.guild.id);
+    if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
 
     const attendances = await database.getCharacterAttendances(characterId);
 
     res.json({
-      character: character || await database.getCharacterByIdAdmin(characterId),
-      attendances: attendances.map((attendance: any) => ({
+      character,
+      attendances: attendances.map((attendance) => ({
         event: {
           id: attendance.event.id,
           title: attendance.event.title,
@@ -317,11 +349,16 @@ router.get('/character/:characterId', authenticateToken, async (req: any, res) =
           startTime: attendance.event.startTime,
           endTime: attendance.event.endTime,
           dkpReward: attendance.event.dkpReward
-        }
+        },
+        status: attendance.status,
+        dkpAwarded: attendance.dkpAwarded,
+        pending: attendance.pending
       })),
       totalAttendances: attendances.length,
-      totalDkpEarned: attendances.reduce((total: number, attendance: any) => 
-        total + attendance.event.dkpReward, 0)
+      // What was actually awarded; pending check-ins have not earned anything yet
+      totalDkpEarned: attendances
+        .filter((attendance) => !attendance.pending)
+        .reduce((total, attendance) => total + attendance.dkpAwarded, 0)
     });
   } catch (error) {
     console.error('Get character attendances error:', error);
@@ -330,9 +367,9 @@ router.get('/character/:characterId', authenticateToken, async (req: any, res) =
 });
 
 // POST /api/attendance - Add attendance record (Officers+ or character owner)
-router.post('/', authenticateToken, async (req: any, res) => {
+router.post('/', authenticateToken, auditLog('ATTENDANCE', { targetId: attendanceTargetId }), async (req: any, res) => {
   try {
-    const { eventId, characterId } = req.body;
+    const { eventId, characterId, checkInCode } = req.body;
 
     // Validation
     if (!eventId || !characterId) {
@@ -346,38 +383,37 @@ router.post('/', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'Invalid event ID or character ID' });
     }
 
-    // Check if event exists
-    const event = await database.getEventById(eventIdNum);
-    if (!event) {
-      return res.status(404).json({ error: 'Event not found' });
-    }
-
     // Check if character exists and user has permission
-    const character = await database.getCharacterById(characterIdNum, req.user.id);
-    if (!character && req.user.role !== 'ADMIN' && req.user.role !== 'OFFICER') {
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterIdNum, req.guild.id)
+      : await database.getCharacterById(characterIdNum, req.user.id, req.guild.id);
+    if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
 
-    // Check if attendance already exists
-    const existingAttendance = await database.checkAttendanceExists(eventIdNum, characterIdNum);
-    if (existingAttendance) {
-      return res.status(409).json({ error: 'Attendance record already exists for this event and character' });
+    const event = await database.getEventById(eventIdNum, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
     }
 
-    // Add attendance
-    const attendance = await database.addAttendance(eventIdNum, characterIdNum);
-
-    // Award DKP if event has reward
-    if (event.dkpReward > 0) {
-      await database.updateCharacterDkp(characterIdNum, event.dkpReward);
+    const { attendance, violation } = await recordAttendance(event, character, {
+      userId: req.user.id,
+      isOfficer,
+      guild: req.guild
+    }, checkInCode);
+    if (violation) {
+      return res.status(violation.status).json({ error: violation.error });
     }
+    const { dkpAwarded, pending } = attendance;
 
     res.status(201).json({
-      message: 'Attendance recorded successfully',
+      message: pending ? 'Check-in recorded, awaiting officer approval' : 'Attendance recorded successfully',
       attendance: {
         eventId: eventIdNum,
         characterId: characterIdNum,
-        dkpAwarded: event.dkpReward
+        dkpAwarded,
+        pending
       },
       event: {
         id: event.id,
@@ -462,7 +498,10 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *       403:
  *         $ref: '#/components/responses/ForbiddenError'
  */
-router.post('/bulk', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+router.post('/bulk', authenticateToken, requireOfficerOrAdmin, auditLog('ATTENDANCE', {
+  action: 'ATTENDANCE_BULK_CREATE',
+  targetId: (req: any) => req.body?.eventId
+}), async (req: any, res) => {
   try {
     const { eventId, characterIds } = req.body;
 
@@ -477,11 +516,17 @@ router.post('/bulk', authenticateToken, requireOfficerOrAdmin, async (req: any,
     }
 
     // Check if event exists
-    const event = await database.getEventById(eventIdNum);
+    const event = await database.getEventById(eventIdNum, req.guild.id);
     if (!event) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
+    // Attendance is only recorded while the event runs or shortly after it completes
+    const locked = checkAttendanceEditable(event, req.guild);
+    if (locked) {
+      return res.status(locked.status).json({ error: locked.error });
+    }
+
     const results = [];
     const errors = [];
 
@@ -493,19 +538,22 @@ router.post('/bulk', authenticateToken, requireOfficerOrAdmin, async (req: any,
       }
 
       try {
-        // Check if attendance already exists
-        const existingAttendance = await database.checkAttendanceExists(eventIdNum, characterIdNum);
-        if (existingAttendance) {
-          errors.push({ characterId: characterIdNum, error: 'Attendance already exists' });
+        const character = await database.getCharacterByIdAdmin(characterIdNum, req.guild.id);
+        if (!character) {
+          errors.push({ characterId: characterIdNum, error: 'Character not found' });
           continue;
         }
 
-        // Add attendance
-        await database.addAttendance(eventIdNum, characterIdNum);
-
-        // Award DKP if event has reward
-        if (event.dkpReward > 0) {
-          await database.updateCharacterDkp(characterIdNum, event.dkpReward);
+        // Add attendance and award the event's DKP together
+        const attendance = await database.addAttendance(eventIdNum, characterIdNum, { dkpAwarded: event.dkpReward }, {
+          sourceType: 'ATTENDANCE',
+          sourceId: event.id,
+          reason: `Attended ${event.title}`,
+          actorId: req.user.id
+        });
+        if (!attendance) {
+          errors.push({ characterId: characterIdNum, error: 'Attendance already exists' });
+          continue;
         }
 
         results.push({ 
@@ -539,6 +587,181 @@ router.post('/bulk', authenticateToken, requireOfficerOrAdmin, async (req: any,
   }
 });
 
+/**
+ * @swagger
+ * /api/attendance/pending:
+ *   get:
+ *     summary: List pending self check-ins (Officers+ only)
+ *     description: Self check-ins waiting for officer approval. Approve them with POST /api/attendance/approve or reject them with DELETE /api/attendance.
+ *     tags: [Attendance]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: integer
+ *         description: Only show check-ins for this event
+ *     responses:
+ *       200:
+ *         description: Pending check-ins
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 pending:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Attendance'
+ *                 total:
+ *                   type: integer
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/pending', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const { eventId } = req.query;
+
+    const where: any = {
+      pending: true,
+      event: { guildId: req.guild.id }
+    };
+    if (eventId) {
+      const eventIdNum = parseInt(eventId);
+      if (isNaN(eventIdNum)) {
+        return res.status(400).json({ error: 'Invalid event ID' });
+      }
+      where.eventId = eventIdNum;
+    }
+
+    const attendances = await database.getAttendances({
+      where,
+      orderBy: [{ eventId: 'asc' }, { characterId: 'asc' }],
+      include: {
+        event: {
+          select: {
+            id: true,
+            title: true,
+            startTime: true,
+            endTime: true,
+            dkpReward: true
+          }
+        },
+        character: {
+          include: {
+            user: {
+              select: {
+                username: true,
+                discordId: true
+              }
+            }
+          }
+        }
+      }
+    });
+
+    res.json({
+      pending: attendances.map((attendance: any) => ({
+        event: attendance.event,
+        character: {
+          id: attendance.character.id,
+          name: attendance.character.name,
+          role: attendance.character.role,
+          user: attendance.character.user
+        }
+      })),
+      total: attendances.length
+    });
+  } catch (error) {
+    console.error('Get pending attendances error:', error);
+    res.status(500).json({ error: 'Failed to fetch pending attendances' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/attendance/approve:
+ *   post:
+ *     summary: Approve a pending self check-in (Officers+ only)
+ *     description: Marks the check-in as confirmed and awards the event's DKP reward
+ *     tags: [Attendance]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - eventId
+ *               - characterId
+ *             properties:
+ *               eventId:
+ *                 type: integer
+ *                 example: 1
+ *               characterId:
+ *                 type: integer
+ *                 example: 2
+ *     responses:
+ *       200:
+ *         description: Check-in approved
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: No pending check-in for this event and character
+ */
+router.post('/approve', authenticateToken, requireOfficerOrAdmin, auditLog('ATTENDANCE', {
+  action: 'ATTENDANCE_APPROVE',
+  targetId: attendanceTargetId
+}), async (req: any, res) => {
+  try {
+    const { eventId, characterId } = req.body;
+
+    if (!eventId || !characterId) {
+      return res.status(400).json({ error: 'Event ID and Character ID are required' });
+    }
+
+    const eventIdNum = parseInt(eventId);
+    const characterIdNum = parseInt(characterId);
+
+    if (isNaN(eventIdNum) || isNaN(characterIdNum)) {
+      return res.status(400).json({ error: 'Invalid event ID or character ID' });
+    }
+
+    const event = await database.getEventById(eventIdNum, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const locked = checkAttendanceEditable(event, req.guild);
+    if (locked) {
+      return res.status(locked.status).json({ error: locked.error });
+    }
+
+    const attendance = await database.approveAttendance(eventIdNum, characterIdNum, req.user.id);
+    if (!attendance) {
+      return res.status(404).json({ error: 'No pending check-in found for this event and character' });
+    }
+
+    res.json({
+      message: 'Check-in approved successfully',
+      attendance: {
+        eventId: attendance.eventId,
+        characterId: attendance.characterId,
+        dkpAwarded: attendance.dkpAwarded,
+        pending: attendance.pending
+      }
+    });
+  } catch (error) {
+    console.error('Approve attendance error:', error);
+    res.status(500).json({ error: 'Failed to approve check-in' });
+  }
+});
+
 /**
  * @swagger
  * /api/attendance:
@@ -589,8 +812,10 @@ router.post('/bulk', authenticateToken, requireOfficerOrAdmin, async (req: any,
  *         $ref: '#/components/responses/NotFoundError'
  *       403:
  *         description: Can only remove attendance for your own characters
+ *       409:
+ *         description: Attendance for this event is locked
  */
-router.delete('/', authenticateToken, async (req: any, res) => {
+router.delete('/', authenticateToken, auditLog('ATTENDANCE', { targetId: attendanceTargetId }), async (req: any, res) => {
   try {
     const { eventId, characterId } = req.body;
 
@@ -607,29 +832,33 @@ router.delete('/', authenticateToken, async (req: any, res) => {
     }
 
     // Check if character exists and user has permission
-    const character = await database.getCharacterById(characterIdNum, req.user.id);
-    if (!character && req.user.role !== 'ADMIN' && req.user.role !== 'OFFICER') {
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterIdNum, req.guild.id)
+      : await database.getCharacterById(characterIdNum, req.user.id, req.guild.id);
+    if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
 
-    // Check if attendance exists
-    const existingAttendance = await database.checkAttendanceExists(eventIdNum, characterIdNum);
-    if (!existingAttendance) {
-      return res.status(404).json({ error: 'Attendance record not found' });
+    const event = await database.getEventById(eventIdNum, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
     }
 
-    // Get event details for DKP reversal
-    const event = await database.getEventById(eventIdNum);
-    
-    // Remove attendance
-    const removed = await database.removeAttendance(eventIdNum, characterIdNum);
-    if (!removed) {
-      return res.status(500).json({ error: 'Failed to remove attendance' });
+    const locked = checkAttendanceEditable(event, req.guild);
+    if (locked) {
+      return res.status(locked.status).json({ error: locked.error });
     }
 
-    // Reverse DKP if event had reward
-    if (event && event.dkpReward > 0) {
-      await database.updateCharacterDkp(characterIdNum, -event.dkpReward);
+    // Remove attendance and reverse whatever DKP it awarded (late and bench may have received a partial award)
+    const existingAttendance = await database.removeAttendance(eventIdNum, characterIdNum, {
+      sourceType: 'ATTENDANCE',
+      sourceId: event.id,
+      reason: `Attendance removed for ${event.title}`,
+      actorId: req.user.id
+    });
+    if (!existingAttendance) {
+      return res.status(404).json({ error: 'Attendance record not found' });
     }
 
     res.json({
@@ -637,7 +866,8 @@ router.delete('/', authenticateToken, async (req: any, res) => {
       removedAttendance: {
         eventId: eventIdNum,
         characterId: characterIdNum,
-        dkpReversed: event?.dkpReward || 0
+        status: existingAttendance.status,
+        dkpReversed: existingAttendance.dkpAwarded
       }
     });
   } catch (error) {
@@ -657,7 +887,8 @@ router.get('/stats', authenticateToken, requireOfficerOrAdmin, async (req: any,
     } = req.query;
 
     // Build filters for date range
-    const eventFilters: any = {};
+    // Cancelled events did not happen and do not count
+    const eventFilters: any = { guildId: req.guild.id, status: { not: 'CANCELLED' } };
     if (startDate) {
       eventFilters.startTime = {
         ...eventFilters.startTime,
@@ -682,10 +913,8 @@ router.get('/stats', authenticateToken, requireOfficerOrAdmin, async (req: any,
       };
     }
 
-    // If event filters exist, add them to attendance filters
-    if (Object.keys(eventFilters).length > 0) {
-      attendanceFilters.event = eventFilters;
-    }
+    // Attendance is always limited to the active guild's events
+    attendanceFilters.event = eventFilters;
 
     const [
       totalAttendances,
@@ -696,7 +925,7 @@ router.get('/stats', authenticateToken, requireOfficerOrAdmin, async (req: any,
       database.getAttendanceCount(attendanceFilters),
       database.getUniqueEventCount(attendanceFilters),
       database.getUniqueCharacterCount(attendanceFilters),
-      database.getTopAttenders(10, attendanceFilters)
+      database.getTopAttenders(req.guild.id, 10, attendanceFilters)
     ]);
 
     res.json({
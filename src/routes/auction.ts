@@ -0,0 +1,556 @@
+import express from 'express';
+import { database } from '../db.js';
+import { authenticateToken, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { AUCTION_TIE_BREAKERS, DEFAULT_TIE_BREAKER, settleAuction } from '../services/auction.js';
+import { getLootSystemForItem } from '../services/lootsystem.js';
+
+const router = express.Router();
+
+const auditAuction = (action?: string) => auditLog('AUCTION', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => body?.auction?.id ?? req.params.id,
+  snapshot: async (req: any, id: string) => {
+    const auction = await database.getAuctionById(parseInt(id), req.guild.id);
+    if (!auction) return null;
+    const { bids, item, event, openedBy, closedBy, winner, ...fields } = auction;
+    return { ...fields, bidCount: bids.length };
+  }
+});
+
+const isOfficer = (user: any) => user.role === 'ADMIN' || user.role === 'OFFICER';
+
+const formatAuction = (auction: any) => ({
+  id: auction.id,
+  status: auction.status,
+  mode: auction.mode,
+  minBid: auction.minBid,
+  tieBreaker: auction.tieBreaker,
+  endsAt: auction.endsAt,
+  createdAt: auction.createdAt,
+  closedAt: auction.closedAt,
+  item: {
+    id: auction.item.id,
+    name: auction.item.name,
+    imageUrl: auction.item.imageUrl,
+    minDkpCost: auction.item.minDkpCost
+  },
+  event: auction.event,
+  winner: auction.winner,
+  winningBid: auction.winningBid
+});
+
+/**
+ * @swagger
+ * /api/auction:
+ *   get:
+ *     summary: Get auction history
+ *     description: Retrieve auctions with filtering and pagination, newest first
+ *     tags: [Auctions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, CLOSED, CANCELLED]
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: winnerCharacterId
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Auctions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 auctions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Auction'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *   post:
+ *     summary: Open auction (Officers+ only)
+ *     description: Open an auction for an item, optionally tied to an event
+ *     tags: [Auctions]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemId
+ *             properties:
+ *               itemId:
+ *                 type: integer
+ *                 example: 5
+ *               eventId:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 12
+ *               mode:
+ *                 type: string
+ *                 enum: [OPEN, SEALED]
+ *                 default: OPEN
+ *               minBid:
+ *                 type: integer
+ *                 description: Defaults to the item's minimum DKP cost and cannot be lower
+ *               tieBreaker:
+ *                 type: string
+ *                 enum: [ATTENDANCE, ROLL, WISHLIST]
+ *                 description: Defaults to the AUCTION_TIE_BREAKER setting (ATTENDANCE)
+ *               durationMinutes:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10080
+ *                 description: Close automatically after this many minutes; omit to close manually
+ *     responses:
+ *       201:
+ *         description: Auction opened successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: An auction for this item is already open
+ */
+router.get('/', authenticateToken, async (req: any, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      itemId,
+      eventId,
+      winnerCharacterId
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const filters: any = {
+      item: { guildId: req.guild.id }
+    };
+
+    if (status) {
+      if (!['OPEN', 'CLOSED', 'CANCELLED'].includes(status)) {
+        return res.status(400).json({ error: 'Status must be OPEN, CLOSED, or CANCELLED' });
+      }
+      filters.status = status;
+    }
+    if (itemId && !isNaN(parseInt(itemId))) filters.itemId = parseInt(itemId);
+    if (eventId && !isNaN(parseInt(eventId))) filters.eventId = parseInt(eventId);
+    if (winnerCharacterId && !isNaN(parseInt(winnerCharacterId))) {
+      filters.winnerCharacterId = parseInt(winnerCharacterId);
+    }
+
+    const [auctions, totalCount] = await Promise.all([
+      database.getAuctions({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getAuctionCount(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      auctions: auctions.map((auction: any) => ({
+        ...formatAuction(auction),
+        bidCount: auction._count.bids
+      })),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalAuctions: totalCount,
+        auctionsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get auctions error:', error);
+    res.status(500).json({ error: 'Failed to fetch auctions' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auction/{id}:
+ *   get:
+ *     summary: Get auction by ID
+ *     description: Retrieve an auction with its bids. Sealed bids are only visible to their bidder and officers until the auction closes.
+ *     tags: [Auctions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Auction found
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const auctionId = parseInt(req.params.id);
+    if (isNaN(auctionId)) {
+      return res.status(400).json({ error: 'Invalid auction ID' });
+    }
+
+    const auction = await database.getAuctionById(auctionId, req.guild.id);
+    if (!auction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    const bidsHidden = auction.mode === 'SEALED' && auction.status === 'OPEN' && !isOfficer(req.user);
+    const visibleBids = bidsHidden
+      ? auction.bids.filter((bid: any) => bid.character.userId === req.user.id)
+      : auction.bids;
+
+    res.json({
+      auction: {
+        ...formatAuction(auction),
+        openedBy: auction.openedBy,
+        closedBy: auction.closedBy,
+        tieBreakDetail: auction.tieBreakDetail ? JSON.parse(auction.tieBreakDetail) : null,
+        bids: visibleBids.map((bid: any) => ({
+          character: {
+            id: bid.character.id,
+            name: bid.character.name
+          },
+          amount: bid.amount,
+          createdAt: bid.createdAt,
+          updatedAt: bid.updatedAt
+        })),
+        bidCount: auction.bids.length,
+        highestBid: bidsHidden ? null : auction.bids[0]?.amount ?? null
+      }
+    });
+  } catch (error) {
+    console.error('Get auction error:', error);
+    res.status(500).json({ error: 'Failed to fetch auction' });
+  }
+});
+
+// POST /api/auction - Open an auction (Officers+ only)
+router.post('/', authenticateToken, requireOfficerOrAdmin, auditAuction('AUCTION_OPEN'), async (req: any, res) => {
+  try {
+    const {
+      itemId,
+      eventId,
+      mode = 'OPEN',
+      minBid,
+      tieBreaker = DEFAULT_TIE_BREAKER,
+      durationMinutes
+    } = req.body;
+
+    const itemIdNum = parseInt(itemId);
+    if (isNaN(itemIdNum)) {
+      return res.status(400).json({ error: 'Item ID is required' });
+    }
+
+    if (!['OPEN', 'SEALED'].includes(mode)) {
+      return res.status(400).json({ error: 'Mode must be OPEN or SEALED' });
+    }
+
+    if (!AUCTION_TIE_BREAKERS.includes(tieBreaker)) {
+      return res.status(400).json({ error: `Tie breaker must be one of ${AUCTION_TIE_BREAKERS.join(', ')}` });
+    }
+
+    let endsAt: Date | null = null;
+    if (durationMinutes !== undefined && durationMinutes !== null) {
+      const minutes = parseInt(durationMinutes);
+      if (isNaN(minutes) || minutes < 1 || minutes > 7 * 24 * 60) {
+        return res.status(400).json({ error: 'Duration must be between 1 minute and 7 days' });
+      }
+      endsAt = new Date(Date.now() + minutes * 60 * 1000);
+    }
+
+    const item = await database.getItemById(itemIdNum, req.guild.id);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    // Auctions spend DKP; items under EPGP or suicide kings are handed out through /api/loot
+    const lootSystem = await getLootSystemForItem(req.guild.id, item);
+    if (lootSystem !== 'DKP') {
+      return res.status(409).json({ error: `${item.name} is distributed with ${lootSystem}, not DKP auctions` });
+    }
+
+    let eventIdNum: number | null = null;
+    if (eventId !== undefined && eventId !== null) {
+      eventIdNum = parseInt(eventId);
+      if (isNaN(eventIdNum) || !(await database.getEventById(eventIdNum, req.guild.id))) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+    }
+
+    const minBidNum = minBid !== undefined ? parseInt(minBid) : item.minDkpCost;
+    if (isNaN(minBidNum) || minBidNum < item.minDkpCost) {
+      return res.status(400).json({ error: `Minimum bid cannot be lower than the item's minimum DKP cost (${item.minDkpCost})` });
+    }
+
+    const openAuctions = await database.getAuctionCount({ itemId: itemIdNum, status: 'OPEN' });
+    if (openAuctions > 0) {
+      return res.status(409).json({ error: 'An auction for this item is already open' });
+    }
+
+    const auction = await database.createAuction({
+      itemId: itemIdNum,
+      eventId: eventIdNum,
+      mode,
+      minBid: minBidNum,
+      tieBreaker,
+      endsAt,
+      openedById: req.user.id
+    });
+
+    res.status(201).json({
+      message: 'Auction opened successfully',
+      auction: formatAuction({ ...auction, item, event: null, winner: null })
+    });
+  } catch (error) {
+    console.error('Open auction error:', error);
+    res.status(500).json({ error: 'Failed to open auction' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auction/{id}/bid:
+ *   post:
+ *     summary: Place bid
+ *     description: Place or raise a bid for one of your active characters. Open auctions require outbidding the current highest bid; sealed auctions accept one bid per character, which can be changed until the auction closes.
+ *     tags: [Auctions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - characterId
+ *               - amount
+ *             properties:
+ *               characterId:
+ *                 type: integer
+ *                 example: 2
+ *               amount:
+ *                 type: integer
+ *                 example: 120
+ *     responses:
+ *       201:
+ *         description: Bid placed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Auction is not open or bid does not beat the current highest bid
+ */
+router.post('/:id/bid', authenticateToken, auditAuction('AUCTION_BID'), async (req: any, res) => {
+  try {
+    const auctionId = parseInt(req.params.id);
+    const { characterId, amount } = req.body;
+
+    if (isNaN(auctionId)) {
+      return res.status(400).json({ error: 'Invalid auction ID' });
+    }
+
+    const characterIdNum = parseInt(characterId);
+    if (isNaN(characterIdNum)) {
+      return res.status(400).json({ error: 'Character ID is required' });
+    }
+
+    if (!Number.isInteger(amount) || amount < 1) {
+      return res.status(400).json({ error: 'Bid amount must be a positive integer' });
+    }
+
+    const auction = await database.getAuctionById(auctionId, req.guild.id);
+    if (!auction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    if (auction.status !== 'OPEN' || (auction.endsAt && auction.endsAt <= new Date())) {
+      return res.status(409).json({ error: 'Auction is no longer accepting bids' });
+    }
+
+    // Verify character belongs to the user
+    const character = await database.getCharacterById(characterIdNum, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found or access denied' });
+    }
+
+    if (character.active !== 'ACTIVE') {
+      return res.status(400).json({ error: 'Only active characters can bid' });
+    }
+
+    if (amount < auction.minBid) {
+      return res.status(400).json({ error: `Bid must be at least ${auction.minBid} DKP` });
+    }
+
+    if (amount > character.dkp) {
+      return res.status(400).json({ error: `Bid exceeds available DKP (${character.dkp})` });
+    }
+
+    if (auction.mode === 'OPEN') {
+      const highestBid = auction.bids[0];
+      if (highestBid && amount <= highestBid.amount) {
+        return res.status(409).json({
+          error: 'Bid must be higher than the current highest bid',
+          highestBid: highestBid.amount
+        });
+      }
+    }
+
+    const bid = await database.upsertAuctionBid(auctionId, characterIdNum, amount);
+
+    res.status(201).json({
+      message: 'Bid placed successfully',
+      auction: {
+        id: auction.id
+      },
+      bid: {
+        character: {
+          id: character.id,
+          name: character.name
+        },
+        amount: bid.amount,
+        updatedAt: bid.updatedAt
+      }
+    });
+  } catch (error) {
+    console.error('Place bid error:', error);
+    res.status(500).json({ error: 'Failed to place bid' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/auction/{id}/close:
+ *   post:
+ *     summary: Close auction (Officers+ only)
+ *     description: Close an open auction now, pick the winner (applying the tie-breaker if needed), charge their DKP and record the loot award
+ *     tags: [Auctions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Auction closed successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Auction is not open
+ */
+router.post('/:id/close', authenticateToken, requireOfficerOrAdmin, auditAuction('AUCTION_CLOSE'), async (req: any, res) => {
+  try {
+    const auctionId = parseInt(req.params.id);
+    if (isNaN(auctionId)) {
+      return res.status(400).json({ error: 'Invalid auction ID' });
+    }
+
+    const existingAuction = await database.getAuctionById(auctionId, req.guild.id);
+    if (!existingAuction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    const result = await settleAuction(auctionId, req.user.id);
+    if (!result) {
+      return res.status(409).json({ error: `Auction is already ${existingAuction.status.toLowerCase()}` });
+    }
+
+    const auction = await database.getAuctionById(auctionId, req.guild.id);
+
+    res.json({
+      message: result.auction.winnerCharacterId ? 'Auction closed with a winner' : 'Auction closed without valid bids',
+      auction: formatAuction(auction),
+      tieBreak: result.tieBreak,
+      voidedBids: result.voidedBids
+    });
+  } catch (error) {
+    console.error('Close auction error:', error);
+    res.status(500).json({ error: 'Failed to close auction' });
+  }
+});
+
+// POST /api/auction/:id/cancel - Cancel an open auction without charging anyone (Officers+ only)
+router.post('/:id/cancel', authenticateToken, requireOfficerOrAdmin, auditAuction('AUCTION_CANCEL'), async (req: any, res) => {
+  try {
+    const auctionId = parseInt(req.params.id);
+    if (isNaN(auctionId)) {
+      return res.status(400).json({ error: 'Invalid auction ID' });
+    }
+
+    const existingAuction = await database.getAuctionById(auctionId, req.guild.id);
+    if (!existingAuction) {
+      return res.status(404).json({ error: 'Auction not found' });
+    }
+
+    const cancelled = await database.cancelAuction(auctionId, req.user.id);
+    if (!cancelled) {
+      return res.status(409).json({ error: `Auction is already ${existingAuction.status.toLowerCase()}` });
+    }
+
+    res.json({
+      message: 'Auction cancelled successfully',
+      auction: {
+        id: auctionId,
+        status: 'CANCELLED'
+      }
+    });
+  } catch (error) {
+    console.error('Cancel auction error:', error);
+    res.status(500).json({ error: 'Failed to cancel auction' });
+  }
+});
+
+export default router;
@@ -0,0 +1,174 @@
+import express from 'express';
+import { database } from '../db.js';
+import { authenticateToken, requireGuild } from '../middleware/auth.js';
+import {
+  CALENDAR_MAX_EVENTS,
+  CALENDAR_PAST_DAYS,
+  generateFeedToken,
+  getFeedUrl,
+  parseEventTypes,
+  renderCalendar
+} from '../services/calendar.js';
+
+// mergeParams so requireGuild sees :guildId when mounted under /api/guild/:guildId/calendar
+const router = express.Router({ mergeParams: true });
+
+const formatFeed = (feed: any, req: any) => ({
+  url: getFeedUrl(feed.token, `${req.protocol}://${req.get('host')}`),
+  lastFetchedAt: feed.lastFetchedAt,
+  createdAt: feed.createdAt
+});
+
+/**
+ * @swagger
+ * /api/calendar/{token}.ics:
+ *   get:
+ *     summary: iCalendar feed of a guild's events
+ *     description: |
+ *       Subscribe to this URL from a calendar app. No login is needed: the token in the URL identifies the member
+ *       and guild, so treat it like a password and rotate it if it leaks. Drafts are left out, cancelled events are
+ *       marked cancelled and each event carries the member's own signup.
+ *     tags: [Events]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           example: RAID,PVP
+ *         description: Only events of these types (RAID, DUNGEON, PVP, SOCIAL, OTHER)
+ *     responses:
+ *       200:
+ *         description: Calendar
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Unknown or rotated token
+ */
+router.get('/:token.ics', async (req: any, res) => {
+  try {
+    const feed = await database.getCalendarFeedByToken(req.params.token);
+    // A member who left the guild keeps the row until they rejoin, but not the events
+    const membership = feed && await database.getGuildMembership(feed.guildId, feed.userId);
+    if (!feed || !membership) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    const parsedTypes = req.query.type !== undefined ? parseEventTypes(req.query.type) : {};
+    if (parsedTypes.error) {
+      return res.status(400).json({ error: parsedTypes.error });
+    }
+
+    const now = new Date();
+    const events = await database.getCalendarFeedEvents(feed.guildId, feed.userId, {
+      endsAfter: new Date(now.getTime() - CALENDAR_PAST_DAYS * 24 * 60 * 60 * 1000),
+      ...(parsedTypes.types && { types: parsedTypes.types }),
+      take: CALENDAR_MAX_EVENTS
+    });
+    await database.markCalendarFeedFetched(feed.id, now);
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', `inline; filename="${feed.guild.slug}.ics"`);
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(renderCalendar(`${feed.guild.name} events`, events, now));
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to render calendar feed' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed:
+ *   get:
+ *     summary: Get my calendar feed
+ *     description: The subscription URL of your feed for the active guild
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 feed:
+ *                   $ref: '#/components/schemas/CalendarFeed'
+ *       404:
+ *         description: No feed has been created yet
+ *   post:
+ *     summary: Create or rotate my calendar feed
+ *     description: Creates a feed URL for the active guild. If you already have one it gets a new token and the old URL stops working.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Feed created
+ *       200:
+ *         description: Feed rotated
+ *   delete:
+ *     summary: Delete my calendar feed
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed deleted
+ *       404:
+ *         description: No feed to delete
+ */
+router.get('/feed', authenticateToken, requireGuild, async (req: any, res) => {
+  try {
+    const feed = await database.getCalendarFeed(req.user.id, req.guild.id);
+    if (!feed) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.json({ feed: formatFeed(feed, req) });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to fetch calendar feed' });
+  }
+});
+
+router.post('/feed', authenticateToken, requireGuild, async (req: any, res) => {
+  try {
+    const existing = await database.getCalendarFeed(req.user.id, req.guild.id);
+    const feed = await database.saveCalendarFeed(req.user.id, req.guild.id, generateFeedToken());
+
+    res.status(existing ? 200 : 201).json({
+      message: existing ? 'Calendar feed rotated; the previous URL no longer works' : 'Calendar feed created successfully',
+      feed: formatFeed(feed, req)
+    });
+  } catch (error) {
+    console.error('Save calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to save calendar feed' });
+  }
+});
+
+router.delete('/feed', authenticateToken, requireGuild, async (req: any, res) => {
+  try {
+    const deleted = await database.deleteCalendarFeed(req.user.id, req.guild.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.json({ message: 'Calendar feed deleted successfully' });
+  } catch (error) {
+    console.error('Delete calendar feed error:', error);
+    res.status(500).json({ error: 'Failed to delete calendar feed' });
+  }
+});
+
+export default router;
@@ -1,8 +1,21 @@
 import express from 'express';
 import { database } from '../db.js';
-import  {authenticateToken} from '../middleware/auth.js';
+import type { DkpLedgerEntry } from '../db.js';
+import  {authenticateToken, requireOfficerOrAdmin} from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { linkUploadUrls, removeUploads } from '../services/uploads.js';
+import { dkpAdjustedEmbed, notify } from '../services/notifications.js';
 const router = express.Router();
 
+const DKP_OPERATIONS = ['set', 'add', 'subtract'];
+
+const characterSnapshot = (req: any, id: string) => database.getCharacterByIdAdmin(parseInt(id), req.guild.id);
+const auditCharacter = (action?: string) => auditLog('CHARACTER', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => body?.character?.id ?? req.params.id,
+  snapshot: characterSnapshot
+});
+
 /**
  * @swagger
  * /api/character:
@@ -36,7 +49,7 @@ const router = express.Router();
 router.get('/', authenticateToken, async (req: any, res) => {
   try {
     // You'll need to implement this in your database class
-    const characters = await database.getCharactersByUserId(req.user.id);
+    const characters = await database.getCharactersByUserId(req.user.id, req.guild.id);
     res.json({
       characters: characters,
       count: characters.length
@@ -88,7 +101,7 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'Invalid character ID' });
     }
 
-    const character = await database.getCharacterById(characterId, req.user.id);
+    const character = await database.getCharacterById(characterId, req.user.id, req.guild.id);
     if (!character) {
       return res.status(404).json({ error: 'Character not found' });
     }
@@ -150,6 +163,7 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *                 type: integer
  *                 default: 0
  *                 example: 100
+ *                 description: Starting DKP (Officer/Admin only)
  *     responses:
  *       201:
  *         description: Character created successfully
@@ -167,7 +181,7 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.post('/', authenticateToken, async (req: any, res) => {
+router.post('/', authenticateToken, auditCharacter(), async (req: any, res) => {
   try {
     const { 
       name, 
@@ -197,7 +211,12 @@ router.post('/', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'Active must be ACTIVE or NOT_ACTIVE' });
     }
 
+    if (dkp && req.user.role !== 'ADMIN' && req.user.role !== 'OFFICER') {
+      return res.status(403).json({ error: 'Only officers and admins can set DKP' });
+    }
+
     const characterData = {
+      guildId: req.guild.id,
       userId: req.user.id,
       name,
       role: role || null,
@@ -210,6 +229,7 @@ router.post('/', authenticateToken, async (req: any, res) => {
     };
 
     const character = await database.createCharacter(characterData);
+    await linkUploadUrls(req.guild.id, [character.gearImageUrl], { characterId: character.id });
     
     res.status(201).json({
       message: 'Character created successfully',
@@ -267,6 +287,7 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *                 enum: [ACTIVE, NOT_ACTIVE]
  *               dkp:
  *                 type: integer
+ *                 description: Officer/Admin only
  *     responses:
  *       200:
  *         description: Character updated successfully
@@ -286,7 +307,7 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.put('/:id', authenticateToken, async (req: any, res) => {
+router.put('/:id', authenticateToken, auditCharacter(), async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.id);
     if (isNaN(characterId)) {
@@ -325,13 +346,34 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
     if (combatPower !== undefined) updateData.combatPower = combatPower;
     if (gearImageUrl !== undefined) updateData.gearImageUrl = gearImageUrl;
     if (active !== undefined) updateData.active = active;
-    if (dkp !== undefined) updateData.dkp = dkp;
 
-    const character = await database.updateCharacter(characterId, req.user.id, updateData);
+    if (dkp !== undefined && typeof dkp !== 'number') {
+      return res.status(400).json({ error: 'DKP must be a number' });
+    }
+
+    if (dkp !== undefined && req.user.role !== 'ADMIN' && req.user.role !== 'OFFICER') {
+      return res.status(403).json({ error: 'Only officers and admins can set DKP' });
+    }
+
+    let character = await database.updateCharacter(characterId, req.user.id, req.guild.id, updateData);
     if (!character) {
       return res.status(404).json({ error: 'Character not found' });
     }
 
+    // DKP changes go through the ledger rather than a plain column update
+    if (dkp !== undefined) {
+      const result = await database.setCharacterDkp(characterId, dkp, {
+        sourceType: 'MANUAL',
+        reason: 'Set via character update',
+        actorId: req.user.id
+      });
+      if (result) character = { ...character, dkp: result.character.dkp };
+    }
+
+    if (gearImageUrl !== undefined) {
+      await linkUploadUrls(req.guild.id, [gearImageUrl], { characterId });
+    }
+
     res.json({
       message: 'Character updated successfully',
       character
@@ -375,18 +417,23 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.delete('/:id', authenticateToken, async (req: any, res) => {
+router.delete('/:id', authenticateToken, auditCharacter(), async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.id);
     if (isNaN(characterId)) {
       return res.status(400).json({ error: 'Invalid character ID' });
     }
 
-    const deleted = await database.deleteCharacter(characterId, req.user.id);
+    // Collected first: the character's uploads are detached once it is gone
+    const uploads = await database.getUploadsFor({ characterId });
+
+    const deleted = await database.deleteCharacter(characterId, req.user.id, req.guild.id);
     if (!deleted) {
       return res.status(404).json({ error: 'Character not found' });
     }
 
+    await removeUploads(uploads);
+
     res.json({ message: 'Character deleted successfully' });
   } catch (error) {
     console.error('Delete character error:', error);
@@ -398,8 +445,8 @@ router.delete('/:id', authenticateToken, async (req: any, res) => {
  * @swagger
  * /api/character/{id}/dkp:
  *   put:
- *     summary: Update character DKP
- *     description: Update a character's DKP points (must be owned by user)
+ *     summary: Update character DKP (Officer/Admin only)
+ *     description: Update any character's DKP points. Members cannot edit DKP directly.
  *     tags: [Characters]
  *     security:
  *       - BearerAuth: []
@@ -423,6 +470,14 @@ router.delete('/:id', authenticateToken, async (req: any, res) => {
  *                 type: integer
  *                 minimum: 0
  *                 example: 150
+ *               operation:
+ *                 type: string
+ *                 enum: [set, add, subtract]
+ *                 default: set
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "World boss kill"
  *     responses:
  *       200:
  *         description: Character DKP updated successfully
@@ -435,53 +490,79 @@ router.delete('/:id', authenticateToken, async (req: any, res) => {
  *                   type: string
  *                 character:
  *                   $ref: '#/components/schemas/Character'
+ *                 transaction:
+ *                   $ref: '#/components/schemas/DkpTransaction'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.put('/:id/dkp', authenticateToken, async (req: any, res) => {
+router.put('/:id/dkp', authenticateToken, requireOfficerOrAdmin, auditCharacter('CHARACTER_DKP_UPDATE'), async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.id);
     if (isNaN(characterId)) {
       return res.status(400).json({ error: 'Invalid character ID' });
     }
 
-    const { dkp, operation } = req.body;
+    const { dkp, operation = 'set', reason } = req.body;
     if (dkp === undefined) {
       return res.status(400).json({ error: 'DKP amount is required' });
     }
 
-    if (typeof dkp !== 'number') {
-      return res.status(400).json({ error: 'DKP must be a number' });
+    if (!Number.isInteger(dkp)) {
+      return res.status(400).json({ error: 'DKP must be an integer' });
+    }
+
+    if (!DKP_OPERATIONS.includes(operation)) {
+      return res.status(400).json({ error: `Operation must be one of: ${DKP_OPERATIONS.join(', ')}` });
+    }
+
+    if (reason && reason.length > 500) {
+      return res.status(400).json({ error: 'Reason must be 500 characters or less' });
     }
 
-    // Get current character
-    const currentCharacter = await database.getCharacterById(characterId, req.user.id);
+    // The character must belong to this guild
+    const currentCharacter = await database.getCharacterByIdAdmin(characterId, req.guild.id);
     if (!currentCharacter) {
       return res.status(404).json({ error: 'Character not found' });
     }
 
-    let newDkp;
-    if (operation === 'add') {
-      newDkp = currentCharacter.dkp + dkp;
-    } else if (operation === 'subtract') {
-      newDkp = Math.max(0, currentCharacter.dkp - dkp); // Don't allow negative DKP
-    } else {
-      newDkp = dkp; // Set absolute value
+    const ledgerReason = reason?.trim() || `Manual DKP ${operation === 'add' ? 'addition' : operation === 'subtract' ? 'deduction' : 'set'}`;
+    const ledgerEntry: DkpLedgerEntry = {
+      sourceType: 'MANUAL',
+      reason: ledgerReason,
+      actorId: req.user.id
+    };
+
+    // Additions and deductions are applied as deltas so concurrent changes are not overwritten.
+    // Deductions stop at zero; only 'set' writes an absolute balance.
+    const result = operation !== 'set'
+      ? await database.adjustCharacterDkp(characterId, operation === 'add' ? dkp : -dkp, ledgerEntry)
+      : await database.setCharacterDkp(characterId, dkp, ledgerEntry);
+    if (!result) {
+      return res.status(404).json({ error: 'Character not found' });
     }
 
-    const character = await database.updateCharacter(characterId, req.user.id, {
-      dkp: newDkp
-    });
+    if (result.character.dkp !== result.previousDkp) {
+      notify(req.guild.id, 'DKP_ADJUSTED', dkpAdjustedEmbed({
+        characterName: result.character.name,
+        previousDkp: result.previousDkp,
+        newDkp: result.character.dkp,
+        reason: ledgerReason,
+        actorName: req.user.username
+      }));
+    }
 
     res.json({
       message: 'Character DKP updated successfully',
-      character,
-      previousDkp: currentCharacter.dkp,
-      newDkp: newDkp
+      character: result.character,
+      previousDkp: result.previousDkp,
+      newDkp: result.character.dkp,
+      transaction: result.transaction
     });
   } catch (error) {
     console.error('Update character DKP error:', error);
@@ -489,4 +570,324 @@ router.put('/:id/dkp', authenticateToken, async (req: any, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+/**
+ * @swagger
+ * /api/character/{id}/dkp/history:
+ *   get:
+ *     summary: Get character DKP history
+ *     description: Retrieve the DKP ledger for a character, newest first. Owners see their own characters, officers and admins see any character.
+ *     tags: [Characters]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Character ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: DKP history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 character:
+ *                   $ref: '#/components/schemas/Character'
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DkpTransaction'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/dkp/history', authenticateToken, async (req: any, res) => {
+  try {
+    const characterId = parseInt(req.params.id);
+    if (isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid character ID' });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterId, req.guild.id)
+      : await database.getCharacterById(characterId, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found or access denied' });
+    }
+
+    const [transactions, totalCount] = await Promise.all([
+      database.getDkpTransactions({
+        skip: offset,
+        take: limitNum,
+        where: { characterId }
+      }),
+      database.getDkpTransactionCount({ characterId })
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      character: {
+        id: character.id,
+        name: character.name,
+        dkp: character.dkp
+      },
+      transactions: transactions.map((transaction: any) => ({
+        id: transaction.id,
+        delta: transaction.delta,
+        balanceAfter: transaction.balanceAfter,
+        reason: transaction.reason,
+        sourceType: transaction.sourceType,
+        sourceId: transaction.sourceId,
+        actor: transaction.actor,
+        createdAt: transaction.createdAt
+      })),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalTransactions: totalCount,
+        transactionsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get character DKP history error:', error);
+    res.status(500).json({ error: 'Failed to fetch character DKP history' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/character/{id}/wishlist-points:
+ *   get:
+ *     summary: Get character wishlist point budget
+ *     description: Get the remaining wishlist points, the points tied up in current wishes and the point history. Owners see their own characters; officers and admins see everyone's.
+ *     tags: [Characters]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Character ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Wishlist point budget retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 character:
+ *                   type: object
+ *                 budget:
+ *                   type: object
+ *                   properties:
+ *                     remaining:
+ *                       type: integer
+ *                     committed:
+ *                       type: integer
+ *                       description: Points currently spent on open wishes
+ *                     total:
+ *                       type: integer
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WishlistPointTransaction'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   post:
+ *     summary: Grant or revoke wishlist points (Officers+ only)
+ *     description: Add (positive amount) or remove (negative amount) wishlist points. A revoke cannot take the remaining balance below zero.
+ *     tags: [Characters]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Character ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *                 example: 3
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Raid MVP"
+ *     responses:
+ *       200:
+ *         description: Wishlist points updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/wishlist-points', authenticateToken, async (req: any, res) => {
+  try {
+    const characterId = parseInt(req.params.id);
+    if (isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid character ID' });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterId, req.guild.id)
+      : await database.getCharacterById(characterId, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found or access denied' });
+    }
+
+    const [committed, transactions, totalCount] = await Promise.all([
+      database.getCommittedWishlistPoints(characterId),
+      database.getWishlistPointTransactions({
+        skip: offset,
+        take: limitNum,
+        where: { characterId }
+      }),
+      database.getWishlistPointTransactionCount({ characterId })
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      character: {
+        id: character.id,
+        name: character.name
+      },
+      budget: {
+        remaining: character.wishlistPoints,
+        committed,
+        total: character.wishlistPoints + committed
+      },
+      transactions: transactions.map((transaction: any) => ({
+        id: transaction.id,
+        delta: transaction.delta,
+        balanceAfter: transaction.balanceAfter,
+        reason: transaction.reason,
+        sourceType: transaction.sourceType,
+        itemId: transaction.itemId,
+        actor: transaction.actor,
+        createdAt: transaction.createdAt
+      })),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalTransactions: totalCount,
+        transactionsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get character wishlist points error:', error);
+    res.status(500).json({ error: 'Failed to fetch character wishlist points' });
+  }
+});
+
+router.post('/:id/wishlist-points', authenticateToken, requireOfficerOrAdmin, auditCharacter('CHARACTER_WISHLIST_POINTS_UPDATE'), async (req: any, res) => {
+  try {
+    const characterId = parseInt(req.params.id);
+    if (isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid character ID' });
+    }
+
+    const { amount, reason } = req.body;
+    if (!Number.isInteger(amount) || amount === 0) {
+      return res.status(400).json({ error: 'Amount must be a non-zero integer' });
+    }
+
+    if (reason && reason.length > 500) {
+      return res.status(400).json({ error: 'Reason must be 500 characters or less' });
+    }
+
+    const character = await database.getCharacterByIdAdmin(characterId, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    if (character.wishlistPoints + amount < 0) {
+      return res.status(400).json({
+        error: `Cannot revoke ${-amount} point(s): ${character.name} only has ${character.wishlistPoints} left`
+      });
+    }
+
+    const result = await database.updateWishlistPoints(characterId, amount, {
+      sourceType: amount > 0 ? 'GRANT' : 'REVOKE',
+      reason: reason?.trim() || `Wishlist points ${amount > 0 ? 'granted' : 'revoked'}`,
+      actorId: req.user.id
+    });
+
+    res.json({
+      message: `Wishlist points ${amount > 0 ? 'granted' : 'revoked'} successfully`,
+      character: {
+        id: result.character.id,
+        name: result.character.name,
+        wishlistPoints: result.character.wishlistPoints
+      },
+      previousPoints: character.wishlistPoints,
+      transaction: result.transaction
+    });
+  } catch (error) {
+    console.error('Update wishlist points error:', error);
+    res.status(500).json({ error: 'Failed to update wishlist points' });
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import express from 'express';
+import { handleInteraction, reply, verifyInteractionSignature } from '../services/discord.js';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/discord/interactions:
+ *   post:
+ *     summary: Discord interactions endpoint
+ *     description: |
+ *       Set this URL as the Interactions Endpoint URL of the Discord application. Discord signs every request with
+ *       Ed25519; requests without a valid signature from the last five minutes are refused. Slash commands run as
+ *       the Guildie user with the same Discord account, in the guild linked to the Discord server
+ *       (`discordGuildId` in the guild settings), with that user's role in the guild.
+ *       Commands: `/dkp`, `/wish add`, `/events upcoming`, `/signup`, `/attend`.
+ *     tags: [Discord]
+ *     security: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Signature-Ed25519
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Signature-Timestamp
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Discord interaction payload
+ *     responses:
+ *       200:
+ *         description: Interaction response (PONG or a message)
+ *       400:
+ *         description: Body is not valid JSON
+ *       401:
+ *         description: Invalid request signature
+ *       503:
+ *         description: Discord interactions are not configured
+ */
+// The signature covers the exact bytes Discord sent, so this route reads the raw body instead of express.json
+router.post('/interactions', express.raw({ type: '*/*', limit: '100kb' }), async (req: any, res) => {
+  const publicKey = process.env.DISCORD_PUBLIC_KEY;
+  if (!publicKey) {
+    return res.status(503).json({ error: 'Discord interactions are not configured' });
+  }
+
+  const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (!verifyInteractionSignature(rawBody, req.get('X-Signature-Ed25519'), req.get('X-Signature-Timestamp'), publicKey)) {
+    return res.status(401).json({ error: 'Invalid request signature' });
+  }
+
+  let interaction;
+  try {
+    interaction = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    return res.status(400).json({ error: 'Invalid JSON body' });
+  }
+
+  try {
+    res.json(await handleInteraction(interaction));
+  } catch (error) {
+    console.error('Discord interaction error:', error);
+    // Discord shows HTTP errors as "This interaction failed"; a message tells the member what happened
+    res.json(reply('Something went wrong while running that command. Please try again.'));
+  }
+});
+
+export default router;
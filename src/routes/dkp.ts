@@ -0,0 +1,844 @@
+import express from 'express';
+import { database } from '../db.js';
+import { authenticateToken, requireAdmin, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { applyDkpDecay, getDecayPeriod, parseDecaySettings, previewDkpDecay, revertDkpDecay } from '../services/decay.js';
+
+const router = express.Router();
+
+const DKP_SOURCE_TYPES = ['ATTENDANCE', 'MANUAL', 'AUCTION', 'LOOT', 'DECAY', 'ADJUSTMENT', 'RECONCILIATION'];
+
+const formatDecayPolicy = (policy: any) => ({
+  enabled: policy.enabled,
+  percent: policy.percent,
+  period: policy.period,
+  floor: policy.floor,
+  enabledAt: policy.enabledAt,
+  updatedAt: policy.updatedAt
+});
+
+const decayPolicySnapshot = async (req: any) => {
+  const [policy, exempt] = await Promise.all([
+    database.getDkpDecayPolicy(req.guild.id),
+    database.getDecayExemptCharacters(req.guild.id)
+  ]);
+  return policy ? { ...formatDecayPolicy(policy), exemptCharacterIds: exempt.map((character) => character.id) } : null;
+};
+
+/**
+ * @swagger
+ * /api/dkp/ledger:
+ *   get:
+ *     summary: Query the DKP ledger (Officers+ only)
+ *     description: Retrieve DKP transactions across all characters with filtering and pagination
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *       - in: query
+ *         name: characterId
+ *         schema:
+ *           type: integer
+ *         description: Filter by character ID
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: integer
+ *         description: Filter by the user who made the change
+ *       - in: query
+ *         name: sourceType
+ *         schema:
+ *           type: string
+ *           enum: [ATTENDANCE, MANUAL, AUCTION, LOOT, DECAY, ADJUSTMENT, RECONCILIATION]
+ *         description: Filter by source type
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *         description: Filter by text contained in the reason
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions at or after this date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions at or before this date
+ *     responses:
+ *       200:
+ *         description: Ledger entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DkpTransaction'
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     totalAwarded:
+ *                       type: integer
+ *                     totalSpent:
+ *                       type: integer
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/ledger', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 50,
+      characterId,
+      actorId,
+      sourceType,
+      reason,
+      startDate,
+      endDate
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    // Build filter conditions
+    const filters: any = {
+      character: { guildId: req.guild.id }
+    };
+
+    if (characterId) {
+      const characterIdNum = parseInt(characterId);
+      if (isNaN(characterIdNum)) {
+        return res.status(400).json({ error: 'Invalid character ID' });
+      }
+      filters.characterId = characterIdNum;
+    }
+
+    if (actorId) {
+      const actorIdNum = parseInt(actorId);
+      if (isNaN(actorIdNum)) {
+        return res.status(400).json({ error: 'Invalid actor ID' });
+      }
+      filters.actorId = actorIdNum;
+    }
+
+    if (sourceType) {
+      if (!DKP_SOURCE_TYPES.includes(sourceType)) {
+        return res.status(400).json({ error: `Source type must be one of ${DKP_SOURCE_TYPES.join(', ')}` });
+      }
+      filters.sourceType = sourceType;
+    }
+
+    if (reason) {
+      filters.reason = { contains: reason };
+    }
+
+    if (startDate || endDate) {
+      filters.createdAt = {};
+      if (startDate) {
+        const start = new Date(startDate);
+        if (isNaN(start.getTime())) {
+          return res.status(400).json({ error: 'Invalid start date' });
+        }
+        filters.createdAt.gte = start;
+      }
+      if (endDate) {
+        const end = new Date(endDate);
+        if (isNaN(end.getTime())) {
+          return res.status(400).json({ error: 'Invalid end date' });
+        }
+        filters.createdAt.lte = end;
+      }
+    }
+
+    const [transactions, totalCount, awarded, spent] = await Promise.all([
+      database.getDkpTransactions({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getDkpTransactionCount(filters),
+      database.sumDkpTransactions({ ...filters, delta: { gt: 0 } }),
+      database.sumDkpTransactions({ ...filters, delta: { lt: 0 } })
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      transactions: transactions.map((transaction: any) => ({
+        id: transaction.id,
+        character: transaction.character,
+        delta: transaction.delta,
+        balanceAfter: transaction.balanceAfter,
+        reason: transaction.reason,
+        sourceType: transaction.sourceType,
+        sourceId: transaction.sourceId,
+        actor: transaction.actor,
+        createdAt: transaction.createdAt
+      })),
+      summary: {
+        totalAwarded: awarded,
+        totalSpent: Math.abs(spent)
+      },
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalTransactions: totalCount,
+        transactionsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get DKP ledger error:', error);
+    res.status(500).json({ error: 'Failed to fetch DKP ledger' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/reconcile:
+ *   get:
+ *     summary: Find DKP balance discrepancies (Officers+ only)
+ *     description: List characters whose stored DKP balance does not match the sum of their ledger entries
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Discrepancies retrieved successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Reconcile DKP balances (Admin only)
+ *     description: Reset stored DKP balances to the sum of their ledger entries. The ledger is treated as the source of truth.
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               characterIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Limit reconciliation to these characters (defaults to all)
+ *     responses:
+ *       200:
+ *         description: Balances reconciled successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/reconcile', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const discrepancies = await database.getDkpDiscrepancies(req.guild.id);
+
+    res.json({
+      discrepancies,
+      totalDiscrepancies: discrepancies.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Get DKP discrepancies error:', error);
+    res.status(500).json({ error: 'Failed to check DKP balances' });
+  }
+});
+
+router.post('/reconcile', authenticateToken, requireAdmin, auditLog('DKP_BALANCE', {
+  action: 'DKP_RECONCILE',
+  targetId: () => null
+}), async (req: any, res) => {
+  try {
+    const { characterIds } = req.body ?? {};
+
+    if (characterIds !== undefined && (!Array.isArray(characterIds) || characterIds.some((id: any) => isNaN(parseInt(id))))) {
+      return res.status(400).json({ error: 'Character IDs must be an array of integers' });
+    }
+
+    const reconciled = await database.reconcileDkpBalances(
+      req.guild.id,
+      characterIds?.map((id: any) => parseInt(id))
+    );
+
+    res.json({
+      message: `${reconciled.length} character balance(s) reconciled with the ledger`,
+      reconciled: reconciled.map((entry) => ({
+        characterId: entry.characterId,
+        name: entry.name,
+        previousBalance: entry.balance,
+        newBalance: entry.ledgerBalance
+      }))
+    });
+  } catch (error) {
+    console.error('Reconcile DKP error:', error);
+    res.status(500).json({ error: 'Failed to reconcile DKP balances' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/decay:
+ *   get:
+ *     summary: Get the DKP decay policy (Officers+ only)
+ *     description: The guild's decay settings and the characters exempt from decay
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Decay policy retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 policy:
+ *                   $ref: '#/components/schemas/DkpDecayPolicy'
+ *                 currentPeriod:
+ *                   type: string
+ *                   nullable: true
+ *                   example: 2025-W44
+ *                 exemptCharacters:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       dkp:
+ *                         type: integer
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   put:
+ *     summary: Configure DKP decay (Admin only)
+ *     description: |
+ *       Set the decay percentage, period (weekly or monthly), floor and exempt characters. While enabled, decay runs
+ *       automatically once per period, starting with the first full period after it was enabled.
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               percent:
+ *                 type: number
+ *                 description: Share of each balance removed per period (0-100]
+ *                 example: 10
+ *               period:
+ *                 type: string
+ *                 enum: [WEEKLY, MONTHLY]
+ *               floor:
+ *                 type: integer
+ *                 description: Balances never decay below this
+ *               exemptCharacterIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Replaces the list of characters that never decay
+ *     responses:
+ *       200:
+ *         description: Decay policy updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/decay', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const [policy, exemptCharacters] = await Promise.all([
+      database.getDkpDecayPolicy(req.guild.id),
+      database.getDecayExemptCharacters(req.guild.id)
+    ]);
+
+    res.json({
+      policy: policy ? formatDecayPolicy(policy) : null,
+      currentPeriod: policy ? getDecayPeriod(policy.period).key : null,
+      exemptCharacters
+    });
+  } catch (error) {
+    console.error('Get DKP decay policy error:', error);
+    res.status(500).json({ error: 'Failed to fetch DKP decay policy' });
+  }
+});
+
+router.put('/decay', authenticateToken, requireAdmin, auditLog('DKP_DECAY_POLICY', {
+  targetId: (req: any) => req.guild.id,
+  snapshot: decayPolicySnapshot
+}), async (req: any, res) => {
+  try {
+    const parsed = parseDecaySettings(req.body);
+    if (parsed.error || !parsed.settings) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { exemptCharacterIds } = req.body ?? {};
+    if (exemptCharacterIds !== undefined && (!Array.isArray(exemptCharacterIds) || exemptCharacterIds.some((id: any) => !Number.isInteger(id)))) {
+      return res.status(400).json({ error: 'Exempt character IDs must be an array of integers' });
+    }
+
+    const existing = await database.getDkpDecayPolicy(req.guild.id);
+    const settings = parsed.settings;
+
+    if (!existing && settings.percent === undefined) {
+      return res.status(400).json({ error: 'Percent is required' });
+    }
+
+    // Decay starts with the first full period after it is switched on
+    const enabling = settings.enabled === true && !existing?.enabled;
+
+    const policy = await database.upsertDkpDecayPolicy(req.guild.id, {
+      ...settings,
+      ...(enabling && { enabledAt: new Date() }),
+      updatedById: req.user.id
+    });
+
+    if (exemptCharacterIds !== undefined) {
+      await database.setDecayExemptCharacters(req.guild.id, exemptCharacterIds);
+    }
+
+    res.json({
+      message: 'DKP decay policy updated successfully',
+      policy: formatDecayPolicy(policy),
+      exemptCharacters: await database.getDecayExemptCharacters(req.guild.id)
+    });
+  } catch (error) {
+    console.error('Update DKP decay policy error:', error);
+    res.status(500).json({ error: 'Failed to update DKP decay policy' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/decay/preview:
+ *   get:
+ *     summary: Dry-run DKP decay (Officers+ only)
+ *     description: Shows what a decay run for the current period would take from each character, without changing anything
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: percent
+ *         schema:
+ *           type: number
+ *         description: Try a different percentage than the policy's
+ *       - in: query
+ *         name: floor
+ *         schema:
+ *           type: integer
+ *         description: Try a different floor than the policy's
+ *     responses:
+ *       200:
+ *         description: Decay preview
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: No decay policy configured and no percent given
+ */
+router.get('/decay/preview', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const { percent, floor } = req.query;
+    const parsed = parseDecaySettings({
+      percent: percent !== undefined ? Number(percent) : undefined,
+      floor: floor !== undefined ? Number(floor) : undefined
+    });
+    if (parsed.error || !parsed.settings) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const preview = await previewDkpDecay(req.guild.id, parsed.settings);
+    if (!preview) {
+      return res.status(404).json({ error: 'No DKP decay policy configured' });
+    }
+
+    res.json({ dryRun: true, ...preview });
+  } catch (error) {
+    console.error('Preview DKP decay error:', error);
+    res.status(500).json({ error: 'Failed to preview DKP decay' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/decay/run:
+ *   post:
+ *     summary: Run DKP decay now (Admin only)
+ *     description: Applies the policy to the current period immediately. Each period decays at most once; a period whose run was reverted can be run again.
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Decay applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 run:
+ *                   $ref: '#/components/schemas/DkpDecayRun'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: No decay policy configured
+ *       409:
+ *         description: Decay already applied for this period
+ */
+router.post('/decay/run', authenticateToken, requireAdmin, auditLog('DKP_DECAY_RUN', {
+  action: 'DKP_DECAY_APPLY',
+  targetId: (req: any, body?: any) => body?.run?.id
+}), async (req: any, res) => {
+  try {
+    const result = await applyDkpDecay(req.guild.id, { actorId: req.user.id });
+    if (!result.applied) {
+      if (result.reason === 'NO_POLICY') {
+        return res.status(404).json({ error: 'No DKP decay policy configured' });
+      }
+      return res.status(409).json({
+        error: `DKP decay for ${result.periodKey} has already been applied`,
+        runId: result.run.id
+      });
+    }
+
+    res.status(201).json({
+      message: `Decayed ${result.run.totalDecayed} DKP from ${result.run.characterCount} character(s)`,
+      run: result.run,
+      entries: result.entries
+    });
+  } catch (error) {
+    console.error('Run DKP decay error:', error);
+    res.status(500).json({ error: 'Failed to run DKP decay' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/decay/runs:
+ *   get:
+ *     summary: DKP decay history (Officers+ only)
+ *     description: Every decay run, scheduled or manual, newest first
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Decay runs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 runs:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DkpDecayRun'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/decay/runs', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const [runs, totalCount] = await Promise.all([
+      database.getDkpDecayRuns(req.guild.id, { skip: offset, take: limitNum }),
+      database.getDkpDecayRunCount(req.guild.id)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      runs,
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalRuns: totalCount,
+        runsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get DKP decay runs error:', error);
+    res.status(500).json({ error: 'Failed to fetch DKP decay runs' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/decay/runs/{id}:
+ *   get:
+ *     summary: Get a DKP decay run (Officers+ only)
+ *     description: A decay run with its ledger entries, including the entries written when it was reverted
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Decay run retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/decay/runs/:id', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const runId = parseInt(req.params.id);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid decay run ID' });
+    }
+
+    const run = await database.getDkpDecayRunById(runId, req.guild.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Decay run not found' });
+    }
+
+    const transactions = await database.getDkpTransactions({
+      where: { sourceType: 'DECAY', sourceId: run.id }
+    });
+
+    res.json({ run, transactions });
+  } catch (error) {
+    console.error('Get DKP decay run error:', error);
+    res.status(500).json({ error: 'Failed to fetch DKP decay run' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/decay/runs/{id}/revert:
+ *   post:
+ *     summary: Revert a DKP decay run (Admin only)
+ *     description: Gives every character back exactly what the run took. The scheduler will not run that period again, but an admin can.
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Decay run reverted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Run already reverted
+ */
+router.post('/decay/runs/:id/revert', authenticateToken, requireAdmin, auditLog('DKP_DECAY_RUN', {
+  action: 'DKP_DECAY_REVERT',
+  snapshot: (req: any, id: string) => database.getDkpDecayRunById(parseInt(id), req.guild.id)
+}), async (req: any, res) => {
+  try {
+    const runId = parseInt(req.params.id);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid decay run ID' });
+    }
+
+    const run = await database.getDkpDecayRunById(runId, req.guild.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Decay run not found' });
+    }
+
+    const result = await revertDkpDecay(runId, req.user.id);
+    if (!result) {
+      return res.status(409).json({ error: 'Decay run has already been reverted' });
+    }
+
+    res.json({
+      message: `Restored ${result.totalRestored} DKP to ${result.restored} character(s)`,
+      run: result.run
+    });
+  } catch (error) {
+    console.error('Revert DKP decay error:', error);
+    res.status(500).json({ error: 'Failed to revert DKP decay' });
+  }
+});
+
+const formatReconciliation = (reconciliation: any) => ({
+  ...reconciliation,
+  adjustments: JSON.parse(reconciliation.adjustments)
+});
+
+/**
+ * @swagger
+ * /api/dkp/reconciliations:
+ *   get:
+ *     summary: List DKP reconciliations (Officers+ only)
+ *     description: Attendance DKP corrections made (or skipped) when an event's reward changed or the event was deleted
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: integer
+ *         description: Only reconciliations for this event (which may since have been deleted)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reconciliations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reconciliations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DkpReconciliation'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/reconciliations', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const { eventId, page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const where: any = { guildId: req.guild.id };
+    if (eventId !== undefined) {
+      const eventIdNum = parseInt(eventId);
+      if (isNaN(eventIdNum)) {
+        return res.status(400).json({ error: 'Invalid event ID' });
+      }
+      where.eventId = eventIdNum;
+    }
+
+    const [reconciliations, totalCount] = await Promise.all([
+      database.getDkpReconciliations(where, { skip: offset, take: limitNum }),
+      database.getDkpReconciliationCount(where)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      reconciliations: reconciliations.map(formatReconciliation),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalReconciliations: totalCount,
+        reconciliationsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get DKP reconciliations error:', error);
+    res.status(500).json({ error: 'Failed to fetch DKP reconciliations' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/dkp/reconciliations/{id}:
+ *   get:
+ *     summary: Get a DKP reconciliation (Officers+ only)
+ *     description: A reconciliation with the ledger entries it wrote (none if it was skipped)
+ *     tags: [DKP]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reconciliation retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/reconciliations/:id', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const reconciliationId = parseInt(req.params.id);
+    if (isNaN(reconciliationId)) {
+      return res.status(400).json({ error: 'Invalid reconciliation ID' });
+    }
+
+    const reconciliation = await database.getDkpReconciliationById(reconciliationId, req.guild.id);
+    if (!reconciliation) {
+      return res.status(404).json({ error: 'Reconciliation not found' });
+    }
+
+    const transactions = await database.getDkpTransactions({
+      where: { sourceType: 'RECONCILIATION', sourceId: reconciliation.id }
+    });
+
+    res.json({ reconciliation: formatReconciliation(reconciliation), transactions });
+  } catch (error) {
+    console.error('Get DKP reconciliation error:', error);
+    res.status(500).json({ error: 'Failed to fetch DKP reconciliation' });
+  }
+});
+
+export default router;
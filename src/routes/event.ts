@@ -1,50 +1,112 @@
 import express from 'express';
-import { database } from '../db.js';
-import  {authenticateToken} from '../middleware/auth.js';
+import { database, EVENT_TYPES } from '../db.js';
+import  {authenticateToken, requireOfficerOrAdmin} from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import {
+  SIGNUP_STATUSES,
+  buildRoster,
+  getSignupCutoff,
+  isSignupOpen,
+  parseComposition,
+  submitSignup
+} from '../services/signup.js';
+import {
+  DEFAULT_BENCH_AWARD_PERCENT,
+  DEFAULT_LATE_AWARD_PERCENT,
+  checkAttendanceEditable,
+  generateCheckInCode,
+  planEventFinalization
+} from '../services/attendance.js';
+import { EVENT_STATUSES, checkTransition, planReopen, resolveEventStatus } from '../services/lifecycle.js';
+import { eventCreatedEmbed, notify } from '../services/notifications.js';
+import { DEFAULT_EVENT_REMINDERS, parseReminderRules } from '../services/reminders.js';
+import {
+  planDeletion,
+  planRewardChange,
+  reconcileEventDkp,
+  summarizeAdjustments,
+  updateEventWithDkp
+} from '../services/reconciliation.js';
+import { WEEKDAYS, formatRRule, parseRRule, shiftRule } from '../services/recurrence.js';
+import {
+  EDIT_SCOPES,
+  createSeries,
+  deleteFollowing,
+  editFollowing,
+  editSeries,
+  editedOccurrenceFields,
+  excludeOccurrence,
+  occurrenceOverrides,
+  parseExdates
+} from '../services/series.js';
+import type { SeriesChanges } from '../services/series.js';
+import { localizeTimes, parseDateTime, resolveTimeZone } from '../services/timezone.js';
+import { parseEventTypes } from '../services/calendar.js';
 
 const router = express.Router();
 
-// Helper function to generate recurring events
-const generateRecurringEvents = (
-  eventData: any, 
-  recurrence: { 
-    type: 'weekly';
-    interval: number; // Every X weeks
-    dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
-    occurrences: number; // How many events to create
-  }
-) => {
-  const events = [];
-  const startDate = new Date(eventData.startTime);
-  const endDate = new Date(eventData.endTime);
-  const duration = endDate.getTime() - startDate.getTime();
-
-  // Calculate days until target day of week
-  const currentDayOfWeek = startDate.getDay();
-  const daysUntilTarget = (recurrence.dayOfWeek - currentDayOfWeek + 7) % 7;
-  
-  // Set to the first occurrence
-  const firstOccurrence = new Date(startDate);
-  firstOccurrence.setDate(startDate.getDate() + daysUntilTarget);
-
-  for (let i = 0; i < recurrence.occurrences; i++) {
-    const eventStart = new Date(firstOccurrence);
-    eventStart.setDate(firstOccurrence.getDate() + (i * 7 * recurrence.interval));
-    
-    const eventEnd = new Date(eventStart.getTime() + duration);
-    
-    events.push({
-      title: `${eventData.title}${i > 0 ? ` (Week ${i + 1})` : ''}`,
-      description: eventData.description,
-      startTime: eventStart,
-      endTime: eventEnd,
-      dkpReward: eventData.dkpReward
-    });
-  }
+const formatComposition = (composition: { role: string; count: number }[]) =>
+  Object.fromEntries(composition.map((entry) => [entry.role, entry.count]));
 
-  return events;
+const eventSnapshot = async (req: any, id: string) => {
+  const event = await database.getEventById(parseInt(id), req.guild.id);
+  if (!event) return null;
+  const { attendances, signups, composition, ...fields } = event;
+  return {
+    ...fields,
+    composition: formatComposition(composition),
+    attendeeIds: attendances.map((attendance) => attendance.characterId)
+  };
 };
 
+const auditEvent = (action?: string) => auditLog('EVENT', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => body?.event?.id ?? req.params.id,
+  snapshot: eventSnapshot
+});
+
+// Signups are keyed by event and character, so audit entries use "eventId:characterId"
+const auditSignup = (action: string) => auditLog('EVENT_SIGNUP', {
+  action,
+  targetId: (req: any) => {
+    const characterId = req.params.characterId ?? req.body?.characterId;
+    return characterId ? `${parseInt(req.params.id)}:${parseInt(characterId)}` : undefined;
+  },
+  snapshot: (req: any, id: string) => {
+    const [eventId = NaN, characterId = NaN] = id.split(':').map(Number);
+    return database.getEventSignup(eventId, characterId);
+  }
+});
+
+const formatReminder = (reminder: any) => ({
+  id: reminder.id,
+  minutesBefore: reminder.minutesBefore,
+  audience: reminder.audience,
+  channels: JSON.parse(reminder.channels),
+  sendAt: reminder.sendAt,
+  status: reminder.status,
+  sentAt: reminder.sentAt
+});
+
+const formatSignup = (signup: any) => ({
+  character: {
+    id: signup.character.id,
+    name: signup.character.name,
+    role: signup.character.role,
+    user: signup.character.user
+  },
+  status: signup.status,
+  role: signup.role,
+  note: signup.note,
+  confirmed: signup.confirmed,
+  createdAt: signup.createdAt,
+  updatedAt: signup.updatedAt
+});
+
+// Weekly recurrence from older clients, as an RRULE: every `interval` weeks on `dayOfWeek`, `occurrences` times
+const legacyRecurrenceRule = (recurrence: { interval?: number; dayOfWeek: number; occurrences: number }) =>
+  `FREQ=WEEKLY;INTERVAL=${recurrence.interval || 1};BYDAY=${WEEKDAYS[recurrence.dayOfWeek]};COUNT=${recurrence.occurrences}`;
+
 /**
  * @swagger
  * /api/event:
@@ -88,6 +150,18 @@ const generateRecurringEvents = (
  *         schema:
  *           type: boolean
  *         description: Filter for past events only
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, SCHEDULED, IN_PROGRESS, COMPLETED, CANCELLED]
+ *         description: Filter by lifecycle status. Drafts are only listed for officers.
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           example: RAID,PVP
+ *         description: Filter by one or more event types
  *     responses:
  *       200:
  *         description: Events retrieved successfully
@@ -112,6 +186,8 @@ router.get('/', authenticateToken, async (req: any, res) => {
       endDate,
       upcoming = false,
       past = false,
+      status,
+      type,
       sortBy = 'startTime',
       sortOrder = 'asc'
     } = req.query;
@@ -119,22 +195,25 @@ router.get('/', authenticateToken, async (req: any, res) => {
     const pageNum = Math.max(1, parseInt(page));
     const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
     const offset = (pageNum - 1) * limitNum;
+    const timeZone = resolveTimeZone(req.user, req.guild);
 
     // Build filter conditions
-    const filters: any = {};
+    const filters: any = {
+      guildId: req.guild.id
+    };
     const now = new Date();
 
     if (startDate) {
       filters.startTime = {
         ...filters.startTime,
-        gte: new Date(startDate)
+        gte: parseDateTime(startDate, timeZone)
       };
     }
 
     if (endDate) {
       filters.endTime = {
         ...filters.endTime,
-        lte: new Date(endDate)
+        lte: parseDateTime(endDate, timeZone)
       };
     }
 
@@ -152,6 +231,26 @@ router.get('/', authenticateToken, async (req: any, res) => {
       };
     }
 
+    if (status !== undefined) {
+      if (!EVENT_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Status must be one of: ${EVENT_STATUSES.join(', ')}` });
+      }
+      filters.status = status;
+    }
+
+    if (type !== undefined) {
+      const parsedTypes = parseEventTypes(type);
+      if (parsedTypes.error) {
+        return res.status(400).json({ error: parsedTypes.error });
+      }
+      filters.type = { in: parsedTypes.types };
+    }
+
+    // Drafts are only visible to officers
+    if (req.user.role !== 'ADMIN' && req.user.role !== 'OFFICER') {
+      filters.NOT = { status: 'DRAFT' };
+    }
+
     // Build sort order
     const orderBy: any = {};
     if (['startTime', 'endTime', 'title', 'dkpReward'].includes(sortBy)) {
@@ -179,7 +278,11 @@ router.get('/', authenticateToken, async (req: any, res) => {
         description: event.description,
         startTime: event.startTime,
         endTime: event.endTime,
+        local: localizeTimes({ startTime: event.startTime, endTime: event.endTime }, timeZone),
         dkpReward: event.dkpReward,
+        status: resolveEventStatus(event, now).status,
+        type: event.type,
+        seriesId: event.seriesId,
         attendanceCount: event.attendances?.length || 0,
         isUpcoming: event.startTime > now,
         isPast: event.endTime < now,
@@ -205,7 +308,7 @@ router.get('/', authenticateToken, async (req: any, res) => {
  * /api/event/{id}:
  *   get:
  *     summary: Get event by ID
- *     description: Retrieve a specific event with attendance details
+ *     description: Retrieve a specific event with attendance details, signups and the roster fill status per role
  *     tags: [Events]
  *     security:
  *       - BearerAuth: []
@@ -229,6 +332,17 @@ router.get('/', authenticateToken, async (req: any, res) => {
  *                     - $ref: '#/components/schemas/Event'
  *                     - type: object
  *                       properties:
+ *                         signupOpen:
+ *                           type: boolean
+ *                         attendanceEditable:
+ *                           type: boolean
+ *                           description: Whether attendance can still be recorded or removed
+ *                         roster:
+ *                           $ref: '#/components/schemas/EventRoster'
+ *                         signups:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/EventSignup'
  *                         attendances:
  *                           type: array
  *                           items:
@@ -248,12 +362,15 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'Invalid event ID' });
     }
 
-    const event = await database.getEventById(eventId);
-    if (!event) {
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event || (event.status === 'DRAFT' && !isOfficer)) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
     const now = new Date();
+    const lifecycle = resolveEventStatus(event, now);
+    const signupCutoff = getSignupCutoff(event);
 
     res.json({
       event: {
@@ -262,10 +379,31 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
         description: event.description,
         startTime: event.startTime,
         endTime: event.endTime,
+        local: localizeTimes(
+          { startTime: event.startTime, endTime: event.endTime, signupCutoff },
+          resolveTimeZone(req.user, req.guild)
+        ),
         dkpReward: event.dkpReward,
         isUpcoming: event.startTime > now,
         isPast: event.endTime < now,
         isOngoing: event.startTime <= now && event.endTime >= now,
+        status: lifecycle.status,
+        type: event.type,
+        completedAt: lifecycle.completedAt,
+        cancelledAt: event.cancelledAt,
+        reopenedAt: event.reopenedAt,
+        seriesId: event.seriesId,
+        overriddenFields: JSON.parse(event.overriddenFields),
+        attendanceEditable: !checkAttendanceEditable(event, req.guild, now),
+        signupCutoff,
+        signupOpen: isSignupOpen(event, now),
+        finalizedAt: event.finalizedAt,
+        checkInCodeRequired: !!event.checkInCode,
+        ...(isOfficer && { checkInCode: event.checkInCode }),
+        composition: formatComposition(event.composition),
+        reminders: event.reminders.map(formatReminder),
+        roster: buildRoster(event.composition, event.signups),
+        signups: event.signups.map(formatSignup),
         attendances: event.attendances?.map((attendance: any) => ({
           character: {
             id: attendance.character.id,
@@ -276,7 +414,10 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
               username: attendance.character.user.username,
               discordId: attendance.character.user.discordId
             }
-          }
+          },
+          status: attendance.status,
+          dkpAwarded: attendance.dkpAwarded,
+          pending: attendance.pending
         })) || [],
         attendanceCount: event.attendances?.length || 0
       }
@@ -291,8 +432,8 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  * @swagger
  * /api/event:
  *   post:
- *     summary: Create event with recurrence
- *     description: Create a single event or recurring weekly events
+ *     summary: Create event with recurrence (Officer/Admin only)
+ *     description: Create a single event or a recurring event series
  *     tags: [Events]
  *     security:
  *       - BearerAuth: []
@@ -320,6 +461,10 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *                 type: string
  *                 format: date-time
  *                 example: "2025-10-15T20:00:00Z"
+ *                 description: |
+ *                   Times without an offset, e.g. 2025-10-15T20:00, are local times in your time zone, or the
+ *                   guild's when you have not set one. Recurring events follow the guild's time zone, so they keep
+ *                   their local time across daylight saving changes.
  *               endTime:
  *                 type: string
  *                 format: date-time
@@ -329,13 +474,53 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *                 minimum: 0
  *                 default: 0
  *                 example: 50
+ *               signupCutoff:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: When signups close (defaults to SIGNUP_CUTOFF_MINUTES before the start)
+ *                 example: "2025-10-15T18:00:00Z"
+ *               composition:
+ *                 $ref: '#/components/schemas/EventComposition'
+ *               reminders:
+ *                 type: array
+ *                 maxItems: 5
+ *                 description: |
+ *                   Reminder rules, copied to every occurrence of a recurring event. Without them the event gets one
+ *                   WEBHOOK reminder WEBHOOK_REMINDER_MINUTES (default 60) before the start; send [] for none.
+ *                 items:
+ *                   $ref: '#/components/schemas/EventReminderInput'
+ *               status:
+ *                 type: string
+ *                 enum: [DRAFT, SCHEDULED]
+ *                 default: SCHEDULED
+ *                 description: Drafts are hidden from members and not announced until they are scheduled
+ *               type:
+ *                 type: string
+ *                 enum: [RAID, DUNGEON, PVP, SOCIAL, OTHER]
+ *                 default: OTHER
  *               recurrence:
  *                 type: object
  *                 nullable: true
+ *                 description: |
+ *                   Makes the event the first occurrence of a series. Give an iCalendar RRULE (DAILY, WEEKLY with
+ *                   one or more BYDAY weekdays, MONTHLY by day of the month or BYDAY such as 2TU or -1FR, with
+ *                   INTERVAL and COUNT or UNTIL), or the older weekly form. Occurrences are created
+ *                   EVENT_SERIES_HORIZON_DAYS (default 60) ahead of time.
  *                 properties:
+ *                   rrule:
+ *                     type: string
+ *                     example: "FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20260301T000000Z"
+ *                   exdates:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                       format: date-time
+ *                     description: Occurrence start times to leave out
  *                   type:
  *                     type: string
  *                     enum: [weekly]
+ *                     description: Older weekly form, used instead of rrule
  *                   interval:
  *                     type: integer
  *                     minimum: 1
@@ -364,15 +549,20 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *                   type: string
  *                 event:
  *                   $ref: '#/components/schemas/Event'
+ *                 series:
+ *                   type: object
+ *                   description: The series, when recurrence is used
  *                 events:
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Event'
- *                   description: "Array of events when recurrence is used"
+ *                   description: "Occurrences created so far when recurrence is used"
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  */
-router.post('/', authenticateToken, async (req: any, res) => {
+router.post('/', authenticateToken, requireOfficerOrAdmin, auditEvent(), async (req: any, res) => {
   try {
     const {
       title,
@@ -380,6 +570,11 @@ router.post('/', authenticateToken, async (req: any, res) => {
       startTime,
       endTime,
       dkpReward = 0,
+      signupCutoff,
+      composition,
+      reminders,
+      status = 'SCHEDULED',
+      type = 'OTHER',
       recurrence // Optional: { type: 'weekly', interval: 1, dayOfWeek: 0, occurrences: 4 }
     } = req.body;
 
@@ -392,8 +587,10 @@ router.post('/', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'Start time and end time are required' });
     }
 
-    const start = new Date(startTime);
-    const end = new Date(endTime);
+    // Times without an offset are the author's local times
+    const timeZone = resolveTimeZone(req.user, req.guild);
+    const start = parseDateTime(startTime, timeZone);
+    const end = parseDateTime(endTime, timeZone);
 
     if (isNaN(start.getTime()) || isNaN(end.getTime())) {
       return res.status(400).json({ error: 'Invalid date format' });
@@ -416,63 +613,133 @@ router.post('/', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'DKP reward cannot be negative' });
     }
 
+    let cutoff: Date | null = null;
+    if (signupCutoff !== undefined && signupCutoff !== null) {
+      cutoff = parseDateTime(signupCutoff, timeZone);
+      if (isNaN(cutoff.getTime())) {
+        return res.status(400).json({ error: 'Invalid signup cutoff format' });
+      }
+      if (cutoff > end) {
+        return res.status(400).json({ error: 'Signup cutoff must be before the event ends' });
+      }
+    }
+
+    const parsedComposition = composition !== undefined ? parseComposition(composition) : { composition: [] };
+    if (parsedComposition.error) {
+      return res.status(400).json({ error: parsedComposition.error });
+    }
+
+    const parsedReminders = reminders !== undefined ? parseReminderRules(reminders) : { reminders: DEFAULT_EVENT_REMINDERS };
+    if (parsedReminders.error) {
+      return res.status(400).json({ error: parsedReminders.error });
+    }
+
+    if (status !== 'DRAFT' && status !== 'SCHEDULED') {
+      return res.status(400).json({ error: 'New events must be DRAFT or SCHEDULED' });
+    }
+
+    if (!EVENT_TYPES.includes(type)) {
+      return res.status(400).json({ error: `Type must be one of: ${EVENT_TYPES.join(', ')}` });
+    }
+
     const eventData = {
+      guildId: req.guild.id,
       title: title.trim(),
       description: description?.trim() || null,
       startTime: start,
       endTime: end,
-      dkpReward: dkp
+      dkpReward: dkp,
+      signupCutoff: cutoff,
+      status: status as 'DRAFT' | 'SCHEDULED',
+      type: type as typeof EVENT_TYPES[number],
+      composition: parsedComposition.composition ?? [],
+      reminders: parsedReminders.reminders ?? [],
+      createdById: req.user.id
     };
 
-    // Handle recurrence
-    if (recurrence && recurrence.type === 'weekly') {
-      // Validate recurrence parameters
-      if (!recurrence.occurrences || recurrence.occurrences < 1 || recurrence.occurrences > 52) {
-        return res.status(400).json({ error: 'Occurrences must be between 1 and 52' });
+    // Recurring events become a series whose occurrences are created ahead of time by the event-series job
+    if (recurrence && (recurrence.type === 'weekly' || recurrence.rrule !== undefined)) {
+      let rrule = recurrence.rrule;
+      if (recurrence.type === 'weekly') {
+        // Validate recurrence parameters
+        if (!recurrence.occurrences || recurrence.occurrences < 1 || recurrence.occurrences > 52) {
+          return res.status(400).json({ error: 'Occurrences must be between 1 and 52' });
+        }
+
+        if (recurrence.interval < 1 || recurrence.interval > 4) {
+          return res.status(400).json({ error: 'Interval must be between 1 and 4 weeks' });
+        }
+
+        if (!Number.isInteger(recurrence.dayOfWeek) || recurrence.dayOfWeek < 0 || recurrence.dayOfWeek > 6) {
+          return res.status(400).json({ error: 'Day of week must be between 0 (Sunday) and 6 (Saturday)' });
+        }
+
+        rrule = legacyRecurrenceRule(recurrence);
+      }
+
+      const parsedRule = parseRRule(rrule);
+      if (parsedRule.error) {
+        return res.status(400).json({ error: parsedRule.error });
       }
 
-      if (recurrence.interval < 1 || recurrence.interval > 4) {
-        return res.status(400).json({ error: 'Interval must be between 1 and 4 weeks' });
+      // The series follows the guild's zone, so raids keep their local time when clocks change
+      const seriesTimeZone = req.guild.timeZone;
+      const parsedExdates = recurrence.exdates !== undefined
+        ? parseExdates(recurrence.exdates, seriesTimeZone)
+        : { exdates: [] };
+      if (parsedExdates.error) {
+        return res.status(400).json({ error: parsedExdates.error });
       }
 
-      if (recurrence.dayOfWeek < 0 || recurrence.dayOfWeek > 6) {
-        return res.status(400).json({ error: 'Day of week must be between 0 (Sunday) and 6 (Saturday)' });
+      if (eventData.status === 'DRAFT') {
+        return res.status(400).json({ error: 'Recurring events cannot be created as drafts' });
       }
 
-      // Generate recurring events
-      const recurringEvents = generateRecurringEvents(eventData, {
-        type: 'weekly',
-        interval: recurrence.interval || 1,
-        dayOfWeek: recurrence.dayOfWeek,
-        occurrences: recurrence.occurrences
+      const { series, events } = await createSeries(req.guild.id, req.user.id, {
+        title: eventData.title,
+        description: eventData.description,
+        rrule: formatRRule(parsedRule.rule!),
+        startTime: start,
+        timeZone: seriesTimeZone,
+        durationMinutes: Math.round((end.getTime() - start.getTime()) / (60 * 1000)),
+        dkpReward: dkp,
+        type: eventData.type,
+        signupCutoffMinutes: cutoff ? Math.round((start.getTime() - cutoff.getTime()) / (60 * 1000)) : null,
+        composition: eventData.composition,
+        reminders: eventData.reminders,
+        exdates: parsedExdates.exdates!
       });
 
-      // Create all recurring events
-      const createdEvents = [];
-      for (const eventToCreate of recurringEvents) {
-        const event = await database.createEvent(eventToCreate);
-        createdEvents.push(event);
+      if (events.length > 0) {
+        notify(req.guild.id, 'EVENT_CREATED', eventCreatedEmbed(events[0]!, events.length));
       }
 
       res.status(201).json({
-        message: `${createdEvents.length} recurring events created successfully`,
-        recurrence: {
-          type: 'weekly',
-          interval: recurrence.interval,
-          dayOfWeek: recurrence.dayOfWeek,
-          occurrences: recurrence.occurrences
+        message: `Recurring event created with ${events.length} upcoming occurrences`,
+        series: {
+          id: series.id,
+          rrule: series.rrule,
+          startTime: series.startTime,
+          timeZone: series.timeZone,
+          endsAt: series.endsAt
         },
-        events: createdEvents.map((event: any) => ({
+        events: events.map((event) => ({
           id: event.id,
           title: event.title,
           startTime: event.startTime,
           endTime: event.endTime,
-          dkpReward: event.dkpReward
+          local: localizeTimes({ startTime: event.startTime, endTime: event.endTime }, timeZone),
+          dkpReward: event.dkpReward,
+          status: event.status,
+          type: event.type
         }))
       });
     } else {
       // Create single event
       const event = await database.createEvent(eventData);
+      if (eventData.status !== 'DRAFT') {
+        notify(req.guild.id, 'EVENT_CREATED', eventCreatedEmbed(event));
+      }
 
       res.status(201).json({
         message: 'Event created successfully',
@@ -482,7 +749,16 @@ router.post('/', authenticateToken, async (req: any, res) => {
           description: event.description,
           startTime: event.startTime,
           endTime: event.endTime,
-          dkpReward: event.dkpReward
+          local: localizeTimes(
+            { startTime: event.startTime, endTime: event.endTime, signupCutoff: getSignupCutoff(event) },
+            timeZone
+          ),
+          dkpReward: event.dkpReward,
+          status: eventData.status,
+          type: event.type,
+          signupCutoff: getSignupCutoff(event),
+          composition: formatComposition(eventData.composition),
+          reminders: eventData.reminders
         }
       });
     }
@@ -496,8 +772,11 @@ router.post('/', authenticateToken, async (req: any, res) => {
  * @swagger
  * /api/event/{id}:
  *   put:
- *     summary: Update event
- *     description: Update an existing event
+ *     summary: Update event (Officer/Admin only)
+ *     description: |
+ *       Update an existing event. Moving the start time moves its reminders; reminders already sent go out again.
+ *       Changing dkpReward after attendance was recorded brings each attendee's award to what their status earns under the new
+ *       reward (late and bench get the default share), in the same transaction as the change, and records a DKP reconciliation.
  *     tags: [Events]
  *     security:
  *       - BearerAuth: []
@@ -508,6 +787,29 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *         schema:
  *           type: integer
  *         description: Event ID
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Validate and return the DKP adjustments the change would make without changing anything
+ *       - in: query
+ *         name: reconcileDkp
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Set to false to leave awarded DKP as it is; the skipped adjustments are still recorded
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [this, following, series]
+ *           default: this
+ *         description: |
+ *           For occurrences of a series: change only this event, this and the following occurrences (the series is
+ *           split here), or the whole series. Series edits apply to occurrences that have not started; moving the
+ *           start moves them all by the same amount, and changing rrule, start or duration recreates them, dropping
+ *           their signups. Fields changed on an occurrence with scope=this are kept when the series is edited in
+ *           place. dryRun and DKP reconciliation only apply to scope=this.
  *     requestBody:
  *       content:
  *         application/json:
@@ -530,16 +832,31 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *               dkpReward:
  *                 type: integer
  *                 minimum: 0
+ *               signupCutoff:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: When signups close; null falls back to the default cutoff
+ *               composition:
+ *                 $ref: '#/components/schemas/EventComposition'
+ *               type:
+ *                 type: string
+ *                 enum: [RAID, DUNGEON, PVP, SOCIAL, OTHER]
+ *               rrule:
+ *                 type: string
+ *                 description: New recurrence rule, with scope following or series
  *     responses:
  *       200:
  *         description: Event updated successfully
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *   delete:
- *     summary: Delete event
- *     description: Delete an event and all associated attendances
+ *     summary: Delete event (Officer/Admin only)
+ *     description: Delete an event and all associated attendances. Its pending reminders are cancelled and the DKP its attendance awarded is taken back, in the same transaction, as a DKP reconciliation.
  *     tags: [Events]
  *     security:
  *       - BearerAuth: []
@@ -550,6 +867,26 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *         schema:
  *           type: integer
  *         description: Event ID
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Validate and return the DKP adjustments the change would make without changing anything
+ *       - in: query
+ *         name: reconcileDkp
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Set to false to leave awarded DKP as it is; the skipped adjustments are still recorded
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [this, following, series]
+ *           default: this
+ *         description: |
+ *           For occurrences of a series: delete only this event (it is not created again), end the series before
+ *           this occurrence, or delete the whole series. Occurrences that started or have attendance are kept.
  *     responses:
  *       200:
  *         description: Event deleted successfully
@@ -564,26 +901,45 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *                   type: object
  *                 removedAttendances:
  *                   type: integer
+ *                 dkpReconciliation:
+ *                   nullable: true
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/DkpReconciliation'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.put('/:id', authenticateToken, async (req: any, res) => {
+router.put('/:id', authenticateToken, requireOfficerOrAdmin, auditEvent(), async (req: any, res) => {
   try {
     const eventId = parseInt(req.params.id);
     if (isNaN(eventId)) {
       return res.status(400).json({ error: 'Invalid event ID' });
     }
 
-    const { title, description, startTime, endTime, dkpReward } = req.body;
+    const { title, description, startTime, endTime, dkpReward, signupCutoff, composition, type, rrule } = req.body;
+    const scope = req.query.scope ?? 'this';
+
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: `Scope must be one of: ${EDIT_SCOPES.join(', ')}` });
+    }
 
     // Check if event exists
-    const existingEvent = await database.getEventById(eventId);
+    const existingEvent = await database.getEventById(eventId, req.guild.id);
     if (!existingEvent) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
+    const series = scope !== 'this' && existingEvent.seriesId
+      ? await database.getEventSeriesById(existingEvent.seriesId, req.guild.id)
+      : null;
+    if (scope !== 'this' && !series) {
+      return res.status(400).json({ error: 'Event is not part of a series' });
+    }
+
     // Validation
     const updateData: any = {};
+    const timeZone = resolveTimeZone(req.user, req.guild);
 
     if (title !== undefined) {
       if (!title || title.trim().length === 0) {
@@ -603,7 +959,7 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
     }
 
     if (startTime !== undefined) {
-      const start = new Date(startTime);
+      const start = parseDateTime(startTime, timeZone);
       if (isNaN(start.getTime())) {
         return res.status(400).json({ error: 'Invalid start time format' });
       }
@@ -611,7 +967,7 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
     }
 
     if (endTime !== undefined) {
-      const end = new Date(endTime);
+      const end = parseDateTime(endTime, timeZone);
       if (isNaN(end.getTime())) {
         return res.status(400).json({ error: 'Invalid end time format' });
       }
@@ -634,7 +990,121 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
       updateData.dkpReward = dkp;
     }
 
-    const updatedEvent = await database.updateEvent(eventId, updateData);
+    if (signupCutoff !== undefined) {
+      if (signupCutoff === null) {
+        updateData.signupCutoff = null;
+      } else {
+        const cutoff = parseDateTime(signupCutoff, timeZone);
+        if (isNaN(cutoff.getTime())) {
+          return res.status(400).json({ error: 'Invalid signup cutoff format' });
+        }
+        if (cutoff > finalEndTime) {
+          return res.status(400).json({ error: 'Signup cutoff must be before the event ends' });
+        }
+        updateData.signupCutoff = cutoff;
+      }
+    }
+
+    if (type !== undefined) {
+      if (!EVENT_TYPES.includes(type)) {
+        return res.status(400).json({ error: `Type must be one of: ${EVENT_TYPES.join(', ')}` });
+      }
+      updateData.type = type;
+    }
+
+    const parsedComposition = composition !== undefined ? parseComposition(composition) : {};
+    if (parsedComposition.error) {
+      return res.status(400).json({ error: parsedComposition.error });
+    }
+
+    // The rest of the series changes from its first occurrence, or from this one on, instead of just this event
+    if (series) {
+      const now = new Date();
+      if (scope === 'following' && existingEvent.startTime <= now) {
+        return res.status(409).json({ error: 'Event has already started; edit the next occurrence and the ones after it instead' });
+      }
+      if (req.query.dryRun === 'true') {
+        return res.status(400).json({ error: 'dryRun is only supported for scope=this' });
+      }
+
+      const changes: SeriesChanges = {};
+      if (updateData.title !== undefined) changes.title = updateData.title;
+      if (updateData.description !== undefined) changes.description = updateData.description;
+      if (updateData.dkpReward !== undefined) changes.dkpReward = updateData.dkpReward;
+      if (updateData.type !== undefined) changes.type = updateData.type;
+      if (parsedComposition.composition) changes.composition = parsedComposition.composition;
+      if (updateData.signupCutoff !== undefined) {
+        changes.signupCutoffMinutes = updateData.signupCutoff
+          ? Math.round((finalStartTime.getTime() - updateData.signupCutoff.getTime()) / (60 * 1000))
+          : null;
+      }
+
+      let rule = parseRRule(series.rrule).rule!;
+      if (rrule !== undefined) {
+        const parsedRule = parseRRule(rrule);
+        if (parsedRule.error) {
+          return res.status(400).json({ error: parsedRule.error });
+        }
+        rule = parsedRule.rule!;
+        changes.rrule = formatRRule(rule);
+      }
+
+      // Moving this occurrence moves every occurrence in scope by the same amount
+      if (updateData.startTime || updateData.endTime) {
+        const from = scope === 'series' ? series.startTime : existingEvent.recurrenceId!;
+        const to = new Date(from.getTime() + finalStartTime.getTime() - existingEvent.startTime.getTime());
+        changes.startTime = to;
+        changes.durationMinutes = Math.round((finalEndTime.getTime() - finalStartTime.getTime()) / (60 * 1000));
+        if (rrule === undefined) {
+          changes.rrule = formatRRule(shiftRule(rule, from, to, series.timeZone));
+        }
+      }
+
+      const result = scope === 'series'
+        ? await editSeries(series, changes, now)
+        : await editFollowing(series, existingEvent, req.user.id, changes, now);
+
+      return res.json({
+        message: 'Event series updated successfully',
+        scope,
+        series: {
+          id: result.series.id,
+          rrule: result.series.rrule,
+          startTime: result.series.startTime,
+          timeZone: result.series.timeZone,
+          endsAt: result.series.endsAt
+        },
+        occurrences: result.occurrences
+      });
+    }
+
+    // Attendance already awarded under the old reward is brought in line with the new one
+    const rewardChanged = updateData.dkpReward !== undefined && updateData.dkpReward !== existingEvent.dkpReward;
+    const adjustments = rewardChanged
+      ? planRewardChange(existingEvent.attendances, updateData.dkpReward)
+      : [];
+
+    if (req.query.dryRun === 'true') {
+      return res.json({
+        message: 'Dry run: nothing was changed',
+        dkpReconciliation: rewardChanged
+          ? { previousReward: existingEvent.dkpReward, newReward: updateData.dkpReward, ...summarizeAdjustments(adjustments) }
+          : null
+      });
+    }
+
+    // An occurrence keeps what was edited on it alone when the whole series is edited later
+    updateData.overriddenFields = occurrenceOverrides(
+      existingEvent,
+      editedOccurrenceFields(existingEvent, updateData, parsedComposition.composition)
+    );
+
+    const { event: updatedEvent, reconciliation: dkpReconciliation } = rewardChanged
+      ? await updateEventWithDkp(eventId, updateData, parsedComposition.composition, {
+        apply: req.query.reconcileDkp !== 'false',
+        actorId: req.user.id
+      })
+      : { event: await database.updateEvent(eventId, updateData, parsedComposition.composition), reconciliation: null };
 
     res.json({
       message: 'Event updated successfully',
@@ -644,8 +1114,16 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
         description: updatedEvent.description,
         startTime: updatedEvent.startTime,
         endTime: updatedEvent.endTime,
-        dkpReward: updatedEvent.dkpReward
-      }
+        local: localizeTimes(
+          { startTime: updatedEvent.startTime, endTime: updatedEvent.endTime, signupCutoff: getSignupCutoff(updatedEvent) },
+          timeZone
+        ),
+        dkpReward: updatedEvent.dkpReward,
+        type: updatedEvent.type,
+        signupCutoff: getSignupCutoff(updatedEvent),
+        composition: formatComposition(updatedEvent.composition)
+      },
+      dkpReconciliation
     });
   } catch (error) {
     console.error('Update event error:', error);
@@ -654,27 +1132,78 @@ router.put('/:id', authenticateToken, async (req: any, res) => {
 });
 
 // DELETE /api/event/:id - Delete an event
-router.delete('/:id', authenticateToken, async (req: any, res) => {
+router.delete('/:id', authenticateToken, requireOfficerOrAdmin, auditEvent(), async (req: any, res) => {
   try {
     const eventId = parseInt(req.params.id);
     if (isNaN(eventId)) {
       return res.status(400).json({ error: 'Invalid event ID' });
     }
 
+    const scope = req.query.scope ?? 'this';
+    if (!EDIT_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: `Scope must be one of: ${EDIT_SCOPES.join(', ')}` });
+    }
+
     // Check if event exists
-    const existingEvent = await database.getEventById(eventId);
+    const existingEvent = await database.getEventById(eventId, req.guild.id);
     if (!existingEvent) {
       return res.status(404).json({ error: 'Event not found' });
     }
 
+    const series = existingEvent.seriesId
+      ? await database.getEventSeriesById(existingEvent.seriesId, req.guild.id)
+      : null;
+    if (scope !== 'this' && !series) {
+      return res.status(400).json({ error: 'Event is not part of a series' });
+    }
+
+    // Ending the series removes its upcoming occurrences; ones that started or have attendance stay as they are
+    if (series && scope !== 'this') {
+      const now = new Date();
+      const from = scope === 'following' ? existingEvent.recurrenceId! : undefined;
+
+      if (req.query.dryRun === 'true') {
+        const upcoming = await database.getUpcomingSeriesEvents(series.id, now, from);
+        return res.json({
+          message: 'Dry run: nothing was changed',
+          scope,
+          removedOccurrences: upcoming.map((event) => ({ id: event.id, title: event.title, startTime: event.startTime }))
+        });
+      }
+
+      const removed = scope === 'following'
+        ? await deleteFollowing(series, existingEvent, now)
+        : await database.deleteEventSeries(series.id, now);
+
+      return res.json({
+        message: scope === 'following' ? 'Event series ended before this occurrence' : 'Event series deleted successfully',
+        scope,
+        removedOccurrences: removed
+      });
+    }
+
     // Check if event has attendances
     const attendanceCount = existingEvent.attendances?.length || 0;
-    
-    const deleted = await database.deleteEvent(eventId);
-    if (!deleted) {
-      return res.status(500).json({ error: 'Failed to delete event' });
+
+    if (req.query.dryRun === 'true') {
+      return res.json({
+        message: 'Dry run: nothing was changed',
+        removedAttendances: attendanceCount,
+        dkpReconciliation: { previousReward: existingEvent.dkpReward, newReward: null, ...summarizeAdjustments(planDeletion(existingEvent.attendances)) }
+      });
+    }
+
+    // A removed occurrence must not come back when the series is materialized again
+    if (series) {
+      await excludeOccurrence(series, existingEvent);
     }
 
+    // The event and the DKP its attendance awarded go in one transaction
+    const dkpReconciliation = await reconcileEventDkp(eventId, { reason: 'EVENT_DELETED' }, {
+      apply: req.query.reconcileDkp !== 'false',
+      actorId: req.user.id
+    });
+
     res.json({
       message: 'Event deleted successfully',
       deletedEvent: {
@@ -683,7 +1212,8 @@ router.delete('/:id', authenticateToken, async (req: any, res) => {
         startTime: existingEvent.startTime,
         endTime: existingEvent.endTime
       },
-      removedAttendances: attendanceCount
+      removedAttendances: attendanceCount,
+      dkpReconciliation
     });
   } catch (error) {
     console.error('Delete event error:', error);
@@ -691,69 +1221,1052 @@ router.delete('/:id', authenticateToken, async (req: any, res) => {
   }
 });
 
-// GET /api/event/upcoming - Get upcoming events (next 7 days)
-router.get('/upcoming/list', authenticateToken, async (req: any, res) => {
+/**
+ * @swagger
+ * /api/event/{id}/status:
+ *   put:
+ *     summary: Change event status (Officer/Admin only)
+ *     description: |
+ *       Moves the event through its lifecycle. Drafts are scheduled (and announced) or cancelled;
+ *       scheduled events can go back to draft before they start, be started early or be cancelled;
+ *       events in progress are completed or cancelled. Scheduled events start and running events
+ *       complete on their own at their start and end times. Completed and cancelled events can only
+ *       change again through a reopen. Events with recorded attendance cannot be cancelled.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [DRAFT, SCHEDULED, IN_PROGRESS, COMPLETED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The event cannot move to that status from its current one
+ */
+router.put('/:id/status', authenticateToken, requireOfficerOrAdmin, auditEvent('EVENT_STATUS'), async (req: any, res) => {
   try {
-    const { days = 7, limit = 10 } = req.query;
-    
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const { status } = req.body ?? {};
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
     const now = new Date();
-    const futureDate = new Date();
-    futureDate.setDate(now.getDate() + parseInt(days));
+    const violation = checkTransition(event, status, now);
+    if (violation) {
+      return res.status(violation.status).json({ error: violation.error });
+    }
 
-    const events = await database.getEvents({
-      where: {
-        startTime: {
-          gte: now,
-          lte: futureDate
-        }
-      },
-      orderBy: {
-        startTime: 'asc'
-      },
-      take: parseInt(limit)
+    // Cancelled events do not count anywhere, so the DKP they awarded would be left without an event
+    if (status === 'CANCELLED' && event.attendances.length > 0) {
+      return res.status(409).json({
+        error: 'Event has recorded attendance; remove it first, or delete the event to take back its DKP'
+      });
+    }
+
+    const updated = await database.transitionEvent(event.id, event.status, {
+      status,
+      completedAt: status === 'COMPLETED' ? now : null,
+      cancelledAt: status === 'CANCELLED' ? now : null
     });
+    if (!updated) {
+      return res.status(409).json({ error: 'Event status changed in the meantime; reload and try again' });
+    }
+
+    if (event.status === 'DRAFT' && status === 'SCHEDULED') {
+      notify(req.guild.id, 'EVENT_CREATED', eventCreatedEmbed(updated));
+    }
 
     res.json({
-      upcomingEvents: events.map((event: any) => ({
-        id: event.id,
-        title: event.title,
-        description: event.description,
-        startTime: event.startTime,
-        endTime: event.endTime,
-        dkpReward: event.dkpReward,
-        attendanceCount: event.attendances?.length || 0,
-        timeUntilStart: Math.floor((event.startTime.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)) // days
-      })),
-      totalEvents: events.length,
-      queryDays: parseInt(days)
+      message: `Event is now ${status}`,
+      event: {
+        id: updated.id,
+        title: updated.title,
+        status: updated.status,
+        completedAt: updated.completedAt,
+        cancelledAt: updated.cancelledAt
+      }
     });
   } catch (error) {
-    console.error('Get upcoming events error:', error);
-    res.status(500).json({ error: 'Failed to fetch upcoming events' });
+    console.error('Change event status error:', error);
+    res.status(500).json({ error: 'Failed to change event status' });
   }
 });
 
-// GET /api/event/stats - Get event statistics
-router.get('/stats/summary', authenticateToken, async (req: any, res) => {
+/**
+ * @swagger
+ * /api/event/{id}/reopen:
+ *   post:
+ *     summary: Reopen a completed or cancelled event (Officer/Admin only)
+ *     description: |
+ *       Completed events go back to IN_PROGRESS so their attendance can be corrected; an event reopened
+ *       after its end time stays in progress until it is completed again. Cancelled events go back to
+ *       SCHEDULED. Who reopened the event and when is kept on the event and in the audit log.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Event reopened
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The event is not completed or cancelled
+ */
+router.post('/:id/reopen', authenticateToken, requireOfficerOrAdmin, auditEvent('EVENT_REOPEN'), async (req: any, res) => {
   try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
     const now = new Date();
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(now.getDate() - 30);
-    
+    const plan = planReopen(event, now);
+    if (plan.error !== undefined) {
+      return res.status(409).json({ error: plan.error });
+    }
+
+    const updated = await database.transitionEvent(event.id, event.status, {
+      status: plan.status!,
+      completedAt: null,
+      cancelledAt: null,
+      reopenedAt: now,
+      reopenedById: req.user.id
+    });
+    if (!updated) {
+      return res.status(409).json({ error: 'Event status changed in the meantime; reload and try again' });
+    }
+
+    res.json({
+      message: 'Event reopened successfully',
+      event: {
+        id: updated.id,
+        title: updated.title,
+        status: resolveEventStatus(updated, now).status,
+        reopenedAt: updated.reopenedAt,
+        reopenedById: updated.reopenedById
+      }
+    });
+  } catch (error) {
+    console.error('Reopen event error:', error);
+    res.status(500).json({ error: 'Failed to reopen event' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/reminders:
+ *   get:
+ *     summary: List event reminders
+ *     description: Reminder rules for the event with how many member deliveries each has per status. Drafts are only visible to officers.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reminder rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reminders:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventReminder'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   put:
+ *     summary: Replace event reminders (Officer/Admin only)
+ *     description: |
+ *       Replaces the reminder rules of the event. A rule whose minutesBefore is unchanged keeps its schedule,
+ *       so members are not reminded twice. Rules whose time has already passed are stored as SKIPPED.
+ *       Reminders follow the event when its start time changes and are removed with it.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reminders]
+ *             properties:
+ *               reminders:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   $ref: '#/components/schemas/EventReminderInput'
+ *     responses:
+ *       200:
+ *         description: Reminders updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/reminders', authenticateToken, async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    // Drafts are hidden from members
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event || (event.status === 'DRAFT' && !isOfficer)) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const counts = await database.getEventReminderDeliveryCounts(eventId);
+
+    res.json({
+      reminders: event.reminders.map((reminder) => ({
+        ...formatReminder(reminder),
+        deliveries: Object.fromEntries(counts
+          .filter((count) => count.reminderId === reminder.id)
+          .map((count) => [count.status, count._count._all]))
+      }))
+    });
+  } catch (error) {
+    console.error('Get event reminders error:', error);
+    res.status(500).json({ error: 'Failed to fetch event reminders' });
+  }
+});
+
+router.put('/:id/reminders', authenticateToken, requireOfficerOrAdmin, auditEvent('EVENT_REMINDERS'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const parsed = parseReminderRules(req.body?.reminders);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    if (event.startTime <= new Date()) {
+      return res.status(400).json({ error: 'Event has already started' });
+    }
+
+    const overriddenFields = occurrenceOverrides(event, ['reminders']);
+    if (overriddenFields) {
+      await database.updateEvent(eventId, { overriddenFields });
+    }
+
+    const reminders = await database.setEventReminders(eventId, event.startTime, parsed.reminders!);
+
+    res.json({
+      message: 'Event reminders updated successfully',
+      event: {
+        id: event.id,
+        title: event.title,
+        startTime: event.startTime
+      },
+      reminders: reminders.map(formatReminder)
+    });
+  } catch (error) {
+    console.error('Update event reminders error:', error);
+    res.status(500).json({ error: 'Failed to update event reminders' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/signups:
+ *   get:
+ *     summary: List event signups
+ *     description: Retrieve all signups for an event together with the roster fill status per role. Drafts are only visible to officers.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Signups and roster for the event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 signups:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventSignup'
+ *                 roster:
+ *                   $ref: '#/components/schemas/EventRoster'
+ *                 signupCutoff:
+ *                   type: string
+ *                   format: date-time
+ *                 signupOpen:
+ *                   type: boolean
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/signups', authenticateToken, async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    // Drafts are hidden from members
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event || (event.status === 'DRAFT' && !isOfficer)) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    res.json({
+      signups: event.signups.map(formatSignup),
+      roster: buildRoster(event.composition, event.signups),
+      signupCutoff: getSignupCutoff(event),
+      signupOpen: isSignupOpen(event)
+    });
+  } catch (error) {
+    console.error('Get event signups error:', error);
+    res.status(500).json({ error: 'Failed to fetch event signups' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/signups:
+ *   post:
+ *     summary: Sign up for an event
+ *     description: RSVP with one of your characters. Signing up again with the same character updates the signup and clears any officer confirmation. Closed after the signup cutoff.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - characterId
+ *               - status
+ *             properties:
+ *               characterId:
+ *                 type: integer
+ *                 example: 1
+ *               status:
+ *                 type: string
+ *                 enum: [ACCEPTED, TENTATIVE, DECLINED, BENCH]
+ *                 example: ACCEPTED
+ *               role:
+ *                 type: string
+ *                 enum: [TANK, HEALER, DPS]
+ *                 description: Role to fill for this event (defaults to the character's role)
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Might be 10 minutes late"
+ *     responses:
+ *       200:
+ *         description: Signup saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 signup:
+ *                   $ref: '#/components/schemas/EventSignup'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Signups are closed or another of your characters is already signed up
+ */
+router.post('/:id/signups', authenticateToken, auditSignup('EVENT_SIGNUP'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    const { characterId, status, role, note } = req.body;
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    if (!characterId || !status) {
+      return res.status(400).json({ error: 'characterId and status are required' });
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const character = await database.getCharacterById(parseInt(characterId), req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const { updated, violation } = await submitSignup(event, character, { userId: req.user.id, isOfficer }, { status, role, note });
+    if (violation) {
+      const { status: httpStatus, ...body } = violation;
+      return res.status(httpStatus).json(body);
+    }
+
+    const signup = (await database.getEventById(eventId, req.guild.id))!.signups
+      .find((entry) => entry.characterId === character.id);
+
+    res.json({
+      message: updated ? 'Signup updated successfully' : 'Signed up successfully',
+      signup: formatSignup(signup)
+    });
+  } catch (error) {
+    console.error('Event signup error:', error);
+    res.status(500).json({ error: 'Failed to sign up for event' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/signups/{characterId}:
+ *   delete:
+ *     summary: Withdraw an event signup
+ *     description: Remove a signup. Members can withdraw their own characters until the signup cutoff; officers and admins can remove any signup.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Signup withdrawn
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Signups are closed
+ */
+router.delete('/:id/signups/:characterId', authenticateToken, auditSignup('EVENT_SIGNUP_WITHDRAW'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    const characterId = parseInt(req.params.characterId);
+
+    if (isNaN(eventId) || isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid event or character ID' });
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterId, req.guild.id)
+      : await database.getCharacterById(characterId, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    if (!isOfficer && !isSignupOpen(event)) {
+      return res.status(409).json({
+        error: 'Signups for this event are closed',
+        signupCutoff: getSignupCutoff(event)
+      });
+    }
+
+    const deleted = await database.deleteEventSignup(eventId, characterId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Signup not found' });
+    }
+
+    res.json({
+      message: 'Signup withdrawn successfully',
+      eventId,
+      characterId
+    });
+  } catch (error) {
+    console.error('Withdraw event signup error:', error);
+    res.status(500).json({ error: 'Failed to withdraw signup' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/signups/{characterId}:
+ *   put:
+ *     summary: Review an event signup (Officer/Admin only)
+ *     description: Confirm a signup or move it between accepted and bench
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ACCEPTED, TENTATIVE, DECLINED, BENCH]
+ *                 example: BENCH
+ *               confirmed:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Signup reviewed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 signup:
+ *                   $ref: '#/components/schemas/EventSignup'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:id/signups/:characterId', authenticateToken, requireOfficerOrAdmin, auditSignup('EVENT_SIGNUP_REVIEW'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    const characterId = parseInt(req.params.characterId);
+    const { status, confirmed } = req.body;
+
+    if (isNaN(eventId) || isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid event or character ID' });
+    }
+
+    if (status === undefined && confirmed === undefined) {
+      return res.status(400).json({ error: 'Provide a status and/or confirmed flag' });
+    }
+
+    if (status !== undefined && !SIGNUP_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status. Valid statuses: ${SIGNUP_STATUSES.join(', ')}` });
+    }
+
+    if (confirmed !== undefined && typeof confirmed !== 'boolean') {
+      return res.status(400).json({ error: 'confirmed must be a boolean' });
+    }
+
+    const existingSignup = await database.getEventSignup(eventId, characterId);
+    if (!existingSignup) {
+      return res.status(404).json({ error: 'Signup not found' });
+    }
+
+    await database.reviewEventSignup(eventId, characterId, {
+      ...(status !== undefined && { status }),
+      ...(confirmed !== undefined && { confirmed }),
+      reviewedById: req.user.id
+    });
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    const signup = event!.signups.find((entry) => entry.characterId === characterId);
+
+    res.json({
+      message: 'Signup reviewed successfully',
+      signup: formatSignup(signup),
+      roster: buildRoster(event!.composition, event!.signups)
+    });
+  } catch (error) {
+    console.error('Review event signup error:', error);
+    res.status(500).json({ error: 'Failed to review signup' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/check-in-code:
+ *   post:
+ *     summary: Issue a check-in code (Officer/Admin only)
+ *     description: Sets the code members must provide to check themselves in. A random code is generated when none is given.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 minLength: 4
+ *                 maxLength: 32
+ *                 example: "RAID42"
+ *     responses:
+ *       200:
+ *         description: Check-in code issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 checkInCode:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Remove the check-in code (Officer/Admin only)
+ *     description: Members can check in during the event window without a code again
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Check-in code removed
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/check-in-code', authenticateToken, requireOfficerOrAdmin, auditEvent('EVENT_CHECK_IN_CODE'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const { code } = req.body ?? {};
+    if (code !== undefined && (typeof code !== 'string' || !/^[A-Za-z0-9]{4,32}$/.test(code.trim()))) {
+      return res.status(400).json({ error: 'Code must be 4-32 letters or digits' });
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const checkInCode = code !== undefined ? code.trim().toUpperCase() : generateCheckInCode();
+    await database.updateEvent(eventId, { checkInCode });
+
+    res.json({
+      message: 'Check-in code issued successfully',
+      event: {
+        id: event.id,
+        title: event.title
+      },
+      checkInCode
+    });
+  } catch (error) {
+    console.error('Issue check-in code error:', error);
+    res.status(500).json({ error: 'Failed to issue check-in code' });
+  }
+});
+
+router.delete('/:id/check-in-code', authenticateToken, requireOfficerOrAdmin, auditEvent('EVENT_CHECK_IN_CODE'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    await database.updateEvent(eventId, { checkInCode: null });
+
+    res.json({
+      message: 'Check-in code removed successfully',
+      event: {
+        id: event.id,
+        title: event.title
+      }
+    });
+  } catch (error) {
+    console.error('Remove check-in code error:', error);
+    res.status(500).json({ error: 'Failed to remove check-in code' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event/{id}/finalize:
+ *   post:
+ *     summary: Finalize an event (Officer/Admin only)
+ *     description: |
+ *       Turns confirmed signups into attendance and awards DKP in a single transaction.
+ *       Confirmed accepted signups get the full reward, late arrivals and confirmed bench signups
+ *       get a partial award, no-shows get nothing. An event can only be finalized once.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               noShows:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Character IDs that signed up but did not show
+ *                 example: [7]
+ *               late:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Character IDs that arrived late
+ *                 example: [3, 12]
+ *               lateAwardPercent:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 50
+ *               benchAwardPercent:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 50
+ *     responses:
+ *       200:
+ *         description: Event finalized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 awarded:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       characterId:
+ *                         type: integer
+ *                       name:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [PRESENT, LATE, BENCH]
+ *                       dkpAwarded:
+ *                         type: integer
+ *                 noShows:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 unconfirmed:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 skipped:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     present:
+ *                       type: integer
+ *                     late:
+ *                       type: integer
+ *                     bench:
+ *                       type: integer
+ *                     noShows:
+ *                       type: integer
+ *                     totalDkpAwarded:
+ *                       type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Event has not started yet, was already finalized, or its attendance is locked
+ */
+router.post('/:id/finalize', authenticateToken, requireOfficerOrAdmin, auditEvent('EVENT_FINALIZE'), async (req: any, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    const {
+      noShows = [],
+      late = [],
+      lateAwardPercent = DEFAULT_LATE_AWARD_PERCENT,
+      benchAwardPercent = DEFAULT_BENCH_AWARD_PERCENT
+    } = req.body ?? {};
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    if (!Array.isArray(noShows) || !Array.isArray(late)) {
+      return res.status(400).json({ error: 'noShows and late must be arrays of character IDs' });
+    }
+
+    const noShowIds = noShows.map((id: any) => parseInt(id));
+    const lateIds = late.map((id: any) => parseInt(id));
+    if ([...noShowIds, ...lateIds].some((id) => isNaN(id))) {
+      return res.status(400).json({ error: 'Invalid character ID in noShows or late' });
+    }
+
+    for (const [field, percent] of [['lateAwardPercent', lateAwardPercent], ['benchAwardPercent', benchAwardPercent]]) {
+      if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+        return res.status(400).json({ error: `${field} must be an integer between 0 and 100` });
+      }
+    }
+
+    const event = await database.getEventById(eventId, req.guild.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    if (event.finalizedAt) {
+      return res.status(409).json({ error: 'Event has already been finalized', finalizedAt: event.finalizedAt });
+    }
+
+    const locked = checkAttendanceEditable(event, req.guild);
+    if (locked) {
+      return res.status(locked.status).json({ error: locked.error });
+    }
+
+    const result = await database.finalizeEvent(eventId, req.user.id, (roster) => planEventFinalization(roster, {
+      noShows: noShowIds,
+      late: lateIds,
+      lateAwardPercent,
+      benchAwardPercent
+    }));
+    if (!result) {
+      return res.status(409).json({ error: 'Event has already been finalized' });
+    }
+
+    const { plan, event: finalized } = result;
+    if (plan.error !== undefined || !finalized) {
+      return res.status(400).json({ error: plan.error });
+    }
+
+    const count = (status: string) => plan.attendances.filter((attendance) => attendance.status === status).length;
+
+    res.json({
+      message: 'Event finalized successfully',
+      event: {
+        id: finalized.id,
+        title: finalized.title,
+        dkpReward: finalized.dkpReward,
+        finalizedAt: finalized.finalizedAt
+      },
+      awarded: plan.attendances.map(({ reason, ...attendance }) => attendance),
+      noShows: plan.noShows,
+      unconfirmed: plan.unconfirmed,
+      skipped: plan.skipped,
+      summary: {
+        present: count('PRESENT'),
+        late: count('LATE'),
+        bench: count('BENCH'),
+        noShows: plan.noShows.length,
+        totalDkpAwarded: plan.attendances.reduce((total, attendance) => total + attendance.dkpAwarded, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Finalize event error:', error);
+    res.status(500).json({ error: 'Failed to finalize event' });
+  }
+});
+
+// GET /api/event/upcoming - Get upcoming events (next 7 days)
+router.get('/upcoming/list', authenticateToken, async (req: any, res) => {
+  try {
+    const { days = 7, limit = 10 } = req.query;
+    const timeZone = resolveTimeZone(req.user, req.guild);
+    
+    const now = new Date();
+    const futureDate = new Date();
+    futureDate.setDate(now.getDate() + parseInt(days));
+
+    const events = await database.getEvents({
+      where: {
+        guildId: req.guild.id,
+        startTime: {
+          gte: now,
+          lte: futureDate
+        },
+        status: { notIn: ['DRAFT', 'CANCELLED'] }
+      },
+      orderBy: {
+        startTime: 'asc'
+      },
+      take: parseInt(limit)
+    });
+
+    res.json({
+      upcomingEvents: events.map((event: any) => ({
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        local: localizeTimes({ startTime: event.startTime, endTime: event.endTime }, timeZone),
+        dkpReward: event.dkpReward,
+        attendanceCount: event.attendances?.length || 0,
+        timeUntilStart: Math.floor((event.startTime.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)) // days
+      })),
+      totalEvents: events.length,
+      queryDays: parseInt(days)
+    });
+  } catch (error) {
+    console.error('Get upcoming events error:', error);
+    res.status(500).json({ error: 'Failed to fetch upcoming events' });
+  }
+});
+
+// GET /api/event/stats - Get event statistics
+router.get('/stats/summary', authenticateToken, async (req: any, res) => {
+  try {
+    const now = new Date();
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(now.getDate() - 30);
+    // Cancelled events did not happen and drafts have not been announced
+    const guildId = req.guild.id;
+    const status = { notIn: ['DRAFT', 'CANCELLED'] };
+
     const [
       totalEvents,
       upcomingEvents,
       pastEvents,
       recentEvents
     ] = await Promise.all([
-      database.getEventCount(),
+      database.getEventCount({ guildId, status }),
       database.getEventCount({
+        guildId,
+        status,
         startTime: { gte: now }
       }),
       database.getEventCount({
+        guildId,
+        status,
         endTime: { lt: now }
       }),
       database.getEventCount({
+        guildId,
+        status,
         startTime: { gte: thirtyDaysAgo }
       })
     ]);
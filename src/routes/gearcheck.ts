@@ -0,0 +1,694 @@
+import express from 'express';
+import { database } from '../db.js';
+import type { CharacterRole } from '../db.js';
+import { authenticateToken, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { CHARACTER_ROLES } from '../services/signup.js';
+import { getTargetState, isTargetOverdue, parseImageUrls, summarizeTargets } from '../services/gearcheck.js';
+import { linkUploadUrls } from '../services/uploads.js';
+
+const router = express.Router();
+
+const auditGearCheck = (action?: string) => auditLog('GEAR_CHECK', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => req.params.id ?? body?.gearCheck?.id,
+  snapshot: async (req: any, id: string) => {
+    const gearCheck = await database.getGearCheckById(parseInt(id), req.guild.id);
+    return gearCheck
+      ? { id: gearCheck.id, title: gearCheck.title, dueAt: gearCheck.dueAt, status: gearCheck.status, targets: gearCheck.targets.length }
+      : null;
+  }
+});
+
+const auditSubmission = (action: string) => auditLog('GEAR_SUBMISSION', {
+  action,
+  targetId: (req: any, body?: any) => req.params.submissionId ?? body?.submission?.id,
+  snapshot: (req: any, id: string) => database.getGearSubmission(parseInt(id), parseInt(req.params.id))
+});
+
+const formatSubmission = (submission: any) => ({
+  id: submission.id,
+  gearCheckId: submission.gearCheckId,
+  characterId: submission.characterId,
+  imageUrls: JSON.parse(submission.imageUrls),
+  skillBuild: submission.skillBuild,
+  status: submission.status,
+  feedback: submission.feedback,
+  ...(submission.submittedBy !== undefined && { submittedBy: submission.submittedBy }),
+  ...(submission.reviewedBy !== undefined && { reviewedBy: submission.reviewedBy }),
+  ...(submission.gearCheck !== undefined && { gearCheck: submission.gearCheck }),
+  reviewedAt: submission.reviewedAt,
+  createdAt: submission.createdAt
+});
+
+const formatLatestApproved = (submissions: any[]) => {
+  const approved = submissions.find((submission) => submission.status === 'APPROVED');
+  return approved ? formatSubmission(approved) : null;
+};
+
+/**
+ * @swagger
+ * /api/gear-check:
+ *   get:
+ *     summary: List gear checks
+ *     description: Officers see every gear check; members see the ones aimed at their characters
+ *     tags: [Gear Checks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, CLOSED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Gear checks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 gearChecks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/GearCheck'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ */
+router.get('/', authenticateToken, async (req: any, res) => {
+  try {
+    const { page = 1, limit = 20, status } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const filters: any = {
+      guildId: req.guild.id
+    };
+
+    if (status) {
+      if (!['OPEN', 'CLOSED'].includes(status)) {
+        return res.status(400).json({ error: 'Status must be OPEN or CLOSED' });
+      }
+      filters.status = status;
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    if (!isOfficer) {
+      filters.targets = { some: { character: { userId: req.user.id } } };
+    }
+
+    const [gearChecks, totalCount] = await Promise.all([
+      database.getGearChecks({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getGearCheckCount(filters)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+    const now = new Date();
+
+    res.json({
+      gearChecks: gearChecks.map((gearCheck: any) => ({
+        id: gearCheck.id,
+        title: gearCheck.title,
+        description: gearCheck.description,
+        dueAt: gearCheck.dueAt,
+        status: gearCheck.status,
+        createdBy: gearCheck.createdBy,
+        progress: summarizeTargets(gearCheck, now),
+        createdAt: gearCheck.createdAt,
+        closedAt: gearCheck.closedAt
+      })),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalGearChecks: totalCount,
+        gearChecksPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get gear checks error:', error);
+    res.status(500).json({ error: 'Failed to fetch gear checks' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gear-check:
+ *   post:
+ *     summary: Request gear and skill setups (Officers+)
+ *     description: Opens a gear check for the listed characters and/or every active character playing one of the roles
+ *     tags: [Gear Checks]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - dueAt
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: "Pre-raid gear check"
+ *               description:
+ *                 type: string
+ *                 example: "Screenshot of your gear page and your current skill build"
+ *               dueAt:
+ *                 type: string
+ *                 format: date-time
+ *               characterIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               roles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [TANK, HEALER, DPS]
+ *     responses:
+ *       201:
+ *         description: Gear check opened
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/', authenticateToken, requireOfficerOrAdmin, auditGearCheck(), async (req: any, res) => {
+  try {
+    const { title, description, dueAt, characterIds = [], roles = [] } = req.body;
+
+    if (!title || typeof title !== 'string' || !title.trim() || title.trim().length > 200) {
+      return res.status(400).json({ error: 'Title is required (max 200 characters)' });
+    }
+
+    if (description !== undefined && description !== null && (typeof description !== 'string' || description.length > 2000)) {
+      return res.status(400).json({ error: 'Description must be 2000 characters or less' });
+    }
+
+    const due = new Date(dueAt);
+    if (!dueAt || isNaN(due.getTime())) {
+      return res.status(400).json({ error: 'A valid due date is required' });
+    }
+
+    if (due <= new Date()) {
+      return res.status(400).json({ error: 'Due date must be in the future' });
+    }
+
+    if (!Array.isArray(characterIds) || characterIds.some((id: any) => isNaN(parseInt(id)))) {
+      return res.status(400).json({ error: 'Character IDs must be an array of integers' });
+    }
+
+    if (!Array.isArray(roles) || roles.some((role: any) => !CHARACTER_ROLES.includes(role))) {
+      return res.status(400).json({ error: `Roles must be an array of: ${CHARACTER_ROLES.join(', ')}` });
+    }
+
+    if (characterIds.length === 0 && roles.length === 0) {
+      return res.status(400).json({ error: 'Target at least one character or role' });
+    }
+
+    const requestedIds: number[] = characterIds.map((id: any) => parseInt(id));
+    const candidates = await database.getGearCheckCandidates(req.guild.id, requestedIds, roles as CharacterRole[]);
+
+    const missing = requestedIds.filter((id) => !candidates.some((character) => character.id === id));
+    if (missing.length > 0) {
+      return res.status(400).json({ error: `Characters ${[...new Set(missing)].join(', ')} not found or not active` });
+    }
+
+    if (candidates.length === 0) {
+      return res.status(400).json({ error: 'No active characters match the requested roles' });
+    }
+
+    const gearCheck = await database.createGearCheck(req.guild.id, {
+      title: title.trim(),
+      description: description?.trim() || null,
+      dueAt: due
+    }, candidates.map((character) => character.id), req.user.id);
+
+    res.status(201).json({
+      message: `Gear check opened for ${candidates.length} character(s)`,
+      gearCheck: {
+        id: gearCheck.id,
+        title: gearCheck.title,
+        description: gearCheck.description,
+        dueAt: gearCheck.dueAt,
+        status: gearCheck.status,
+        targets: candidates
+      }
+    });
+  } catch (error) {
+    console.error('Create gear check error:', error);
+    res.status(500).json({ error: 'Failed to create gear check' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gear-check/overdue:
+ *   get:
+ *     summary: Overdue gear checks (Officers+)
+ *     description: Characters on open gear checks past their due date with no approved or pending submission
+ *     tags: [Gear Checks]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Overdue characters retrieved successfully
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/overdue', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const now = new Date();
+    const gearChecks = await database.getPastDueGearChecks(req.guild.id, now);
+
+    const overdue = gearChecks.flatMap((gearCheck: any) =>
+      gearCheck.targets
+        .map((target: any) => ({ target, state: getTargetState(target.characterId, gearCheck.submissions) }))
+        .filter(({ state }: any) => isTargetOverdue(gearCheck.dueAt, state, now))
+        .map(({ target, state }: any) => ({
+          gearCheck: { id: gearCheck.id, title: gearCheck.title, dueAt: gearCheck.dueAt },
+          character: {
+            id: target.character.id,
+            name: target.character.name,
+            role: target.character.role
+          },
+          user: target.character.user,
+          state,
+          daysOverdue: Math.floor((now.getTime() - gearCheck.dueAt.getTime()) / (1000 * 60 * 60 * 24))
+        }))
+    );
+
+    res.json({
+      overdue,
+      totalOverdue: overdue.length
+    });
+  } catch (error) {
+    console.error('Get overdue gear checks error:', error);
+    res.status(500).json({ error: 'Failed to fetch overdue gear checks' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gear-check/character/{characterId}/submissions:
+ *   get:
+ *     summary: Gear submission history for a character
+ *     description: Every gear and skill setup the character has submitted, newest first (owner or officers)
+ *     tags: [Gear Checks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Submissions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 submissions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/GearSubmission'
+ *       404:
+ *         description: Character not found
+ */
+router.get('/character/:characterId/submissions', authenticateToken, async (req: any, res) => {
+  try {
+    const characterId = parseInt(req.params.characterId);
+    if (isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid character ID' });
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const character = isOfficer
+      ? await database.getCharacterByIdAdmin(characterId, req.guild.id)
+      : await database.getCharacterById(characterId, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const submissions = await database.getCharacterGearSubmissions(characterId);
+
+    res.json({
+      character: { id: character.id, name: character.name },
+      submissions: submissions.map(formatSubmission),
+      latestApproved: formatLatestApproved(submissions)
+    });
+  } catch (error) {
+    console.error('Get gear submissions error:', error);
+    res.status(500).json({ error: 'Failed to fetch gear submissions' });
+  }
+});
+
+// GET /api/gear-check/:id - Gear check with each target's state; members only see their own characters
+router.get('/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const gearCheckId = parseInt(req.params.id);
+    if (isNaN(gearCheckId)) {
+      return res.status(400).json({ error: 'Invalid gear check ID' });
+    }
+
+    const gearCheck = await database.getGearCheckById(gearCheckId, req.guild.id);
+    if (!gearCheck) {
+      return res.status(404).json({ error: 'Gear check not found' });
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const visibleTargets = isOfficer
+      ? gearCheck.targets
+      : gearCheck.targets.filter((target: any) => target.character.userId === req.user.id);
+
+    if (!isOfficer && visibleTargets.length === 0) {
+      return res.status(404).json({ error: 'Gear check not found' });
+    }
+
+    const now = new Date();
+
+    res.json({
+      gearCheck: {
+        id: gearCheck.id,
+        title: gearCheck.title,
+        description: gearCheck.description,
+        dueAt: gearCheck.dueAt,
+        status: gearCheck.status,
+        createdBy: gearCheck.createdBy,
+        progress: summarizeTargets(gearCheck, now),
+        createdAt: gearCheck.createdAt,
+        closedAt: gearCheck.closedAt
+      },
+      targets: visibleTargets.map((target: any) => {
+        const state = getTargetState(target.characterId, gearCheck.submissions);
+        const submissions = gearCheck.submissions.filter((submission: any) => submission.characterId === target.characterId);
+
+        return {
+          character: {
+            id: target.character.id,
+            name: target.character.name,
+            role: target.character.role
+          },
+          state,
+          overdue: gearCheck.status === 'OPEN' && isTargetOverdue(gearCheck.dueAt, state, now),
+          submissions: submissions.map(formatSubmission)
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Get gear check error:', error);
+    res.status(500).json({ error: 'Failed to fetch gear check' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gear-check/{id}/submissions:
+ *   post:
+ *     summary: Submit gear and skill setup
+ *     description: Answer a gear check for one of your characters. Allowed while there is no pending or approved submission; late submissions are accepted until the check is closed.
+ *     tags: [Gear Checks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - characterId
+ *               - imageUrls
+ *             properties:
+ *               characterId:
+ *                 type: integer
+ *               imageUrls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["https://cdn.example.com/gear.png"]
+ *               skillBuild:
+ *                 type: string
+ *                 example: "Bulwark tree: 3/3 Fortify, 2/2 Guard..."
+ *     responses:
+ *       201:
+ *         description: Submission recorded
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Gear check or character not found
+ *       409:
+ *         description: Gear check closed, or a submission is already pending or approved
+ */
+router.post('/:id/submissions', authenticateToken, auditSubmission('GEAR_SUBMISSION_CREATE'), async (req: any, res) => {
+  try {
+    const gearCheckId = parseInt(req.params.id);
+    if (isNaN(gearCheckId)) {
+      return res.status(400).json({ error: 'Invalid gear check ID' });
+    }
+
+    const { characterId, imageUrls, skillBuild } = req.body;
+    const characterIdNum = parseInt(characterId);
+    if (isNaN(characterIdNum)) {
+      return res.status(400).json({ error: 'Character ID is required' });
+    }
+
+    const parsedImages = parseImageUrls(imageUrls);
+    if (parsedImages.error) {
+      return res.status(400).json({ error: parsedImages.error });
+    }
+
+    if (skillBuild !== undefined && skillBuild !== null && (typeof skillBuild !== 'string' || skillBuild.length > 5000)) {
+      return res.status(400).json({ error: 'Skill build must be text of at most 5000 characters' });
+    }
+
+    const character = await database.getCharacterById(characterIdNum, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const gearCheck = await database.getGearCheckById(gearCheckId, req.guild.id);
+    if (!gearCheck || !gearCheck.targets.some((target: any) => target.characterId === characterIdNum)) {
+      return res.status(404).json({ error: 'Gear check not found for this character' });
+    }
+
+    if (gearCheck.status === 'CLOSED') {
+      return res.status(409).json({ error: 'This gear check is closed' });
+    }
+
+    const state = getTargetState(characterIdNum, gearCheck.submissions);
+    if (state === 'PENDING' || state === 'APPROVED') {
+      return res.status(409).json({ error: `A submission for ${character.name} is already ${state.toLowerCase()}` });
+    }
+
+    const submission = await database.createGearSubmission({
+      gearCheckId,
+      characterId: characterIdNum,
+      imageUrls: parsedImages.imageUrls ?? [],
+      skillBuild: skillBuild?.trim() || null,
+      submittedById: req.user.id
+    });
+    await linkUploadUrls(req.guild.id, parsedImages.imageUrls ?? [], { characterId: characterIdNum });
+
+    res.status(201).json({
+      message: 'Gear submission recorded',
+      submission: formatSubmission(submission),
+      late: new Date() > gearCheck.dueAt
+    });
+  } catch (error) {
+    console.error('Create gear submission error:', error);
+    res.status(500).json({ error: 'Failed to record gear submission' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/gear-check/{id}/submissions/{submissionId}/review:
+ *   put:
+ *     summary: Approve or reject a submission (Officers+)
+ *     tags: [Gear Checks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               feedback:
+ *                 type: string
+ *                 description: Required when rejecting
+ *     responses:
+ *       200:
+ *         description: Submission reviewed
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Submission not found
+ *       409:
+ *         description: Submission was already reviewed
+ */
+router.put('/:id/submissions/:submissionId/review', authenticateToken, requireOfficerOrAdmin, auditSubmission('GEAR_SUBMISSION_REVIEW'), async (req: any, res) => {
+  try {
+    const gearCheckId = parseInt(req.params.id);
+    const submissionId = parseInt(req.params.submissionId);
+    if (isNaN(gearCheckId) || isNaN(submissionId)) {
+      return res.status(400).json({ error: 'Invalid gear check or submission ID' });
+    }
+
+    const { status, feedback } = req.body;
+    if (!['APPROVED', 'REJECTED'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be APPROVED or REJECTED' });
+    }
+
+    if (feedback !== undefined && feedback !== null && (typeof feedback !== 'string' || feedback.length > 2000)) {
+      return res.status(400).json({ error: 'Feedback must be text of at most 2000 characters' });
+    }
+
+    if (status === 'REJECTED' && !feedback?.trim()) {
+      return res.status(400).json({ error: 'Feedback is required when rejecting a submission' });
+    }
+
+    const gearCheck = await database.getGearCheckById(gearCheckId, req.guild.id);
+    if (!gearCheck) {
+      return res.status(404).json({ error: 'Gear check not found' });
+    }
+
+    const submission = await database.getGearSubmission(submissionId, gearCheckId);
+    if (!submission) {
+      return res.status(404).json({ error: 'Submission not found' });
+    }
+
+    const reviewed = await database.reviewGearSubmission(submissionId, {
+      status,
+      feedback: feedback?.trim() || null,
+      reviewedById: req.user.id
+    });
+
+    if (!reviewed) {
+      return res.status(409).json({ error: `Submission was already ${submission.status.toLowerCase()}` });
+    }
+
+    res.json({
+      message: status === 'APPROVED' ? 'Submission approved' : 'Submission rejected; the member can resubmit',
+      submission: formatSubmission(reviewed)
+    });
+  } catch (error) {
+    console.error('Review gear submission error:', error);
+    res.status(500).json({ error: 'Failed to review gear submission' });
+  }
+});
+
+// POST /api/gear-check/:id/close - Stop accepting submissions (Officers+)
+router.post('/:id/close', authenticateToken, requireOfficerOrAdmin, auditGearCheck('GEAR_CHECK_CLOSE'), async (req: any, res) => {
+  try {
+    const gearCheckId = parseInt(req.params.id);
+    if (isNaN(gearCheckId)) {
+      return res.status(400).json({ error: 'Invalid gear check ID' });
+    }
+
+    const gearCheck = await database.getGearCheckById(gearCheckId, req.guild.id);
+    if (!gearCheck) {
+      return res.status(404).json({ error: 'Gear check not found' });
+    }
+
+    if (gearCheck.status === 'CLOSED') {
+      return res.status(409).json({ error: 'Gear check is already closed' });
+    }
+
+    const closed = await database.closeGearCheck(gearCheckId);
+
+    res.json({
+      message: 'Gear check closed',
+      gearCheck: {
+        id: closed.id,
+        status: closed.status,
+        closedAt: closed.closedAt,
+        progress: summarizeTargets(gearCheck)
+      }
+    });
+  } catch (error) {
+    console.error('Close gear check error:', error);
+    res.status(500).json({ error: 'Failed to close gear check' });
+  }
+});
+
+// DELETE /api/gear-check/:id - Delete a gear check nobody has answered yet (Officers+)
+router.delete('/:id', authenticateToken, requireOfficerOrAdmin, auditGearCheck(), async (req: any, res) => {
+  try {
+    const gearCheckId = parseInt(req.params.id);
+    if (isNaN(gearCheckId)) {
+      return res.status(400).json({ error: 'Invalid gear check ID' });
+    }
+
+    const gearCheck = await database.getGearCheckById(gearCheckId, req.guild.id);
+    if (!gearCheck) {
+      return res.status(404).json({ error: 'Gear check not found' });
+    }
+
+    // Submissions are the characters' gear history, so answered checks can only be closed
+    if (gearCheck.submissions.length > 0) {
+      return res.status(409).json({
+        error: 'Cannot delete a gear check with submissions. Close it instead',
+        submissionCount: gearCheck.submissions.length
+      });
+    }
+
+    await database.deleteGearCheck(gearCheckId);
+
+    res.json({ message: 'Gear check deleted successfully' });
+  } catch (error) {
+    console.error('Delete gear check error:', error);
+    res.status(500).json({ error: 'Failed to delete gear check' });
+  }
+});
+
+export default router;
@@ -0,0 +1,413 @@
+import express from 'express';
+import { database } from '../db.js';
+import { authenticateToken, requireAdmin, requireGuild } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { isValidTimeZone } from '../services/timezone.js';
+
+const router = express.Router();
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DISCORD_ID_PATTERN = /^\d{17,20}$/;
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+
+const auditGuild = (action?: string) => auditLog('GUILD', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => req.params.guildId ?? body?.guild?.id,
+  snapshot: (req: any, id: string) => database.getGuildById(parseInt(id))
+});
+
+const formatGuild = (guild: any, role?: string) => ({
+  id: guild.id,
+  name: guild.name,
+  slug: guild.slug,
+  discordGuildId: guild.discordGuildId,
+  timeZone: guild.timeZone,
+  attendanceGraceHours: guild.attendanceGraceHours,
+  attendanceApprovalRequired: guild.attendanceApprovalRequired,
+  ...(role && { role }),
+  ...(guild._count && {
+    memberCount: guild._count.members,
+    characterCount: guild._count.characters,
+    eventCount: guild._count.events
+  }),
+  createdAt: guild.createdAt,
+  updatedAt: guild.updatedAt
+});
+
+/**
+ * @swagger
+ * /api/guild:
+ *   get:
+ *     summary: Get my guilds
+ *     description: List the guilds the authenticated user belongs to, with their role in each
+ *     tags: [Guilds]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Guilds retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 guilds:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Guild'
+ *                 count:
+ *                   type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/', authenticateToken, async (req: any, res) => {
+  try {
+    const memberships = await database.getUserGuilds(req.user.id);
+
+    res.json({
+      guilds: memberships.map((membership) => ({
+        ...formatGuild(membership.guild, membership.role),
+        joinedAt: membership.joinedAt
+      })),
+      count: memberships.length
+    });
+  } catch (error) {
+    console.error('Get guilds error:', error);
+    res.status(500).json({ error: 'Failed to fetch guilds' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/guild:
+ *   post:
+ *     summary: Create a guild
+ *     description: Create a new guild. The creator becomes its first admin.
+ *     tags: [Guilds]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "Knights of the Round"
+ *               slug:
+ *                 type: string
+ *                 description: URL-friendly identifier; generated from the name when omitted
+ *                 example: "knights-of-the-round"
+ *               timeZone:
+ *                 type: string
+ *                 default: UTC
+ *                 example: Europe/Copenhagen
+ *     responses:
+ *       201:
+ *         description: Guild created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 guild:
+ *                   $ref: '#/components/schemas/Guild'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: Slug already taken or Discord server linked to another guild
+ */
+router.post('/', authenticateToken, auditGuild(), async (req: any, res) => {
+  try {
+    const { name, slug, timeZone } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Guild name is required' });
+    }
+
+    if (name.trim().length > 100) {
+      return res.status(400).json({ error: 'Guild name must be 100 characters or less' });
+    }
+
+    const guildSlug = slug !== undefined ? String(slug).trim().toLowerCase() : slugify(name.trim());
+    if (guildSlug.length < 2 || guildSlug.length > 50 || !SLUG_PATTERN.test(guildSlug)) {
+      return res.status(400).json({
+        error: 'Slug must be 2-50 lowercase letters, numbers or single dashes'
+      });
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: 'Time zone must be an IANA time zone such as Europe/Copenhagen' });
+    }
+
+    const existing = await database.getGuildBySlug(guildSlug);
+    if (existing) {
+      return res.status(409).json({ error: 'A guild with this slug already exists' });
+    }
+
+    const guild = await database.createGuild({
+      name: name.trim(),
+      slug: guildSlug,
+      ...(timeZone !== undefined && { timeZone })
+    }, req.user.id);
+
+    res.status(201).json({
+      message: 'Guild created successfully',
+      guild: formatGuild(guild, 'ADMIN')
+    });
+  } catch (error) {
+    console.error('Create guild error:', error);
+    res.status(500).json({ error: 'Failed to create guild' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/guild/{guildId}:
+ *   get:
+ *     summary: Get guild details
+ *     description: Retrieve a guild the user belongs to, with member counts and the user's role
+ *     tags: [Guilds]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: guildId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Guild retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 guild:
+ *                   $ref: '#/components/schemas/Guild'
+ *       403:
+ *         description: Not a member of this guild
+ */
+router.get('/:guildId', authenticateToken, requireGuild, async (req: any, res) => {
+  try {
+    const guild = await database.getGuildById(req.guild.id);
+    if (!guild) {
+      return res.status(404).json({ error: 'Guild not found' });
+    }
+
+    res.json({
+      guild: formatGuild(guild, req.user.role)
+    });
+  } catch (error) {
+    console.error('Get guild error:', error);
+    res.status(500).json({ error: 'Failed to fetch guild' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/guild/{guildId}:
+ *   put:
+ *     summary: Update guild (Guild admins only)
+ *     description: Rename a guild, change its slug, time zone or attendance settings, or link the Discord server whose slash commands act on it
+ *     tags: [Guilds]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: guildId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               slug:
+ *                 type: string
+ *               discordGuildId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Discord server ID; null unlinks the server
+ *               timeZone:
+ *                 type: string
+ *                 example: Europe/Copenhagen
+ *                 description: IANA zone for entered event times and recurring events
+ *               attendanceGraceHours:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 720
+ *                 description: Hours after an event completes during which attendance can still change
+ *               attendanceApprovalRequired:
+ *                 type: boolean
+ *                 description: Members' self check-ins wait for officer approval before DKP is awarded
+ *     responses:
+ *       200:
+ *         description: Guild updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Slug already taken or Discord server linked to another guild
+ */
+router.put('/:guildId', authenticateToken, requireGuild, requireAdmin, auditGuild(), async (req: any, res) => {
+  try {
+    const { name, slug, discordGuildId, timeZone, attendanceGraceHours, attendanceApprovalRequired } = req.body;
+    const updateData: {
+      name?: string;
+      slug?: string;
+      discordGuildId?: string | null;
+      timeZone?: string;
+      attendanceGraceHours?: number;
+      attendanceApprovalRequired?: boolean;
+    } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Guild name cannot be empty' });
+      }
+      if (name.trim().length > 100) {
+        return res.status(400).json({ error: 'Guild name must be 100 characters or less' });
+      }
+      updateData.name = name.trim();
+    }
+
+    if (slug !== undefined) {
+      const guildSlug = String(slug).trim().toLowerCase();
+      if (guildSlug.length < 2 || guildSlug.length > 50 || !SLUG_PATTERN.test(guildSlug)) {
+        return res.status(400).json({
+          error: 'Slug must be 2-50 lowercase letters, numbers or single dashes'
+        });
+      }
+
+      const existing = await database.getGuildBySlug(guildSlug);
+      if (existing && existing.id !== req.guild.id) {
+        return res.status(409).json({ error: 'A guild with this slug already exists' });
+      }
+      updateData.slug = guildSlug;
+    }
+
+    if (discordGuildId !== undefined) {
+      if (discordGuildId === null) {
+        updateData.discordGuildId = null;
+      } else {
+        const serverId = String(discordGuildId).trim();
+        if (!DISCORD_ID_PATTERN.test(serverId)) {
+          return res.status(400).json({ error: 'Discord server ID must be a numeric snowflake' });
+        }
+
+        const linked = await database.getGuildByDiscordId(serverId);
+        if (linked && linked.id !== req.guild.id) {
+          return res.status(409).json({ error: 'This Discord server is already linked to another guild' });
+        }
+        updateData.discordGuildId = serverId;
+      }
+    }
+
+    // Existing events keep their instants; the zone applies to times entered from now on and to new series
+    if (timeZone !== undefined) {
+      if (!isValidTimeZone(timeZone)) {
+        return res.status(400).json({ error: 'Time zone must be an IANA time zone such as Europe/Copenhagen' });
+      }
+      updateData.timeZone = timeZone;
+    }
+
+    if (attendanceGraceHours !== undefined) {
+      if (!Number.isInteger(attendanceGraceHours) || attendanceGraceHours < 0 || attendanceGraceHours > 720) {
+        return res.status(400).json({ error: 'attendanceGraceHours must be an integer between 0 and 720' });
+      }
+      updateData.attendanceGraceHours = attendanceGraceHours;
+    }
+
+    // Check-ins already pending stay pending for an officer to approve when this is turned off
+    if (attendanceApprovalRequired !== undefined) {
+      if (typeof attendanceApprovalRequired !== 'boolean') {
+        return res.status(400).json({ error: 'attendanceApprovalRequired must be a boolean' });
+      }
+      updateData.attendanceApprovalRequired = attendanceApprovalRequired;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: 'No valid fields provided for update' });
+    }
+
+    const guild = await database.updateGuild(req.guild.id, updateData);
+
+    res.json({
+      message: 'Guild updated successfully',
+      guild: formatGuild(guild, req.user.role)
+    });
+  } catch (error) {
+    console.error('Update guild error:', error);
+    res.status(500).json({ error: 'Failed to update guild' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/guild/{guildId}/membership:
+ *   delete:
+ *     summary: Leave guild
+ *     description: Leave a guild. The last admin cannot leave until another member is made admin.
+ *     tags: [Guilds]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: guildId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Left the guild
+ *       403:
+ *         description: Not a member of this guild
+ *       409:
+ *         description: The last admin cannot leave the guild
+ */
+router.delete('/:guildId/membership', authenticateToken, requireGuild, auditLog('GUILD', {
+  action: 'GUILD_LEAVE',
+  targetId: (req: any) => req.params.guildId
+}), async (req: any, res) => {
+  try {
+    if (req.user.role === 'ADMIN') {
+      const adminCount = await database.getGuildMemberCount({ guildId: req.guild.id, role: 'ADMIN' });
+      if (adminCount <= 1) {
+        return res.status(409).json({ error: 'The last admin cannot leave the guild. Promote another member first' });
+      }
+    }
+
+    await database.removeGuildMember(req.guild.id, req.user.id);
+
+    res.json({ message: `Left ${req.guild.name}` });
+  } catch (error) {
+    console.error('Leave guild error:', error);
+    res.status(500).json({ error: 'Failed to leave guild' });
+  }
+});
+
+export default router;
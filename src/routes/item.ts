@@ -1,9 +1,42 @@
 import express from 'express';
-import { database } from '../db.js';
+import { database, ITEM_SLOTS, ITEM_CATEGORIES, ITEM_RARITIES } from '../db.js';
 import { authenticateToken, requireAdmin, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { getWishlistPointCost } from '../services/wishlist.js';
+import { linkUploadUrls, removeUploads } from '../services/uploads.js';
 
 const router = express.Router();
 
+const ITEM_TAXONOMY = {
+  slot: ITEM_SLOTS,
+  category: ITEM_CATEGORIES,
+  rarity: ITEM_RARITIES
+} as const;
+
+// Validates slot/category/rarity from a request body; null clears the field
+const validateTaxonomy = (body: any) => {
+  for (const [field, values] of Object.entries(ITEM_TAXONOMY)) {
+    const value = body[field];
+    if (value !== undefined && value !== null && !(values as readonly string[]).includes(value)) {
+      return `${field.charAt(0).toUpperCase()}${field.slice(1)} must be one of ${values.join(', ')}`;
+    }
+  }
+  return null;
+};
+
+// Parses a comma separated taxonomy filter such as "RING,NECKLACE"
+const parseTaxonomyFilter = (field: keyof typeof ITEM_TAXONOMY, value: string) => {
+  const requested = String(value).toUpperCase().split(',').map((entry) => entry.trim()).filter(Boolean);
+  const invalid = requested.filter((entry) => !(ITEM_TAXONOMY[field] as readonly string[]).includes(entry));
+  return { requested, invalid };
+};
+
+const auditItem = (action?: string) => auditLog('ITEM', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => body?.item?.id ?? req.params.id,
+  snapshot: (req: any, id: string) => database.getItemById(parseInt(id), req.guild.id)
+});
+
 /**
  * @swagger
  * /api/item:
@@ -43,6 +76,21 @@ const router = express.Router();
  *           type: integer
  *         description: Maximum DKP cost filter
  *       - in: query
+ *         name: slot
+ *         schema:
+ *           type: string
+ *         description: Filter by item slot; comma separated for several (e.g. RING,NECKLACE)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Filter by item category; comma separated for several
+ *       - in: query
+ *         name: rarity
+ *         schema:
+ *           type: string
+ *         description: Filter by item rarity; comma separated for several (e.g. EPIC,LEGENDARY)
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -81,6 +129,9 @@ router.get('/', authenticateToken, async (req: any, res) => {
       search, 
       minDkp, 
       maxDkp,
+      slot,
+      category,
+      rarity,
       sortBy = 'name',
       sortOrder = 'asc'
     } = req.query;
@@ -90,7 +141,9 @@ router.get('/', authenticateToken, async (req: any, res) => {
     const offset = (pageNum - 1) * limitNum;
 
     // Build filter conditions
-    const filters: any = {};
+    const filters: any = {
+      guildId: req.guild.id
+    };
     
     if (search) {
       filters.name = {
@@ -105,6 +158,17 @@ router.get('/', authenticateToken, async (req: any, res) => {
       if (maxDkp) filters.minDkpCost.lte = parseInt(maxDkp);
     }
 
+    for (const [field, value] of Object.entries({ slot, category, rarity })) {
+      if (!value) continue;
+      const { requested, invalid } = parseTaxonomyFilter(field as keyof typeof ITEM_TAXONOMY, value as string);
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          error: `Invalid ${field}: ${invalid.join(', ')}. Valid values: ${ITEM_TAXONOMY[field as keyof typeof ITEM_TAXONOMY].join(', ')}`
+        });
+      }
+      filters[field] = { in: requested };
+    }
+
     // Build sort order
     const orderBy: any = {};
     if (['name', 'minDkpCost', 'id'].includes(sortBy)) {
@@ -174,6 +238,9 @@ router.get('/', authenticateToken, async (req: any, res) => {
  *                         wishesCount:
  *                           type: integer
  *                           description: Number of characters wanting this item
+ *                         effectiveWishlistPointCost:
+ *                           type: integer
+ *                           description: Wishlist points a new wish for this item costs (explicit cost or rarity default)
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  *       404:
@@ -188,7 +255,7 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
       return res.status(400).json({ error: 'Invalid item ID' });
     }
 
-    const item = await database.getItemById(itemId);
+    const item = await database.getItemById(itemId, req.guild.id);
     if (!item) {
       return res.status(404).json({ error: 'Item not found' });
     }
@@ -199,7 +266,8 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
     res.json({ 
       item: {
         ...item,
-        wishesCount
+        wishesCount,
+        effectiveWishlistPointCost: getWishlistPointCost(item)
       }
     });
   } catch (error) {
@@ -240,6 +308,27 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *                 minimum: 0
  *                 default: 1
  *                 example: 100
+ *               slot:
+ *                 type: string
+ *                 enum: [HEAD, SHOULDERS, CHEST, HANDS, LEGS, FEET, CLOAK, BELT, NECKLACE, BRACELET, RING, EARRING, MAIN_HAND, OFF_HAND, OTHER]
+ *                 nullable: true
+ *                 example: "MAIN_HAND"
+ *               category:
+ *                 type: string
+ *                 enum: [ARMOR, WEAPON, ACCESSORY, MATERIAL, CONSUMABLE, OTHER]
+ *                 nullable: true
+ *                 example: "WEAPON"
+ *               rarity:
+ *                 type: string
+ *                 enum: [COMMON, UNCOMMON, RARE, EPIC, LEGENDARY]
+ *                 nullable: true
+ *                 example: "LEGENDARY"
+ *               wishlistPointCost:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Wishlist points a wish costs; null uses the rarity default
+ *                 example: 5
  *     responses:
  *       201:
  *         description: Item created successfully
@@ -264,9 +353,9 @@ router.get('/:id', authenticateToken, async (req: any, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', authenticateToken, requireAdmin, async (req: any, res) => {
+router.post('/', authenticateToken, requireAdmin, auditItem(), async (req: any, res) => {
   try {
-    const { name, imageUrl, minDkpCost } = req.body;
+    const { name, imageUrl, minDkpCost, slot, category, rarity, wishlistPointCost, gpCost } = req.body;
 
     // Validation
     if (!name || name.trim().length === 0) {
@@ -288,19 +377,40 @@ router.post('/', authenticateToken, requireAdmin, async (req: any, res) => {
       return res.status(400).json({ error: 'Image URL must be 500 characters or less' });
     }
 
+    const taxonomyError = validateTaxonomy(req.body);
+    if (taxonomyError) {
+      return res.status(400).json({ error: taxonomyError });
+    }
+
+    if (wishlistPointCost !== undefined && wishlistPointCost !== null &&
+        (!Number.isInteger(wishlistPointCost) || wishlistPointCost < 0)) {
+      return res.status(400).json({ error: 'Wishlist point cost must be a non-negative integer or null' });
+    }
+
+    if (gpCost !== undefined && gpCost !== null && (!Number.isInteger(gpCost) || gpCost < 0)) {
+      return res.status(400).json({ error: 'GP cost must be a non-negative integer or null' });
+    }
+
     // Check if item name already exists
-    const existingItem = await database.getItemByName(name.trim());
+    const existingItem = await database.getItemByName(name.trim(), req.guild.id);
     if (existingItem) {
       return res.status(409).json({ error: 'An item with this name already exists' });
     }
 
     const itemData = {
+      guildId: req.guild.id,
       name: name.trim(),
       imageUrl: imageUrl?.trim() || null,
-      minDkpCost: minDkpCost ? parseInt(minDkpCost) : 1
+      minDkpCost: minDkpCost ? parseInt(minDkpCost) : 1,
+      slot: slot ?? null,
+      category: category ?? null,
+      rarity: rarity ?? null,
+      wishlistPointCost: wishlistPointCost ?? null,
+      gpCost: gpCost ?? null
     };
 
     const item = await database.createItem(itemData);
+    await linkUploadUrls(req.guild.id, [item.imageUrl], { itemId: item.id });
     
     res.status(201).json({
       message: 'Item created successfully',
@@ -349,6 +459,23 @@ router.post('/', authenticateToken, requireAdmin, async (req: any, res) => {
  *               minDkpCost:
  *                 type: integer
  *                 minimum: 0
+ *               slot:
+ *                 type: string
+ *                 enum: [HEAD, SHOULDERS, CHEST, HANDS, LEGS, FEET, CLOAK, BELT, NECKLACE, BRACELET, RING, EARRING, MAIN_HAND, OFF_HAND, OTHER]
+ *                 nullable: true
+ *               category:
+ *                 type: string
+ *                 enum: [ARMOR, WEAPON, ACCESSORY, MATERIAL, CONSUMABLE, OTHER]
+ *                 nullable: true
+ *               rarity:
+ *                 type: string
+ *                 enum: [COMMON, UNCOMMON, RARE, EPIC, LEGENDARY]
+ *                 nullable: true
+ *               wishlistPointCost:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Wishlist points a wish costs; null uses the rarity default. Existing wishes keep the cost they were made at.
  *     responses:
  *       200:
  *         description: Item updated successfully
@@ -370,14 +497,14 @@ router.post('/', authenticateToken, requireAdmin, async (req: any, res) => {
  *       409:
  *         description: Item name already exists
  */
-router.put('/:id', authenticateToken, requireAdmin, async (req: any, res) => {
+router.put('/:id', authenticateToken, requireAdmin, auditItem(), async (req: any, res) => {
   try {
     const itemId = parseInt(req.params.id);
     if (isNaN(itemId)) {
       return res.status(400).json({ error: 'Invalid item ID' });
     }
 
-    const { name, imageUrl, minDkpCost } = req.body;
+    const { name, imageUrl, minDkpCost, slot, category, rarity, wishlistPointCost, gpCost } = req.body;
 
     // Validation
     if (name !== undefined) {
@@ -400,15 +527,29 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: any, res) => {
       return res.status(400).json({ error: 'Image URL must be 500 characters or less' });
     }
 
+    const taxonomyError = validateTaxonomy(req.body);
+    if (taxonomyError) {
+      return res.status(400).json({ error: taxonomyError });
+    }
+
+    if (wishlistPointCost !== undefined && wishlistPointCost !== null &&
+        (!Number.isInteger(wishlistPointCost) || wishlistPointCost < 0)) {
+      return res.status(400).json({ error: 'Wishlist point cost must be a non-negative integer or null' });
+    }
+
+    if (gpCost !== undefined && gpCost !== null && (!Number.isInteger(gpCost) || gpCost < 0)) {
+      return res.status(400).json({ error: 'GP cost must be a non-negative integer or null' });
+    }
+
     // Check if item exists
-    const existingItem = await database.getItemById(itemId);
+    const existingItem = await database.getItemById(itemId, req.guild.id);
     if (!existingItem) {
       return res.status(404).json({ error: 'Item not found' });
     }
 
     // Check if new name conflicts with existing item (if name is being changed)
     if (name && name.trim() !== existingItem.name) {
-      const nameConflict = await database.getItemByName(name.trim());
+      const nameConflict = await database.getItemByName(name.trim(), req.guild.id);
       if (nameConflict) {
         return res.status(409).json({ error: 'An item with this name already exists' });
       }
@@ -418,8 +559,16 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: any, res) => {
     if (name !== undefined) updateData.name = name.trim();
     if (imageUrl !== undefined) updateData.imageUrl = imageUrl?.trim() || null;
     if (minDkpCost !== undefined) updateData.minDkpCost = parseInt(minDkpCost);
+    if (slot !== undefined) updateData.slot = slot;
+    if (category !== undefined) updateData.category = category;
+    if (rarity !== undefined) updateData.rarity = rarity;
+    if (wishlistPointCost !== undefined) updateData.wishlistPointCost = wishlistPointCost;
+    if (gpCost !== undefined) updateData.gpCost = gpCost;
 
     const item = await database.updateItem(itemId, updateData);
+    if (imageUrl !== undefined) {
+      await linkUploadUrls(req.guild.id, [updateData.imageUrl], { itemId });
+    }
 
     res.json({
       message: 'Item updated successfully',
@@ -479,7 +628,7 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: any, res) => {
  *                 details:
  *                   type: string
  */
-router.delete('/:id', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+router.delete('/:id', authenticateToken, requireOfficerOrAdmin, auditItem(), async (req: any, res) => {
   try {
     const itemId = parseInt(req.params.id);
     if (isNaN(itemId)) {
@@ -487,7 +636,7 @@ router.delete('/:id', authenticateToken, requireOfficerOrAdmin, async (req: any,
     }
 
     // Check if item exists
-    const existingItem = await database.getItemById(itemId);
+    const existingItem = await database.getItemById(itemId, req.guild.id);
     if (!existingItem) {
       return res.status(404).json({ error: 'Item not found' });
     }
@@ -501,11 +650,15 @@ router.delete('/:id', authenticateToken, requireOfficerOrAdmin, async (req: any,
       });
     }
 
+    const uploads = await database.getUploadsFor({ itemId });
+
     const deleted = await database.deleteItem(itemId);
     if (!deleted) {
       return res.status(404).json({ error: 'Item not found' });
     }
 
+    await removeUploads(uploads);
+
     res.json({ 
       message: 'Item deleted successfully',
       deletedItem: existingItem
@@ -551,7 +704,7 @@ router.delete('/:id', authenticateToken, requireOfficerOrAdmin, async (req: any,
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  */
-router.delete('/:id/force', authenticateToken, requireAdmin, async (req: any, res) => {
+router.delete('/:id/force', authenticateToken, requireAdmin, auditItem('ITEM_FORCE_DELETE'), async (req: any, res) => {
   try {
     const itemId = parseInt(req.params.id);
     if (isNaN(itemId)) {
@@ -559,7 +712,7 @@ router.delete('/:id/force', authenticateToken, requireAdmin, async (req: any, re
     }
 
     // Check if item exists
-    const existingItem = await database.getItemById(itemId);
+    const existingItem = await database.getItemById(itemId, req.guild.id);
     if (!existingItem) {
       return res.status(404).json({ error: 'Item not found' });
     }
@@ -567,12 +720,16 @@ router.delete('/:id/force', authenticateToken, requireAdmin, async (req: any, re
     // Get wishes count before deletion
     const wishesCount = await database.getItemWishesCount(itemId);
 
+    const uploads = await database.getUploadsFor({ itemId });
+
     // Force delete will cascade and remove wishes automatically due to foreign key constraints
     const deleted = await database.deleteItem(itemId);
     if (!deleted) {
       return res.status(404).json({ error: 'Item not found' });
     }
 
+    await removeUploads(uploads);
+
     res.json({ 
       message: 'Item and associated wishes deleted successfully',
       deletedItem: existingItem,
@@ -589,7 +746,7 @@ router.delete('/:id/force', authenticateToken, requireAdmin, async (req: any, re
  * /api/item/{id}/wish:
  *   get:
  *     summary: Get item wishers
- *     description: Get all characters who wish for this item
+ *     description: Get all characters who wish for this item, ordered by how high they rank it on their wishlist (then by DKP)
  *     tags: [Items]
  *     security:
  *       - BearerAuth: []
@@ -615,6 +772,12 @@ router.delete('/:id/force', authenticateToken, requireAdmin, async (req: any, re
  *                   items:
  *                     type: object
  *                     properties:
+ *                       rank:
+ *                         type: integer
+ *                         description: Position in this item's queue
+ *                       priority:
+ *                         type: integer
+ *                         description: Rank of this item on the character's wishlist (1 = most wanted)
  *                       character:
  *                         type: object
  *                         properties:
@@ -646,7 +809,7 @@ router.get('/:id/wish', authenticateToken, async (req: any, res) => {
     }
 
     // Check if item exists
-    const item = await database.getItemById(itemId);
+    const item = await database.getItemById(itemId, req.guild.id);
     if (!item) {
       return res.status(404).json({ error: 'Item not found' });
     }
@@ -655,7 +818,9 @@ router.get('/:id/wish', authenticateToken, async (req: any, res) => {
 
     res.json({
       item,
-      wishes: wishes.map((wish: any) => ({
+      wishes: wishes.map((wish: any, index: number) => ({
+        rank: index + 1,
+        priority: wish.priority,
         character: {
           id: wish.character.id,
           name: wish.character.name,
@@ -0,0 +1,257 @@
+import express from 'express';
+import { database } from '../db.js';
+import { auditLog } from '../middleware/audit.js';
+import { getRegisteredJob, getRegisteredJobNames, triggerJob } from '../services/scheduler.js';
+
+const router = express.Router();
+
+const parseJsonColumn = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const formatJob = (job: any) => ({
+  ...job,
+  lastResult: parseJsonColumn(job.lastResult),
+  registered: getRegisteredJobNames().includes(job.name),
+  running: job.lockedUntil !== null && job.lockedUntil > new Date()
+});
+
+const formatJobRun = (run: any) => ({
+  ...run,
+  result: parseJsonColumn(run.result)
+});
+
+const auditJob = (action: string) => auditLog('JOB', {
+  action,
+  targetId: (req: any) => req.params.name,
+  snapshot: async (req: any, name: string) => {
+    const job = await database.getJob(name);
+    return job ? { name: job.name, enabled: job.enabled, nextRunAt: job.nextRunAt } : null;
+  }
+});
+
+/**
+ * @swagger
+ * /api/jobs:
+ *   get:
+ *     summary: List background jobs (System admin only)
+ *     description: Every scheduled job with its next run time, lease and last result. Jobs are shared by all guilds.
+ *     tags: [Jobs]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Jobs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 jobs:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Job'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/', async (req: any, res) => {
+  try {
+    const jobs = await database.getJobs();
+    res.json({ jobs: jobs.map(formatJob) });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/jobs/{name}/runs:
+ *   get:
+ *     summary: Get a job's run history (System admin only)
+ *     tags: [Jobs]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Runs, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 runs:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/JobRun'
+ *                 pagination:
+ *                   type: object
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:name/runs', async (req: any, res) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+
+    const job = await database.getJob(req.params.name);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const [runs, totalRuns] = await Promise.all([
+      database.getJobRuns(job.name, { skip: (pageNum - 1) * limitNum, take: limitNum }),
+      database.getJobRunCount(job.name)
+    ]);
+    const totalPages = Math.ceil(totalRuns / limitNum);
+
+    res.json({
+      runs: runs.map(formatJobRun),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalRuns,
+        runsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get job runs error:', error);
+    res.status(500).json({ error: 'Failed to fetch job runs' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/jobs/{name}/run:
+ *   post:
+ *     summary: Run a job now (System admin only)
+ *     description: Runs the job on this server and waits for it to finish. Its next scheduled run is counted from this run.
+ *     tags: [Jobs]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Run finished (check its status)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 run:
+ *                   $ref: '#/components/schemas/JobRun'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Job is already running
+ */
+router.post('/:name/run', auditJob('JOB_TRIGGER'), async (req: any, res) => {
+  try {
+    const job = await database.getJob(req.params.name);
+    if (!job || !getRegisteredJob(job.name)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const run = await triggerJob(job.name, req.user.id);
+    if (!run) {
+      return res.status(409).json({ error: 'Job is already running' });
+    }
+
+    res.json({ run: formatJobRun(run) });
+  } catch (error) {
+    console.error('Trigger job error:', error);
+    res.status(500).json({ error: 'Failed to run job' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/jobs/{name}:
+ *   put:
+ *     summary: Enable or disable a job (System admin only)
+ *     description: Disabled jobs are skipped by the schedule but can still be run manually.
+ *     tags: [Jobs]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - enabled
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Job updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:name', auditJob('JOB_UPDATE'), async (req: any, res) => {
+  try {
+    const { enabled } = req.body ?? {};
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'Enabled must be a boolean' });
+    }
+
+    const job = await database.getJob(req.params.name);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const updated = await database.setJobEnabled(job.name, enabled);
+
+    res.json({
+      message: `Job ${enabled ? 'enabled' : 'disabled'} successfully`,
+      job: formatJob(updated)
+    });
+  } catch (error) {
+    console.error('Update job error:', error);
+    res.status(500).json({ error: 'Failed to update job' });
+  }
+});
+
+export default router;
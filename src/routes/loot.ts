@@ -0,0 +1,817 @@
+import express from 'express';
+import { database, ITEM_CATEGORIES } from '../db.js';
+import { authenticateToken, requireAdmin, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import {
+  DEFAULT_EPGP_SETTINGS,
+  LOOT_SYSTEMS,
+  getItemGpCost,
+  getLootSystemForItem,
+  getStandings
+} from '../services/lootsystem.js';
+import { lootAwardedEmbed, notify } from '../services/notifications.js';
+
+const router = express.Router();
+
+const formatLootAward = (award: any) => ({
+  id: award.id,
+  item: {
+    id: award.item.id,
+    name: award.item.name,
+    imageUrl: award.item.imageUrl
+  },
+  character: award.character,
+  event: award.event,
+  auctionId: award.auctionId,
+  lootSystem: award.lootSystem,
+  dkpCost: award.dkpCost,
+  gpCost: award.gpCost,
+  awardedBy: award.awardedBy,
+  note: award.note,
+  awardedAt: award.awardedAt
+});
+
+const buildPagination = (pageNum: number, limitNum: number, totalCount: number) => {
+  const totalPages = Math.ceil(totalCount / limitNum);
+  return {
+    currentPage: pageNum,
+    totalPages,
+    totalAwards: totalCount,
+    awardsPerPage: limitNum,
+    hasNextPage: pageNum < totalPages,
+    hasPrevPage: pageNum > 1
+  };
+};
+
+/**
+ * @swagger
+ * /api/loot:
+ *   get:
+ *     summary: Get loot history
+ *     description: Retrieve loot awards with filtering and pagination, newest first
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: characterId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: awardedById
+ *         schema:
+ *           type: integer
+ *         description: Filter by the officer who handed out the loot
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Loot history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 awards:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LootAward'
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     totalDkpSpent:
+ *                       type: integer
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *   post:
+ *     summary: Award loot (Officers+ only)
+ *     description: |
+ *       Record that a character received an item and remove the fulfilled wish. What it costs depends on the loot
+ *       system that applies to the item: DKP is charged to the ledger, EPGP adds GP, and suicide kings moves the
+ *       character to the bottom of the list.
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemId
+ *               - characterId
+ *             properties:
+ *               itemId:
+ *                 type: integer
+ *                 example: 5
+ *               characterId:
+ *                 type: integer
+ *                 example: 2
+ *               eventId:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 12
+ *               dkpCost:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: DKP paid for the item under DKP (defaults to the item's minimum DKP cost)
+ *               gpCost:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: GP charged under EPGP (defaults to the item's GP cost, then its minimum DKP cost)
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Free roll, nobody else needed it"
+ *     responses:
+ *       201:
+ *         description: Loot awarded successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/', authenticateToken, async (req: any, res) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      characterId,
+      itemId,
+      eventId,
+      awardedById,
+      startDate,
+      endDate
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    // Build filter conditions
+    const filters: any = {
+      item: { guildId: req.guild.id }
+    };
+
+    if (characterId && !isNaN(parseInt(characterId))) filters.characterId = parseInt(characterId);
+    if (itemId && !isNaN(parseInt(itemId))) filters.itemId = parseInt(itemId);
+    if (eventId && !isNaN(parseInt(eventId))) filters.eventId = parseInt(eventId);
+    if (awardedById && !isNaN(parseInt(awardedById))) filters.awardedById = parseInt(awardedById);
+
+    if (startDate || endDate) {
+      filters.awardedAt = {};
+      if (startDate) {
+        const start = new Date(startDate);
+        if (isNaN(start.getTime())) {
+          return res.status(400).json({ error: 'Invalid start date' });
+        }
+        filters.awardedAt.gte = start;
+      }
+      if (endDate) {
+        const end = new Date(endDate);
+        if (isNaN(end.getTime())) {
+          return res.status(400).json({ error: 'Invalid end date' });
+        }
+        filters.awardedAt.lte = end;
+      }
+    }
+
+    const [awards, totalCount, totalDkpSpent] = await Promise.all([
+      database.getLootAwards({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getLootAwardCount(filters),
+      database.sumLootAwardCost(filters)
+    ]);
+
+    res.json({
+      awards: awards.map(formatLootAward),
+      summary: {
+        totalDkpSpent
+      },
+      pagination: buildPagination(pageNum, limitNum, totalCount)
+    });
+  } catch (error) {
+    console.error('Get loot history error:', error);
+    res.status(500).json({ error: 'Failed to fetch loot history' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loot/character/{characterId}:
+ *   get:
+ *     summary: Get character loot history
+ *     description: Retrieve every item a character has received, newest first
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Character loot history retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/character/:characterId', authenticateToken, async (req: any, res) => {
+  try {
+    const characterId = parseInt(req.params.characterId);
+    if (isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid character ID' });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const character = await database.getCharacterByIdAdmin(characterId, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const filters = { characterId };
+    const [awards, totalCount, totalDkpSpent] = await Promise.all([
+      database.getLootAwards({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getLootAwardCount(filters),
+      database.sumLootAwardCost(filters)
+    ]);
+
+    res.json({
+      character: {
+        id: character.id,
+        name: character.name,
+        role: character.role,
+        dkp: character.dkp
+      },
+      awards: awards.map(formatLootAward),
+      summary: {
+        totalItems: totalCount,
+        totalDkpSpent
+      },
+      pagination: buildPagination(pageNum, limitNum, totalCount)
+    });
+  } catch (error) {
+    console.error('Get character loot error:', error);
+    res.status(500).json({ error: 'Failed to fetch character loot history' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loot/item/{itemId}:
+ *   get:
+ *     summary: Get item loot history
+ *     description: Retrieve every time an item has been handed out, newest first
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Item loot history retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/item/:itemId', authenticateToken, async (req: any, res) => {
+  try {
+    const itemId = parseInt(req.params.itemId);
+    if (isNaN(itemId)) {
+      return res.status(400).json({ error: 'Invalid item ID' });
+    }
+
+    const { page = 1, limit = 20 } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const item = await database.getItemById(itemId, req.guild.id);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const filters = { itemId };
+    const [awards, totalCount, totalDkpSpent] = await Promise.all([
+      database.getLootAwards({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getLootAwardCount(filters),
+      database.sumLootAwardCost(filters)
+    ]);
+
+    res.json({
+      item: {
+        id: item.id,
+        name: item.name,
+        imageUrl: item.imageUrl,
+        minDkpCost: item.minDkpCost
+      },
+      awards: awards.map(formatLootAward),
+      summary: {
+        timesAwarded: totalCount,
+        totalDkpSpent,
+        averageDkpCost: totalCount > 0 ? Math.round(totalDkpSpent / totalCount) : 0
+      },
+      pagination: buildPagination(pageNum, limitNum, totalCount)
+    });
+  } catch (error) {
+    console.error('Get item loot error:', error);
+    res.status(500).json({ error: 'Failed to fetch item loot history' });
+  }
+});
+
+// POST /api/loot - Award an item to a character (Officers+ only)
+router.post('/', authenticateToken, requireOfficerOrAdmin, auditLog('LOOT_AWARD', {
+  targetId: (req: any, body?: any) => body?.award?.id
+}), async (req: any, res) => {
+  try {
+    const { itemId, characterId, eventId, dkpCost, gpCost, note } = req.body;
+
+    const itemIdNum = parseInt(itemId);
+    const characterIdNum = parseInt(characterId);
+    if (isNaN(itemIdNum) || isNaN(characterIdNum)) {
+      return res.status(400).json({ error: 'Item ID and character ID are required' });
+    }
+
+    if (dkpCost !== undefined && (!Number.isInteger(dkpCost) || dkpCost < 0)) {
+      return res.status(400).json({ error: 'DKP cost must be a non-negative integer' });
+    }
+
+    if (gpCost !== undefined && (!Number.isInteger(gpCost) || gpCost < 0)) {
+      return res.status(400).json({ error: 'GP cost must be a non-negative integer' });
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+      return res.status(400).json({ error: 'Note must be a string of at most 500 characters' });
+    }
+
+    const [item, character] = await Promise.all([
+      database.getItemById(itemIdNum, req.guild.id),
+      database.getCharacterByIdAdmin(characterIdNum, req.guild.id)
+    ]);
+
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    let eventIdNum: number | null = null;
+    if (eventId !== undefined && eventId !== null) {
+      eventIdNum = parseInt(eventId);
+      if (isNaN(eventIdNum) || !(await database.getEventById(eventIdNum, req.guild.id))) {
+        return res.status(404).json({ error: 'Event not found' });
+      }
+    }
+
+    // Only DKP spends points; EPGP records GP and suicide kings reorders the list
+    const lootSystem = await getLootSystemForItem(req.guild.id, item);
+    const cost = lootSystem === 'DKP' ? dkpCost ?? item.minDkpCost : 0;
+
+    const { award, transaction, wishFulfilled, balance } = await database.awardLoot({
+      itemId: itemIdNum,
+      characterId: characterIdNum,
+      eventId: eventIdNum,
+      dkpCost: cost,
+      lootSystem,
+      gpCost: lootSystem === 'EPGP' ? gpCost ?? getItemGpCost(item) : 0,
+      awardedById: req.user.id,
+      note: note?.trim() || null
+    });
+    if (!award) {
+      return res.status(400).json({ error: `${character.name} only has ${balance} DKP` });
+    }
+
+    notify(req.guild.id, 'LOOT_AWARDED', lootAwardedEmbed({
+      itemName: item.name,
+      characterName: character.name,
+      lootSystem: award.lootSystem,
+      dkpCost: award.dkpCost,
+      gpCost: award.gpCost,
+      note: award.note
+    }));
+
+    res.status(201).json({
+      message: `${item.name} awarded to ${character.name}`,
+      award: {
+        id: award.id,
+        item: {
+          id: item.id,
+          name: item.name
+        },
+        character: {
+          id: character.id,
+          name: character.name,
+          dkp: transaction ? transaction.balanceAfter : character.dkp
+        },
+        eventId: award.eventId,
+        lootSystem: award.lootSystem,
+        dkpCost: award.dkpCost,
+        gpCost: award.gpCost,
+        note: award.note,
+        awardedAt: award.awardedAt
+      },
+      transaction,
+      wishFulfilled
+    });
+  } catch (error) {
+    console.error('Award loot error:', error);
+    res.status(500).json({ error: 'Failed to award loot' });
+  }
+});
+
+const formatLootSystems = (settings: any[]) => ({
+  defaultSystem: settings.find((setting) => setting.category === null)?.system ?? 'DKP',
+  categorySystems: Object.fromEntries(
+    settings.filter((setting) => setting.category !== null).map((setting) => [setting.category, setting.system])
+  )
+});
+
+const formatEpgpSettings = (settings: any) => ({
+  baseGp: settings?.baseGp ?? DEFAULT_EPGP_SETTINGS.baseGp,
+  decayPercent: settings?.decayPercent ?? DEFAULT_EPGP_SETTINGS.decayPercent,
+  minEp: settings?.minEp ?? DEFAULT_EPGP_SETTINGS.minEp
+});
+
+/**
+ * @swagger
+ * /api/loot/systems:
+ *   get:
+ *     summary: Get loot system configuration
+ *     description: The guild's default loot system, per-category overrides and EPGP settings. Guilds that configured nothing use DKP.
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Loot systems retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LootSystems'
+ *   put:
+ *     summary: Configure loot systems (Admin only)
+ *     description: |
+ *       Replace the loot system configuration. An item's category override wins over the guild default.
+ *       Switching systems keeps all history: DKP balances, EP/GP and the suicide kings list stay where they are.
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LootSystems'
+ *     responses:
+ *       200:
+ *         description: Loot systems updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/systems', authenticateToken, async (req: any, res) => {
+  try {
+    const [settings, epgp] = await Promise.all([
+      database.getLootSystemSettings(req.guild.id),
+      database.getEpgpSettings(req.guild.id)
+    ]);
+
+    res.json({
+      ...formatLootSystems(settings),
+      epgp: formatEpgpSettings(epgp)
+    });
+  } catch (error) {
+    console.error('Get loot systems error:', error);
+    res.status(500).json({ error: 'Failed to fetch loot systems' });
+  }
+});
+
+router.put('/systems', authenticateToken, requireAdmin, auditLog('LOOT_SYSTEMS', {
+  action: 'LOOT_SYSTEMS_UPDATE',
+  targetId: () => 'config',
+  snapshot: async (req: any) => ({
+    ...formatLootSystems(await database.getLootSystemSettings(req.guild.id)),
+    epgp: formatEpgpSettings(await database.getEpgpSettings(req.guild.id))
+  })
+}), async (req: any, res) => {
+  try {
+    const { defaultSystem = 'DKP', categorySystems = {}, epgp } = req.body ?? {};
+
+    if (!LOOT_SYSTEMS.includes(defaultSystem)) {
+      return res.status(400).json({ error: `Default system must be one of: ${LOOT_SYSTEMS.join(', ')}` });
+    }
+
+    if (typeof categorySystems !== 'object' || categorySystems === null || Array.isArray(categorySystems)) {
+      return res.status(400).json({ error: 'Category systems must be an object of category to loot system' });
+    }
+
+    for (const [category, system] of Object.entries(categorySystems)) {
+      if (!(ITEM_CATEGORIES as readonly string[]).includes(category)) {
+        return res.status(400).json({ error: `Unknown category ${category}. Valid categories: ${ITEM_CATEGORIES.join(', ')}` });
+      }
+      if (system !== null && !LOOT_SYSTEMS.includes(system as any)) {
+        return res.status(400).json({ error: `System for ${category} must be one of: ${LOOT_SYSTEMS.join(', ')}, or null` });
+      }
+    }
+
+    const epgpSettings: { baseGp?: number; decayPercent?: number; minEp?: number } = {};
+    if (epgp !== undefined) {
+      if (typeof epgp !== 'object' || epgp === null) {
+        return res.status(400).json({ error: 'EPGP settings must be an object' });
+      }
+      if (epgp.baseGp !== undefined) {
+        if (!Number.isInteger(epgp.baseGp) || epgp.baseGp < 1) {
+          return res.status(400).json({ error: 'Base GP must be a positive integer' });
+        }
+        epgpSettings.baseGp = epgp.baseGp;
+      }
+      if (epgp.decayPercent !== undefined) {
+        if (typeof epgp.decayPercent !== 'number' || epgp.decayPercent < 0 || epgp.decayPercent >= 100) {
+          return res.status(400).json({ error: 'EPGP decay must be a percentage from 0 up to (not including) 100' });
+        }
+        epgpSettings.decayPercent = epgp.decayPercent;
+      }
+      if (epgp.minEp !== undefined) {
+        if (!Number.isInteger(epgp.minEp) || epgp.minEp < 0) {
+          return res.status(400).json({ error: 'Minimum EP must be a non-negative integer' });
+        }
+        epgpSettings.minEp = epgp.minEp;
+      }
+    }
+
+    const saved = await database.setLootSystemSettings(req.guild.id, [
+      { category: null, system: defaultSystem },
+      ...Object.entries(categorySystems)
+        .filter(([, system]) => system !== null)
+        .map(([category, system]) => ({
+          category: category as typeof ITEM_CATEGORIES[number],
+          system: system as typeof LOOT_SYSTEMS[number]
+        }))
+    ], req.user.id);
+
+    const savedEpgp = Object.keys(epgpSettings).length > 0
+      ? await database.upsertEpgpSettings(req.guild.id, epgpSettings)
+      : await database.getEpgpSettings(req.guild.id);
+
+    res.json({
+      message: 'Loot systems updated successfully',
+      ...formatLootSystems(saved),
+      epgp: formatEpgpSettings(savedEpgp)
+    });
+  } catch (error) {
+    console.error('Update loot systems error:', error);
+    res.status(500).json({ error: 'Failed to update loot systems' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/loot/standings:
+ *   get:
+ *     summary: Loot standings
+ *     description: |
+ *       Ranking of active characters under a loot system. With itemId, the item's system is used and only characters
+ *       wishing for it are ranked, ties going to whoever wishes for it most. DKP ranks by balance, EPGP by EP/GP
+ *       (characters under the minimum EP last), suicide kings by list position.
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemId
+ *         schema:
+ *           type: integer
+ *         description: Rank the item's wishers under the item's loot system
+ *       - in: query
+ *         name: system
+ *         schema:
+ *           type: string
+ *           enum: [DKP, EPGP, SUICIDE_KINGS]
+ *         description: Loot system to rank by when no item is given (defaults to the guild default)
+ *     responses:
+ *       200:
+ *         description: Standings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 system:
+ *                   type: string
+ *                   enum: [DKP, EPGP, SUICIDE_KINGS]
+ *                 item:
+ *                   type: object
+ *                   nullable: true
+ *                 standings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LootStanding'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/standings', authenticateToken, async (req: any, res) => {
+  try {
+    const { itemId, system } = req.query;
+
+    if (system !== undefined && !LOOT_SYSTEMS.includes(system)) {
+      return res.status(400).json({ error: `System must be one of: ${LOOT_SYSTEMS.join(', ')}` });
+    }
+
+    let item = null;
+    if (itemId !== undefined) {
+      const itemIdNum = parseInt(itemId);
+      if (isNaN(itemIdNum)) {
+        return res.status(400).json({ error: 'Invalid item ID' });
+      }
+
+      item = await database.getItemById(itemIdNum, req.guild.id);
+      if (!item) {
+        return res.status(404).json({ error: 'Item not found' });
+      }
+    }
+
+    const activeSystem = item
+      ? await getLootSystemForItem(req.guild.id, item)
+      : system ?? await getLootSystemForItem(req.guild.id, { category: null });
+
+    const standings = await getStandings(req.guild.id, activeSystem, item);
+
+    res.json({
+      system: activeSystem,
+      item: item ? {
+        id: item.id,
+        name: item.name,
+        category: item.category,
+        ...(activeSystem === 'DKP' && { minDkpCost: item.minDkpCost }),
+        ...(activeSystem === 'EPGP' && { gpCost: getItemGpCost(item) })
+      } : null,
+      standings
+    });
+  } catch (error) {
+    console.error('Get loot standings error:', error);
+    res.status(500).json({ error: 'Failed to fetch loot standings' });
+  }
+});
+
+const formatSuicideKings = (order: any[]) => order.map((character, index) => ({
+  position: index + 1,
+  character: { id: character.id, name: character.name, role: character.role, active: character.active }
+}));
+
+/**
+ * @swagger
+ * /api/loot/suicide-kings:
+ *   get:
+ *     summary: Get the suicide kings list
+ *     description: Every character in list order, top first. Characters that were never placed sit at the bottom in the order they were created.
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List retrieved successfully
+ *   put:
+ *     summary: Reorder the suicide kings list (Officers+ only)
+ *     description: Set the list order, for example when seeding it. Characters left out keep their relative order below the given ones.
+ *     tags: [Loot]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - characterIds
+ *             properties:
+ *               characterIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Character IDs, top of the list first
+ *     responses:
+ *       200:
+ *         description: List reordered successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/suicide-kings', authenticateToken, async (req: any, res) => {
+  try {
+    const order = await database.getSuicideKingsOrder(req.guild.id);
+    res.json({ list: formatSuicideKings(order) });
+  } catch (error) {
+    console.error('Get suicide kings list error:', error);
+    res.status(500).json({ error: 'Failed to fetch suicide kings list' });
+  }
+});
+
+router.put('/suicide-kings', authenticateToken, requireOfficerOrAdmin, auditLog('SUICIDE_KINGS', {
+  action: 'SUICIDE_KINGS_REORDER',
+  targetId: () => 'list',
+  snapshot: async (req: any) => (await database.getSuicideKingsOrder(req.guild.id)).map((character) => character.id)
+}), async (req: any, res) => {
+  try {
+    const { characterIds } = req.body ?? {};
+
+    if (!Array.isArray(characterIds) || characterIds.some((id: any) => !Number.isInteger(id))) {
+      return res.status(400).json({ error: 'Character IDs must be an array of integers' });
+    }
+
+    if (new Set(characterIds).size !== characterIds.length) {
+      return res.status(400).json({ error: 'Character IDs must not repeat' });
+    }
+
+    const order = await database.setSuicideKingsOrder(req.guild.id, characterIds);
+
+    res.json({
+      message: 'Suicide kings list updated successfully',
+      list: formatSuicideKings(order)
+    });
+  } catch (error) {
+    console.error('Reorder suicide kings list error:', error);
+    res.status(500).json({ error: 'Failed to update suicide kings list' });
+  }
+});
+
+export default router;
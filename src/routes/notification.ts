@@ -0,0 +1,511 @@
+import express from 'express';
+import { database } from '../db.js';
+import { authenticateToken, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import {
+  NOTIFICATION_CATEGORIES,
+  maskWebhookUrl,
+  parseWebhookUrl,
+  queueWebhookMessage
+} from '../services/notifications.js';
+
+const router = express.Router();
+
+const DELIVERY_STATUSES = ['PENDING', 'SENT', 'FAILED'];
+
+const formatWebhook = (webhook: any) => ({
+  id: webhook.id,
+  category: webhook.category,
+  name: webhook.name,
+  url: maskWebhookUrl(webhook.url),
+  enabled: webhook.enabled,
+  createdById: webhook.createdById,
+  createdAt: webhook.createdAt,
+  updatedAt: webhook.updatedAt
+});
+
+const formatDelivery = (delivery: any) => ({
+  id: delivery.id,
+  webhook: delivery.webhook ?? { id: delivery.webhookId },
+  category: delivery.category,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  nextAttemptAt: delivery.status === 'PENDING' ? delivery.nextAttemptAt : null,
+  lastStatusCode: delivery.lastStatusCode,
+  lastError: delivery.lastError,
+  payload: JSON.parse(delivery.payload),
+  sentAt: delivery.sentAt,
+  createdAt: delivery.createdAt
+});
+
+const auditWebhook = (action?: string) => auditLog('NOTIFICATION_WEBHOOK', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => req.params.id ?? body?.webhook?.id,
+  snapshot: async (req: any, id: string) => {
+    const webhook = await database.getNotificationWebhookById(parseInt(id), req.guild.id);
+    return webhook ? formatWebhook(webhook) : null;
+  }
+});
+
+const parseWebhookName = (name: unknown): { name?: string | null; error?: string } => {
+  if (name === undefined || name === null || name === '') return { name: null };
+  if (typeof name !== 'string' || name.trim().length > 100) {
+    return { error: 'Name must be a string of at most 100 characters' };
+  }
+  return { name: name.trim() || null };
+};
+
+/**
+ * @swagger
+ * /api/notifications/webhooks:
+ *   get:
+ *     summary: List notification webhooks (Officers+)
+ *     description: Discord webhooks per notification category. URLs are shown without their token.
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 webhooks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/NotificationWebhook'
+ *                 categories:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Add a notification webhook (Officers+)
+ *     description: |
+ *       Post one category of guild activity to a Discord webhook. A category can have several webhooks
+ *       (e.g. one per channel). Only Discord webhook URLs are accepted unless WEBHOOK_ALLOWED_HOSTS allows more.
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - category
+ *               - url
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 enum: [EVENT_CREATED, EVENT_REMINDER, LOOT_AWARDED, DKP_ADJUSTED, APPLICATION_RECEIVED]
+ *               url:
+ *                 type: string
+ *                 example: https://discord.com/api/webhooks/123/abc
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       201:
+ *         description: Webhook added
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/webhooks', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const webhooks = await database.getNotificationWebhooks(req.guild.id);
+    res.json({ webhooks: webhooks.map(formatWebhook), categories: NOTIFICATION_CATEGORIES });
+  } catch (error) {
+    console.error('Get notification webhooks error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification webhooks' });
+  }
+});
+
+router.post('/webhooks', authenticateToken, requireOfficerOrAdmin, auditWebhook(), async (req: any, res) => {
+  try {
+    const { category, url, name } = req.body ?? {};
+
+    if (!NOTIFICATION_CATEGORIES.includes(category)) {
+      return res.status(400).json({ error: `Category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}` });
+    }
+
+    const parsedUrl = parseWebhookUrl(url);
+    if (parsedUrl.error) {
+      return res.status(400).json({ error: parsedUrl.error });
+    }
+
+    const parsedName = parseWebhookName(name);
+    if (parsedName.error) {
+      return res.status(400).json({ error: parsedName.error });
+    }
+
+    const webhook = await database.createNotificationWebhook({
+      guildId: req.guild.id,
+      category,
+      name: parsedName.name ?? null,
+      url: parsedUrl.url!,
+      createdById: req.user.id
+    });
+
+    res.status(201).json({
+      message: 'Webhook added successfully',
+      webhook: formatWebhook(webhook)
+    });
+  } catch (error) {
+    console.error('Create notification webhook error:', error);
+    res.status(500).json({ error: 'Failed to add webhook' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/webhooks/{id}:
+ *   put:
+ *     summary: Update a notification webhook (Officers+)
+ *     description: Change a webhook's category, name or URL, or pause it with enabled=false. Queued messages are still delivered.
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 enum: [EVENT_CREATED, EVENT_REMINDER, LOOT_AWARDED, DKP_ADJUSTED, APPLICATION_RECEIVED]
+ *               url:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *                 nullable: true
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Remove a notification webhook (Officers+)
+ *     description: Removes the webhook together with its delivery log
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Webhook removed
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/webhooks/:id', authenticateToken, requireOfficerOrAdmin, auditWebhook(), async (req: any, res) => {
+  try {
+    const webhookId = parseInt(req.params.id);
+    if (isNaN(webhookId)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await database.getNotificationWebhookById(webhookId, req.guild.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const { category, url, name, enabled } = req.body ?? {};
+    const updateData: { category?: typeof NOTIFICATION_CATEGORIES[number]; url?: string; name?: string | null; enabled?: boolean } = {};
+
+    if (category !== undefined) {
+      if (!NOTIFICATION_CATEGORIES.includes(category)) {
+        return res.status(400).json({ error: `Category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}` });
+      }
+      updateData.category = category;
+    }
+
+    if (url !== undefined) {
+      const parsedUrl = parseWebhookUrl(url);
+      if (parsedUrl.error) {
+        return res.status(400).json({ error: parsedUrl.error });
+      }
+      updateData.url = parsedUrl.url!;
+    }
+
+    if (name !== undefined) {
+      const parsedName = parseWebhookName(name);
+      if (parsedName.error) {
+        return res.status(400).json({ error: parsedName.error });
+      }
+      updateData.name = parsedName.name ?? null;
+    }
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'Enabled must be a boolean' });
+      }
+      updateData.enabled = enabled;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: 'No valid fields provided for update' });
+    }
+
+    const updated = await database.updateNotificationWebhook(webhookId, updateData);
+
+    res.json({
+      message: 'Webhook updated successfully',
+      webhook: formatWebhook(updated)
+    });
+  } catch (error) {
+    console.error('Update notification webhook error:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+router.delete('/webhooks/:id', authenticateToken, requireOfficerOrAdmin, auditWebhook(), async (req: any, res) => {
+  try {
+    const webhookId = parseInt(req.params.id);
+    if (isNaN(webhookId)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await database.getNotificationWebhookById(webhookId, req.guild.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await database.deleteNotificationWebhook(webhookId);
+
+    res.json({ message: 'Webhook removed successfully' });
+  } catch (error) {
+    console.error('Delete notification webhook error:', error);
+    res.status(500).json({ error: 'Failed to remove webhook' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test message (Officers+)
+ *     description: Posts a test message to the webhook right away, even when it is disabled. If Discord does not accept it, it is retried like any other message.
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Test attempted; check the delivery status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 delivery:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/webhooks/:id/test', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const webhookId = parseInt(req.params.id);
+    if (isNaN(webhookId)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await database.getNotificationWebhookById(webhookId, req.guild.id);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const [delivery] = await queueWebhookMessage(req.guild, webhook.category, [webhook.id], {
+      title: 'Test notification',
+      description: `This channel will receive ${webhook.category.toLowerCase().replace(/_/g, ' ')} notifications from ${req.guild.name}. Sent by ${req.user.username}.`
+    });
+
+    res.json({
+      message: delivery?.status === 'SENT' ? 'Test message sent' : 'Test message could not be delivered yet',
+      delivery: formatDelivery(delivery)
+    });
+  } catch (error) {
+    console.error('Test notification webhook error:', error);
+    res.status(500).json({ error: 'Failed to send test message' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/deliveries:
+ *   get:
+ *     summary: Webhook delivery log (Officers+)
+ *     description: Every queued notification with its attempts, last response and when it is retried next, newest first
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, SENT, FAILED]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: webhookId
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.get('/deliveries', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const { page = 1, limit = 20, status, category, webhookId } = req.query;
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+
+    if (status !== undefined && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    if (category !== undefined && !NOTIFICATION_CATEGORIES.includes(category)) {
+      return res.status(400).json({ error: `Category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}` });
+    }
+
+    const webhookIdNum = webhookId !== undefined ? parseInt(webhookId) : undefined;
+    if (webhookIdNum !== undefined && isNaN(webhookIdNum)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const where = {
+      guildId: req.guild.id,
+      ...(status && { status }),
+      ...(category && { category }),
+      ...(webhookIdNum !== undefined && { webhookId: webhookIdNum })
+    };
+
+    const [deliveries, totalDeliveries] = await Promise.all([
+      database.getWebhookDeliveries({ where, skip: (pageNum - 1) * limitNum, take: limitNum }),
+      database.getWebhookDeliveryCount(where)
+    ]);
+    const totalPages = Math.ceil(totalDeliveries / limitNum);
+
+    res.json({
+      deliveries: deliveries.map(formatDelivery),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalDeliveries,
+        deliveriesPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/deliveries/{id}/retry:
+ *   post:
+ *     summary: Retry a failed delivery (Officers+)
+ *     description: Queues a failed delivery again with a fresh set of attempts
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Delivery queued again
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Only failed deliveries can be retried
+ */
+router.post('/deliveries/:id/retry', authenticateToken, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const deliveryId = parseInt(req.params.id);
+    if (isNaN(deliveryId)) {
+      return res.status(400).json({ error: 'Invalid delivery ID' });
+    }
+
+    const delivery = await database.getWebhookDeliveryById(deliveryId, req.guild.id);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    if (delivery.status !== 'FAILED') {
+      return res.status(409).json({ error: 'Only failed deliveries can be retried' });
+    }
+
+    const retried = await database.retryWebhookDelivery(deliveryId);
+
+    res.json({
+      message: 'Delivery queued for retry',
+      delivery: formatDelivery(retried)
+    });
+  } catch (error) {
+    console.error('Retry webhook delivery error:', error);
+    res.status(500).json({ error: 'Failed to retry delivery' });
+  }
+});
+
+export default router;
@@ -0,0 +1,845 @@
+import express from 'express';
+import { database } from '../db.js';
+import { authenticateToken, requireGuild, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { APPLICATION_STATUSES, buildApplicationAnswers, parseQuestions, tallyVotes } from '../services/recruitment.js';
+import { applicationReceivedEmbed, notify } from '../services/notifications.js';
+
+// mergeParams so requireGuild sees :guildId when mounted under /api/guild/:guildId/recruitment
+const router = express.Router({ mergeParams: true });
+
+const DISCORD_ID_PATTERN = /^\d{17,20}$/;
+
+const auditForm = (action?: string) => auditLog('RECRUITMENT_FORM', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => req.params.id ?? body?.form?.id,
+  snapshot: (req: any, id: string) => database.getRecruitmentFormById(parseInt(id), req.guild.id)
+});
+
+const auditApplication = (action: string) => auditLog('APPLICATION', {
+  action,
+  snapshot: async (req: any, id: string) => {
+    const application = await database.getApplicationById(parseInt(id), req.guild.id);
+    return application ? { id: application.id, status: application.status, userId: application.userId } : null;
+  }
+});
+
+const formatQuestion = (question: any) => ({
+  id: question.id,
+  position: question.position,
+  label: question.label,
+  type: question.type,
+  required: question.required,
+  options: question.options ? JSON.parse(question.options) : null
+});
+
+const formatForm = (form: any) => ({
+  id: form.id,
+  title: form.title,
+  description: form.description,
+  active: form.active,
+  questions: form.questions.map(formatQuestion),
+  ...(form._count && { applicationCount: form._count.applications }),
+  createdAt: form.createdAt,
+  updatedAt: form.updatedAt
+});
+
+const formatApplication = (application: any) => ({
+  id: application.id,
+  form: application.form,
+  discordId: application.discordId,
+  discordUsername: application.discordUsername,
+  status: application.status,
+  userId: application.userId,
+  votes: tallyVotes(application.votes),
+  ...(application._count && { commentCount: application._count.comments }),
+  reviewedAt: application.reviewedAt,
+  createdAt: application.createdAt,
+  updatedAt: application.updatedAt
+});
+
+/**
+ * @swagger
+ * /api/recruitment/apply:
+ *   get:
+ *     summary: Get open application forms
+ *     description: Public. Lists a guild's active recruitment forms with their questions.
+ *     tags: [Recruitment]
+ *     security: []
+ *     parameters:
+ *       - in: query
+ *         name: guild
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Guild slug
+ *     responses:
+ *       200:
+ *         description: Forms retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 guild:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     slug:
+ *                       type: string
+ *                 forms:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RecruitmentForm'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Guild not found
+ */
+router.get('/apply', async (req: any, res) => {
+  try {
+    const { guild: guildSlug } = req.query;
+
+    if (!guildSlug || typeof guildSlug !== 'string') {
+      return res.status(400).json({ error: 'Guild slug is required' });
+    }
+
+    const guild = await database.getGuildBySlug(guildSlug.toLowerCase());
+    if (!guild) {
+      return res.status(404).json({ error: 'Guild not found' });
+    }
+
+    const forms = await database.getActiveRecruitmentForms({ guildSlug: guild.slug });
+
+    res.json({
+      guild: { name: guild.name, slug: guild.slug },
+      forms: forms.map((form: any) => ({
+        id: form.id,
+        title: form.title,
+        description: form.description,
+        questions: form.questions.map(formatQuestion)
+      }))
+    });
+  } catch (error) {
+    console.error('Get recruitment forms error:', error);
+    res.status(500).json({ error: 'Failed to fetch recruitment forms' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recruitment/apply:
+ *   post:
+ *     summary: Apply to a guild
+ *     description: Public. Submit answers to an active recruitment form. One open application per Discord account per guild.
+ *     tags: [Recruitment]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - formId
+ *               - discordId
+ *               - discordUsername
+ *               - answers
+ *             properties:
+ *               formId:
+ *                 type: integer
+ *                 example: 1
+ *               discordId:
+ *                 type: string
+ *                 example: "123456789012345678"
+ *               discordUsername:
+ *                 type: string
+ *                 example: "newrecruit"
+ *               answers:
+ *                 type: object
+ *                 additionalProperties: true
+ *                 description: Answers keyed by question ID
+ *                 example: { "1": "Healer", "2": 42, "3": "https://example.com/gear.png" }
+ *     responses:
+ *       201:
+ *         description: Application submitted
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Form not found or not accepting applications
+ *       409:
+ *         description: An application from this Discord account is already under review
+ */
+router.post('/apply', async (req: any, res) => {
+  try {
+    const { formId, discordId, discordUsername, answers } = req.body ?? {};
+
+    const formIdNum = parseInt(formId);
+    if (isNaN(formIdNum)) {
+      return res.status(400).json({ error: 'Form ID is required' });
+    }
+
+    if (typeof discordId !== 'string' || !DISCORD_ID_PATTERN.test(discordId)) {
+      return res.status(400).json({ error: 'A valid Discord user ID is required' });
+    }
+
+    if (typeof discordUsername !== 'string' || !discordUsername.trim() || discordUsername.trim().length > 100) {
+      return res.status(400).json({ error: 'Discord username is required (max 100 characters)' });
+    }
+
+    const [form] = await database.getActiveRecruitmentForms({ formId: formIdNum });
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found or not accepting applications' });
+    }
+
+    const built = buildApplicationAnswers(form.questions, answers);
+    if (built.error) {
+      return res.status(400).json({ error: built.error });
+    }
+
+    const openApplication = await database.getOpenApplication(form.guildId, discordId);
+    if (openApplication) {
+      return res.status(409).json({ error: 'You already have an application under review for this guild' });
+    }
+
+    const application = await database.createApplication({
+      guildId: form.guildId,
+      formId: form.id,
+      discordId,
+      discordUsername: discordUsername.trim(),
+      answers: built.answers ?? []
+    });
+    notify(form.guildId, 'APPLICATION_RECEIVED', applicationReceivedEmbed({
+      id: application.id,
+      discordUsername: application.discordUsername,
+      formTitle: form.title
+    }));
+
+    res.status(201).json({
+      message: `Application to ${form.guild.name} submitted`,
+      application: {
+        id: application.id,
+        status: application.status,
+        createdAt: application.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Submit application error:', error);
+    res.status(500).json({ error: 'Failed to submit application' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recruitment/forms:
+ *   get:
+ *     summary: List recruitment forms (Officers+)
+ *     tags: [Recruitment]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Forms retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 forms:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RecruitmentForm'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/forms', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const forms = await database.getRecruitmentForms(req.guild.id);
+
+    res.json({
+      forms: forms.map(formatForm)
+    });
+  } catch (error) {
+    console.error('Get forms error:', error);
+    res.status(500).json({ error: 'Failed to fetch recruitment forms' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recruitment/forms:
+ *   post:
+ *     summary: Create a recruitment form (Officers+)
+ *     tags: [Recruitment]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - questions
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: "Raider application"
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *               questions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - label
+ *                     - type
+ *                   properties:
+ *                     label:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       enum: [TEXT, CHOICE, NUMBER, URL]
+ *                     required:
+ *                       type: boolean
+ *                       default: true
+ *                     options:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Required for CHOICE questions
+ *     responses:
+ *       201:
+ *         description: Form created successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.post('/forms', authenticateToken, requireGuild, requireOfficerOrAdmin, auditForm(), async (req: any, res) => {
+  try {
+    const { title, description, active, questions } = req.body;
+
+    if (!title || typeof title !== 'string' || !title.trim() || title.trim().length > 200) {
+      return res.status(400).json({ error: 'Title is required (max 200 characters)' });
+    }
+
+    if (description !== undefined && description !== null && (typeof description !== 'string' || description.length > 2000)) {
+      return res.status(400).json({ error: 'Description must be 2000 characters or less' });
+    }
+
+    if (active !== undefined && typeof active !== 'boolean') {
+      return res.status(400).json({ error: 'Active must be a boolean' });
+    }
+
+    const parsed = parseQuestions(questions);
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const form = await database.createRecruitmentForm(req.guild.id, {
+      title: title.trim(),
+      description: description?.trim() || null,
+      active: active ?? true
+    }, parsed.questions ?? [], req.user.id);
+
+    res.status(201).json({
+      message: 'Recruitment form created successfully',
+      form: formatForm(form)
+    });
+  } catch (error) {
+    console.error('Create form error:', error);
+    res.status(500).json({ error: 'Failed to create recruitment form' });
+  }
+});
+
+// GET /api/recruitment/forms/:id - Form with questions (Officers+)
+router.get('/forms/:id', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const formId = parseInt(req.params.id);
+    if (isNaN(formId)) {
+      return res.status(400).json({ error: 'Invalid form ID' });
+    }
+
+    const form = await database.getRecruitmentFormById(formId, req.guild.id);
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    res.json({ form: formatForm(form) });
+  } catch (error) {
+    console.error('Get form error:', error);
+    res.status(500).json({ error: 'Failed to fetch recruitment form' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recruitment/forms/{id}:
+ *   put:
+ *     summary: Update a recruitment form (Officers+)
+ *     description: Sending questions replaces the whole list. Submitted applications keep the questions they answered.
+ *     tags: [Recruitment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *               questions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Form updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Form not found
+ */
+router.put('/forms/:id', authenticateToken, requireGuild, requireOfficerOrAdmin, auditForm(), async (req: any, res) => {
+  try {
+    const formId = parseInt(req.params.id);
+    if (isNaN(formId)) {
+      return res.status(400).json({ error: 'Invalid form ID' });
+    }
+
+    const existingForm = await database.getRecruitmentFormById(formId, req.guild.id);
+    if (!existingForm) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    const { title, description, active, questions } = req.body;
+    const updateData: { title?: string; description?: string | null; active?: boolean } = {};
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim() || title.trim().length > 200) {
+        return res.status(400).json({ error: 'Title cannot be empty (max 200 characters)' });
+      }
+      updateData.title = title.trim();
+    }
+
+    if (description !== undefined) {
+      if (description !== null && (typeof description !== 'string' || description.length > 2000)) {
+        return res.status(400).json({ error: 'Description must be 2000 characters or less' });
+      }
+      updateData.description = description?.trim() || null;
+    }
+
+    if (active !== undefined) {
+      if (typeof active !== 'boolean') {
+        return res.status(400).json({ error: 'Active must be a boolean' });
+      }
+      updateData.active = active;
+    }
+
+    let parsedQuestions;
+    if (questions !== undefined) {
+      const parsed = parseQuestions(questions);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      parsedQuestions = parsed.questions;
+    }
+
+    if (Object.keys(updateData).length === 0 && !parsedQuestions) {
+      return res.status(400).json({ error: 'No valid fields provided for update' });
+    }
+
+    const form = await database.updateRecruitmentForm(formId, updateData, parsedQuestions);
+
+    res.json({
+      message: 'Recruitment form updated successfully',
+      form: formatForm(form)
+    });
+  } catch (error) {
+    console.error('Update form error:', error);
+    res.status(500).json({ error: 'Failed to update recruitment form' });
+  }
+});
+
+// DELETE /api/recruitment/forms/:id - Delete a form without applications (Officers+)
+router.delete('/forms/:id', authenticateToken, requireGuild, requireOfficerOrAdmin, auditForm(), async (req: any, res) => {
+  try {
+    const formId = parseInt(req.params.id);
+    if (isNaN(formId)) {
+      return res.status(400).json({ error: 'Invalid form ID' });
+    }
+
+    const form = await database.getRecruitmentFormById(formId, req.guild.id);
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+
+    if (form._count.applications > 0) {
+      return res.status(409).json({
+        error: 'Cannot delete a form that has applications. Deactivate it instead',
+        applicationCount: form._count.applications
+      });
+    }
+
+    await database.deleteRecruitmentForm(formId);
+
+    res.json({ message: 'Recruitment form deleted successfully' });
+  } catch (error) {
+    console.error('Delete form error:', error);
+    res.status(500).json({ error: 'Failed to delete recruitment form' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recruitment/applications:
+ *   get:
+ *     summary: Application inbox (Officers+)
+ *     tags: [Recruitment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [NEW, REVIEWING, ACCEPTED, REJECTED]
+ *       - in: query
+ *         name: formId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Applications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 applications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RecruitmentApplication'
+ *                 statusCounts:
+ *                   type: object
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/applications', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const { page = 1, limit = 20, status, formId } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+    const offset = (pageNum - 1) * limitNum;
+
+    const filters: any = {
+      guildId: req.guild.id
+    };
+
+    if (status) {
+      if (!APPLICATION_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Status must be one of: ${APPLICATION_STATUSES.join(', ')}` });
+      }
+      filters.status = status;
+    }
+
+    if (formId && !isNaN(parseInt(formId))) filters.formId = parseInt(formId);
+
+    const [applications, totalCount, ...statusTotals] = await Promise.all([
+      database.getApplications({
+        skip: offset,
+        take: limitNum,
+        where: filters
+      }),
+      database.getApplicationCount(filters),
+      ...APPLICATION_STATUSES.map((applicationStatus) =>
+        database.getApplicationCount({ guildId: req.guild.id, status: applicationStatus })
+      )
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      applications: applications.map(formatApplication),
+      statusCounts: Object.fromEntries(
+        APPLICATION_STATUSES.map((applicationStatus, index) => [applicationStatus, statusTotals[index]])
+      ),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalApplications: totalCount,
+        applicationsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get applications error:', error);
+    res.status(500).json({ error: 'Failed to fetch applications' });
+  }
+});
+
+// GET /api/recruitment/applications/:id - Application with answers, comments and votes (Officers+)
+router.get('/applications/:id', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const application = await database.getApplicationById(applicationId, req.guild.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    res.json({
+      application: {
+        ...formatApplication(application),
+        answers: JSON.parse(application.answers),
+        reviewedBy: application.reviewedBy,
+        comments: application.comments.map((comment: any) => ({
+          id: comment.id,
+          author: comment.author,
+          body: comment.body,
+          createdAt: comment.createdAt
+        })),
+        voters: application.votes.map((vote: any) => ({
+          voter: vote.voter,
+          approve: vote.approve,
+          updatedAt: vote.updatedAt
+        })),
+        myVote: application.votes.find((vote: any) => vote.voterId === req.user.id)?.approve ?? null
+      }
+    });
+  } catch (error) {
+    console.error('Get application error:', error);
+    res.status(500).json({ error: 'Failed to fetch application' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recruitment/applications/{id}/status:
+ *   put:
+ *     summary: Move an application through review (Officers+)
+ *     description: Accepting links the applicant's Discord account to a user (creating one if they never signed in) and adds them to the guild as a MEMBER. Accepted applications are final.
+ *     tags: [Recruitment]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [NEW, REVIEWING, ACCEPTED, REJECTED]
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application already accepted or already in this status
+ */
+router.put('/applications/:id/status', authenticateToken, requireGuild, requireOfficerOrAdmin, auditApplication('APPLICATION_STATUS_UPDATE'), async (req: any, res) => {
+  try {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const { status } = req.body;
+    if (!APPLICATION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${APPLICATION_STATUSES.join(', ')}` });
+    }
+
+    const application = await database.getApplicationById(applicationId, req.guild.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    if (application.status === 'ACCEPTED') {
+      return res.status(409).json({ error: 'Accepted applications cannot be changed' });
+    }
+
+    if (application.status === status) {
+      return res.status(409).json({ error: `Application is already ${status}` });
+    }
+
+    if (status === 'ACCEPTED') {
+      const result = await database.acceptApplication(applicationId, req.user.id);
+
+      return res.json({
+        message: result.alreadyMember
+          ? `Application accepted; ${result.user.username} was already a member`
+          : `Application accepted; ${result.user.username} joined the guild as a member`,
+        application: {
+          id: result.application.id,
+          status: result.application.status,
+          userId: result.application.userId,
+          reviewedAt: result.application.reviewedAt
+        }
+      });
+    }
+
+    const updated = await database.updateApplicationStatus(applicationId, status, req.user.id);
+
+    res.json({
+      message: 'Application status updated',
+      application: {
+        id: updated.id,
+        status: updated.status,
+        userId: updated.userId,
+        reviewedAt: updated.reviewedAt
+      }
+    });
+  } catch (error) {
+    console.error('Update application status error:', error);
+    res.status(500).json({ error: 'Failed to update application status' });
+  }
+});
+
+// POST /api/recruitment/applications/:id/comments - Internal officer comment (Officers+)
+router.post('/applications/:id/comments', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const { body } = req.body;
+    if (typeof body !== 'string' || !body.trim() || body.trim().length > 2000) {
+      return res.status(400).json({ error: 'Comment is required (max 2000 characters)' });
+    }
+
+    const application = await database.getApplicationById(applicationId, req.guild.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    const comment = await database.addApplicationComment(applicationId, req.user.id, body.trim());
+
+    res.status(201).json({
+      message: 'Comment added',
+      comment: {
+        id: comment.id,
+        author: comment.author,
+        body: comment.body,
+        createdAt: comment.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Add application comment error:', error);
+    res.status(500).json({ error: 'Failed to add comment' });
+  }
+});
+
+// PUT /api/recruitment/applications/:id/vote - Cast or change your vote (Officers+)
+router.put('/applications/:id/vote', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const { approve } = req.body;
+    if (typeof approve !== 'boolean') {
+      return res.status(400).json({ error: 'Approve must be true or false' });
+    }
+
+    const application = await database.getApplicationById(applicationId, req.guild.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    if (application.status === 'ACCEPTED' || application.status === 'REJECTED') {
+      return res.status(409).json({ error: `Voting is closed for ${application.status.toLowerCase()} applications` });
+    }
+
+    await database.setApplicationVote(applicationId, req.user.id, approve);
+    const votes = [
+      ...application.votes.filter((vote: any) => vote.voterId !== req.user.id),
+      { approve }
+    ];
+
+    res.json({
+      message: 'Vote recorded',
+      votes: tallyVotes(votes)
+    });
+  } catch (error) {
+    console.error('Vote on application error:', error);
+    res.status(500).json({ error: 'Failed to record vote' });
+  }
+});
+
+// DELETE /api/recruitment/applications/:id/vote - Withdraw your vote (Officers+)
+router.delete('/applications/:id/vote', authenticateToken, requireGuild, requireOfficerOrAdmin, async (req: any, res) => {
+  try {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ error: 'Invalid application ID' });
+    }
+
+    const application = await database.getApplicationById(applicationId, req.guild.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    const removed = await database.removeApplicationVote(applicationId, req.user.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'You have not voted on this application' });
+    }
+
+    res.json({ message: 'Vote withdrawn' });
+  } catch (error) {
+    console.error('Withdraw application vote error:', error);
+    res.status(500).json({ error: 'Failed to withdraw vote' });
+  }
+});
+
+export default router;
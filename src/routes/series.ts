@@ -0,0 +1,397 @@
+import express from 'express';
+import { database, EVENT_TYPES } from '../db.js';
+import { authenticateToken, requireOfficerOrAdmin } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { parseComposition } from '../services/signup.js';
+import { parseReminderRules } from '../services/reminders.js';
+import { formatRRule, parseRRule } from '../services/recurrence.js';
+import { editSeries, parseExdates, previewOccurrences, readSeries } from '../services/series.js';
+import type { SeriesChanges } from '../services/series.js';
+import { isValidTimeZone, localizeTimes, parseDateTime, resolveTimeZone } from '../services/timezone.js';
+
+const router = express.Router();
+
+const formatSeries = (series: any) => {
+  const { composition, ...data } = readSeries(series);
+  return {
+    id: series.id,
+    ...data,
+    composition: Object.fromEntries(composition.map((entry) => [entry.role, entry.count])),
+    materializedUntil: series.materializedUntil,
+    createdById: series.createdById,
+    createdAt: series.createdAt,
+    updatedAt: series.updatedAt
+  };
+};
+
+const auditSeries = () => auditLog('EVENT_SERIES', {
+  snapshot: async (req: any, id: string) => {
+    const series = await database.getEventSeriesById(parseInt(id), req.guild.id);
+    return series ? formatSeries(series) : null;
+  }
+});
+
+/**
+ * @swagger
+ * /api/event-series:
+ *   get:
+ *     summary: List recurring event series
+ *     description: Series are created with POST /api/event and a recurrence
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *         description: Only series that have not ended
+ *     responses:
+ *       200:
+ *         description: Series
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 series:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EventSeries'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/PaginationInfo'
+ */
+router.get('/', authenticateToken, async (req: any, res) => {
+  try {
+    const { page = 1, limit = 20, active } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+
+    const where: any = { guildId: req.guild.id };
+    if (active === 'true') {
+      where.OR = [{ endsAt: null }, { endsAt: { gt: new Date() } }];
+    }
+
+    const [series, totalCount] = await Promise.all([
+      database.getEventSeriesList({ where, skip: (pageNum - 1) * limitNum, take: limitNum }),
+      database.getEventSeriesCount(where)
+    ]);
+    const totalPages = Math.ceil(totalCount / limitNum);
+
+    res.json({
+      series: series.map((entry) => ({ ...formatSeries(entry), eventCount: entry._count.events })),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalSeries: totalCount,
+        seriesPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get event series error:', error);
+    res.status(500).json({ error: 'Failed to fetch event series' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event-series/{id}:
+ *   get:
+ *     summary: Get a recurring event series
+ *     description: The series with its next occurrences, whether or not they have been created as events yet
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Series
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 series:
+ *                   $ref: '#/components/schemas/EventSeries'
+ *                 nextOccurrences:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       startTime:
+ *                         type: string
+ *                         format: date-time
+ *                       local:
+ *                         $ref: '#/components/schemas/LocalTimes'
+ *                       eventId:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: The created event, or null until the occurrence is materialized
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   put:
+ *     summary: Edit a whole series (Officer/Admin only)
+ *     description: |
+ *       Changes apply to every occurrence that has not started. Changing rrule, startTime, durationMinutes or
+ *       exdates recreates those occurrences, dropping their signups; other changes are made to them in place.
+ *       To change a single occurrence or split the series, use PUT /api/event/{id} with a scope.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EventSeriesInput'
+ *     responses:
+ *       200:
+ *         description: Series updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Delete a series (Officer/Admin only)
+ *     description: Removes the series and its occurrences that have not started. Past occurrences stay as standalone events.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Series deleted
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const seriesId = parseInt(req.params.id);
+    if (isNaN(seriesId)) {
+      return res.status(400).json({ error: 'Invalid series ID' });
+    }
+
+    const series = await database.getEventSeriesById(seriesId, req.guild.id);
+    if (!series) {
+      return res.status(404).json({ error: 'Event series not found' });
+    }
+
+    const now = new Date();
+    const starts = previewOccurrences(readSeries(series), now);
+    const events = await database.getEvents({
+      where: { seriesId, recurrenceId: { in: starts } }
+    });
+    const eventIds = new Map(events.map((event) => [event.recurrenceId!.getTime(), event.id]));
+
+    const timeZone = resolveTimeZone(req.user, req.guild);
+
+    res.json({
+      series: formatSeries(series),
+      nextOccurrences: starts.map((start) => ({
+        startTime: start,
+        local: localizeTimes({ startTime: start }, timeZone),
+        eventId: eventIds.get(start.getTime()) ?? null
+      }))
+    });
+  } catch (error) {
+    console.error('Get event series error:', error);
+    res.status(500).json({ error: 'Failed to fetch event series' });
+  }
+});
+
+router.put('/:id', authenticateToken, requireOfficerOrAdmin, auditSeries(), async (req: any, res) => {
+  try {
+    const seriesId = parseInt(req.params.id);
+    if (isNaN(seriesId)) {
+      return res.status(400).json({ error: 'Invalid series ID' });
+    }
+
+    const series = await database.getEventSeriesById(seriesId, req.guild.id);
+    if (!series) {
+      return res.status(404).json({ error: 'Event series not found' });
+    }
+
+    const {
+      title,
+      description,
+      rrule,
+      startTime,
+      timeZone,
+      durationMinutes,
+      dkpReward,
+      type,
+      signupCutoffMinutes,
+      composition,
+      reminders,
+      exdates
+    } = req.body ?? {};
+    const changes: SeriesChanges = {};
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || title.trim().length === 0 || title.length > 200) {
+        return res.status(400).json({ error: 'Title must be between 1 and 200 characters' });
+      }
+      changes.title = title.trim();
+    }
+
+    if (description !== undefined) {
+      if (description !== null && (typeof description !== 'string' || description.length > 1000)) {
+        return res.status(400).json({ error: 'Description must be 1000 characters or less' });
+      }
+      changes.description = description?.trim() || null;
+    }
+
+    if (rrule !== undefined) {
+      const parsedRule = parseRRule(rrule);
+      if (parsedRule.error) {
+        return res.status(400).json({ error: parsedRule.error });
+      }
+      changes.rrule = formatRRule(parsedRule.rule!);
+    }
+
+    if (timeZone !== undefined) {
+      if (!isValidTimeZone(timeZone)) {
+        return res.status(400).json({ error: 'Time zone must be an IANA time zone such as Europe/Copenhagen' });
+      }
+      changes.timeZone = timeZone;
+    }
+
+    // Local times are in the zone the series will follow
+    const seriesTimeZone = changes.timeZone ?? series.timeZone;
+
+    if (startTime !== undefined) {
+      const start = parseDateTime(startTime, seriesTimeZone);
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({ error: 'Invalid start time format' });
+      }
+      changes.startTime = start;
+    }
+
+    if (durationMinutes !== undefined) {
+      if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > 7 * 24 * 60) {
+        return res.status(400).json({ error: 'durationMinutes must be an integer between 1 and 10080' });
+      }
+      changes.durationMinutes = durationMinutes;
+    }
+
+    if (dkpReward !== undefined) {
+      if (!Number.isInteger(dkpReward) || dkpReward < 0) {
+        return res.status(400).json({ error: 'DKP reward must be a non-negative integer' });
+      }
+      changes.dkpReward = dkpReward;
+    }
+
+    if (type !== undefined) {
+      if (!EVENT_TYPES.includes(type)) {
+        return res.status(400).json({ error: `Type must be one of: ${EVENT_TYPES.join(', ')}` });
+      }
+      changes.type = type;
+    }
+
+    if (signupCutoffMinutes !== undefined) {
+      if (signupCutoffMinutes !== null && (!Number.isInteger(signupCutoffMinutes) || signupCutoffMinutes < 0)) {
+        return res.status(400).json({ error: 'signupCutoffMinutes must be a non-negative integer or null' });
+      }
+      changes.signupCutoffMinutes = signupCutoffMinutes;
+    }
+
+    if (composition !== undefined) {
+      const parsedComposition = parseComposition(composition);
+      if (parsedComposition.error) {
+        return res.status(400).json({ error: parsedComposition.error });
+      }
+      changes.composition = parsedComposition.composition!;
+    }
+
+    if (reminders !== undefined) {
+      const parsedReminders = parseReminderRules(reminders);
+      if (parsedReminders.error) {
+        return res.status(400).json({ error: parsedReminders.error });
+      }
+      changes.reminders = parsedReminders.reminders!;
+    }
+
+    if (exdates !== undefined) {
+      const parsedExdates = parseExdates(exdates, seriesTimeZone);
+      if (parsedExdates.error) {
+        return res.status(400).json({ error: parsedExdates.error });
+      }
+      changes.exdates = parsedExdates.exdates!;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No valid fields provided for update' });
+    }
+
+    const result = await editSeries(series, changes);
+
+    res.json({
+      message: 'Event series updated successfully',
+      series: formatSeries(result.series),
+      occurrences: result.occurrences
+    });
+  } catch (error) {
+    console.error('Update event series error:', error);
+    res.status(500).json({ error: 'Failed to update event series' });
+  }
+});
+
+router.delete('/:id', authenticateToken, requireOfficerOrAdmin, auditSeries(), async (req: any, res) => {
+  try {
+    const seriesId = parseInt(req.params.id);
+    if (isNaN(seriesId)) {
+      return res.status(400).json({ error: 'Invalid series ID' });
+    }
+
+    const series = await database.getEventSeriesById(seriesId, req.guild.id);
+    if (!series) {
+      return res.status(404).json({ error: 'Event series not found' });
+    }
+
+    const removed = await database.deleteEventSeries(seriesId, new Date());
+
+    res.json({
+      message: 'Event series deleted successfully',
+      removedOccurrences: removed
+    });
+  } catch (error) {
+    console.error('Delete event series error:', error);
+    res.status(500).json({ error: 'Failed to delete event series' });
+  }
+});
+
+export default router;
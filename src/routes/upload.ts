@@ -0,0 +1,281 @@
+import express from 'express';
+import multer from 'multer';
+import { database } from '../db.js';
+import { authenticateToken, requireGuild } from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { isValidStorageKey, getStorage } from '../services/storage.js';
+import {
+  CONTENT_TYPES_BY_EXTENSION,
+  IMAGE_TYPES,
+  UPLOAD_MAX_BYTES,
+  formatUpload,
+  processImage,
+  removeUploads,
+  storeImage
+} from '../services/uploads.js';
+
+// mergeParams so requireGuild sees :guildId when mounted under /api/guild/:guildId/uploads
+const router = express.Router({ mergeParams: true });
+
+// Files are kept in memory only long enough to be validated and re-encoded
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: UPLOAD_MAX_BYTES, files: 1 }
+});
+
+// multer errors become 400/413 responses instead of falling through to the default error handler
+const receiveImage = (req: any, res: any, next: any) => {
+  imageUpload.single('image')(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Image must be at most ${UPLOAD_MAX_BYTES} bytes` });
+      }
+      return res.status(400).json({ error: error.code === 'LIMIT_UNEXPECTED_FILE' ? 'Send one image in the "image" field' : error.message });
+    }
+    if (error) return next(error);
+    next();
+  });
+};
+
+const auditUpload = (action?: string) => auditLog('UPLOAD', {
+  ...(action ? { action } : {}),
+  targetId: (req: any, body?: any) => req.params.id ?? body?.upload?.id,
+  snapshot: async (req: any, id: string) => {
+    const upload = await database.getUploadById(parseInt(id), req.guild.id);
+    return upload ? formatUpload(upload) : null;
+  }
+});
+
+/**
+ * @swagger
+ * /api/uploads/files/{key}:
+ *   get:
+ *     summary: Get an uploaded file
+ *     description: Public. Serves an uploaded image or its thumbnail. Keys are random and never reused, so responses are cacheable forever.
+ *     tags: [Uploads]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Storage key from an upload URL
+ *     responses:
+ *       200:
+ *         description: Image content
+ *         content:
+ *           image/jpeg: {}
+ *           image/png: {}
+ *           image/webp: {}
+ *       404:
+ *         description: File not found
+ */
+router.get('/files/:key', async (req: any, res) => {
+  try {
+    const { key } = req.params;
+    const contentType = CONTENT_TYPES_BY_EXTENSION[key.split('.').pop()?.toLowerCase() ?? ''];
+
+    if (!isValidStorageKey(key) || !contentType) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const data = await getStorage().get(key);
+    if (!data) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    res.set({
+      'Content-Type': contentType,
+      'Content-Length': String(data.length),
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff'
+    });
+    res.send(data);
+  } catch (error) {
+    console.error('Get upload file error:', error);
+    res.status(500).json({ error: 'Failed to fetch file' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/uploads:
+ *   post:
+ *     summary: Upload an image
+ *     description: |
+ *       Upload a JPEG, PNG or WebP image (multipart field "image"). The file is checked against its declared type,
+ *       re-encoded without EXIF/metadata and given a thumbnail. Use the returned URL for a character's gearImageUrl,
+ *       an item's imageUrl or gear check submissions. Uploads that are never attached to a character or item are
+ *       removed after a day; attached ones are removed with their character or item.
+ *     tags: [Uploads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/GuildHeader'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *               characterId:
+ *                 type: integer
+ *                 description: Attach to one of your characters (officers may use any character)
+ *               itemId:
+ *                 type: integer
+ *                 description: Attach to an item (officers and admins only)
+ *     responses:
+ *       201:
+ *         description: Image uploaded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 upload:
+ *                   $ref: '#/components/schemas/Upload'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       413:
+ *         description: Image too large
+ *       415:
+ *         description: Unsupported image type
+ */
+router.post('/', authenticateToken, requireGuild, receiveImage, auditUpload(), async (req: any, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'An image file is required in the "image" field' });
+    }
+
+    const { characterId, itemId } = req.body ?? {};
+    if (characterId && itemId) {
+      return res.status(400).json({ error: 'Attach an upload to a character or an item, not both' });
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    const link: { characterId?: number; itemId?: number } = {};
+
+    if (characterId) {
+      const characterIdNum = parseInt(characterId);
+      if (isNaN(characterIdNum)) {
+        return res.status(400).json({ error: 'Invalid character ID' });
+      }
+
+      const character = isOfficer
+        ? await database.getCharacterByIdAdmin(characterIdNum, req.guild.id)
+        : await database.getCharacterById(characterIdNum, req.user.id, req.guild.id);
+      if (!character) {
+        return res.status(404).json({ error: 'Character not found' });
+      }
+      link.characterId = characterIdNum;
+    }
+
+    if (itemId) {
+      if (!isOfficer) {
+        return res.status(403).json({ error: 'Only officers and admins can upload item images' });
+      }
+
+      const itemIdNum = parseInt(itemId);
+      if (isNaN(itemIdNum)) {
+        return res.status(400).json({ error: 'Invalid item ID' });
+      }
+
+      const item = await database.getItemById(itemIdNum, req.guild.id);
+      if (!item) {
+        return res.status(404).json({ error: 'Item not found' });
+      }
+      link.itemId = itemIdNum;
+    }
+
+    const processed = await processImage(req.file.buffer, req.file.mimetype);
+    if (processed.violation) {
+      return res.status(processed.violation.status).json({
+        error: processed.violation.error,
+        ...(processed.violation.status === 415 && { allowedTypes: Object.keys(IMAGE_TYPES) })
+      });
+    }
+
+    const upload = await storeImage({
+      guildId: req.guild.id,
+      uploadedById: req.user.id,
+      originalName: req.file.originalname?.slice(0, 255) || null,
+      ...link
+    }, processed);
+
+    res.status(201).json({
+      message: 'Image uploaded successfully',
+      upload: formatUpload(upload)
+    });
+  } catch (error) {
+    console.error('Upload image error:', error);
+    res.status(500).json({ error: 'Failed to upload image' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/uploads/{id}:
+ *   delete:
+ *     summary: Delete an upload
+ *     description: Removes the image and its thumbnail. Allowed for the uploader and for officers/admins.
+ *     tags: [Uploads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/GuildHeader'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Upload ID
+ *     responses:
+ *       200:
+ *         description: Upload deleted
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id', authenticateToken, requireGuild, auditUpload(), async (req: any, res) => {
+  try {
+    const uploadId = parseInt(req.params.id);
+    if (isNaN(uploadId)) {
+      return res.status(400).json({ error: 'Invalid upload ID' });
+    }
+
+    const upload = await database.getUploadById(uploadId, req.guild.id);
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    const isOfficer = req.user.role === 'ADMIN' || req.user.role === 'OFFICER';
+    if (!isOfficer && upload.uploadedById !== req.user.id) {
+      return res.status(403).json({ error: 'You can only delete your own uploads' });
+    }
+
+    await removeUploads([upload]);
+
+    res.json({ message: 'Upload deleted successfully' });
+  } catch (error) {
+    console.error('Delete upload error:', error);
+    res.status(500).json({ error: 'Failed to delete upload' });
+  }
+});
+
+export default router;
@@ -0,0 +1,152 @@
+import express from 'express';
+import { database } from '../db.js';
+import {
+  DEFAULT_PERSONAL_CHANNELS,
+  getConfiguredPersonalChannelNames,
+  parseNotificationPreferences
+} from '../services/reminders.js';
+import { isValidTimeZone } from '../services/timezone.js';
+
+const router = express.Router();
+
+// Users who never saved preferences get the defaults
+const formatPreferences = (preference: any) => ({
+  remindersEnabled: preference?.remindersEnabled ?? true,
+  channels: preference ? JSON.parse(preference.channels) : DEFAULT_PERSONAL_CHANNELS,
+  email: preference?.email ?? null,
+  quietHours: preference?.quietHoursStart
+    ? { start: preference.quietHoursStart, end: preference.quietHoursEnd }
+    : null,
+  timeZone: preference?.timeZone ?? 'UTC'
+});
+
+/**
+ * @swagger
+ * /api/user/notification-preferences:
+ *   get:
+ *     summary: Get notification preferences
+ *     description: How the authenticated user is reminded of events, and which channels this server can send on
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notification preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 preferences:
+ *                   $ref: '#/components/schemas/NotificationPreferences'
+ *                 availableChannels:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Personal channels configured on this server
+ *                 accountEmail:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Email from the Discord account, used when no email is set
+ *   put:
+ *     summary: Update notification preferences
+ *     description: Fields left out are not changed. Set quietHours to null to remove them.
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/NotificationPreferences'
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.get('/notification-preferences', async (req: any, res) => {
+  try {
+    const preference = await database.getNotificationPreference(req.user.id);
+
+    res.json({
+      preferences: formatPreferences(preference),
+      availableChannels: getConfiguredPersonalChannelNames(),
+      accountEmail: req.user.email ?? null
+    });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+router.put('/notification-preferences', async (req: any, res) => {
+  try {
+    const parsed = parseNotificationPreferences(req.body ?? {});
+    if (parsed.error) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const preference = await database.upsertNotificationPreference(req.user.id, parsed.preferences!);
+
+    res.json({
+      message: 'Notification preferences updated successfully',
+      preferences: formatPreferences(preference)
+    });
+  } catch (error) {
+    console.error('Update notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/time-zone:
+ *   put:
+ *     summary: Set my time zone
+ *     description: |
+ *       Event times are shown in this zone, next to UTC, and times entered without an offset are read in it.
+ *       Set it to null to follow each guild's time zone.
+ *     tags: [Users]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - timeZone
+ *             properties:
+ *               timeZone:
+ *                 type: string
+ *                 nullable: true
+ *                 example: America/New_York
+ *     responses:
+ *       200:
+ *         description: Time zone updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.put('/time-zone', async (req: any, res) => {
+  try {
+    const { timeZone } = req.body ?? {};
+    if (timeZone !== null && !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: 'Time zone must be an IANA time zone such as Europe/Copenhagen, or null' });
+    }
+
+    const user = await database.updateUserTimeZone(req.user.id, timeZone);
+
+    res.json({
+      message: 'Time zone updated successfully',
+      timeZone: user.timeZone
+    });
+  } catch (error) {
+    console.error('Update time zone error:', error);
+    res.status(500).json({ error: 'Failed to update time zone' });
+  }
+});
+
+export default router;
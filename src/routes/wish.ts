@@ -1,9 +1,27 @@
 import express from 'express';
-import { database } from '../db.js';
-import  {authenticateToken} from '../middleware/auth.js';
+import { database, ITEM_SLOTS } from '../db.js';
+import  {authenticateToken, requireOfficerOrAdmin} from '../middleware/auth.js';
+import { auditLog } from '../middleware/audit.js';
+import { addWish } from '../services/wishlist.js';
 
 const router = express.Router();
 
+// Wishes are keyed by character and item, so audit entries use "characterId:itemId"
+const wishTargetId = (req: any) => {
+  const characterId = req.params.characterId ?? req.body?.characterId;
+  const itemId = req.params.itemId ?? req.body?.itemId;
+  return characterId && itemId ? `${parseInt(characterId)}:${parseInt(itemId)}` : undefined;
+};
+
+const auditWish = (action?: string) => auditLog('WISH', {
+  ...(action ? { action } : {}),
+  targetId: wishTargetId,
+  snapshot: (req: any, id: string) => {
+    const [characterId = NaN, itemId = NaN] = id.split(':').map(Number);
+    return database.getWish(characterId, itemId);
+  }
+});
+
 /**
  * @swagger
  * /api/wish:
@@ -62,7 +80,7 @@ const router = express.Router();
  *                   $ref: '#/components/schemas/PaginationInfo'
  *   post:
  *     summary: Add wish
- *     description: Add an item to a character's wishlist
+ *     description: Add an item to a character's wishlist. The item's wishlist point cost (explicit, or derived from its rarity) is deducted from the character's budget.
  *     tags: [Wishes]
  *     security:
  *       - BearerAuth: []
@@ -82,6 +100,11 @@ const router = express.Router();
  *               itemId:
  *                 type: integer
  *                 example: 5
+ *               priority:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Rank to insert the wish at (defaults to the bottom of the wishlist); lower-ranked wishes shift down
+ *                 example: 1
  *     responses:
  *       201:
  *         description: Wish added successfully
@@ -97,7 +120,9 @@ const router = express.Router();
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  *       409:
- *         description: Wish already exists
+ *         description: Wish already exists, the character reached the global or per-slot wishlist limit, or the item costs more wishlist points than the character has left
+ *       422:
+ *         description: The item's slot is closed for wishlisting (limit of 0)
  */
 router.get('/', authenticateToken, async (req: any, res) => {
   try {
@@ -115,7 +140,9 @@ router.get('/', authenticateToken, async (req: any, res) => {
     const offset = (pageNum - 1) * limitNum;
 
     // Build filter conditions
-    const filters: any = {};
+    const filters: any = {
+      character: { guildId: req.guild.id }
+    };
     
     if (characterId) {
       filters.characterId = parseInt(characterId);
@@ -128,11 +155,13 @@ router.get('/', authenticateToken, async (req: any, res) => {
     // If userId is specified, filter by characters owned by that user
     if (userId) {
       filters.character = {
+        ...filters.character,
         userId: parseInt(userId)
       };
     } else {
       // If no userId specified, only show current user's characters' wishes
       filters.character = {
+        ...filters.character,
         userId: req.user.id
       };
     }
@@ -151,6 +180,7 @@ router.get('/', authenticateToken, async (req: any, res) => {
         skip: offset,
         take: limitNum,
         where: filters,
+        orderBy: [{ characterId: 'asc' }, { priority: 'asc' }],
         include: {
           character: {
             include: {
@@ -173,6 +203,7 @@ router.get('/', authenticateToken, async (req: any, res) => {
 
     res.json({
       wishes: wishes.map((wish: any) => ({
+        priority: wish.priority,
         character: {
           id: wish.character.id,
           name: wish.character.name,
@@ -203,7 +234,28 @@ router.get('/', authenticateToken, async (req: any, res) => {
   }
 });
 
-// GET /api/wish/character/:characterId - Get all wishes for a specific character
+/**
+ * @swagger
+ * /api/wish/character/{characterId}:
+ *   get:
+ *     summary: Get character wishlist
+ *     description: Get a character's wishes ordered by priority (1 = most wanted). Officers and admins can view any character.
+ *     tags: [Wishes]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Character ID
+ *     responses:
+ *       200:
+ *         description: Wishlist retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
 router.get('/character/:characterId', authenticateToken, async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.characterId);
@@ -211,8 +263,10 @@ router.get('/character/:characterId', authenticateToken, async (req: any, res) =
       return res.status(400).json({ error: 'Invalid character ID' });
     }
 
-    // Verify character belongs to the user
-    const character = await database.getCharacterById(characterId, req.user.id);
+    // Owners see their own wishlists, officers and admins see everyone's
+    const character = req.user.role === 'ADMIN' || req.user.role === 'OFFICER'
+      ? await database.getCharacterByIdAdmin(characterId, req.guild.id)
+      : await database.getCharacterById(characterId, req.user.id, req.guild.id);
     if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
@@ -228,6 +282,8 @@ router.get('/character/:characterId', authenticateToken, async (req: any, res) =
         active: character.active
       },
       wishes: wishes.map((wish: any) => ({
+        priority: wish.priority,
+        pointCost: wish.pointCost,
         item: {
           id: wish.item.id,
           name: wish.item.name,
@@ -236,6 +292,10 @@ router.get('/character/:characterId', authenticateToken, async (req: any, res) =
         },
         canAfford: character.dkp >= wish.item.minDkpCost
       })),
+      wishlistPoints: {
+        remaining: character.wishlistPoints,
+        committed: wishes.reduce((total: number, wish: any) => total + wish.pointCost, 0)
+      },
       totalWishes: wishes.length,
       totalAffordableWishes: wishes.filter((wish: any) => character.dkp >= wish.item.minDkpCost).length
     });
@@ -254,16 +314,14 @@ router.get('/item/:itemId', authenticateToken, async (req: any, res) => {
     }
 
     // Verify item exists
-    const item = await database.getItemById(itemId);
+    const item = await database.getItemById(itemId, req.guild.id);
     if (!item) {
       return res.status(404).json({ error: 'Item not found' });
     }
 
+    // Ordered by each character's wishlist rank, then DKP
     const wishes = await database.getItemWishes(itemId);
 
-    // Sort by DKP descending (priority order)
-    const sortedWishes = wishes.sort((a: any, b: any) => b.character.dkp - a.character.dkp);
-
     res.json({
       item: {
         id: item.id,
@@ -271,8 +329,9 @@ router.get('/item/:itemId', authenticateToken, async (req: any, res) => {
         imageUrl: item.imageUrl,
         minDkpCost: item.minDkpCost
       },
-      wishes: sortedWishes.map((wish: any, index: number) => ({
-        priority: index + 1,
+      wishes: wishes.map((wish: any, index: number) => ({
+        rank: index + 1,
+        priority: wish.priority,
         character: {
           id: wish.character.id,
           name: wish.character.name,
@@ -297,10 +356,117 @@ router.get('/item/:itemId', authenticateToken, async (req: any, res) => {
   }
 });
 
+// Limits are returned as { globalLimit, slotLimits: { SLOT: maxWishes } }
+const formatWishlistLimits = (limits: any[]) => ({
+  globalLimit: limits.find((limit) => limit.slot === null)?.maxWishes ?? null,
+  slotLimits: Object.fromEntries(
+    limits.filter((limit) => limit.slot !== null).map((limit) => [limit.slot, limit.maxWishes])
+  )
+});
+
+/**
+ * @swagger
+ * /api/wish/limits:
+ *   get:
+ *     summary: Get wishlist limits
+ *     description: Get the maximum number of wishes a character may have, overall and per item slot. Slots without a limit are unrestricted.
+ *     tags: [Wishes]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Wishlist limits retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WishlistLimits'
+ *   put:
+ *     summary: Set wishlist limits (Officers+ only)
+ *     description: Replace the wishlist limit configuration. A slot limit of 0 closes that slot for wishlisting. Existing wishes above a new limit are kept; only new wishes are blocked.
+ *     tags: [Wishes]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WishlistLimits'
+ *     responses:
+ *       200:
+ *         description: Wishlist limits updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/limits', authenticateToken, async (req: any, res) => {
+  try {
+    const limits = await database.getWishlistLimits(req.guild.id);
+    const lastUpdate = limits.reduce((latest: any, limit: any) =>
+      !latest || limit.updatedAt > latest.updatedAt ? limit : latest, null);
+
+    res.json({
+      ...formatWishlistLimits(limits),
+      updatedAt: lastUpdate?.updatedAt ?? null,
+      updatedBy: lastUpdate?.updatedBy ?? null
+    });
+  } catch (error) {
+    console.error('Get wishlist limits error:', error);
+    res.status(500).json({ error: 'Failed to fetch wishlist limits' });
+  }
+});
+
+router.put('/limits', authenticateToken, requireOfficerOrAdmin, auditLog('WISHLIST_LIMITS', {
+  action: 'WISHLIST_LIMITS_UPDATE',
+  targetId: () => 'config',
+  snapshot: async (req: any) => formatWishlistLimits(await database.getWishlistLimits(req.guild.id))
+}), async (req: any, res) => {
+  try {
+    const { globalLimit = null, slotLimits = {} } = req.body;
+
+    const isValidLimit = (value: any) => Number.isInteger(value) && value >= 0;
+
+    if (globalLimit !== null && (!isValidLimit(globalLimit) || globalLimit === 0)) {
+      return res.status(400).json({ error: 'Global limit must be a positive integer or null' });
+    }
+
+    if (typeof slotLimits !== 'object' || slotLimits === null || Array.isArray(slotLimits)) {
+      return res.status(400).json({ error: 'Slot limits must be an object of slot to maximum wishes' });
+    }
+
+    for (const [slot, maxWishes] of Object.entries(slotLimits)) {
+      if (!(ITEM_SLOTS as readonly string[]).includes(slot)) {
+        return res.status(400).json({ error: `Unknown slot ${slot}. Valid slots: ${ITEM_SLOTS.join(', ')}` });
+      }
+      if (maxWishes !== null && !isValidLimit(maxWishes)) {
+        return res.status(400).json({ error: `Limit for ${slot} must be a non-negative integer or null` });
+      }
+    }
+
+    const limits = [
+      ...(globalLimit !== null ? [{ slot: null, maxWishes: globalLimit }] : []),
+      ...Object.entries(slotLimits)
+        .filter(([, maxWishes]) => maxWishes !== null)
+        .map(([slot, maxWishes]) => ({ slot: slot as typeof ITEM_SLOTS[number], maxWishes: maxWishes as number }))
+    ];
+
+    const saved = await database.setWishlistLimits(req.guild.id, limits, req.user.id);
+
+    res.json({
+      message: 'Wishlist limits updated successfully',
+      ...formatWishlistLimits(saved)
+    });
+  } catch (error) {
+    console.error('Update wishlist limits error:', error);
+    res.status(500).json({ error: 'Failed to update wishlist limits' });
+  }
+});
+
 // POST /api/wish - Create a new wish (character wishes for an item)
-router.post('/', authenticateToken, async (req: any, res) => {
+router.post('/', authenticateToken, auditWish(), async (req: any, res) => {
   try {
-    const { characterId, itemId } = req.body;
+    const { characterId, itemId, priority } = req.body;
 
     // Validation
     if (!characterId || !itemId) {
@@ -315,45 +481,41 @@ router.post('/', authenticateToken, async (req: any, res) => {
     }
 
     // Verify character belongs to the user
-    const character = await database.getCharacterById(characterIdNum, req.user.id);
+    const character = await database.getCharacterById(characterIdNum, req.user.id, req.guild.id);
     if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
 
-    // Verify character is active
-    if (character.active !== 'ACTIVE') {
-      return res.status(400).json({ error: 'Only active characters can make wishes' });
-    }
-
     // Verify item exists
-    const item = await database.getItemById(itemIdNum);
+    const item = await database.getItemById(itemIdNum, req.guild.id);
     if (!item) {
       return res.status(404).json({ error: 'Item not found' });
     }
 
-    // Check if wish already exists
-    const existingWish = await database.checkWishExists(characterIdNum, itemIdNum);
-    if (existingWish) {
-      return res.status(409).json({ error: 'Character already wishes for this item' });
+    const { wish, violation } = await addWish(character, item, { priority, actorId: req.user.id });
+    if (violation) {
+      const { status, ...body } = violation;
+      return res.status(status).json(body);
     }
 
-    // Create the wish
-    const wish = await database.createWish(characterIdNum, itemIdNum);
-
     res.status(201).json({
       message: 'Wish created successfully',
       wish: {
+        priority: wish.priority,
+        pointCost: wish.pointCost,
         character: {
           id: character.id,
           name: character.name,
           role: character.role,
-          dkp: character.dkp
+          dkp: character.dkp,
+          wishlistPoints: character.wishlistPoints - wish.pointCost
         },
         item: {
           id: item.id,
           name: item.name,
           imageUrl: item.imageUrl,
-          minDkpCost: item.minDkpCost
+          minDkpCost: item.minDkpCost,
+          slot: item.slot
         },
         canAfford: character.dkp >= item.minDkpCost
       }
@@ -369,7 +531,7 @@ router.post('/', authenticateToken, async (req: any, res) => {
  * /api/wish/{characterId}/{itemId}:
  *   delete:
  *     summary: Remove specific wish
- *     description: Remove a specific item from a character's wishlist
+ *     description: Remove a specific item from a character's wishlist and refund the wishlist points paid for it
  *     tags: [Wishes]
  *     security:
  *       - BearerAuth: []
@@ -403,7 +565,7 @@ router.post('/', authenticateToken, async (req: any, res) => {
  *       403:
  *         description: Can only modify your own character's wishes
  */
-router.delete('/:characterId/:itemId', authenticateToken, async (req: any, res) => {
+router.delete('/:characterId/:itemId', authenticateToken, auditWish(), async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.characterId);
     const itemId = parseInt(req.params.itemId);
@@ -413,19 +575,19 @@ router.delete('/:characterId/:itemId', authenticateToken, async (req: any, res)
     }
 
     // Verify character belongs to the user
-    const character = await database.getCharacterById(characterId, req.user.id);
+    const character = await database.getCharacterById(characterId, req.user.id, req.guild.id);
     if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
 
     // Verify wish exists
-    const wishExists = await database.checkWishExists(characterId, itemId);
-    if (!wishExists) {
+    const wish = await database.getWish(characterId, itemId);
+    if (!wish) {
       return res.status(404).json({ error: 'Wish not found' });
     }
 
     // Delete the wish
-    const deleted = await database.deleteWish(characterId, itemId);
+    const deleted = await database.deleteWish(characterId, itemId, req.user.id);
     if (!deleted) {
       return res.status(500).json({ error: 'Failed to remove wish' });
     }
@@ -435,7 +597,8 @@ router.delete('/:characterId/:itemId', authenticateToken, async (req: any, res)
       removedWish: {
         characterId,
         itemId
-      }
+      },
+      refundedPoints: wish.pointCost
     });
   } catch (error) {
     console.error('Delete wish error:', error);
@@ -448,7 +611,7 @@ router.delete('/:characterId/:itemId', authenticateToken, async (req: any, res)
  * /api/wish/character/{characterId}:
  *   delete:
  *     summary: Remove all character wishes
- *     description: Remove all wishes for a specific character
+ *     description: Remove all wishes for a specific character and refund their wishlist points
  *     tags: [Wishes]
  *     security:
  *       - BearerAuth: []
@@ -476,7 +639,10 @@ router.delete('/:characterId/:itemId', authenticateToken, async (req: any, res)
  *       403:
  *         description: Can only modify your own character's wishes
  */
-router.delete('/character/:characterId', authenticateToken, async (req: any, res) => {
+router.delete('/character/:characterId', authenticateToken, auditLog('WISHLIST', {
+  action: 'WISHLIST_CLEAR',
+  targetId: (req: any) => req.params.characterId
+}), async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.characterId);
     if (isNaN(characterId)) {
@@ -484,7 +650,7 @@ router.delete('/character/:characterId', authenticateToken, async (req: any, res
     }
 
     // Verify character belongs to the user
-    const character = await database.getCharacterById(characterId, req.user.id);
+    const character = await database.getCharacterById(characterId, req.user.id, req.guild.id);
     if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
@@ -493,7 +659,7 @@ router.delete('/character/:characterId', authenticateToken, async (req: any, res
     const currentWishes = await database.getCharacterWishes(characterId);
     
     // Delete all wishes for the character
-    const deleted = await database.deleteAllCharacterWishes(characterId);
+    const deleted = await database.deleteAllCharacterWishes(characterId, req.user.id);
 
     res.json({ 
       message: 'All character wishes removed successfully',
@@ -501,7 +667,8 @@ router.delete('/character/:characterId', authenticateToken, async (req: any, res
         id: character.id,
         name: character.name
       },
-      removedWishesCount: currentWishes.length
+      removedWishesCount: currentWishes.length,
+      refundedPoints: currentWishes.reduce((total: number, wish: any) => total + wish.pointCost, 0)
     });
   } catch (error) {
     console.error('Delete character wishes error:', error);
@@ -509,8 +676,48 @@ router.delete('/character/:characterId', authenticateToken, async (req: any, res
   }
 });
 
-// PUT /api/wish/:characterId/:itemId/priority - Update wish priority (for future use)
-router.put('/:characterId/:itemId/priority', authenticateToken, async (req: any, res) => {
+/**
+ * @swagger
+ * /api/wish/{characterId}/{itemId}/priority:
+ *   put:
+ *     summary: Move wish
+ *     description: Move a wish to a new rank on the character's wishlist. Wishes in between shift by one so ranks stay unique and contiguous; ranks past the end move the wish to the bottom.
+ *     tags: [Wishes]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - priority
+ *             properties:
+ *               priority:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 1
+ *     responses:
+ *       200:
+ *         description: Wish priority updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put('/:characterId/:itemId/priority', authenticateToken, auditWish('WISH_PRIORITY_UPDATE'), async (req: any, res) => {
   try {
     const characterId = parseInt(req.params.characterId);
     const itemId = parseInt(req.params.itemId);
@@ -520,12 +727,12 @@ router.put('/:characterId/:itemId/priority', authenticateToken, async (req: any,
       return res.status(400).json({ error: 'Invalid character or item ID' });
     }
 
-    if (!priority || priority < 1) {
-      return res.status(400).json({ error: 'Priority must be a positive number' });
+    if (!Number.isInteger(priority) || priority < 1) {
+      return res.status(400).json({ error: 'Priority must be a positive integer' });
     }
 
     // Verify character belongs to the user
-    const character = await database.getCharacterById(characterId, req.user.id);
+    const character = await database.getCharacterById(characterId, req.user.id, req.guild.id);
     if (!character) {
       return res.status(404).json({ error: 'Character not found or access denied' });
     }
@@ -536,16 +743,23 @@ router.put('/:characterId/:itemId/priority', authenticateToken, async (req: any,
       return res.status(404).json({ error: 'Wish not found' });
     }
 
-    // Note: This is a placeholder for future priority implementation
-    // Current schema doesn't have priority field, but this route is ready for when it's added
+    const wish = await database.moveWish(characterId, itemId, priority);
+    const wishes = await database.getCharacterWishes(characterId);
 
     res.json({ 
-      message: 'Wish priority updated successfully (feature coming soon)',
+      message: 'Wish priority updated successfully',
       wish: {
         characterId,
         itemId,
-        priority
-      }
+        priority: wish.priority
+      },
+      wishlist: wishes.map((entry: any) => ({
+        priority: entry.priority,
+        item: {
+          id: entry.item.id,
+          name: entry.item.name
+        }
+      }))
     });
   } catch (error) {
     console.error('Update wish priority error:', error);
@@ -553,6 +767,112 @@ router.put('/:characterId/:itemId/priority', authenticateToken, async (req: any,
   }
 });
 
+/**
+ * @swagger
+ * /api/wish/character/{characterId}/order:
+ *   put:
+ *     summary: Reorder wishlist
+ *     description: Rank a character's whole wishlist at once. The list must contain every wished item exactly once, most wanted first.
+ *     tags: [Wishes]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: characterId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemIds
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 example: [5, 2, 9]
+ *     responses:
+ *       200:
+ *         description: Wishlist reordered successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A wish was added or removed while reordering
+ */
+router.put('/character/:characterId/order', authenticateToken, auditLog('WISHLIST', {
+  action: 'WISHLIST_REORDER',
+  targetId: (req: any) => req.params.characterId,
+  snapshot: async (req: any, id: string) => {
+    const wishes = await database.getCharacterWishes(parseInt(id));
+    return { itemIds: wishes.map((wish) => wish.itemId) };
+  }
+}), async (req: any, res) => {
+  try {
+    const characterId = parseInt(req.params.characterId);
+    const { itemIds } = req.body;
+
+    if (isNaN(characterId)) {
+      return res.status(400).json({ error: 'Invalid character ID' });
+    }
+
+    if (!Array.isArray(itemIds) || itemIds.some((id: any) => !Number.isInteger(id))) {
+      return res.status(400).json({ error: 'Item IDs must be an array of integers' });
+    }
+
+    // Verify character belongs to the user
+    const character = await database.getCharacterById(characterId, req.user.id, req.guild.id);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found or access denied' });
+    }
+
+    // The new order has to cover the current wishlist exactly
+    const currentWishes = await database.getCharacterWishes(characterId);
+    const currentItemIds = new Set(currentWishes.map((wish: any) => wish.itemId));
+    if (
+      new Set(itemIds).size !== itemIds.length ||
+      itemIds.length !== currentItemIds.size ||
+      itemIds.some((id: number) => !currentItemIds.has(id))
+    ) {
+      return res.status(400).json({
+        error: 'Item IDs must list every wished item exactly once',
+        currentItemIds: currentWishes.map((wish: any) => wish.itemId)
+      });
+    }
+
+    const wishes = await database.reorderWishes(characterId, itemIds);
+    if (!wishes) {
+      return res.status(409).json({ error: 'Wishlist changed while reordering; fetch it and try again' });
+    }
+
+    res.json({
+      message: 'Wishlist reordered successfully',
+      character: {
+        id: character.id,
+        name: character.name
+      },
+      wishes: wishes.map((wish: any) => ({
+        priority: wish.priority,
+        item: {
+          id: wish.item.id,
+          name: wish.item.name,
+          imageUrl: wish.item.imageUrl,
+          minDkpCost: wish.item.minDkpCost
+        }
+      }))
+    });
+  } catch (error) {
+    console.error('Reorder wishes error:', error);
+    res.status(500).json({ error: 'Failed to reorder wishes' });
+  }
+});
+
 // GET /api/wish/stats - Get wish statistics
 router.get('/stats', authenticateToken, async (req: any, res) => {
   try {
@@ -566,9 +886,9 @@ router.get('/stats', authenticateToken, async (req: any, res) => {
       userCharacters,
       topWishedItems
     ] = await Promise.all([
-      database.getUserWishesCount(targetUserId),
-      database.getCharactersByUserId(targetUserId),
-      database.getMostWishedItems(10)
+      database.getUserWishesCount(targetUserId, req.guild.id),
+      database.getCharactersByUserId(targetUserId, req.guild.id),
+      database.getMostWishedItems(req.guild.id, 10)
     ]);
 
     const activeCharacters = userCharacters.filter((char: any) => char.active === 'ACTIVE');
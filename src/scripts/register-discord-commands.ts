@@ -0,0 +1,32 @@
+// Registers the slash commands with Discord. Run after changing DISCORD_COMMANDS:
+//   npm run discord:register-commands
+// Set DISCORD_DEV_SERVER_ID to register them on one server only, where changes show up immediately.
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { DISCORD_COMMANDS } from '../services/discord.js';
+
+dotenv.config();
+
+const applicationId = process.env.DISCORD_CLIENT_ID;
+const botToken = process.env.DISCORD_BOT_TOKEN;
+const devServerId = process.env.DISCORD_DEV_SERVER_ID;
+
+if (!applicationId || !botToken) {
+  console.error('DISCORD_CLIENT_ID and DISCORD_BOT_TOKEN are required');
+  process.exit(1);
+}
+
+const url = devServerId
+  ? `https://discord.com/api/v10/applications/${applicationId}/guilds/${devServerId}/commands`
+  : `https://discord.com/api/v10/applications/${applicationId}/commands`;
+
+try {
+  // PUT replaces the whole set, so commands removed from DISCORD_COMMANDS disappear from Discord too
+  const response = await axios.put(url, DISCORD_COMMANDS, {
+    headers: { Authorization: `Bot ${botToken}` }
+  });
+  console.log(`Registered ${response.data.length} commands${devServerId ? ` on server ${devServerId}` : ''}`);
+} catch (error: any) {
+  console.error('Failed to register commands:', error.response?.data ?? error.message);
+  process.exit(1);
+}
@@ -0,0 +1,50 @@
+// Signs an interaction payload the way Discord does, so the interactions endpoint can be exercised without Discord.
+//   npm run discord:sign -- --keygen                        prints a key pair; put the public key in DISCORD_PUBLIC_KEY
+//   npm run discord:sign -- docs/discord-fixtures/dkp.json  prints a curl command for the signed fixture
+// The private key is read from DISCORD_TEST_PRIVATE_KEY (hex). Signatures are only accepted for five minutes.
+import crypto from 'crypto';
+import fs from 'fs';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// PKCS#8 header for a raw 32-byte Ed25519 seed, and the SPKI header Discord's raw public keys need
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const ED25519_SPKI_PREFIX_LENGTH = 12;
+
+const [arg] = process.argv.slice(2);
+
+if (arg === '--keygen') {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  const seed = privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(ED25519_PKCS8_PREFIX.length);
+  const raw = publicKey.export({ format: 'der', type: 'spki' }).subarray(ED25519_SPKI_PREFIX_LENGTH);
+  console.log(`DISCORD_PUBLIC_KEY=${raw.toString('hex')}`);
+  console.log(`DISCORD_TEST_PRIVATE_KEY=${seed.toString('hex')}`);
+  process.exit(0);
+}
+
+const privateKeyHex = process.env.DISCORD_TEST_PRIVATE_KEY;
+if (!arg || !privateKeyHex) {
+  console.error('Usage: npm run discord:sign -- <payload.json> (with DISCORD_TEST_PRIVATE_KEY set), or --keygen');
+  process.exit(1);
+}
+
+const privateKey = crypto.createPrivateKey({
+  key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(privateKeyHex, 'hex')]),
+  format: 'der',
+  type: 'pkcs8'
+});
+
+// Re-serialized so the body sent is exactly the body signed
+const body = JSON.stringify(JSON.parse(fs.readFileSync(arg, 'utf8')));
+const timestamp = String(Math.floor(Date.now() / 1000));
+const signature = crypto.sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+const port = process.env.PORT || 3000;
+
+console.log([
+  `curl -X POST http://localhost:${port}/api/discord/interactions`,
+  `  -H 'Content-Type: application/json'`,
+  `  -H 'X-Signature-Ed25519: ${signature}'`,
+  `  -H 'X-Signature-Timestamp: ${timestamp}'`,
+  `  --data-raw '${body.replace(/'/g, "'\\''")}'`
+].join(' \\\n'));
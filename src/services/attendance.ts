@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { database } from '../db.js';
+import type { AttendanceStatus, EventStatus, FinalizationRoster, FinalizedAttendance } from '../db.js';
+import { resolveEventStatus } from './lifecycle.js';
+
+// Share of the event's DKP reward paid to late arrivals and benched characters unless the officer overrides it
+export const DEFAULT_LATE_AWARD_PERCENT = 50;
+export const DEFAULT_BENCH_AWARD_PERCENT = 50;
+
+export type FinalizeOptions = {
+  noShows: number[];
+  late: number[];
+  lateAwardPercent: number;
+  benchAwardPercent: number;
+};
+
+const partialAward = (dkpReward: number, percent: number) => Math.round((dkpReward * percent) / 100);
+
+// Works out who gets which attendance status and how much DKP. Only officer-confirmed
+// signups count: accepted ones attend (or arrive late / no-show), benched ones get the bench share.
+export const planEventFinalization = (event: FinalizationRoster, options: FinalizeOptions) => {
+  const attending = event.signups.filter((signup) => signup.confirmed && signup.status === 'ACCEPTED');
+  const attendingIds = new Set(attending.map((signup) => signup.characterId));
+
+  const unknown = [...options.noShows, ...options.late].filter((characterId) => !attendingIds.has(characterId));
+  if (unknown.length > 0) {
+    return { error: `Characters ${[...new Set(unknown)].join(', ')} have no confirmed accepted signup for this event` };
+  }
+
+  const both = options.noShows.filter((characterId) => options.late.includes(characterId));
+  if (both.length > 0) {
+    return { error: `Characters ${both.join(', ')} cannot be both a no-show and late` };
+  }
+
+  const alreadyRecorded = new Set(event.attendances.map((attendance) => attendance.characterId));
+  const attendances: (FinalizedAttendance & { name: string })[] = [];
+  const skipped: { characterId: number; name: string; reason: string }[] = [];
+
+  const award = (signup: FinalizationRoster['signups'][number], status: AttendanceStatus) => {
+    if (alreadyRecorded.has(signup.characterId)) {
+      skipped.push({ characterId: signup.characterId, name: signup.character.name, reason: 'Attendance already recorded' });
+      return;
+    }
+
+    const dkpAwarded = status === 'LATE'
+      ? partialAward(event.dkpReward, options.lateAwardPercent)
+      : status === 'BENCH'
+        ? partialAward(event.dkpReward, options.benchAwardPercent)
+        : event.dkpReward;
+    const reason = status === 'LATE'
+      ? `Attended ${event.title} (late)`
+      : status === 'BENCH'
+        ? `Benched for ${event.title}`
+        : `Attended ${event.title}`;
+
+    attendances.push({ characterId: signup.characterId, name: signup.character.name, status, dkpAwarded, reason });
+  };
+
+  for (const signup of attending) {
+    if (options.noShows.includes(signup.characterId)) continue;
+    award(signup, options.late.includes(signup.characterId) ? 'LATE' : 'PRESENT');
+  }
+
+  for (const signup of event.signups.filter((signup) => signup.confirmed && signup.status === 'BENCH')) {
+    award(signup, 'BENCH');
+  }
+
+  const noShows = attending
+    .filter((signup) => options.noShows.includes(signup.characterId))
+    .map((signup) => ({ characterId: signup.characterId, name: signup.character.name }));
+
+  const unconfirmed = event.signups
+    .filter((signup) => !signup.confirmed && (signup.status === 'ACCEPTED' || signup.status === 'BENCH'))
+    .map((signup) => ({ characterId: signup.characterId, name: signup.character.name, status: signup.status }));
+
+  return { attendances, noShows, unconfirmed, skipped };
+};
+
+type LockableEvent = {
+  status: EventStatus;
+  startTime: Date;
+  endTime: Date;
+  completedAt: Date | null;
+  reopenedAt: Date | null;
+};
+
+// Attendance can change while the event runs and for the guild's grace period after it completes; after that it is locked
+export const checkAttendanceEditable = (
+  event: LockableEvent,
+  guild: { attendanceGraceHours: number },
+  now: Date = new Date()
+): CheckInViolation | null => {
+  const { status, completedAt } = resolveEventStatus(event, now);
+
+  if (status === 'IN_PROGRESS') return null;
+
+  if (status === 'COMPLETED') {
+    if (completedAt && now.getTime() <= completedAt.getTime() + guild.attendanceGraceHours * 60 * 60 * 1000) return null;
+    return { status: 409, error: 'Attendance for this event is locked; an officer can reopen the event to change it' };
+  }
+
+  if (status === 'CANCELLED') {
+    return { status: 409, error: 'Event is cancelled' };
+  }
+
+  return { status: 409, error: status === 'DRAFT' ? 'Event is a draft' : 'Attendance opens when the event starts' };
+};
+
+export type CheckInViolation = {
+  status: 403 | 404 | 409;
+  error: string;
+};
+
+// Avoids characters that are easy to misread when an officer posts the code in chat
+const CHECK_IN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateCheckInCode = (length = 6) =>
+  Array.from({ length }, () => CHECK_IN_CODE_ALPHABET[crypto.randomInt(CHECK_IN_CODE_ALPHABET.length)]).join('');
+
+// Members may only check themselves in while the event is running, with the officer's code if one is set
+export const checkSelfCheckIn = (
+  event: { status: EventStatus; startTime: Date; endTime: Date; finalizedAt: Date | null; checkInCode: string | null },
+  checkInCode: unknown,
+  now: Date = new Date()
+): CheckInViolation | null => {
+  if (event.status === 'DRAFT' || event.status === 'CANCELLED') {
+    return { status: 409, error: event.status === 'DRAFT' ? 'Event is a draft' : 'Event is cancelled' };
+  }
+
+  if (event.finalizedAt) {
+    return { status: 409, error: 'Attendance for this event has been finalized' };
+  }
+
+  if (now < event.startTime) {
+    return { status: 409, error: 'Check-in opens when the event starts' };
+  }
+
+  if (now > event.endTime) {
+    return { status: 409, error: 'Check-in closed when the event ended' };
+  }
+
+  if (event.checkInCode && (typeof checkInCode !== 'string' || checkInCode.trim().toUpperCase() !== event.checkInCode)) {
+    return { status: 403, error: 'A valid check-in code is required for this event' };
+  }
+
+  return null;
+};
+
+type CheckInEvent = LockableEvent & {
+  id: number;
+  title: string;
+  dkpReward: number;
+  finalizedAt: Date | null;
+  checkInCode: string | null;
+  createdById: number | null;
+};
+
+type RecordAttendanceResult =
+  | { attendance: { dkpAwarded: number; pending: boolean }; violation?: undefined }
+  | { violation: CheckInViolation; attendance?: undefined };
+
+// Records a character's attendance and awards the event's DKP, with the rules the REST API and Discord commands share.
+// Members checking themselves in are held to the event window and check-in code, and wait for an officer's approval
+// when their guild requires it. Nobody checks their own character in to an event they created, since they set its
+// reward. Drafts are hidden from members, so they look like a missing event.
+export const recordAttendance = async (
+  event: CheckInEvent,
+  character: { id: number; userId: number },
+  context: {
+    userId: number;
+    isOfficer: boolean;
+    guild: { attendanceGraceHours: number; attendanceApprovalRequired: boolean };
+  },
+  checkInCode?: unknown
+): Promise<RecordAttendanceResult> => {
+  if (event.status === 'DRAFT' && !context.isOfficer) {
+    return { violation: { status: 404, error: 'Event not found' } };
+  }
+
+  if (event.createdById === context.userId && character.userId === context.userId) {
+    return { violation: { status: 403, error: 'Your attendance at an event you created must be recorded by another officer' } };
+  }
+
+  // Attendance is only recorded while the event runs or shortly after it completes
+  const locked = checkAttendanceEditable(event, context.guild);
+  if (locked) return { violation: locked };
+
+  if (!context.isOfficer) {
+    const violation = checkSelfCheckIn(event, checkInCode);
+    if (violation) return { violation };
+  }
+
+  // Pending check-ins are awarded on approval
+  const pending = !context.isOfficer && context.guild.attendanceApprovalRequired;
+  const dkpAwarded = pending ? 0 : event.dkpReward;
+
+  const attendance = await database.addAttendance(event.id, character.id, { dkpAwarded, pending }, {
+    sourceType: 'ATTENDANCE',
+    sourceId: event.id,
+    reason: `Attended ${event.title}`,
+    actorId: context.userId
+  });
+  if (!attendance) {
+    return { violation: { status: 409, error: 'Attendance record already exists for this event and character' } };
+  }
+
+  return { attendance: { dkpAwarded, pending } };
+};
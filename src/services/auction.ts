@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { prisma, database } from '../db.js';
+import type { TransactionClient } from '../db.js';
+import { lootAwardedEmbed, notify } from './notifications.js';
+
+export type AuctionTieBreaker = 'ATTENDANCE' | 'ROLL' | 'WISHLIST';
+
+export const AUCTION_TIE_BREAKERS: AuctionTieBreaker[] = ['ATTENDANCE', 'ROLL', 'WISHLIST'];
+
+// Guild-wide default tie-breaker, overridable when an auction is opened
+export const DEFAULT_TIE_BREAKER: AuctionTieBreaker =
+  AUCTION_TIE_BREAKERS.find((tieBreaker) => tieBreaker === process.env.AUCTION_TIE_BREAKER) ?? 'ATTENDANCE';
+
+type TieBreakValue = { characterId: number; value: number | null };
+
+type TieBreakStep = {
+  method: AuctionTieBreaker;
+  values: TieBreakValue[];
+};
+
+// Keep only the candidates sharing the best value; WISHLIST ranks win when lowest, candidates without a value lose
+const leaders = (method: AuctionTieBreaker, values: TieBreakValue[]) => {
+  const scored = values.filter((entry) => entry.value !== null) as { characterId: number; value: number }[];
+  if (scored.length === 0) return values.map((entry) => entry.characterId);
+
+  const scores = scored.map((entry) => entry.value);
+  const best = method === 'WISHLIST' ? Math.min(...scores) : Math.max(...scores);
+  return scored.filter((entry) => entry.value === best).map((entry) => entry.characterId);
+};
+
+const scoreCandidates = async (
+  tx: TransactionClient,
+  method: AuctionTieBreaker,
+  itemId: number,
+  candidates: number[]
+): Promise<TieBreakValue[]> => {
+  if (method === 'ATTENDANCE') {
+    const counts = await tx.attendance.groupBy({
+      by: ['characterId'],
+      where: { characterId: { in: candidates } },
+      _count: { eventId: true },
+    });
+    const attendance = new Map(counts.map((count) => [count.characterId, count._count.eventId]));
+    return candidates.map((characterId) => ({ characterId, value: attendance.get(characterId) ?? 0 }));
+  }
+
+  if (method === 'WISHLIST') {
+    // The value is the item's rank on the character's wishlist
+    const wishes = await tx.wish.findMany({
+      where: { itemId, characterId: { in: candidates } },
+      select: { characterId: true, priority: true },
+    });
+    const ranks = new Map(wishes.map((wish) => [wish.characterId, wish.priority]));
+    return candidates.map((characterId) => ({ characterId, value: ranks.get(characterId) ?? null }));
+  }
+
+  return candidates.map((characterId) => ({ characterId, value: crypto.randomInt(1, 101) }));
+};
+
+// Apply the auction's tie-breaker, then roll until a single winner remains
+const breakTie = async (
+  tx: TransactionClient,
+  tieBreaker: AuctionTieBreaker,
+  itemId: number,
+  tiedCharacterIds: number[]
+) => {
+  const steps: TieBreakStep[] = [];
+  let candidates = tiedCharacterIds;
+
+  if (tieBreaker !== 'ROLL') {
+    const values = await scoreCandidates(tx, tieBreaker, itemId, candidates);
+    steps.push({ method: tieBreaker, values });
+    candidates = leaders(tieBreaker, values);
+  }
+
+  while (candidates.length > 1) {
+    const values = await scoreCandidates(tx, 'ROLL', itemId, candidates);
+    steps.push({ method: 'ROLL', values });
+    candidates = leaders('ROLL', values);
+  }
+
+  return { winnerId: candidates[0] as number, steps };
+};
+
+// Close an open auction, pick the winner, charge their DKP and record the loot award. Returns null if the auction is not open.
+export const settleAuction = async (auctionId: number, actorId: number | null) => {
+  // Set inside the transaction; the cast keeps TypeScript from narrowing it to null out here
+  let awarded = null as { guildId: number; itemName: string; characterName: string; dkpCost: number } | null;
+
+  const settled = await prisma.$transaction(async (tx) => {
+    // Claim the auction first so concurrent closes (manual and timer) cannot both settle it
+    const claimed = await tx.auction.updateMany({
+      where: { id: auctionId, status: 'OPEN' },
+      data: { status: 'CLOSED', closedAt: new Date(), closedById: actorId },
+    });
+    if (claimed.count === 0) return null;
+
+    const auction = await tx.auction.findUniqueOrThrow({
+      where: { id: auctionId },
+      include: {
+        item: true,
+        bids: {
+          include: { character: true },
+        },
+      },
+    });
+
+    // Bids from characters that went inactive or can no longer cover them are void
+    const validBids = auction.bids.filter((bid) =>
+      bid.character.active === 'ACTIVE' && bid.character.dkp >= bid.amount && bid.amount >= auction.minBid
+    );
+    const voidedBids = auction.bids
+      .filter((bid) => !validBids.includes(bid))
+      .map((bid) => ({ characterId: bid.characterId, amount: bid.amount }));
+
+    let winnerCharacterId: number | null = null;
+    let winningBid: number | null = null;
+    let tieBreak: { tiedCharacterIds: number[]; steps: TieBreakStep[] } | null = null;
+
+    if (validBids.length > 0) {
+      winningBid = Math.max(...validBids.map((bid) => bid.amount));
+      const tiedCharacterIds = validBids
+        .filter((bid) => bid.amount === winningBid)
+        .map((bid) => bid.characterId);
+
+      if (tiedCharacterIds.length > 1) {
+        const result = await breakTie(tx, auction.tieBreaker, auction.itemId, tiedCharacterIds);
+        winnerCharacterId = result.winnerId;
+        tieBreak = { tiedCharacterIds, steps: result.steps };
+      } else {
+        winnerCharacterId = tiedCharacterIds[0] as number;
+      }
+
+      await database.applyDkpChange(tx, winnerCharacterId, -winningBid, {
+        sourceType: 'AUCTION',
+        sourceId: auction.id,
+        reason: `Won auction for ${auction.item.name}`,
+        actorId,
+      });
+
+      await database.recordLootAward(tx, {
+        itemId: auction.itemId,
+        characterId: winnerCharacterId,
+        eventId: auction.eventId,
+        auctionId: auction.id,
+        dkpCost: winningBid,
+        awardedById: actorId,
+        note: 'Won auction',
+      });
+
+      awarded = {
+        guildId: auction.item.guildId,
+        itemName: auction.item.name,
+        characterName: validBids.find((bid) => bid.characterId === winnerCharacterId)!.character.name,
+        dkpCost: winningBid,
+      };
+    }
+
+    const closedAuction = await tx.auction.update({
+      where: { id: auctionId },
+      data: {
+        winnerCharacterId,
+        winningBid,
+        tieBreakDetail: tieBreak ? JSON.stringify(tieBreak) : null,
+      },
+    });
+
+    return { auction: closedAuction, tieBreak, voidedBids };
+  });
+
+  // Announced only once the transaction has committed
+  if (awarded) {
+    const { guildId, ...award } = awarded;
+    notify(guildId, 'LOOT_AWARDED', lootAwardedEmbed({ ...award, lootSystem: 'DKP', gpCost: 0, note: 'Won auction' }));
+  }
+
+  return settled;
+};
+
+// Settle every open auction whose timer has run out
+export const closeExpiredAuctions = async () => {
+  const auctionIds = await database.getExpiredAuctionIds();
+  const settled = [];
+
+  for (const auctionId of auctionIds) {
+    const result = await settleAuction(auctionId, null);
+    if (result) settled.push(result);
+  }
+
+  return settled;
+};
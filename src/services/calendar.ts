@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { EVENT_TYPES } from '../db.js';
+import type { EventStatus, EventType, SignupStatus } from '../db.js';
+
+// Feeds include events that ended this many days ago, so recent raids stay in members' calendars
+export const CALENDAR_PAST_DAYS = Math.max(0, parseInt(process.env.CALENDAR_FEED_PAST_DAYS || '') || 90);
+export const CALENDAR_MAX_EVENTS = 1000;
+
+// Calendar apps poll subscriptions; this asks them to do so hourly
+const REFRESH_INTERVAL = 'PT1H';
+
+type CalendarEvent = {
+  id: number;
+  guildId: number;
+  title: string;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+  status: EventStatus;
+  type: EventType;
+  sequence: number;
+  signups: { status: SignupStatus; confirmed: boolean; character: { name: string } }[];
+};
+
+export const generateFeedToken = () => crypto.randomBytes(32).toString('hex');
+
+// Stable URL for a feed. PUBLIC_API_URL is used when set, since calendar apps need an absolute URL.
+export const getFeedUrl = (token: string, origin: string) =>
+  `${(process.env.PUBLIC_API_URL || origin).replace(/\/+$/, '')}/api/calendar/${token}.ics`;
+
+// Parses a comma separated type filter such as "RAID,PVP"
+export const parseEventTypes = (value: unknown): { types?: EventType[]; error?: string } => {
+  const requested = String(value).toUpperCase().split(',').map((entry) => entry.trim()).filter(Boolean);
+  const invalid = requested.filter((entry) => !(EVENT_TYPES as readonly string[]).includes(entry));
+  if (requested.length === 0 || invalid.length > 0) {
+    return { error: `Type must be one or more of: ${EVENT_TYPES.join(', ')}` };
+  }
+  return { types: requested as EventType[] };
+};
+
+// TEXT values escape backslashes, semicolons, commas and line breaks (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+const foldLine = (line: string) => {
+  const folded: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (folded.length === 0 ? 75 : 74)) {
+      folded.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  folded.push(current);
+  return folded.join('\r\n ');
+};
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Stable across renames, moves and restarts, so calendar apps update the event they already have
+const eventUid = (event: CalendarEvent) => `event-${event.id}.guild-${event.guildId}@guildie`;
+
+const describeEvent = (event: CalendarEvent) => {
+  const lines = event.description ? [event.description] : [];
+  for (const signup of event.signups) {
+    const confirmed = signup.confirmed && signup.status !== 'DECLINED' ? ', confirmed' : '';
+    lines.push(`Your signup: ${signup.character.name} (${signup.status.toLowerCase()}${confirmed})`);
+  }
+  return lines.join('\n\n');
+};
+
+const renderEvent = (event: CalendarEvent, generatedAt: Date) => {
+  const description = describeEvent(event);
+  // Signing up tentatively or declining shows the event as tentative or free time in the member's calendar
+  const signupStatuses = event.signups.map((signup) => signup.status);
+  const declined = signupStatuses.length > 0 && signupStatuses.every((status) => status === 'DECLINED');
+  const tentative = !declined && signupStatuses.length > 0 && !signupStatuses.some((status) => status === 'ACCEPTED');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${formatDateTime(generatedAt)}`,
+    `DTSTART:${formatDateTime(event.startTime)}`,
+    `DTEND:${formatDateTime(event.endTime)}`,
+    `SEQUENCE:${event.sequence}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    `CATEGORIES:${event.type}`,
+    `STATUS:${event.status === 'CANCELLED' ? 'CANCELLED' : tentative ? 'TENTATIVE' : 'CONFIRMED'}`,
+    `TRANSP:${declined || event.status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE'}`,
+    ...(event.signups.length > 0 ? [`X-GUILDIE-SIGNUP-STATUS:${event.signups[0]!.status}`] : []),
+    'END:VEVENT'
+  ];
+};
+
+// A complete VCALENDAR with CRLF line endings. Times are in UTC, so no VTIMEZONE is needed.
+export const renderCalendar = (name: string, events: CalendarEvent[], generatedAt: Date = new Date()) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Guildie//Guild events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap((event) => renderEvent(event, generatedAt)),
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
@@ -0,0 +1,217 @@
+import { prisma, database } from '../db.js';
+import type { DecayPeriod } from '../db.js';
+
+export const DECAY_PERIODS: DecayPeriod[] = ['WEEKLY', 'MONTHLY'];
+
+type DecaySettings = {
+  percent: number;
+  floor: number;
+};
+
+type DecayCandidate = {
+  id: number;
+  name: string;
+  dkp: number;
+  decayExempt: boolean;
+};
+
+export type DecayEntry = {
+  characterId: number;
+  name: string;
+  balance: number;
+  decay: number;
+  balanceAfter: number;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The period a moment falls in, in UTC. Weeks are ISO weeks (Monday start), keyed like 2025-W44; months like 2025-11.
+export const getDecayPeriod = (period: DecayPeriod, now: Date = new Date()) => {
+  if (period === 'MONTHLY') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return { key: `${start.getUTCFullYear()}-${pad(start.getUTCMonth() + 1)}`, start };
+  }
+
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+
+  // The ISO week-numbering year is the year of that week's Thursday
+  const thursday = new Date(start.getTime() + 3 * 24 * 60 * 60 * 1000);
+  const firstOfYear = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - firstOfYear) / (7 * 24 * 60 * 60 * 1000)) + 1;
+
+  return { key: `${thursday.getUTCFullYear()}-W${pad(week)}`, start };
+};
+
+// Decay rounds down to whole DKP and never takes a balance below the floor; exempt characters are left alone
+export const calculateDecay = (characters: DecayCandidate[], settings: DecaySettings): DecayEntry[] =>
+  characters
+    .filter((character) => !character.decayExempt && character.dkp > settings.floor)
+    .map((character) => {
+      const decay = Math.min(Math.floor(character.dkp * settings.percent / 100), character.dkp - settings.floor);
+      return {
+        characterId: character.id,
+        name: character.name,
+        balance: character.dkp,
+        decay,
+        balanceAfter: character.dkp - decay
+      };
+    })
+    .filter((entry) => entry.decay > 0);
+
+export const parseDecaySettings = (input: any): { settings?: Partial<DecaySettings & { period: DecayPeriod; enabled: boolean }>; error?: string } => {
+  const { enabled, percent, period, floor } = input ?? {};
+  const settings: Partial<DecaySettings & { period: DecayPeriod; enabled: boolean }> = {};
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { error: 'Enabled must be a boolean' };
+    settings.enabled = enabled;
+  }
+
+  if (percent !== undefined) {
+    if (typeof percent !== 'number' || !(percent > 0 && percent <= 100)) {
+      return { error: 'Percent must be a number greater than 0 and at most 100' };
+    }
+    settings.percent = percent;
+  }
+
+  if (period !== undefined) {
+    if (!DECAY_PERIODS.includes(period)) {
+      return { error: `Period must be one of: ${DECAY_PERIODS.join(', ')}` };
+    }
+    settings.period = period;
+  }
+
+  if (floor !== undefined) {
+    if (!Number.isInteger(floor) || floor < 0) {
+      return { error: 'Floor must be a non-negative integer' };
+    }
+    settings.floor = floor;
+  }
+
+  return { settings };
+};
+
+// What a decay run for the current period would do, without writing anything. Null without a policy or a percent to try.
+export const previewDkpDecay = async (guildId: number, overrides: Partial<DecaySettings> = {}, now: Date = new Date()) => {
+  const policy = await database.getDkpDecayPolicy(guildId);
+  const percent = overrides.percent ?? policy?.percent;
+  if (percent === undefined) return null;
+
+  const floor = overrides.floor ?? policy?.floor ?? 0;
+  const period = getDecayPeriod(policy?.period ?? 'WEEKLY', now);
+  const [characters, appliedRun] = await Promise.all([
+    database.getDecayCandidates(guildId),
+    database.getDkpDecayRunForPeriod(guildId, period.key)
+  ]);
+  const entries = calculateDecay(characters, { percent, floor });
+
+  return {
+    periodKey: period.key,
+    percent,
+    floor,
+    alreadyApplied: appliedRun !== null,
+    characterCount: entries.length,
+    totalDecayed: entries.reduce((sum, entry) => sum + entry.decay, 0),
+    entries
+  };
+};
+
+// Decay every non-exempt balance in the guild once for the current period.
+// A period with an applied run is never decayed again; scheduled runs also leave reverted periods alone.
+export const applyDkpDecay = async (guildId: number, options: { actorId?: number | null; scheduled?: boolean; now?: Date } = {}) => {
+  const now = options.now ?? new Date();
+
+  return await prisma.$transaction(async (tx) => {
+    const policy = await tx.dkpDecayPolicy.findUnique({ where: { guildId } });
+    if (!policy) {
+      return { applied: false as const, reason: 'NO_POLICY' as const, periodKey: null, run: null };
+    }
+
+    const period = getDecayPeriod(policy.period, now);
+    const existing = await tx.dkpDecayRun.findFirst({
+      where: {
+        guildId,
+        periodKey: period.key,
+        ...(options.scheduled ? {} : { status: 'APPLIED' }),
+      },
+    });
+    if (existing) {
+      return { applied: false as const, reason: 'ALREADY_RUN' as const, periodKey: period.key, run: existing };
+    }
+
+    const characters = await tx.character.findMany({
+      where: { guildId },
+      select: { id: true, name: true, dkp: true, decayExempt: true },
+    });
+    const entries = calculateDecay(characters, policy);
+
+    const run = await tx.dkpDecayRun.create({
+      data: {
+        guildId,
+        period: policy.period,
+        periodKey: period.key,
+        percent: policy.percent,
+        floor: policy.floor,
+        characterCount: entries.length,
+        totalDecayed: entries.reduce((sum, entry) => sum + entry.decay, 0),
+        triggeredById: options.actorId ?? null,
+      },
+    });
+
+    for (const entry of entries) {
+      await database.applyDkpChange(tx, entry.characterId, -entry.decay, {
+        sourceType: 'DECAY',
+        sourceId: run.id,
+        reason: `${policy.percent}% decay for ${period.key}`,
+        actorId: options.actorId ?? null,
+      });
+    }
+
+    return { applied: true as const, run, entries };
+  });
+};
+
+// Give back exactly what a run took, as DECAY ledger entries pointing at the same run. Returns null if the run was already reverted.
+export const revertDkpDecay = async (runId: number, actorId: number) => {
+  return await prisma.$transaction(async (tx) => {
+    const claimed = await tx.dkpDecayRun.updateMany({
+      where: { id: runId, status: 'APPLIED' },
+      data: { status: 'REVERTED', revertedById: actorId, revertedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const decayed = await tx.dkpTransaction.findMany({
+      where: { sourceType: 'DECAY', sourceId: runId, delta: { lt: 0 } },
+    });
+
+    for (const transaction of decayed) {
+      await database.applyDkpChange(tx, transaction.characterId, -transaction.delta, {
+        sourceType: 'DECAY',
+        sourceId: runId,
+        reason: `Reverted decay run #${runId}`,
+        actorId,
+      });
+    }
+
+    const run = await tx.dkpDecayRun.findUniqueOrThrow({ where: { id: runId } });
+    return { run, restored: decayed.length, totalRestored: decayed.reduce((sum, transaction) => sum - transaction.delta, 0) };
+  });
+};
+
+// Run decay for every guild whose policy is enabled and whose current period has no run yet.
+// The period the policy was enabled in is skipped, so turning decay on never charges a partial period.
+export const runScheduledDkpDecay = async (now: Date = new Date()) => {
+  const policies = await database.getEnabledDkpDecayPolicies();
+  const runs = [];
+
+  for (const policy of policies) {
+    const period = getDecayPeriod(policy.period, now);
+    if (policy.enabledAt && policy.enabledAt > period.start) continue;
+
+    const result = await applyDkpDecay(policy.guildId, { scheduled: true, now });
+    if (result.applied) runs.push(result.run);
+  }
+
+  return runs;
+};
@@ -0,0 +1,449 @@
+import crypto from 'crypto';
+import { database } from '../db.js';
+import { recordAuditEntry } from '../middleware/audit.js';
+import { recordAttendance } from './attendance.js';
+import { CHARACTER_ROLES, SIGNUP_STATUSES, submitSignup } from './signup.js';
+import { addWish } from './wishlist.js';
+
+export const InteractionType = {
+  PING: 1,
+  APPLICATION_COMMAND: 2
+} as const;
+
+export const InteractionResponseType = {
+  PONG: 1,
+  CHANNEL_MESSAGE_WITH_SOURCE: 4
+} as const;
+
+const OptionType = {
+  SUB_COMMAND: 1,
+  STRING: 3,
+  INTEGER: 4
+} as const;
+
+// Message flag that shows a reply only to the member who ran the command
+const EPHEMERAL = 1 << 6;
+
+// Discord hands out the raw 32-byte Ed25519 key; node wants it wrapped in an SPKI header
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Signed requests older than this are refused so captured payloads cannot be replayed
+const MAX_TIMESTAMP_SKEW_SECONDS = 5 * 60;
+
+const UPCOMING_EVENT_LIMIT = 10;
+
+type InteractionOption = {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: InteractionOption[];
+};
+
+type DiscordUser = {
+  id: string;
+  username?: string;
+};
+
+export type Interaction = {
+  type: number;
+  guild_id?: string;
+  member?: { user: DiscordUser };
+  user?: DiscordUser;
+  data?: {
+    name: string;
+    options?: InteractionOption[];
+  };
+};
+
+type CommandContext = {
+  user: { id: number; username: string };
+  guild: { id: number; name: string; attendanceGraceHours: number; attendanceApprovalRequired: boolean };
+  role: string;
+  isOfficer: boolean;
+};
+
+// Slash commands as registered with Discord (see src/scripts/register-discord-commands.ts)
+export const DISCORD_COMMANDS = [
+  {
+    name: 'dkp',
+    description: 'Show DKP balances',
+    options: [
+      { type: OptionType.STRING, name: 'character', description: 'Character name (officers can look up anyone)', required: false }
+    ]
+  },
+  {
+    name: 'wish',
+    description: 'Manage your wishlist',
+    options: [
+      {
+        type: OptionType.SUB_COMMAND,
+        name: 'add',
+        description: 'Add an item to a wishlist',
+        options: [
+          { type: OptionType.STRING, name: 'item', description: 'Exact item name', required: true },
+          { type: OptionType.STRING, name: 'character', description: 'Your character (needed if you have several)', required: false },
+          { type: OptionType.INTEGER, name: 'priority', description: 'Position on the wishlist, 1 is highest', required: false, min_value: 1 }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'events',
+    description: 'Guild events',
+    options: [
+      {
+        type: OptionType.SUB_COMMAND,
+        name: 'upcoming',
+        description: 'List upcoming events',
+        options: [
+          { type: OptionType.INTEGER, name: 'days', description: 'How many days ahead (default 7)', required: false, min_value: 1, max_value: 60 }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'signup',
+    description: 'Sign up for an event',
+    options: [
+      { type: OptionType.INTEGER, name: 'event', description: 'Event ID (see /events upcoming)', required: true },
+      {
+        type: OptionType.STRING,
+        name: 'status',
+        description: 'Your answer',
+        required: true,
+        choices: SIGNUP_STATUSES.map((status) => ({ name: status.toLowerCase(), value: status }))
+      },
+      { type: OptionType.STRING, name: 'character', description: 'Your character (needed if you have several)', required: false },
+      {
+        type: OptionType.STRING,
+        name: 'role',
+        description: 'Role to play (defaults to the character role)',
+        required: false,
+        choices: CHARACTER_ROLES.map((role) => ({ name: role.toLowerCase(), value: role }))
+      },
+      { type: OptionType.STRING, name: 'note', description: 'Note for the officers', required: false, max_length: 500 }
+    ]
+  },
+  {
+    name: 'attend',
+    description: 'Check in to a running event',
+    options: [
+      { type: OptionType.INTEGER, name: 'event', description: 'Event ID', required: true },
+      { type: OptionType.STRING, name: 'character', description: 'Character to check in (officers can name anyone)', required: false },
+      { type: OptionType.STRING, name: 'code', description: 'Check-in code, if the officers set one', required: false }
+    ]
+  }
+];
+
+// Verifies the X-Signature-Ed25519 / X-Signature-Timestamp headers Discord signs every interaction with
+export const verifyInteractionSignature = (
+  rawBody: Buffer,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  publicKey: string,
+  now: Date = new Date()
+) => {
+  if (!signature || !timestamp || !/^[0-9a-f]{128}$/i.test(signature) || !/^\d+$/.test(timestamp)) {
+    return false;
+  }
+
+  if (Math.abs(now.getTime() / 1000 - parseInt(timestamp)) > MAX_TIMESTAMP_SKEW_SECONDS) {
+    return false;
+  }
+
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+      format: 'der',
+      type: 'spki'
+    });
+    return crypto.verify(null, Buffer.concat([Buffer.from(timestamp), rawBody]), key, Buffer.from(signature, 'hex'));
+  } catch {
+    return false;
+  }
+};
+
+export const reply = (content: string, options: { ephemeral?: boolean } = {}) => ({
+  type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+  data: {
+    content,
+    // Character and item names are user input; never let them ping anyone
+    allowed_mentions: { parse: [] },
+    ...(options.ephemeral !== false && { flags: EPHEMERAL })
+  }
+});
+
+const getOptions = (options: InteractionOption[] = []) =>
+  Object.fromEntries(options.map((option) => [option.name, option.value]));
+
+// Discord renders these in each viewer's own time zone
+export const discordTime = (date: Date, style: 'F' | 'R' = 'F') => `<t:${Math.floor(date.getTime() / 1000)}:${style}>`;
+
+// The Guildie user behind the Discord account, the guild linked to the Discord server (or the user's only guild in DMs)
+// and their role in it, which every command checks just like requireGuild does for the REST routes
+const resolveContext = async (interaction: Interaction): Promise<{ context?: CommandContext; error?: string }> => {
+  const discordUser = interaction.member?.user ?? interaction.user;
+  if (!discordUser) {
+    return { error: 'Could not tell who ran this command' };
+  }
+
+  const user = await database.getUserByDiscordId(discordUser.id);
+  if (!user) {
+    return { error: 'Your Discord account is not linked to Guildie yet. Log in on the website once, then try again.' };
+  }
+
+  const memberships = await database.getUserGuilds(user.id);
+  let membership;
+
+  if (interaction.guild_id) {
+    const guild = await database.getGuildByDiscordId(interaction.guild_id);
+    if (!guild) {
+      return { error: 'This Discord server is not linked to a Guildie guild. A guild admin can link it in the guild settings.' };
+    }
+
+    membership = memberships.find((entry) => entry.guildId === guild.id);
+    if (!membership) {
+      return { error: `You are not a member of ${guild.name} on Guildie` };
+    }
+  } else if (memberships.length === 1) {
+    membership = memberships[0];
+  }
+
+  if (!membership) {
+    return { error: 'Run this command in your guild\'s Discord server so Guildie knows which guild you mean' };
+  }
+
+  return {
+    context: {
+      user: { id: user.id, username: user.username },
+      guild: {
+        id: membership.guild.id,
+        name: membership.guild.name,
+        attendanceGraceHours: membership.guild.attendanceGraceHours,
+        attendanceApprovalRequired: membership.guild.attendanceApprovalRequired
+      },
+      role: membership.role,
+      isOfficer: membership.role === 'ADMIN' || membership.role === 'OFFICER'
+    }
+  };
+};
+
+// Commands act on a named character, or on the member's only active one. Officers may name any character in the guild.
+const resolveCharacter = async (context: CommandContext, name: unknown, options: { allowOthers?: boolean } = {}) => {
+  if (typeof name === 'string' && name.trim()) {
+    const wanted = name.trim();
+
+    if (options.allowOthers && context.isOfficer) {
+      const character = await database.getCharacterByName(wanted, context.guild.id);
+      return character ? { character } : { error: `No character named ${wanted} in ${context.guild.name}` };
+    }
+
+    const own = await database.getCharactersByUserId(context.user.id, context.guild.id);
+    const character = own.find((entry) => entry.name.toLowerCase() === wanted.toLowerCase());
+    return character ? { character } : { error: `You have no character named ${wanted}` };
+  }
+
+  const active = (await database.getCharactersByUserId(context.user.id, context.guild.id))
+    .filter((character) => character.active === 'ACTIVE');
+
+  if (active.length === 0) {
+    return { error: `You have no active characters in ${context.guild.name}` };
+  }
+  if (active.length > 1) {
+    return { error: `You have several characters (${active.map((character) => character.name).join(', ')}); pick one with the character option` };
+  }
+
+  return { character: active[0]! };
+};
+
+// Discord actions land in the same audit log as the REST calls they mirror, with the same snapshots of the target
+// and the linked user as the actor
+const audit = async (
+  context: CommandContext,
+  command: string,
+  entry: { action: string; targetType: string; targetId: string; before: unknown; after: unknown }
+) => {
+  try {
+    await recordAuditEntry({
+      guildId: context.guild.id,
+      actorId: context.user.id,
+      actorRole: context.role,
+      ...entry,
+      method: 'DISCORD',
+      path: `/${command}`,
+      ip: null
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
+
+const dkpCommand = async (context: CommandContext, options: Record<string, unknown>) => {
+  if (options.character !== undefined) {
+    const { character, error } = await resolveCharacter(context, options.character, { allowOthers: true });
+    if (!character) return reply(error!);
+    return reply(`**${character.name}** has **${character.dkp}** DKP`);
+  }
+
+  const characters = await database.getCharactersByUserId(context.user.id, context.guild.id);
+  if (characters.length === 0) {
+    return reply(`You have no characters in ${context.guild.name}`);
+  }
+
+  return reply(characters.map((character) =>
+    `**${character.name}**: ${character.dkp} DKP${character.active === 'ACTIVE' ? '' : ' (inactive)'}`
+  ).join('\n'));
+};
+
+const wishAddCommand = async (context: CommandContext, options: Record<string, unknown>) => {
+  const { character, error } = await resolveCharacter(context, options.character);
+  if (!character) return reply(error!);
+
+  const item = await database.getItemByName(String(options.item ?? '').trim(), context.guild.id);
+  if (!item) {
+    return reply(`No item named ${options.item} in ${context.guild.name}`);
+  }
+
+  const { wish, violation } = await addWish(character, item, { priority: options.priority, actorId: context.user.id });
+  if (violation) return reply(violation.error);
+
+  await audit(context, 'wish add', {
+    action: 'WISH_CREATE',
+    targetType: 'WISH',
+    targetId: `${character.id}:${item.id}`,
+    before: null,
+    after: await database.getWish(character.id, item.id)
+  });
+
+  return reply(`Added **${item.name}** to ${character.name}'s wishlist at priority ${wish.priority} ` +
+    `(${wish.pointCost} point${wish.pointCost === 1 ? '' : 's'}, ${character.wishlistPoints - wish.pointCost} left)`);
+};
+
+const eventsUpcomingCommand = async (context: CommandContext, options: Record<string, unknown>) => {
+  const days = Number.isInteger(options.days) ? Math.min(60, Math.max(1, options.days as number)) : 7;
+  const now = new Date();
+  const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const events = await database.getEvents({
+    where: {
+      guildId: context.guild.id,
+      startTime: { gte: now, lte: until },
+      status: { notIn: ['DRAFT', 'CANCELLED'] }
+    },
+    orderBy: { startTime: 'asc' },
+    take: UPCOMING_EVENT_LIMIT
+  });
+
+  if (events.length === 0) {
+    return reply(`No events in the next ${days} day${days === 1 ? '' : 's'}`, { ephemeral: false });
+  }
+
+  return reply([
+    `**Upcoming events in ${context.guild.name}**`,
+    ...events.map((event) =>
+      `#${event.id} **${event.title}**: ${discordTime(event.startTime)} (${discordTime(event.startTime, 'R')})` +
+      (event.dkpReward > 0 ? `, ${event.dkpReward} DKP` : '')
+    )
+  ].join('\n'), { ephemeral: false });
+};
+
+const signupCommand = async (context: CommandContext, options: Record<string, unknown>) => {
+  const event = await database.getEventById(Number(options.event), context.guild.id);
+  if (!event) {
+    return reply('Event not found');
+  }
+
+  const { character, error } = await resolveCharacter(context, options.character);
+  if (!character) return reply(error!);
+
+  const before = await database.getEventSignup(event.id, character.id);
+  const { signup, updated, violation } = await submitSignup(
+    event,
+    character,
+    { userId: context.user.id, isOfficer: context.isOfficer },
+    { status: options.status, role: options.role, note: options.note }
+  );
+  if (violation) {
+    return reply(violation.signupCutoff
+      ? `Signups for ${event.title} closed ${discordTime(violation.signupCutoff, 'R')}`
+      : violation.error);
+  }
+
+  await audit(context, 'signup', {
+    action: 'EVENT_SIGNUP',
+    targetType: 'EVENT_SIGNUP',
+    targetId: `${event.id}:${character.id}`,
+    before,
+    after: await database.getEventSignup(event.id, character.id)
+  });
+
+  return reply(`${updated ? 'Updated' : 'Signed up'} **${character.name}** for **${event.title}** as ${signup.status.toLowerCase()}` +
+    (signup.role ? ` (${signup.role.toLowerCase()})` : ''));
+};
+
+const attendCommand = async (context: CommandContext, options: Record<string, unknown>) => {
+  const event = await database.getEventById(Number(options.event), context.guild.id);
+  if (!event) {
+    return reply('Event not found');
+  }
+
+  const { character, error } = await resolveCharacter(context, options.character, { allowOthers: true });
+  if (!character) return reply(error!);
+
+  const { attendance, violation } = await recordAttendance(event, character, {
+    userId: context.user.id,
+    isOfficer: context.isOfficer,
+    guild: context.guild
+  }, options.code);
+  if (violation) return reply(violation.error);
+
+  const { dkpAwarded, pending } = attendance;
+  await audit(context, 'attend', {
+    action: 'ATTENDANCE_CREATE',
+    targetType: 'ATTENDANCE',
+    targetId: `${event.id}:${character.id}`,
+    before: null,
+    after: {
+      attendance: { eventId: event.id, characterId: character.id, dkpAwarded, pending },
+      event: { id: event.id, title: event.title, startTime: event.startTime, dkpReward: event.dkpReward }
+    }
+  });
+
+  if (pending) {
+    return reply(`Checked **${character.name}** in to **${event.title}**, awaiting officer approval`);
+  }
+  return reply(`Checked **${character.name}** in to **${event.title}**` + (dkpAwarded > 0 ? `, +${dkpAwarded} DKP` : ''));
+};
+
+// Answers a verified interaction. Command failures are answered in Discord rather than as HTTP errors.
+export const handleInteraction = async (interaction: Interaction) => {
+  if (interaction.type === InteractionType.PING) {
+    return { type: InteractionResponseType.PONG };
+  }
+
+  if (interaction.type !== InteractionType.APPLICATION_COMMAND || !interaction.data) {
+    return reply('This interaction is not supported');
+  }
+
+  const { context, error } = await resolveContext(interaction);
+  if (!context) return reply(error!);
+
+  const { name, options = [] } = interaction.data;
+  const subcommand = options.find((option) => option.type === OptionType.SUB_COMMAND);
+  const values = getOptions(subcommand ? subcommand.options : options);
+
+  switch (subcommand ? `${name} ${subcommand.name}` : name) {
+    case 'dkp':
+      return await dkpCommand(context, values);
+    case 'wish add':
+      return await wishAddCommand(context, values);
+    case 'events upcoming':
+      return await eventsUpcomingCommand(context, values);
+    case 'signup':
+      return await signupCommand(context, values);
+    case 'attend':
+      return await attendCommand(context, values);
+    default:
+      return reply(`Unknown command /${name}`);
+  }
+};
@@ -0,0 +1,73 @@
+import type { GearSubmissionStatus } from '../db.js';
+import { getUploadKey } from './uploads.js';
+
+export const MAX_GEAR_CHECK_IMAGES = 10;
+
+// Where a target character stands on a gear check, judged by their latest submission
+export type GearCheckTargetState = 'MISSING' | GearSubmissionStatus;
+
+type SubmissionSummary = {
+  characterId: number;
+  status: GearSubmissionStatus;
+  createdAt: Date;
+};
+
+export const parseImageUrls = (input: any): { imageUrls?: string[]; error?: string } => {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'At least one image URL is required' };
+  }
+
+  if (input.length > MAX_GEAR_CHECK_IMAGES) {
+    return { error: `At most ${MAX_GEAR_CHECK_IMAGES} images per submission` };
+  }
+
+  const imageUrls: string[] = [];
+  for (const value of input) {
+    if (typeof value !== 'string' || value.length > 500) {
+      return { error: 'Image URLs must be strings of at most 500 characters' };
+    }
+
+    // Relative URLs of images uploaded through /api/uploads are fine as they are
+    if (getUploadKey(value)) {
+      imageUrls.push(value.trim());
+      continue;
+    }
+
+    try {
+      const url = new URL(value.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { error: `Not an http(s) URL: ${value}` };
+      }
+    } catch {
+      return { error: `Invalid image URL: ${value}` };
+    }
+
+    imageUrls.push(value.trim());
+  }
+
+  return { imageUrls };
+};
+
+// Submissions must be sorted newest first
+export const getTargetState = (characterId: number, submissions: SubmissionSummary[]): GearCheckTargetState =>
+  submissions.find((submission) => submission.characterId === characterId)?.status ?? 'MISSING';
+
+// Past due with nothing approved and nothing waiting for review; a rejected submission has to be redone
+export const isTargetOverdue = (dueAt: Date, state: GearCheckTargetState, now: Date = new Date()) =>
+  now > dueAt && (state === 'MISSING' || state === 'REJECTED');
+
+export const summarizeTargets = (
+  check: { dueAt: Date; targets: { characterId: number }[]; submissions: SubmissionSummary[] },
+  now: Date = new Date()
+) => {
+  const states = check.targets.map((target) => getTargetState(target.characterId, check.submissions));
+
+  return {
+    targets: states.length,
+    approved: states.filter((state) => state === 'APPROVED').length,
+    pending: states.filter((state) => state === 'PENDING').length,
+    rejected: states.filter((state) => state === 'REJECTED').length,
+    missing: states.filter((state) => state === 'MISSING').length,
+    overdue: states.filter((state) => isTargetOverdue(check.dueAt, state, now)).length
+  };
+};
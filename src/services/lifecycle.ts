@@ -0,0 +1,98 @@
+import { database } from '../db.js';
+import type { EventStatus } from '../db.js';
+
+export const EVENT_STATUSES: EventStatus[] = ['DRAFT', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+
+// Statuses an officer may move an event to. Completed and cancelled events only come back through a reopen.
+const TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  DRAFT: ['SCHEDULED', 'CANCELLED'],
+  SCHEDULED: ['DRAFT', 'IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: []
+};
+
+const STATUS_BATCH_SIZE = 100;
+
+type LifecycleEvent = {
+  status: EventStatus;
+  startTime: Date;
+  endTime: Date;
+  completedAt?: Date | null;
+  reopenedAt?: Date | null;
+};
+
+export type LifecycleViolation = {
+  status: 400 | 409;
+  error: string;
+};
+
+// An event reopened after it ended stays open until an officer completes it again
+const hasEnded = (event: LifecycleEvent, now: Date) =>
+  now >= event.endTime && !(event.reopenedAt && event.reopenedAt >= event.endTime);
+
+// The status an event is in right now. Scheduled events start and running events end on their own,
+// so this is ahead of the stored status until the event-lifecycle job catches up.
+export const resolveEventStatus = (event: LifecycleEvent, now: Date = new Date()): { status: EventStatus; completedAt: Date | null } => {
+  if ((event.status === 'SCHEDULED' || event.status === 'IN_PROGRESS') && hasEnded(event, now)) {
+    return { status: 'COMPLETED', completedAt: event.endTime };
+  }
+
+  if (event.status === 'SCHEDULED' && now >= event.startTime) {
+    return { status: 'IN_PROGRESS', completedAt: null };
+  }
+
+  return { status: event.status, completedAt: event.completedAt ?? null };
+};
+
+export const checkTransition = (event: LifecycleEvent, to: unknown, now: Date = new Date()): LifecycleViolation | null => {
+  if (!EVENT_STATUSES.includes(to as EventStatus)) {
+    return { status: 400, error: `Status must be one of: ${EVENT_STATUSES.join(', ')}` };
+  }
+
+  const { status } = resolveEventStatus(event, now);
+  if (status === to) {
+    return { status: 409, error: `Event is already ${status}` };
+  }
+
+  if (!TRANSITIONS[status].includes(to as EventStatus)) {
+    return status === 'COMPLETED' || status === 'CANCELLED'
+      ? { status: 409, error: `Event is ${status}; reopen it first` }
+      : { status: 409, error: `Event cannot move from ${status} to ${to}` };
+  }
+
+  // Scheduling is for events that have not started; one that has would start again straight away
+  if ((to === 'SCHEDULED' || to === 'DRAFT') && now >= event.startTime) {
+    return { status: 409, error: 'Event has already started' };
+  }
+
+  return null;
+};
+
+// Completed events go back to in progress so attendance can be fixed; cancelled ones go back on the schedule
+export const planReopen = (event: LifecycleEvent, now: Date = new Date()): { status?: EventStatus; error?: string } => {
+  const { status } = resolveEventStatus(event, now);
+  if (status === 'COMPLETED') return { status: 'IN_PROGRESS' };
+  if (status === 'CANCELLED') return { status: 'SCHEDULED' };
+  return { error: `Only completed or cancelled events can be reopened; event is ${status}` };
+};
+
+// Store the status events have moved into on their own since they were last saved
+export const advanceEventStatuses = async (now: Date = new Date()) => {
+  const events = await database.getEventsDueStatusChange(now, STATUS_BATCH_SIZE);
+  const summary = { started: 0, completed: 0 };
+
+  for (const event of events) {
+    const next = resolveEventStatus(event, now);
+    if (next.status === event.status) continue;
+
+    const updated = await database.transitionEvent(event.id, event.status, {
+      status: next.status,
+      completedAt: next.completedAt
+    });
+    if (updated?.status === 'COMPLETED') summary.completed++;
+    else if (updated) summary.started++;
+  }
+
+  return summary;
+};
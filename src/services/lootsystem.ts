@@ -0,0 +1,116 @@
+import { database } from '../db.js';
+import type { ItemCategory, LootSystem } from '../db.js';
+
+export const LOOT_SYSTEMS: LootSystem[] = ['DKP', 'EPGP', 'SUICIDE_KINGS'];
+
+export const DEFAULT_EPGP_SETTINGS = {
+  baseGp: 100,
+  decayPercent: 10,
+  minEp: 0
+};
+
+type EpgpSettings = typeof DEFAULT_EPGP_SETTINGS;
+
+type PointRecord = {
+  characterId: number;
+  points: number;
+  earnedAt: Date;
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The item's category setting wins over the guild default; guilds that configured nothing use DKP
+export const resolveLootSystem = (
+  settings: { category: ItemCategory | null; system: LootSystem }[],
+  category: ItemCategory | null
+): LootSystem =>
+  (category ? settings.find((setting) => setting.category === category)?.system : undefined) ??
+  settings.find((setting) => setting.category === null)?.system ??
+  'DKP';
+
+export const getLootSystemForItem = async (guildId: number, item: { category: ItemCategory | null }) =>
+  resolveLootSystem(await database.getLootSystemSettings(guildId), item.category);
+
+// GP charged for an item under EPGP; items without their own value cost their minimum DKP
+export const getItemGpCost = (item: { gpCost: number | null; minDkpCost: number }) => item.gpCost ?? item.minDkpCost;
+
+// Points lose decayPercent for every full week since they were earned
+const decayedTotal = (records: PointRecord[], decayPercent: number, now: Date) =>
+  records.reduce((total, record) => {
+    const weeks = Math.max(0, Math.floor((now.getTime() - record.earnedAt.getTime()) / WEEK_MS));
+    return total + record.points * Math.pow(1 - decayPercent / 100, weeks);
+  }, 0);
+
+// EP is the DKP each attendance awarded (so late/bench rules carry over), GP the cost of loot won under EPGP.
+// Base GP never decays, which keeps priority = EP / GP defined for characters without loot.
+export const calculateEpgp = (
+  characterIds: number[],
+  records: { effort: PointRecord[]; gear: PointRecord[] },
+  settings: EpgpSettings,
+  now: Date = new Date()
+) =>
+  new Map(characterIds.map((characterId) => {
+    const ep = decayedTotal(records.effort.filter((record) => record.characterId === characterId), settings.decayPercent, now);
+    const gp = settings.baseGp + decayedTotal(records.gear.filter((record) => record.characterId === characterId), settings.decayPercent, now);
+
+    return [characterId, {
+      ep: round(ep),
+      gp: round(gp),
+      priority: gp > 0 ? round(ep / gp) : 0,
+      eligible: ep >= settings.minEp
+    }];
+  }));
+
+// Ranking under a loot system. With an item, only its wishers are ranked and ties fall back to how high they wish for it.
+export const getStandings = async (guildId: number, system: LootSystem, item?: { id: number } | null) => {
+  const wishes = item ? await database.getItemWishes(item.id) : [];
+  const wishPriority = new Map(wishes.map((wish) => [wish.characterId, wish.priority]));
+  const isCandidate = (characterId: number) => !item || wishPriority.has(characterId);
+  const byWish = (a: { character: { id: number } }, b: { character: { id: number } }) =>
+    item ? (wishPriority.get(a.character.id) ?? 0) - (wishPriority.get(b.character.id) ?? 0) : 0;
+  const withWish = (characterId: number) => (item ? { wishPriority: wishPriority.get(characterId) ?? null } : {});
+
+  if (system === 'SUICIDE_KINGS') {
+    const order = await database.getSuicideKingsOrder(guildId);
+    return order
+      .map((character, index) => ({ character, position: index + 1 }))
+      .filter((entry) => entry.character.active === 'ACTIVE' && isCandidate(entry.character.id))
+      .map((entry, index) => ({
+        rank: index + 1,
+        character: { id: entry.character.id, name: entry.character.name, role: entry.character.role },
+        position: entry.position,
+        ...withWish(entry.character.id)
+      }));
+  }
+
+  const characters = (await database.getStandingsCandidates(guildId)).filter((character) => isCandidate(character.id));
+
+  if (system === 'EPGP') {
+    const characterIds = characters.map((character) => character.id);
+    const [stored, records] = await Promise.all([
+      database.getEpgpSettings(guildId),
+      database.getEpgpRecords(guildId, characterIds)
+    ]);
+    const epgp = calculateEpgp(characterIds, records, stored ?? DEFAULT_EPGP_SETTINGS);
+
+    return characters
+      .map((character) => ({
+        character: { id: character.id, name: character.name, role: character.role },
+        ...epgp.get(character.id)!,
+        ...withWish(character.id)
+      }))
+      .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.priority - a.priority || byWish(a, b))
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+
+  return characters
+    .map((character) => ({
+      character: { id: character.id, name: character.name, role: character.role },
+      dkp: character.dkp,
+      ...withWish(character.id)
+    }))
+    .sort((a, b) => b.dkp - a.dkp || byWish(a, b))
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+};
@@ -0,0 +1,265 @@
+import axios from 'axios';
+import { database } from '../db.js';
+import type { LootSystem, NotificationCategory } from '../db.js';
+import { discordTime } from './discord.js';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'EVENT_CREATED',
+  'EVENT_REMINDER',
+  'LOOT_AWARDED',
+  'DKP_ADJUSTED',
+  'APPLICATION_RECEIVED'
+];
+
+// Webhooks may only point at Discord unless the operator allows more hosts (e.g. localhost for a test stand-in)
+const WEBHOOK_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || 'discord.com,discordapp.com,ptb.discord.com,canary.discord.com')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 30 * 1000;
+const SEND_TIMEOUT_MS = 10 * 1000;
+// Longer than a send can take, so a claimed delivery is only picked up again if its worker died
+const SEND_LEASE_MS = 60 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+const CATEGORY_COLORS: Record<NotificationCategory, number> = {
+  EVENT_CREATED: 0x5865f2,
+  EVENT_REMINDER: 0xfee75c,
+  LOOT_AWARDED: 0xa335ee,
+  DKP_ADJUSTED: 0x57f287,
+  APPLICATION_RECEIVED: 0xeb459e
+};
+
+export type WebhookEmbed = {
+  title: string;
+  description?: string;
+  fields?: { name: string; value: string; inline?: boolean }[];
+};
+
+export const parseWebhookUrl = (input: unknown): { url?: string; error?: string } => {
+  if (typeof input !== 'string' || input.length > 500) {
+    return { error: 'Webhook URL is required' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return { error: 'Webhook URL is not a valid URL' };
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (!WEBHOOK_HOSTS.includes(host)) {
+    return { error: `Webhook URL must be a Discord webhook (${WEBHOOK_HOSTS.join(', ')})` };
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && LOCAL_HOSTS.includes(host))) {
+    return { error: 'Webhook URL must use https' };
+  }
+
+  return { url: url.toString() };
+};
+
+// Webhook URLs carry their token; only the start is shown back
+export const maskWebhookUrl = (url: string) => {
+  const match = url.match(/^(.*\/webhooks\/\d+\/).+$/);
+  return match ? `${match[1]}…` : url.replace(/(.{24}).+/, '$1…');
+};
+
+const buildPayload = (category: NotificationCategory, embed: WebhookEmbed, guildName: string) => ({
+  username: 'Guildie',
+  // Names in embeds are user input; never let them ping anyone
+  allowed_mentions: { parse: [] },
+  embeds: [{
+    ...embed,
+    color: CATEGORY_COLORS[category],
+    footer: { text: guildName },
+    timestamp: new Date().toISOString()
+  }]
+});
+
+const retryDelay = (attempts: number) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// Make one attempt at a due delivery. Returns null if it is not due or another worker has it.
+export const deliverWebhook = async (deliveryId: number, now: Date = new Date()) => {
+  const delivery = await database.claimWebhookDelivery(deliveryId, now, new Date(now.getTime() + SEND_LEASE_MS));
+  if (!delivery) return null;
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let retryAfterMs: number | null = null;
+
+  try {
+    const response = await axios.post(delivery.webhook.url, JSON.parse(delivery.payload), {
+      timeout: SEND_TIMEOUT_MS,
+      validateStatus: () => true
+    });
+    statusCode = response.status;
+
+    if (response.status >= 200 && response.status < 300) {
+      return await database.finishWebhookDeliveryAttempt(delivery.id, {
+        status: 'SENT',
+        lastStatusCode: statusCode,
+        lastError: null,
+        sentAt: new Date()
+      });
+    }
+
+    error = typeof response.data === 'object' && response.data?.message
+      ? String(response.data.message)
+      : `HTTP ${response.status}`;
+    // Discord rate limits say when to come back
+    if (response.status === 429) {
+      const seconds = Number(response.data?.retry_after ?? response.headers['retry-after']);
+      retryAfterMs = Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : null;
+    }
+  } catch (caught: any) {
+    error = caught?.message ?? String(caught);
+  }
+
+  // Other 4xx answers (deleted webhook, rejected payload) will not get better by retrying
+  const permanent = statusCode !== null && statusCode >= 400 && statusCode < 500 && statusCode !== 408 && statusCode !== 429;
+  if (permanent || delivery.attempts >= MAX_ATTEMPTS) {
+    return await database.finishWebhookDeliveryAttempt(delivery.id, {
+      status: 'FAILED',
+      lastStatusCode: statusCode,
+      lastError: error
+    });
+  }
+
+  return await database.finishWebhookDeliveryAttempt(delivery.id, {
+    status: 'PENDING',
+    nextAttemptAt: new Date(Date.now() + (retryAfterMs ?? retryDelay(delivery.attempts))),
+    lastStatusCode: statusCode,
+    lastError: error
+  });
+};
+
+// Queue a message for the given webhooks and make the first attempt straight away
+export const queueWebhookMessage = async (
+  guild: { id: number; name: string },
+  category: NotificationCategory,
+  webhookIds: number[],
+  embed: WebhookEmbed
+) => {
+  const payload = JSON.stringify(buildPayload(category, embed, guild.name));
+  const deliveries = await database.createWebhookDeliveries(
+    webhookIds.map((webhookId) => ({ guildId: guild.id, webhookId, category, payload }))
+  );
+
+  const attempted = [];
+  for (const delivery of deliveries) {
+    attempted.push((await deliverWebhook(delivery.id)) ?? delivery);
+  }
+  return attempted;
+};
+
+// Post a notification to every enabled webhook of the category. Never throws: a notification
+// failing must not fail the request that caused it, and undelivered messages stay queued for retries.
+export const notify = async (guildId: number, category: NotificationCategory, embed: WebhookEmbed) => {
+  try {
+    const webhooks = await database.getEnabledNotificationWebhooks(guildId, category);
+    if (webhooks.length === 0) return;
+
+    const guild = await database.getGuildById(guildId);
+    if (!guild) return;
+
+    await queueWebhookMessage(guild, category, webhooks.map((webhook) => webhook.id), embed);
+  } catch (error) {
+    console.error('Webhook notification error:', error);
+  }
+};
+
+// Retry every delivery whose next attempt is due
+export const processWebhookDeliveries = async (now: Date = new Date()) => {
+  const deliveryIds = await database.getDueWebhookDeliveryIds(now, DELIVERY_BATCH_SIZE);
+  const summary = { sent: 0, failed: 0, retrying: 0 };
+
+  for (const deliveryId of deliveryIds) {
+    const delivery = await deliverWebhook(deliveryId, now);
+    if (delivery?.status === 'SENT') summary.sent++;
+    else if (delivery?.status === 'FAILED') summary.failed++;
+    else if (delivery) summary.retrying++;
+  }
+
+  return summary;
+};
+
+type EmbedEvent = {
+  id: number;
+  title: string;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+  dkpReward: number;
+};
+
+export const eventCreatedEmbed = (event: EmbedEvent, occurrences = 1): WebhookEmbed => ({
+  title: `New event: ${event.title}`,
+  ...(event.description && { description: event.description }),
+  fields: [
+    { name: 'Starts', value: `${discordTime(event.startTime)} (${discordTime(event.startTime, 'R')})`, inline: true },
+    { name: 'Ends', value: discordTime(event.endTime), inline: true },
+    ...(event.dkpReward > 0 ? [{ name: 'DKP', value: String(event.dkpReward), inline: true }] : []),
+    ...(occurrences > 1 ? [{ name: 'Repeats', value: `${occurrences} occurrences`, inline: true }] : []),
+    { name: 'Sign up', value: `\`/signup event:${event.id}\`` }
+  ]
+});
+
+export const eventReminderEmbed = (event: EmbedEvent & { signups: { status: string }[] }): WebhookEmbed => ({
+  title: `Starting ${discordTime(event.startTime, 'R')}: ${event.title}`,
+  fields: [
+    { name: 'Starts', value: discordTime(event.startTime), inline: true },
+    { name: 'Accepted', value: String(event.signups.filter((signup) => signup.status === 'ACCEPTED').length), inline: true },
+    { name: 'Tentative', value: String(event.signups.filter((signup) => signup.status === 'TENTATIVE').length), inline: true }
+  ]
+});
+
+export const lootAwardedEmbed = (award: {
+  itemName: string;
+  characterName: string;
+  lootSystem: LootSystem;
+  dkpCost: number;
+  gpCost: number;
+  note?: string | null;
+}): WebhookEmbed => ({
+  title: `${award.characterName} received ${award.itemName}`,
+  ...(award.note && { description: award.note }),
+  fields: [
+    award.lootSystem === 'EPGP'
+      ? { name: 'GP', value: String(award.gpCost), inline: true }
+      : award.lootSystem === 'SUICIDE_KINGS'
+        ? { name: 'Suicide kings', value: 'Moved to the bottom of the list', inline: true }
+        : { name: 'DKP', value: String(award.dkpCost), inline: true }
+  ]
+});
+
+export const dkpAdjustedEmbed = (adjustment: {
+  characterName: string;
+  previousDkp: number;
+  newDkp: number;
+  reason: string;
+  actorName: string;
+}): WebhookEmbed => {
+  const delta = adjustment.newDkp - adjustment.previousDkp;
+  return {
+    title: `${adjustment.characterName}: ${delta >= 0 ? '+' : ''}${delta} DKP`,
+    description: adjustment.reason,
+    fields: [
+      { name: 'Balance', value: `${adjustment.previousDkp} → ${adjustment.newDkp}`, inline: true },
+      { name: 'By', value: adjustment.actorName, inline: true }
+    ]
+  };
+};
+
+export const applicationReceivedEmbed = (application: { id: number; discordUsername: string; formTitle: string }): WebhookEmbed => ({
+  title: `New application from ${application.discordUsername}`,
+  fields: [
+    { name: 'Form', value: application.formTitle, inline: true },
+    { name: 'Application', value: `#${application.id}`, inline: true }
+  ]
+});
@@ -0,0 +1,168 @@
+import { prisma, database } from '../db.js';
+import type { AttendanceStatus, EventCompositionInput, EventUpdateData, TransactionClient } from '../db.js';
+import { DEFAULT_BENCH_AWARD_PERCENT, DEFAULT_LATE_AWARD_PERCENT } from './attendance.js';
+
+type ReconciledAttendance = {
+  characterId: number;
+  status: AttendanceStatus;
+  dkpAwarded: number;
+  pending: boolean;
+  character: { name: string };
+};
+
+export type DkpAdjustment = {
+  characterId: number;
+  name: string;
+  status: AttendanceStatus;
+  previousAward: number;
+  newAward: number;
+  delta: number;
+};
+
+// What an attendee with this status is owed under a reward: late arrivals and benched characters get the default share
+const awardFor = (status: AttendanceStatus, reward: number) =>
+  status === 'LATE'
+    ? Math.round((reward * DEFAULT_LATE_AWARD_PERCENT) / 100)
+    : status === 'BENCH'
+      ? Math.round((reward * DEFAULT_BENCH_AWARD_PERCENT) / 100)
+      : reward;
+
+// Brings each attendee's award to what their status is owed under the new reward, from what they actually hold,
+// so awards left behind by an earlier unreconciled change are corrected too. Pending check-ins have not been
+// awarded yet and get the new reward when approved.
+export const planRewardChange = (attendances: ReconciledAttendance[], newReward: number): DkpAdjustment[] =>
+  attendances
+    .filter((attendance) => !attendance.pending)
+    .map((attendance) => {
+      const newAward = awardFor(attendance.status, newReward);
+      return {
+        characterId: attendance.characterId,
+        name: attendance.character.name,
+        status: attendance.status,
+        previousAward: attendance.dkpAwarded,
+        newAward,
+        delta: newAward - attendance.dkpAwarded
+      };
+    })
+    .filter((adjustment) => adjustment.delta !== 0);
+
+// A deleted event takes back everything it awarded
+export const planDeletion = (attendances: ReconciledAttendance[]): DkpAdjustment[] =>
+  attendances
+    .filter((attendance) => !attendance.pending && attendance.dkpAwarded !== 0)
+    .map((attendance) => ({
+      characterId: attendance.characterId,
+      name: attendance.character.name,
+      status: attendance.status,
+      previousAward: attendance.dkpAwarded,
+      newAward: 0,
+      delta: -attendance.dkpAwarded
+    }));
+
+export const summarizeAdjustments = (adjustments: DkpAdjustment[]) => ({
+  characterCount: adjustments.length,
+  totalDelta: adjustments.reduce((sum, adjustment) => sum + adjustment.delta, 0),
+  adjustments
+});
+
+type ReconciliationChange = { reason: 'EVENT_UPDATED'; newReward: number } | { reason: 'EVENT_DELETED' };
+
+// Records and, with apply on, makes the adjustments inside the caller's transaction. The event and its
+// attendance are read again here in case either changed since the preview. Returns null when no DKP was affected.
+const applyReconciliation = async (
+  tx: TransactionClient,
+  eventId: number,
+  change: ReconciliationChange,
+  options: { apply: boolean; actorId: number }
+) => {
+  const event = await tx.event.findUniqueOrThrow({
+    where: { id: eventId },
+    select: { id: true, guildId: true, title: true, dkpReward: true },
+  });
+  const attendances = await tx.attendance.findMany({
+    where: { eventId: event.id },
+    include: { character: { select: { name: true } } },
+  });
+  const adjustments = change.reason === 'EVENT_UPDATED'
+    ? planRewardChange(attendances, change.newReward)
+    : planDeletion(attendances);
+
+  let reconciliation = null;
+  if (adjustments.length > 0) {
+    const summary = summarizeAdjustments(adjustments);
+    reconciliation = await tx.dkpReconciliation.create({
+      data: {
+        guildId: event.guildId,
+        eventId: event.id,
+        eventTitle: event.title,
+        reason: change.reason,
+        status: options.apply ? 'APPLIED' : 'SKIPPED',
+        previousReward: event.dkpReward,
+        newReward: change.reason === 'EVENT_UPDATED' ? change.newReward : null,
+        characterCount: summary.characterCount,
+        totalDelta: summary.totalDelta,
+        adjustments: JSON.stringify(adjustments),
+        actorId: options.actorId,
+      },
+    });
+  }
+
+  if (reconciliation && options.apply) {
+    for (const adjustment of adjustments) {
+      if (change.reason === 'EVENT_UPDATED') {
+        await tx.attendance.update({
+          where: { eventId_characterId: { eventId: event.id, characterId: adjustment.characterId } },
+          data: { dkpAwarded: adjustment.newAward },
+        });
+      }
+
+      await database.applyDkpChange(tx, adjustment.characterId, adjustment.delta, {
+        sourceType: 'RECONCILIATION',
+        sourceId: reconciliation.id,
+        reason: change.reason === 'EVENT_UPDATED'
+          ? `${event.title} reward changed from ${event.dkpReward} to ${change.newReward}`
+          : `${event.title} was deleted`,
+        actorId: options.actorId,
+      });
+    }
+  }
+
+  return reconciliation && { ...reconciliation, adjustments };
+};
+
+// Change an event's reward or delete it together with the DKP it awarded, in one transaction, so balances
+// always match the events that exist. With apply off the change still happens and the skipped
+// adjustments are recorded. Returns the reconciliation, or null when no DKP was affected.
+export const reconcileEventDkp = async (
+  eventId: number,
+  change: ReconciliationChange,
+  options: { apply: boolean; actorId: number }
+) => {
+  return await prisma.$transaction(async (tx) => {
+    const reconciliation = await applyReconciliation(tx, eventId, change, options);
+
+    if (change.reason === 'EVENT_UPDATED') {
+      await tx.event.update({ where: { id: eventId }, data: { dkpReward: change.newReward } });
+    } else {
+      await tx.event.delete({ where: { id: eventId } });
+    }
+
+    return reconciliation;
+  });
+};
+
+// Update an event whose reward changes, adjusting the DKP its attendance awarded in the same transaction,
+// so the reward and the ledger never disagree if either write fails. With apply off the event still changes
+// and the skipped adjustments are recorded.
+export const updateEventWithDkp = async (
+  eventId: number,
+  updateData: EventUpdateData & { dkpReward: number },
+  composition: EventCompositionInput | undefined,
+  options: { apply: boolean; actorId: number }
+) => {
+  return await prisma.$transaction(async (tx) => {
+    const reconciliation = await applyReconciliation(tx, eventId, { reason: 'EVENT_UPDATED', newReward: updateData.dkpReward }, options);
+    const updatedEvent = await database.applyEventUpdate(tx, eventId, updateData, composition);
+    return { event: updatedEvent, reconciliation };
+  });
+};
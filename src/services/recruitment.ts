@@ -0,0 +1,150 @@
+import type { ApplicationAnswer, ApplicationStatus, QuestionType, RecruitmentQuestionInput } from '../db.js';
+
+export const QUESTION_TYPES: QuestionType[] = ['TEXT', 'CHOICE', 'NUMBER', 'URL'];
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['NEW', 'REVIEWING', 'ACCEPTED', 'REJECTED'];
+
+const MAX_QUESTIONS = 50;
+const MAX_ANSWER_LENGTH = 2000;
+
+// Validates a form's question list, e.g. [{ label: 'Class?', type: 'CHOICE', options: ['Tank', 'Healer'] }]
+export const parseQuestions = (input: any): { questions?: RecruitmentQuestionInput[]; error?: string } => {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'Questions must be a non-empty array' };
+  }
+
+  if (input.length > MAX_QUESTIONS) {
+    return { error: `A form can have at most ${MAX_QUESTIONS} questions` };
+  }
+
+  const questions: RecruitmentQuestionInput[] = [];
+  for (const [index, question] of input.entries()) {
+    const number = index + 1;
+
+    if (typeof question?.label !== 'string' || !question.label.trim() || question.label.trim().length > 500) {
+      return { error: `Question ${number} needs a label of at most 500 characters` };
+    }
+
+    const type = typeof question.type === 'string' ? question.type.toUpperCase() : 'TEXT';
+    if (!QUESTION_TYPES.includes(type)) {
+      return { error: `Question ${number} has an unknown type. Valid types: ${QUESTION_TYPES.join(', ')}` };
+    }
+
+    if (question.required !== undefined && typeof question.required !== 'boolean') {
+      return { error: `Question ${number}: required must be a boolean` };
+    }
+
+    let options: string[] | null = null;
+    if (type === 'CHOICE') {
+      if (!Array.isArray(question.options) || question.options.length < 2
+        || question.options.some((option: any) => typeof option !== 'string' || !option.trim())) {
+        return { error: `Question ${number} is a choice question and needs at least two non-empty options` };
+      }
+      options = [...new Set<string>(question.options.map((option: string) => option.trim()))];
+    }
+
+    questions.push({
+      label: question.label.trim(),
+      type,
+      required: question.required ?? true,
+      options
+    });
+  }
+
+  return { questions };
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+type FormQuestion = {
+  id: number;
+  label: string;
+  type: QuestionType;
+  required: boolean;
+  options: string | null;
+};
+
+// Checks an applicant's answers, keyed by question ID, against the form and returns the snapshot to store
+export const buildApplicationAnswers = (
+  questions: FormQuestion[],
+  input: any
+): { answers?: ApplicationAnswer[]; error?: string } => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'Answers must be an object of question ID to answer' };
+  }
+
+  const known = new Set(questions.map((question) => String(question.id)));
+  const unknown = Object.keys(input).filter((questionId) => !known.has(questionId));
+  if (unknown.length > 0) {
+    return { error: `Unknown question(s): ${unknown.join(', ')}` };
+  }
+
+  const answers: ApplicationAnswer[] = [];
+  for (const question of questions) {
+    const raw = input[String(question.id)];
+    const blank = raw === undefined || raw === null || (typeof raw === 'string' && !raw.trim());
+
+    if (blank) {
+      if (question.required) {
+        return { error: `"${question.label}" is required` };
+      }
+      answers.push({ questionId: question.id, label: question.label, type: question.type, value: null });
+      continue;
+    }
+
+    let value: string | number;
+    switch (question.type) {
+      case 'NUMBER': {
+        const parsed = typeof raw === 'number' ? raw : Number(String(raw).trim());
+        if (!Number.isFinite(parsed)) {
+          return { error: `"${question.label}" must be a number` };
+        }
+        value = parsed;
+        break;
+      }
+      case 'URL':
+        if (typeof raw !== 'string' || !isHttpUrl(raw.trim())) {
+          return { error: `"${question.label}" must be an http(s) URL` };
+        }
+        value = raw.trim();
+        break;
+      case 'CHOICE': {
+        const options: string[] = question.options ? JSON.parse(question.options) : [];
+        if (typeof raw !== 'string' || !options.includes(raw.trim())) {
+          return { error: `"${question.label}" must be one of: ${options.join(', ')}` };
+        }
+        value = raw.trim();
+        break;
+      }
+      default:
+        if (typeof raw !== 'string') {
+          return { error: `"${question.label}" must be text` };
+        }
+        value = raw.trim();
+    }
+
+    if (typeof value === 'string' && value.length > MAX_ANSWER_LENGTH) {
+      return { error: `"${question.label}" must be ${MAX_ANSWER_LENGTH} characters or less` };
+    }
+
+    answers.push({ questionId: question.id, label: question.label, type: question.type, value });
+  }
+
+  return { answers };
+};
+
+export const tallyVotes = (votes: { approve: boolean }[]) => {
+  const approve = votes.filter((vote) => vote.approve).length;
+  return {
+    approve,
+    reject: votes.length - approve,
+    total: votes.length
+  };
+};
@@ -0,0 +1,245 @@
+// A subset of iCalendar (RFC 5545) RRULE: DAILY, WEEKLY on one or more weekdays and MONTHLY on a day of the
+// month or by weekday (2TU, -1FR), with INTERVAL and either COUNT or UNTIL. Weeks start on Monday.
+// Days and times of day are those of the series' time zone, so a 20:00 raid stays at 20:00 across DST changes.
+
+import { fromZonedParts, getZonedParts } from './timezone.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // Weekdays 0 (Sunday) to 6 (Saturday); the ordinal picks the nth (or nth last) one in a month
+  byDay: { weekday: number; ordinal: number | null }[];
+  count: number | null;
+  until: Date | null;
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_INTERVAL = 99;
+const MAX_COUNT = 500;
+// Hard stop for a single expansion, far above anything the materializer asks for
+const MAX_EXPANSION = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 20251231 or 20251231T200000Z; a bare date runs to the end of that day
+const parseUntil = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number) as number[];
+  const until = hour === undefined || isNaN(hour)
+    ? new Date(Date.UTC(year!, month! - 1, day!, 23, 59, 59))
+    : new Date(Date.UTC(year!, month! - 1, day!, hour, minute, second));
+  return isNaN(until.getTime()) ? null : until;
+};
+
+export const formatUntil = (until: Date) =>
+  `${until.getUTCFullYear()}${pad(until.getUTCMonth() + 1)}${pad(until.getUTCDate())}` +
+  `T${pad(until.getUTCHours())}${pad(until.getUTCMinutes())}${pad(until.getUTCSeconds())}Z`;
+
+export const parseRRule = (input: unknown): { rule?: RecurrenceRule; error?: string } => {
+  if (typeof input !== 'string' || input.trim().length === 0 || input.length > 500) {
+    return { error: 'rrule must be an RRULE string, e.g. FREQ=WEEKLY;BYDAY=TU,TH' };
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of input.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      return { error: `Invalid rrule part "${part}"` };
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const unknown = [...parts.keys()].filter((key) => !['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL', 'WKST'].includes(key));
+  if (unknown.length > 0) {
+    return { error: `Unsupported rrule parts: ${unknown.join(', ')}` };
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    return { error: `FREQ must be one of: ${FREQUENCIES.join(', ')}` };
+  }
+
+  if (parts.has('WKST') && parts.get('WKST') !== 'MO') {
+    return { error: 'Only WKST=MO is supported' };
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+    return { error: `INTERVAL must be an integer between 1 and ${MAX_INTERVAL}` };
+  }
+
+  const byDay: RecurrenceRule['byDay'] = [];
+  for (const entry of parts.get('BYDAY')?.split(',') ?? []) {
+    const match = entry.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    const ordinal = match?.[1] !== undefined ? Number(match[1]) : null;
+    if (!match || ordinal === 0 || (ordinal !== null && Math.abs(ordinal) > 5)) {
+      return { error: `Invalid BYDAY entry "${entry}"` };
+    }
+    if (ordinal !== null && freq !== 'MONTHLY') {
+      return { error: 'BYDAY ordinals such as 2TU are only allowed with FREQ=MONTHLY' };
+    }
+    byDay.push({ weekday: WEEKDAYS.indexOf(match[2]!), ordinal });
+  }
+  if (byDay.length > 0 && freq === 'DAILY') {
+    return { error: 'BYDAY is not supported with FREQ=DAILY' };
+  }
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    return { error: 'COUNT and UNTIL cannot both be set' };
+  }
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1 || count > MAX_COUNT)) {
+    return { error: `COUNT must be an integer between 1 and ${MAX_COUNT}` };
+  }
+
+  const until = parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')!) : null;
+  if (parts.has('UNTIL') && !until) {
+    return { error: 'UNTIL must look like 20251231 or 20251231T200000Z' };
+  }
+
+  return { rule: { freq, interval, byDay, count, until } };
+};
+
+export const formatRRule = (rule: RecurrenceRule) => [
+  `FREQ=${rule.freq}`,
+  ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+  ...(rule.byDay.length > 0
+    ? [`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`).join(',')}`]
+    : []),
+  ...(rule.count !== null ? [`COUNT=${rule.count}`] : []),
+  ...(rule.until ? [`UNTIL=${formatUntil(rule.until)}`] : [])
+].join(';');
+
+// Local days are counted from the Unix epoch, which fell on a Thursday
+const localDayNumber = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+const dayNumber = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+const weekdayOf = (day: number) => (((day + 4) % 7) + 7) % 7;
+const mondayIndex = (weekday: number) => (weekday + 6) % 7;
+
+// Candidate days of the period after `index` periods from the first, in order
+const periodDays = (rule: RecurrenceRule, firstDay: number, index: number): { days: number[]; periodStart: number } => {
+  if (rule.freq === 'DAILY') {
+    const day = firstDay + index * rule.interval;
+    return { days: [day], periodStart: day };
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const monday = firstDay - mondayIndex(weekdayOf(firstDay)) + index * 7 * rule.interval;
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map((day) => day.weekday) : [weekdayOf(firstDay)];
+    const days = [...new Set(weekdays.map((weekday) => monday + mondayIndex(weekday)))].sort((a, b) => a - b);
+    return { days, periodStart: monday };
+  }
+
+  const first = new Date(firstDay * DAY_MS);
+  const monthStart = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + index * rule.interval, 1));
+  const startDay = dayNumber(monthStart);
+  const length = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 0)).getUTCDate();
+
+  // Without BYDAY the series repeats on the first occurrence's day of the month; months without that day are skipped
+  if (rule.byDay.length === 0) {
+    const dayOfMonth = first.getUTCDate();
+    return { days: dayOfMonth <= length ? [startDay + dayOfMonth - 1] : [], periodStart: startDay };
+  }
+
+  const days = new Set<number>();
+  for (const { weekday, ordinal } of rule.byDay) {
+    const matching = Array.from({ length }, (_, offset) => startDay + offset).filter((day) => weekdayOf(day) === weekday);
+    const picked = ordinal === null ? matching : [matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal]];
+    for (const day of picked) {
+      if (day !== undefined) days.add(day);
+    }
+  }
+  return { days: [...days].sort((a, b) => a - b), periodStart: startDay };
+};
+
+// Every occurrence from dtstart up to the end, in order, stopping after COUNT
+function* occurrences(rule: RecurrenceRule, dtstart: Date, timeZone: string, until: Date) {
+  const { hour, minute, second } = getZonedParts(dtstart, timeZone);
+  const milliseconds = dtstart.getTime() % 1000;
+  const firstDay = localDayNumber(dtstart, timeZone);
+  const end = rule.until && rule.until < until ? rule.until : until;
+  let counted = 0;
+
+  const startOn = (day: number) => {
+    const date = new Date(day * DAY_MS);
+    const local = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour, minute, second };
+    return new Date(fromZonedParts(local, timeZone).getTime() + milliseconds);
+  };
+
+  for (let index = 0; ; index++) {
+    const { days, periodStart } = periodDays(rule, firstDay, index);
+    // A local day starts at most a day before the same UTC day
+    if ((periodStart - 1) * DAY_MS > end.getTime()) return;
+
+    for (const day of days) {
+      const start = startOn(day);
+      if (start < dtstart) continue;
+      if (start > end || (rule.count !== null && counted >= rule.count)) return;
+
+      counted++;
+      yield start;
+    }
+  }
+}
+
+// Occurrence start times in (after, until]. Excluded dates still use up a COUNT slot, as in iCalendar.
+export const expandOccurrences = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  timeZone: string,
+  range: { after?: Date | null; until: Date },
+  exdates: Date[] = []
+): Date[] => {
+  const excluded = new Set(exdates.map((date) => date.getTime()));
+  const expanded: Date[] = [];
+
+  for (const start of occurrences(rule, dtstart, timeZone, range.until)) {
+    if (range.after && start <= range.after) continue;
+    if (excluded.has(start.getTime())) continue;
+    expanded.push(start);
+    if (expanded.length >= MAX_EXPANSION) break;
+  }
+
+  return expanded;
+};
+
+// When the series stops producing occurrences, or null if it never does
+export const getSeriesEnd = (rule: RecurrenceRule, dtstart: Date, timeZone: string) => {
+  if (rule.until) return rule.until;
+  if (rule.count === null) return null;
+
+  // COUNT is at most 500, which even a 5th-weekday-every-99-months rule reaches well within this range
+  let last: Date | null = null;
+  for (const start of occurrences(rule, dtstart, timeZone, new Date(Date.UTC(dtstart.getUTCFullYear() + 5000, 0, 1)))) {
+    last = start;
+  }
+  return last;
+};
+
+// How many occurrences, excluded ones included, start before the given time
+export const countOccurrencesBefore = (rule: RecurrenceRule, dtstart: Date, timeZone: string, before: Date) => {
+  let counted = 0;
+  for (const _start of occurrences(rule, dtstart, timeZone, new Date(before.getTime() - 1))) {
+    counted++;
+  }
+  return counted;
+};
+
+// Move a rule along with its first occurrence: weekdays follow the start when it moves to another day
+export const shiftRule = (rule: RecurrenceRule, from: Date, to: Date, timeZone: string): RecurrenceRule => {
+  const days = localDayNumber(to, timeZone) - localDayNumber(from, timeZone);
+  if (days === 0 || rule.byDay.length === 0) return rule;
+  return {
+    ...rule,
+    byDay: rule.byDay.map((day) => ({ ...day, weekday: (((day.weekday + days) % 7) + 7) % 7 }))
+  };
+};
@@ -0,0 +1,433 @@
+import axios from 'axios';
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { database } from '../db.js';
+import type { EventReminderInput, ReminderAudience, SignupStatus } from '../db.js';
+import { discordTime } from './discord.js';
+import { eventReminderEmbed, notify } from './notifications.js';
+import type { WebhookEmbed } from './notifications.js';
+import { isValidTimeZone } from './timezone.js';
+
+export const REMINDER_AUDIENCES: ReminderAudience[] = ['SIGNED_UP', 'ALL_ACTIVE'];
+
+// Not a personal channel: the reminder is posted once to the guild's EVENT_REMINDER webhooks
+export const WEBHOOK_CHANNEL = 'WEBHOOK';
+
+// Users without preferences are reminded by Discord DM
+export const DEFAULT_PERSONAL_CHANNELS = ['DISCORD_DM'];
+
+const MAX_REMINDERS_PER_EVENT = 5;
+const MAX_MINUTES_BEFORE = 14 * 24 * 60;
+
+// Events created without reminder rules get a single reminder posted to the guild's EVENT_REMINDER webhooks
+export const DEFAULT_EVENT_REMINDERS: EventReminderInput[] = [{
+  minutesBefore: Math.min(MAX_MINUTES_BEFORE, Math.max(1, parseInt(process.env.WEBHOOK_REMINDER_MINUTES || '') || 60)),
+  audience: 'SIGNED_UP',
+  channels: [WEBHOOK_CHANNEL]
+}];
+
+// Members who signed up as anything but declined are still expected
+const REMINDED_SIGNUP_STATUSES: SignupStatus[] = ['ACCEPTED', 'TENTATIVE', 'BENCH'];
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 60 * 1000;
+const SEND_TIMEOUT_MS = 10 * 1000;
+const SEND_LEASE_MS = 60 * 1000;
+const BATCH_SIZE = 50;
+
+const DISCORD_API = 'https://discord.com/api/v10';
+const REMINDER_COLOR = 0xfee75c;
+
+export type ReminderRecipient = {
+  id: number;
+  username: string;
+  discordId: string;
+  email: string | null;
+};
+
+export type ReminderMessage = {
+  subject: string;
+  text: string;
+  embed: WebhookEmbed;
+};
+
+// A way of reaching one member. Register others (Slack, push, ...) with registerReminderChannel.
+export interface ReminderChannel {
+  // False when this instance lacks the credentials the channel needs
+  isConfigured(): boolean;
+  // Where the member is reached on this channel, or null if they cannot be
+  addressOf(recipient: ReminderRecipient): string | null;
+  send(address: string, message: ReminderMessage): Promise<void>;
+}
+
+// Direct messages from the application's bot (DISCORD_BOT_TOKEN). Members must share a server with the bot
+// and allow DMs from it; Discord refuses the message otherwise.
+export class DiscordDmChannel implements ReminderChannel {
+  isConfigured() {
+    return Boolean(process.env.DISCORD_BOT_TOKEN);
+  }
+
+  addressOf(recipient: ReminderRecipient) {
+    return recipient.discordId;
+  }
+
+  async send(discordId: string, message: ReminderMessage) {
+    const options = {
+      headers: { Authorization: `Bot ${process.env.DISCORD_BOT_TOKEN}` },
+      timeout: SEND_TIMEOUT_MS
+    };
+    // Discord hands back the existing DM channel if there is one
+    const channel = await axios.post(`${DISCORD_API}/users/@me/channels`, { recipient_id: discordId }, options);
+    await axios.post(`${DISCORD_API}/channels/${channel.data.id}/messages`, {
+      embeds: [{ ...message.embed, color: REMINDER_COLOR }],
+      allowed_mentions: { parse: [] }
+    }, options);
+  }
+}
+
+// Plain-text email over SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM)
+export class SmtpEmailChannel implements ReminderChannel {
+  private transporter: Transporter | null = null;
+
+  isConfigured() {
+    return Boolean(process.env.SMTP_HOST);
+  }
+
+  addressOf(recipient: ReminderRecipient) {
+    return recipient.email;
+  }
+
+  async send(to: string, message: ReminderMessage) {
+    this.transporter ??= nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      ...(process.env.SMTP_USER && {
+        auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      }),
+      connectionTimeout: SEND_TIMEOUT_MS
+    });
+
+    await this.transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+const reminderChannels: Record<string, ReminderChannel> = {
+  DISCORD_DM: new DiscordDmChannel(),
+  EMAIL: new SmtpEmailChannel()
+};
+
+export const registerReminderChannel = (name: string, channel: ReminderChannel) => {
+  reminderChannels[name] = channel;
+};
+
+// Channels a member can choose in their preferences
+export const getPersonalChannelNames = () => Object.keys(reminderChannels);
+
+export const getConfiguredPersonalChannelNames = () =>
+  Object.entries(reminderChannels)
+    .filter(([, channel]) => channel.isConfigured())
+    .map(([name]) => name);
+
+const parseChannelList = (input: unknown, allowed: string[], label: string): { channels?: string[]; error?: string } => {
+  if (!Array.isArray(input) || input.some((channel) => typeof channel !== 'string')) {
+    return { error: `${label} must be an array of channel names` };
+  }
+  const unknown = input.find((channel) => !allowed.includes(channel));
+  if (unknown) {
+    return { error: `Unknown channel ${unknown}. Valid channels: ${allowed.join(', ')}` };
+  }
+  return { channels: [...new Set<string>(input)] };
+};
+
+// Parses [{ minutesBefore: 1440 }, { minutesBefore: 60, audience: 'ALL_ACTIVE', channels: ['DISCORD_DM', 'WEBHOOK'] }]
+export const parseReminderRules = (input: any): { reminders?: EventReminderInput[]; error?: string } => {
+  if (!Array.isArray(input)) {
+    return { error: 'Reminders must be an array' };
+  }
+  if (input.length > MAX_REMINDERS_PER_EVENT) {
+    return { error: `An event can have at most ${MAX_REMINDERS_PER_EVENT} reminders` };
+  }
+
+  const reminders: EventReminderInput[] = [];
+  for (const rule of input) {
+    const minutesBefore = rule?.minutesBefore;
+    if (!Number.isInteger(minutesBefore) || minutesBefore < 1 || minutesBefore > MAX_MINUTES_BEFORE) {
+      return { error: `minutesBefore must be an integer between 1 and ${MAX_MINUTES_BEFORE}` };
+    }
+    if (reminders.some((reminder) => reminder.minutesBefore === minutesBefore)) {
+      return { error: `There is already a reminder ${minutesBefore} minutes before` };
+    }
+
+    const audience = rule.audience ?? 'SIGNED_UP';
+    if (!REMINDER_AUDIENCES.includes(audience)) {
+      return { error: `Audience must be one of: ${REMINDER_AUDIENCES.join(', ')}` };
+    }
+
+    const parsed = parseChannelList(
+      rule.channels ?? DEFAULT_PERSONAL_CHANNELS,
+      [...getPersonalChannelNames(), WEBHOOK_CHANNEL],
+      'Reminder channels'
+    );
+    if (parsed.error) return { error: parsed.error };
+    if (parsed.channels!.length === 0) {
+      return { error: 'A reminder needs at least one channel' };
+    }
+
+    reminders.push({ minutesBefore, audience, channels: parsed.channels! });
+  }
+
+  return { reminders };
+};
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Validates a partial preference update; fields left out are not changed
+export const parseNotificationPreferences = (input: any) => {
+  const preferences: {
+    remindersEnabled?: boolean;
+    channels?: string[];
+    email?: string | null;
+    quietHoursStart?: string | null;
+    quietHoursEnd?: string | null;
+    timeZone?: string;
+  } = {};
+
+  if (input.remindersEnabled !== undefined) {
+    if (typeof input.remindersEnabled !== 'boolean') {
+      return { error: 'remindersEnabled must be a boolean' };
+    }
+    preferences.remindersEnabled = input.remindersEnabled;
+  }
+
+  if (input.channels !== undefined) {
+    const parsed = parseChannelList(input.channels, getPersonalChannelNames(), 'Channels');
+    if (parsed.error) return { error: parsed.error };
+    preferences.channels = parsed.channels!;
+  }
+
+  if (input.email !== undefined) {
+    if (input.email !== null && (typeof input.email !== 'string' || input.email.length > 254 || !EMAIL_PATTERN.test(input.email.trim()))) {
+      return { error: 'Email must be a valid email address' };
+    }
+    preferences.email = input.email?.trim() || null;
+  }
+
+  if (input.quietHours !== undefined) {
+    if (input.quietHours === null) {
+      preferences.quietHoursStart = null;
+      preferences.quietHoursEnd = null;
+    } else {
+      const { start, end } = input.quietHours;
+      if (!TIME_OF_DAY.test(start) || !TIME_OF_DAY.test(end) || start === end) {
+        return { error: 'Quiet hours need a different start and end as HH:MM, e.g. { "start": "23:00", "end": "08:00" }' };
+      }
+      preferences.quietHoursStart = start;
+      preferences.quietHoursEnd = end;
+    }
+  }
+
+  if (input.timeZone !== undefined) {
+    if (!isValidTimeZone(input.timeZone)) {
+      return { error: 'Time zone must be an IANA time zone such as Europe/Copenhagen' };
+    }
+    preferences.timeZone = input.timeZone;
+  }
+
+  return { preferences };
+};
+
+const toMinutes = (time: string) => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesOfDay = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+};
+
+// When the member's quiet hours around `at` end, or null if `at` is outside them. Quiet hours may span midnight.
+export const quietHoursEnd = (
+  preference: { quietHoursStart: string | null; quietHoursEnd: string | null; timeZone: string } | null,
+  at: Date
+) => {
+  if (!preference?.quietHoursStart || !preference.quietHoursEnd) return null;
+
+  const now = minutesOfDay(at, preference.timeZone);
+  const start = toMinutes(preference.quietHoursStart);
+  const end = toMinutes(preference.quietHoursEnd);
+  const quiet = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!quiet) return null;
+
+  const wait = (end - now + 24 * 60) % (24 * 60);
+  return new Date(at.getTime() + wait * 60 * 1000);
+};
+
+type ReminderEvent = {
+  id: number;
+  title: string;
+  startTime: Date;
+  guild: { name: string; timeZone: string };
+};
+
+// Built when sending, so a renamed or moved event is reminded with its current details
+const buildReminderMessage = (event: ReminderEvent, timeZone: string): ReminderMessage => {
+  const localStart = event.startTime.toLocaleString('en-GB', { timeZone, dateStyle: 'full', timeStyle: 'short' });
+  return {
+    subject: `Reminder: ${event.title} (${event.guild.name})`,
+    text: [
+      `${event.title} starts ${localStart} (${timeZone}).`,
+      '',
+      `Guild: ${event.guild.name}`,
+      `Sign up or change your signup with /signup event:${event.id}`
+    ].join('\n'),
+    embed: {
+      title: `Starting ${discordTime(event.startTime, 'R')}: ${event.title}`,
+      fields: [
+        { name: 'Starts', value: discordTime(event.startTime), inline: true },
+        { name: 'Guild', value: event.guild.name, inline: true }
+      ]
+    }
+  };
+};
+
+// Fan a due reminder out to its audience: one delivery per member and channel, held back during quiet hours
+export const dispatchEventReminder = async (reminderId: number, now: Date = new Date()) => {
+  const reminder = await database.claimEventReminder(reminderId, now);
+  if (!reminder) return null;
+
+  const { event } = reminder;
+  // Reminders that fell due while the server was down are pointless once the event has started
+  if (event.startTime <= now) return 0;
+
+  const channels: string[] = JSON.parse(reminder.channels);
+  if (channels.includes(WEBHOOK_CHANNEL)) {
+    await notify(event.guildId, 'EVENT_REMINDER', eventReminderEmbed(event));
+  }
+
+  const personalChannels = channels.filter((channel) => channel !== WEBHOOK_CHANNEL);
+  if (personalChannels.length === 0) return 0;
+
+  const userIds = reminder.audience === 'ALL_ACTIVE'
+    ? await database.getActiveMemberUserIds(event.guildId)
+    : [...new Set(event.signups
+      .filter((signup) => REMINDED_SIGNUP_STATUSES.includes(signup.status))
+      .map((signup) => signup.character.userId))];
+
+  const recipients = await database.getReminderRecipients(userIds);
+  const deliveries = [];
+
+  for (const recipient of recipients) {
+    const preference = recipient.notificationPreference;
+    if (preference && !preference.remindersEnabled) continue;
+
+    const accepted: string[] = preference ? JSON.parse(preference.channels) : DEFAULT_PERSONAL_CHANNELS;
+    const heldUntil = quietHoursEnd(preference, now);
+    const tooLate = heldUntil !== null && heldUntil >= event.startTime;
+
+    for (const channel of personalChannels.filter((name) => accepted.includes(name))) {
+      deliveries.push({
+        reminderId: reminder.id,
+        userId: recipient.id,
+        channel,
+        status: tooLate ? 'SKIPPED' as const : 'PENDING' as const,
+        nextAttemptAt: heldUntil ?? now,
+        lastError: tooLate ? 'Quiet hours last until the event starts' : null
+      });
+    }
+  }
+
+  if (deliveries.length > 0) {
+    await database.createReminderDeliveries(deliveries);
+  }
+  return deliveries.length;
+};
+
+const retryDelay = (attempts: number) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// Make one attempt at a due delivery. Returns null if it is not due or another worker has it.
+export const deliverReminder = async (deliveryId: number, now: Date = new Date()) => {
+  const delivery = await database.claimReminderDelivery(deliveryId, now, new Date(now.getTime() + SEND_LEASE_MS));
+  if (!delivery) return null;
+
+  const skip = (reason: string) =>
+    database.finishReminderDeliveryAttempt(delivery.id, { status: 'SKIPPED', lastError: reason });
+
+  const { event } = delivery.reminder;
+  if (event.startTime <= now) {
+    return await skip('Event already started');
+  }
+
+  // Deliveries held for quiet hours may outlive the event being called off or moved back to draft
+  if (event.status === 'CANCELLED' || event.status === 'DRAFT') {
+    return await skip(`Event is ${event.status.toLowerCase()}`);
+  }
+
+  const channel = reminderChannels[delivery.channel];
+  if (!channel?.isConfigured()) {
+    return await skip(`Channel ${delivery.channel} is not configured`);
+  }
+
+  const { notificationPreference: preference, ...user } = delivery.user;
+  const address = channel.addressOf({ ...user, email: preference?.email ?? user.email });
+  if (!address) {
+    return await skip(`No address for ${delivery.channel}`);
+  }
+
+  let statusCode: number | null = null;
+  let error: string;
+  try {
+    await channel.send(address, buildReminderMessage(event, user.timeZone ?? preference?.timeZone ?? event.guild.timeZone));
+    return await database.finishReminderDeliveryAttempt(delivery.id, {
+      status: 'SENT',
+      lastError: null,
+      sentAt: new Date()
+    });
+  } catch (caught: any) {
+    statusCode = caught?.response?.status ?? null;
+    error = caught?.response?.data?.message ?? caught?.message ?? String(caught);
+  }
+
+  // Discord refusing a DM (blocked bot, DMs closed) will not change on a retry
+  const permanent = statusCode !== null && statusCode >= 400 && statusCode < 500 && statusCode !== 408 && statusCode !== 429;
+  if (permanent || delivery.attempts >= MAX_ATTEMPTS) {
+    return await database.finishReminderDeliveryAttempt(delivery.id, { status: 'FAILED', lastError: error });
+  }
+
+  return await database.finishReminderDeliveryAttempt(delivery.id, {
+    status: 'PENDING',
+    nextAttemptAt: new Date(Date.now() + retryDelay(delivery.attempts)),
+    lastError: error
+  });
+};
+
+// Fan out reminders that are due, then send (or retry) member deliveries that are due
+export const processEventReminders = async (now: Date = new Date()) => {
+  const summary = { reminders: 0, queued: 0, sent: 0, failed: 0, skipped: 0, retrying: 0 };
+
+  for (const reminderId of await database.getDueEventReminderIds(now, BATCH_SIZE)) {
+    const queued = await dispatchEventReminder(reminderId, now);
+    if (queued === null) continue;
+    summary.reminders++;
+    summary.queued += queued;
+  }
+
+  for (const deliveryId of await database.getDueReminderDeliveryIds(now, BATCH_SIZE)) {
+    const delivery = await deliverReminder(deliveryId, now);
+    if (delivery?.status === 'SENT') summary.sent++;
+    else if (delivery?.status === 'FAILED') summary.failed++;
+    else if (delivery?.status === 'SKIPPED') summary.skipped++;
+    else if (delivery) summary.retrying++;
+  }
+
+  return summary;
+};
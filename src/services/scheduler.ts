@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import os from 'os';
+import { database } from '../db.js';
+
+export type JobDefinition = {
+  name: string;
+  description?: string;
+  intervalMs: number;
+  // Failed runs are retried with exponential backoff this many times before waiting for the next interval
+  maxRetries?: number;
+  // How long a run may hold the job before another worker may take over
+  leaseMs?: number;
+  // Whatever the handler returns is stored (as JSON) as the run's result
+  handler: () => Promise<unknown>;
+};
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+const RETRY_BASE_MS = 60 * 1000;
+
+// Identifies this process in job leases and run history
+export const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+const jobs = new Map<string, JobDefinition>();
+let poller: NodeJS.Timeout | null = null;
+
+export const registerJob = (definition: JobDefinition) => {
+  if (jobs.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+  jobs.set(definition.name, definition);
+};
+
+export const getRegisteredJob = (name: string) => jobs.get(name) ?? null;
+
+export const getRegisteredJobNames = () => [...jobs.keys()];
+
+const serializeResult = (result: unknown) => {
+  if (result === undefined || result === null) return null;
+  try {
+    return JSON.stringify(result);
+  } catch {
+    return String(result);
+  }
+};
+
+// After a failure: retry after 1, 2, 4... minutes (capped at the interval) until retries run out, then wait for the next interval
+export const getNextRunAt = (definition: JobDefinition, startedAt: Date, failures: number) => {
+  const maxRetries = definition.maxRetries ?? 3;
+  if (failures > 0 && failures <= maxRetries) {
+    const backoff = Math.min(RETRY_BASE_MS * 2 ** (failures - 1), definition.intervalMs);
+    return new Date(Date.now() + backoff);
+  }
+  return new Date(Math.max(startedAt.getTime() + definition.intervalMs, Date.now()));
+};
+
+// Run a job whose lease this worker holds, record the run and hand the lease back
+const execute = async (definition: JobDefinition, trigger: 'SCHEDULE' | 'MANUAL', triggeredById: number | null) => {
+  const job = await database.getJob(definition.name);
+  const failuresSoFar = job?.failures ?? 0;
+  const startedAt = new Date();
+
+  const run = await database.createJobRun({
+    jobName: definition.name,
+    trigger,
+    attempt: failuresSoFar + 1,
+    workerId: WORKER_ID,
+    triggeredById
+  });
+
+  let status: 'SUCCEEDED' | 'FAILED' = 'SUCCEEDED';
+  let result: string | null = null;
+  let error: string | null = null;
+
+  try {
+    result = serializeResult(await definition.handler());
+  } catch (caught) {
+    status = 'FAILED';
+    error = caught instanceof Error ? caught.stack ?? caught.message : String(caught);
+    console.error(`Job ${definition.name} failed:`, caught);
+  }
+
+  // Retries count consecutive failures; once they are used up the job starts over on its normal schedule
+  const failures = status === 'FAILED' ? failuresSoFar + 1 : 0;
+  const maxRetries = definition.maxRetries ?? 3;
+
+  await database.releaseJob(definition.name, WORKER_ID, {
+    nextRunAt: getNextRunAt(definition, startedAt, failures),
+    failures: failures > maxRetries ? 0 : failures,
+    lastRunAt: startedAt,
+    lastStatus: status,
+    lastResult: result,
+    lastError: error
+  });
+
+  return await database.finishJobRun(run.id, { status, result, error });
+};
+
+const leaseUntil = (definition: JobDefinition, now: Date) =>
+  new Date(now.getTime() + (definition.leaseMs ?? DEFAULT_LEASE_MS));
+
+// Run every due job this worker manages to claim
+export const runDueJobs = async () => {
+  for (const definition of jobs.values()) {
+    const now = new Date();
+    try {
+      if (await database.claimJob(definition.name, WORKER_ID, now, leaseUntil(definition, now), true)) {
+        await execute(definition, 'SCHEDULE', null);
+      }
+    } catch (error) {
+      console.error(`Error running job ${definition.name}:`, error);
+    }
+  }
+};
+
+// Run a job now, outside its schedule. Returns null if it is running elsewhere; its schedule is reset from this run.
+export const triggerJob = async (name: string, triggeredById: number) => {
+  const definition = jobs.get(name);
+  if (!definition) {
+    throw new Error(`Job "${name}" is not registered`);
+  }
+
+  const now = new Date();
+  if (!(await database.claimJob(name, WORKER_ID, now, leaseUntil(definition, now), false))) {
+    return null;
+  }
+
+  return await execute(definition, 'MANUAL', triggeredById);
+};
+
+// Store the registered jobs and start polling for due ones. New jobs run right away.
+export const startScheduler = async () => {
+  const now = new Date();
+  for (const definition of jobs.values()) {
+    await database.syncJob(definition.name, {
+      description: definition.description ?? null,
+      intervalSeconds: Math.round(definition.intervalMs / 1000),
+      maxRetries: definition.maxRetries ?? 3
+    }, now);
+  }
+
+  if (!poller) {
+    poller = setInterval(() => {
+      runDueJobs().catch((error) => console.error('Scheduler error:', error));
+    }, POLL_INTERVAL_MS);
+  }
+
+  await runDueJobs();
+};
+
+export const stopScheduler = () => {
+  if (poller) {
+    clearInterval(poller);
+    poller = null;
+  }
+};
@@ -0,0 +1,278 @@
+import { database } from '../db.js';
+import type { CreateEventData, EventSeriesData, EventUpdateData } from '../db.js';
+import {
+  countOccurrencesBefore,
+  expandOccurrences,
+  formatRRule,
+  getSeriesEnd,
+  parseRRule
+} from './recurrence.js';
+import { parseDateTime } from './timezone.js';
+
+// Occurrences are created this many days before they start
+export const SERIES_HORIZON_DAYS = Math.max(1, parseInt(process.env.EVENT_SERIES_HORIZON_DAYS || '') || 60);
+
+export const EDIT_SCOPES = ['this', 'following', 'series'] as const;
+export type EditScope = typeof EDIT_SCOPES[number];
+
+const MATERIALIZE_BATCH_SIZE = 50;
+
+// Fields an occurrence can have edited on its own; series edits then leave them as they are
+export const OCCURRENCE_FIELDS = ['title', 'description', 'dkpReward', 'type', 'signupCutoff', 'composition', 'reminders'] as const;
+export type OccurrenceField = typeof OCCURRENCE_FIELDS[number];
+
+type StoredSeries = NonNullable<Awaited<ReturnType<typeof database.getEventSeriesById>>>;
+
+type SeriesOccurrence = {
+  id: number;
+  seriesId: number | null;
+  recurrenceId: Date | null;
+  startTime: Date;
+};
+
+type OccurrenceOverrides = {
+  seriesId: number | null;
+  overriddenFields: string;
+};
+
+export type SeriesChanges = Partial<Omit<EventSeriesData, 'endsAt'>>;
+
+// The stored series with its JSON columns read back
+export const readSeries = (series: StoredSeries): EventSeriesData => ({
+  title: series.title,
+  description: series.description,
+  rrule: series.rrule,
+  startTime: series.startTime,
+  timeZone: series.timeZone,
+  durationMinutes: series.durationMinutes,
+  dkpReward: series.dkpReward,
+  type: series.type,
+  signupCutoffMinutes: series.signupCutoffMinutes,
+  composition: JSON.parse(series.composition),
+  reminders: JSON.parse(series.reminders),
+  exdates: (JSON.parse(series.exdates) as string[]).map((date) => new Date(date)),
+  endsAt: series.endsAt
+});
+
+const ruleOf = (rrule: string) => {
+  const { rule, error } = parseRRule(rrule);
+  if (!rule) throw new Error(`Stored rrule is invalid: ${error}`);
+  return rule;
+};
+
+const readOverriddenFields = (event: OccurrenceOverrides) => JSON.parse(event.overriddenFields) as OccurrenceField[];
+
+// The fields an edit of a single event changes. Composition counts as changed whenever one is given.
+export const editedOccurrenceFields = (
+  event: Pick<CreateEventData, 'title' | 'description' | 'dkpReward' | 'type' | 'signupCutoff'>,
+  updateData: EventUpdateData,
+  composition?: unknown
+): OccurrenceField[] => {
+  const same = (a: unknown, b: unknown) => a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+  const fields: OccurrenceField[] = (['title', 'description', 'dkpReward', 'type', 'signupCutoff'] as const)
+    .filter((field) => updateData[field] !== undefined && !same(updateData[field], event[field]));
+  return composition ? [...fields, 'composition'] : fields;
+};
+
+// The occurrence's overridden fields with the newly edited ones added, or undefined when there is nothing to record
+export const occurrenceOverrides = (event: OccurrenceOverrides, edited: OccurrenceField[]) => {
+  if (event.seriesId === null) return undefined;
+  const overridden = readOverriddenFields(event);
+  const added = edited.filter((field) => !overridden.includes(field));
+  return added.length > 0 ? [...overridden, ...added] : undefined;
+};
+
+// Start times without an offset are in the series' zone
+export const parseExdates = (input: unknown, timeZone: string): { exdates?: Date[]; error?: string } => {
+  if (!Array.isArray(input) || input.length > 500) {
+    return { error: 'exdates must be an array of occurrence start times' };
+  }
+  const exdates = input.map((value) => parseDateTime(value, timeZone));
+  if (exdates.some((date) => isNaN(date.getTime()))) {
+    return { error: 'exdates must be valid date-times' };
+  }
+  return { exdates };
+};
+
+// The next occurrences of a series, whether or not they have been created yet
+export const previewOccurrences = (series: EventSeriesData, now: Date, limit = 10) => {
+  const horizon = new Date(now.getTime() + 5 * 366 * 24 * 60 * 60 * 1000);
+  return expandOccurrences(ruleOf(series.rrule), series.startTime, series.timeZone, { after: now, until: horizon }, series.exdates)
+    .slice(0, limit);
+};
+
+const occurrenceData = (series: StoredSeries, data: EventSeriesData, start: Date): CreateEventData => ({
+  guildId: series.guildId,
+  title: data.title,
+  description: data.description,
+  startTime: start,
+  endTime: new Date(start.getTime() + data.durationMinutes * 60 * 1000),
+  dkpReward: data.dkpReward,
+  type: data.type,
+  signupCutoff: data.signupCutoffMinutes !== null ? new Date(start.getTime() - data.signupCutoffMinutes * 60 * 1000) : null,
+  composition: data.composition,
+  reminders: data.reminders,
+  createdById: series.createdById,
+  seriesId: series.id,
+  recurrenceId: start
+});
+
+// Create the occurrences starting between what was created last (or now) and the horizon
+export const materializeSeries = async (series: StoredSeries, now: Date = new Date()) => {
+  const data = readSeries(series);
+  const horizon = new Date(now.getTime() + SERIES_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  if (series.materializedUntil && series.materializedUntil >= horizon) return [];
+
+  const starts = expandOccurrences(
+    ruleOf(series.rrule),
+    series.startTime,
+    series.timeZone,
+    { after: series.materializedUntil ?? now, until: horizon },
+    data.exdates
+  );
+
+  return await database.materializeEventSeries(
+    series.id,
+    series.materializedUntil,
+    horizon,
+    starts.map((start) => occurrenceData(series, data, start))
+  ) ?? [];
+};
+
+export const materializeDueSeries = async (now: Date = new Date()) => {
+  const horizon = new Date(now.getTime() + SERIES_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  const due = await database.getEventSeriesDueMaterialization(horizon, MATERIALIZE_BATCH_SIZE);
+  let created = 0;
+
+  for (const series of due) {
+    created += (await materializeSeries(series, now)).length;
+  }
+
+  return { series: due.length, created };
+};
+
+export const createSeries = async (
+  guildId: number,
+  actorId: number,
+  data: Omit<EventSeriesData, 'endsAt'>,
+  now: Date = new Date()
+) => {
+  const series = await database.createEventSeries({
+    ...data,
+    endsAt: getSeriesEnd(ruleOf(data.rrule), data.startTime, data.timeZone),
+    guildId,
+    createdById: actorId
+  });
+  const events = await materializeSeries(series, now);
+  return { series, events };
+};
+
+// Apply changes to every occurrence that has not started. Changing when occurrences happen (rule, start,
+// time zone, duration or excluded dates) replaces the upcoming occurrences, and their signups, with new ones;
+// other changes are made to the upcoming occurrences in place, except to fields edited on an occurrence alone.
+export const editSeries = async (series: StoredSeries, changes: SeriesChanges, now: Date = new Date()) => {
+  const current = readSeries(series);
+  const next = { ...current, ...changes };
+  const retimed = next.rrule !== current.rrule ||
+    next.startTime.getTime() !== current.startTime.getTime() ||
+    next.timeZone !== current.timeZone ||
+    next.durationMinutes !== current.durationMinutes ||
+    JSON.stringify(next.exdates) !== JSON.stringify(current.exdates);
+
+  if (retimed) {
+    const removed = await database.deleteUpcomingSeriesEvents(series.id, now);
+    const updated = await database.updateEventSeries(series.id, {
+      ...changes,
+      endsAt: getSeriesEnd(ruleOf(next.rrule), next.startTime, next.timeZone),
+      materializedUntil: null
+    });
+    const created = await materializeSeries(updated, now);
+    return { series: updated, occurrences: { updated: 0, removed, created: created.length } };
+  }
+
+  const updated = await database.updateEventSeries(series.id, changes);
+  const upcoming = await database.getUpcomingSeriesEvents(series.id, now);
+
+  for (const event of upcoming) {
+    const overridden = readOverriddenFields(event);
+    const follows = (field: OccurrenceField) => !overridden.includes(field);
+
+    await database.updateEvent(event.id, {
+      ...(follows('title') && { title: next.title }),
+      ...(follows('description') && { description: next.description }),
+      ...(follows('dkpReward') && { dkpReward: next.dkpReward }),
+      ...(follows('type') && { type: next.type }),
+      ...(follows('signupCutoff') && {
+        signupCutoff: next.signupCutoffMinutes !== null
+          ? new Date(event.startTime.getTime() - next.signupCutoffMinutes * 60 * 1000)
+          : null
+      })
+    }, follows('composition') ? changes.composition : undefined);
+
+    if (changes.reminders && follows('reminders')) {
+      await database.setEventReminders(event.id, event.startTime, changes.reminders);
+    }
+  }
+
+  return { series: updated, occurrences: { updated: upcoming.length, removed: 0, created: 0 } };
+};
+
+// Split the series at an occurrence: the original ends just before it and a new series carries on from it
+// with the changes. Starting from the first occurrence this is the same as editing the whole series.
+export const editFollowing = async (
+  series: StoredSeries,
+  occurrence: SeriesOccurrence,
+  actorId: number,
+  changes: SeriesChanges,
+  now: Date = new Date()
+) => {
+  const at = occurrence.recurrenceId!;
+  if (at <= series.startTime) {
+    return await editSeries(series, changes, now);
+  }
+
+  const current = readSeries(series);
+  const rule = ruleOf(series.rrule);
+  const endBefore = new Date(at.getTime() - 1000);
+  const remaining = rule.count !== null ? rule.count - countOccurrencesBefore(rule, series.startTime, series.timeZone, at) : null;
+
+  const continued = await database.splitEventSeries(series.id, at, {
+    rrule: formatRRule({ ...rule, count: null, until: endBefore }),
+    endsAt: endBefore,
+    exdates: current.exdates.filter((date) => date < at)
+  }, {
+    ...current,
+    rrule: formatRRule({ ...rule, count: remaining }),
+    startTime: at,
+    exdates: current.exdates.filter((date) => date >= at),
+    endsAt: current.endsAt,
+    guildId: series.guildId,
+    createdById: actorId
+  });
+
+  // The new series already has the occurrences it took over
+  const carried = await database.updateEventSeries(continued.id, { materializedUntil: series.materializedUntil });
+  return await editSeries(carried, changes, now);
+};
+
+// Remove an occurrence and keep it from being created again
+export const excludeOccurrence = async (series: StoredSeries, occurrence: SeriesOccurrence) => {
+  const { exdates } = readSeries(series);
+  if (exdates.some((date) => date.getTime() === occurrence.recurrenceId!.getTime())) return series;
+  return await database.updateEventSeries(series.id, { exdates: [...exdates, occurrence.recurrenceId!] });
+};
+
+// End the series before an occurrence and remove the upcoming occurrences from there on
+export const deleteFollowing = async (series: StoredSeries, occurrence: SeriesOccurrence, now: Date = new Date()) => {
+  const at = occurrence.recurrenceId!;
+  if (at <= series.startTime) {
+    return await database.deleteEventSeries(series.id, now);
+  }
+
+  const endBefore = new Date(at.getTime() - 1000);
+  await database.updateEventSeries(series.id, {
+    rrule: formatRRule({ ...ruleOf(series.rrule), count: null, until: endBefore }),
+    endsAt: endBefore
+  });
+  return await database.deleteUpcomingSeriesEvents(series.id, now, at);
+};
@@ -0,0 +1,156 @@
+import { database } from '../db.js';
+import type { CharacterRole, EventCompositionInput, EventStatus, SignupStatus } from '../db.js';
+
+export const CHARACTER_ROLES: CharacterRole[] = ['TANK', 'HEALER', 'DPS'];
+
+export const SIGNUP_STATUSES: SignupStatus[] = ['ACCEPTED', 'TENTATIVE', 'DECLINED', 'BENCH'];
+
+// Signups close this many minutes before an event starts unless the event sets its own cutoff
+export const DEFAULT_SIGNUP_CUTOFF_MINUTES = Math.max(0, parseInt(process.env.SIGNUP_CUTOFF_MINUTES || '0') || 0);
+
+export const getSignupCutoff = (event: { startTime: Date; signupCutoff: Date | null }) =>
+  event.signupCutoff ?? new Date(event.startTime.getTime() - DEFAULT_SIGNUP_CUTOFF_MINUTES * 60 * 1000);
+
+// Drafts are not open yet and cancelled events will not happen
+export const isSignupOpen = (event: { status: EventStatus; startTime: Date; signupCutoff: Date | null }, now: Date = new Date()) =>
+  event.status === 'SCHEDULED' && now < getSignupCutoff(event);
+
+export type SignupViolation = {
+  status: 400 | 404 | 409;
+  error: string;
+  signupCutoff?: Date;
+};
+
+type SignupEvent = { id: number; title: string; status: EventStatus; startTime: Date; signupCutoff: Date | null };
+type SignupCharacter = { id: number; name: string; role: CharacterRole | null; active: string };
+
+type SubmitSignupResult =
+  | { signup: Awaited<ReturnType<typeof database.upsertEventSignup>>; updated: boolean; violation?: undefined }
+  | { violation: SignupViolation; signup?: undefined; updated?: undefined };
+
+// Signs a character up for an event, or changes its signup, with the rules the REST API and Discord commands share.
+// Drafts are hidden from members, so they look like a missing event.
+export const submitSignup = async (
+  event: SignupEvent,
+  character: SignupCharacter,
+  context: { userId: number; isOfficer: boolean },
+  input: { status: unknown; role?: unknown; note?: unknown }
+): Promise<SubmitSignupResult> => {
+  const { status, role, note } = input;
+
+  if (!SIGNUP_STATUSES.includes(status as SignupStatus)) {
+    return { violation: { status: 400, error: `Invalid status. Valid statuses: ${SIGNUP_STATUSES.join(', ')}` } };
+  }
+
+  if (role !== undefined && role !== null && !CHARACTER_ROLES.includes(role as CharacterRole)) {
+    return { violation: { status: 400, error: `Invalid role. Valid roles: ${CHARACTER_ROLES.join(', ')}` } };
+  }
+
+  if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > 500)) {
+    return { violation: { status: 400, error: 'Note must be a string of at most 500 characters' } };
+  }
+
+  if (event.status === 'DRAFT' && !context.isOfficer) {
+    return { violation: { status: 404, error: 'Event not found' } };
+  }
+
+  if (event.status === 'DRAFT' || event.status === 'CANCELLED') {
+    return { violation: { status: 409, error: event.status === 'DRAFT' ? 'Event is a draft' : 'Event is cancelled' } };
+  }
+
+  if (!isSignupOpen(event)) {
+    return { violation: { status: 409, error: 'Signups for this event are closed', signupCutoff: getSignupCutoff(event) } };
+  }
+
+  if (character.active !== 'ACTIVE') {
+    return { violation: { status: 400, error: 'Only active characters can sign up for events' } };
+  }
+
+  // Members sign up with one character per event
+  const existingSignup = await database.getUserEventSignup(event.id, context.userId);
+  if (existingSignup && existingSignup.characterId !== character.id) {
+    return {
+      violation: {
+        status: 409,
+        error: `You are already signed up with ${existingSignup.character.name}. Withdraw that signup first.`
+      }
+    };
+  }
+
+  const signup = await database.upsertEventSignup(event.id, character.id, {
+    status: status as SignupStatus,
+    role: (role as CharacterRole | null | undefined) ?? character.role,
+    note: (note as string | null | undefined)?.trim() || null
+  });
+  return { signup, updated: !!existingSignup };
+};
+
+// Parses { TANK: 2, HEALER: 4, DPS: 14 } into composition rows; roles left out are not needed
+export const parseComposition = (input: any): { composition?: EventCompositionInput; error?: string } => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'Composition must be an object of role to count, e.g. { "TANK": 2, "HEALER": 4, "DPS": 14 }' };
+  }
+
+  const composition: EventCompositionInput = [];
+  for (const [role, count] of Object.entries(input)) {
+    if (!CHARACTER_ROLES.includes(role as CharacterRole)) {
+      return { error: `Unknown role ${role}. Valid roles: ${CHARACTER_ROLES.join(', ')}` };
+    }
+    if (!Number.isInteger(count) || (count as number) < 0 || (count as number) > 100) {
+      return { error: `Count for ${role} must be an integer between 0 and 100` };
+    }
+    if ((count as number) > 0) {
+      composition.push({ role: role as CharacterRole, count: count as number });
+    }
+  }
+
+  return { composition };
+};
+
+type RosterSignup = {
+  status: SignupStatus;
+  role: CharacterRole | null;
+  confirmed: boolean;
+};
+
+// Fill status per role: accepted signups fill slots, tentative and bench are shown but do not count
+export const buildRoster = (
+  composition: { role: CharacterRole; count: number }[],
+  signups: RosterSignup[]
+) => {
+  const roles = [...new Set<CharacterRole | null>([
+    ...CHARACTER_ROLES.filter((role) => composition.some((entry) => entry.role === role)),
+    ...signups.map((signup) => signup.role)
+  ])];
+
+  const byRole = roles.map((role) => {
+    const roleSignups = signups.filter((signup) => signup.role === role);
+    const needed = composition.find((entry) => entry.role === role)?.count ?? 0;
+    const accepted = roleSignups.filter((signup) => signup.status === 'ACCEPTED').length;
+
+    return {
+      role: role ?? 'UNASSIGNED',
+      needed,
+      accepted,
+      confirmed: roleSignups.filter((signup) => signup.status === 'ACCEPTED' && signup.confirmed).length,
+      tentative: roleSignups.filter((signup) => signup.status === 'TENTATIVE').length,
+      bench: roleSignups.filter((signup) => signup.status === 'BENCH').length,
+      declined: roleSignups.filter((signup) => signup.status === 'DECLINED').length,
+      open: Math.max(0, needed - accepted),
+      isFilled: accepted >= needed
+    };
+  });
+
+  const needed = composition.reduce((total, entry) => total + entry.count, 0);
+  const accepted = signups.filter((signup) => signup.status === 'ACCEPTED').length;
+
+  return {
+    roles: byRole,
+    totals: {
+      needed,
+      accepted,
+      open: byRole.reduce((total, role) => total + role.open, 0),
+      isFilled: byRole.every((role) => role.isFilled)
+    }
+  };
+};
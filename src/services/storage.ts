@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Where uploaded files live. Keys are flat, generated names (no directories), so a backend can map them anywhere.
+export interface StorageBackend {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+export const isValidStorageKey = (key: string) => KEY_PATTERN.test(key) && !key.includes('..');
+
+// Default backend: files in UPLOAD_DIR (./uploads unless configured)
+export class LocalDiskStorage implements StorageBackend {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    if (!isValidStorageKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(key: string, data: Buffer) {
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.writeFile(this.resolve(key), data);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Register other backends (S3, GCS, ...) here and pick one with UPLOAD_STORAGE
+const storageBackends: Record<string, () => StorageBackend> = {
+  local: () => new LocalDiskStorage(path.resolve(process.env.UPLOAD_DIR || 'uploads'))
+};
+
+export const registerStorageBackend = (name: string, factory: () => StorageBackend) => {
+  storageBackends[name] = factory;
+};
+
+let storage: StorageBackend | null = null;
+
+export const getStorage = (): StorageBackend => {
+  if (!storage) {
+    const name = process.env.UPLOAD_STORAGE || 'local';
+    const factory = storageBackends[name];
+    if (!factory) {
+      throw new Error(`Unknown upload storage backend "${name}". Available: ${Object.keys(storageBackends).join(', ')}`);
+    }
+    storage = factory();
+  }
+  return storage;
+};
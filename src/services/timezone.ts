@@ -0,0 +1,113 @@
+// IANA time zones through Intl, which knows each zone's offset and DST rules at any instant
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export type ZonedParts = {
+  year: number;
+  // 1 to 12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+// A local date-time without an offset, e.g. 2025-11-10T20:00 or 2025-11-10 20:00:00
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: unknown) => {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall-clock date and time at an instant in a zone
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  };
+};
+
+const wallClockMs = (parts: ZonedParts) =>
+  Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+// How far the zone is ahead of UTC at an instant
+const offsetMs = (date: Date, timeZone: string) =>
+  wallClockMs(getZonedParts(date, timeZone)) - Math.floor(date.getTime() / 1000) * 1000;
+
+// The instant a wall-clock time happens in a zone. Times skipped by a DST change land that much later;
+// times that happen twice resolve to the first.
+export const fromZonedParts = (parts: ZonedParts, timeZone: string) => {
+  const wallClock = wallClockMs(parts);
+  const guess = wallClock - offsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetMs(new Date(guess), timeZone));
+};
+
+// Times with an offset or Z are taken as they are; local times without one are in the given zone
+export const parseDateTime = (input: unknown, timeZone: string) => {
+  const match = typeof input === 'string' ? input.trim().match(LOCAL_DATE_TIME) : null;
+  if (!match) return new Date(input as string);
+
+  const [, year, month, day, hour, minute, second] = match.map(Number) as number[];
+  const parts = { year: year!, month: month!, day: day!, hour: hour!, minute: minute!, second: second || 0 };
+  // Reject dates such as February 30th instead of rolling them over
+  const check = new Date(wallClockMs(parts));
+  if (check.getUTCMonth() !== parts.month - 1 || check.getUTCDate() !== parts.day || parts.hour > 23 || parts.minute > 59) {
+    return new Date(NaN);
+  }
+  return fromZonedParts(parts, timeZone);
+};
+
+const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, '0');
+
+// ISO 8601 in the zone with its offset, e.g. 2025-11-10T20:00:00+01:00
+export const formatZoned = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const offset = Math.round(offsetMs(date, timeZone) / 60000);
+  const sign = offset < 0 ? '-' : '+';
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+// The given times as the reader's local times, alongside the UTC ones already in a response
+export const localizeTimes = <K extends string>(times: Record<K, Date | null | undefined>, timeZone: string) => ({
+  timeZone,
+  ...Object.fromEntries(
+    Object.entries(times).map(([key, date]) => [key, date ? formatZoned(date as Date, timeZone) : null])
+  ) as Record<K, string | null>
+});
+
+// Times are shown to a member in their own zone, or the guild's until they pick one
+export const resolveTimeZone = (user?: { timeZone?: string | null } | null, guild?: { timeZone?: string | null } | null) =>
+  user?.timeZone || guild?.timeZone || DEFAULT_TIME_ZONE;
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { database } from '../db.js';
+import { getStorage } from './storage.js';
+
+// Largest accepted upload in bytes (5 MB unless UPLOAD_MAX_BYTES says otherwise)
+export const UPLOAD_MAX_BYTES = Math.max(1, parseInt(process.env.UPLOAD_MAX_BYTES || '') || 5 * 1024 * 1024);
+
+// Longest edge of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+// Uploads nothing points at are removed after this long
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Accepted image types; the real format is read from the file itself, the declared type only has to agree
+export const IMAGE_TYPES: Record<string, { format: 'jpeg' | 'png' | 'webp'; extension: string }> = {
+  'image/jpeg': { format: 'jpeg', extension: 'jpg' },
+  'image/png': { format: 'png', extension: 'png' },
+  'image/webp': { format: 'webp', extension: 'webp' }
+};
+
+export const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+const FILE_PATH = '/api/uploads/files/';
+
+export type UploadViolation = {
+  status: 400 | 413 | 415;
+  error: string;
+};
+
+// Stable URL for a stored file. Relative unless PUBLIC_API_URL is set, e.g. https://api.guildie.com
+export const getUploadUrl = (key: string) => `${(process.env.PUBLIC_API_URL || '').replace(/\/+$/, '')}${FILE_PATH}${key}`;
+
+// Storage key of one of our upload URLs, absolute or relative; null for external URLs
+export const getUploadKey = (url: string) => {
+  const match = /^(?:https?:\/\/[^/]+)?\/api\/uploads\/files\/([A-Za-z0-9._-]+)$/.exec(url.trim());
+  return match?.[1] ?? null;
+};
+
+export const formatUpload = (upload: any) => ({
+  id: upload.id,
+  url: getUploadUrl(upload.key),
+  thumbnailUrl: getUploadUrl(upload.thumbnailKey),
+  mimeType: upload.mimeType,
+  size: upload.size,
+  width: upload.width,
+  height: upload.height,
+  originalName: upload.originalName,
+  characterId: upload.characterId,
+  itemId: upload.itemId,
+  createdAt: upload.createdAt
+});
+
+// Re-encodes the image, which drops EXIF and other metadata (after applying its orientation), and builds a thumbnail
+export const processImage = async (buffer: Buffer, declaredType: string) => {
+  const expected = IMAGE_TYPES[declaredType];
+  if (!expected) {
+    return { violation: { status: 415, error: `Unsupported image type. Allowed: ${Object.keys(IMAGE_TYPES).join(', ')}` } as UploadViolation };
+  }
+
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    return { violation: { status: 400, error: 'File is not a readable image' } as UploadViolation };
+  }
+
+  if (metadata.format !== expected.format) {
+    return { violation: { status: 415, error: `File content is ${metadata.format ?? 'unknown'}, not ${expected.format}` } as UploadViolation };
+  }
+
+  const image = await sharp(buffer).rotate().toFormat(expected.format).toBuffer({ resolveWithObject: true });
+  const thumbnail = await sharp(buffer)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  return {
+    image: image.data,
+    thumbnail,
+    width: image.info.width,
+    height: image.info.height,
+    mimeType: declaredType,
+    extension: expected.extension
+  };
+};
+
+export const storeImage = async (uploadData: {
+  guildId: number;
+  uploadedById: number;
+  originalName: string | null;
+  characterId?: number | null;
+  itemId?: number | null;
+}, processed: { image: Buffer; thumbnail: Buffer; width: number; height: number; mimeType: string; extension: string }) => {
+  const name = crypto.randomBytes(16).toString('hex');
+  const key = `${name}.${processed.extension}`;
+  const thumbnailKey = `${name}-thumb.webp`;
+
+  const storage = getStorage();
+  await storage.put(key, processed.image, processed.mimeType);
+  await storage.put(thumbnailKey, processed.thumbnail, 'image/webp');
+
+  try {
+    return await database.createUpload({
+      ...uploadData,
+      key,
+      thumbnailKey,
+      mimeType: processed.mimeType,
+      size: processed.image.length,
+      width: processed.width,
+      height: processed.height
+    });
+  } catch (error) {
+    await Promise.all([storage.delete(key), storage.delete(thumbnailKey)]);
+    throw error;
+  }
+};
+
+// Attach uploads referenced by URL to the character or item using them, so they are removed along with it
+export const linkUploadUrls = async (
+  guildId: number,
+  urls: (string | null | undefined)[],
+  link: { characterId: number } | { itemId: number }
+) => {
+  const keys = urls
+    .filter((url): url is string => typeof url === 'string')
+    .map(getUploadKey)
+    .filter((key): key is string => key !== null);
+
+  if (keys.length > 0) {
+    await database.linkUploads(guildId, keys, link);
+  }
+};
+
+export const removeUploads = async (uploads: { id: number; key: string; thumbnailKey: string }[]) => {
+  if (uploads.length === 0) return 0;
+
+  const storage = getStorage();
+  for (const upload of uploads) {
+    await storage.delete(upload.key);
+    await storage.delete(upload.thumbnailKey);
+  }
+
+  await database.deleteUploads(uploads.map((upload) => upload.id));
+  return uploads.length;
+};
+
+// Uploads that were never attached, or whose character/item is gone, once the grace period has passed
+export const cleanupOrphanedUploads = async (now: Date = new Date()) => {
+  const orphans = await database.getOrphanedUploads(new Date(now.getTime() - ORPHAN_GRACE_MS));
+  return await removeUploads(orphans);
+};
@@ -0,0 +1,145 @@
+import { prisma, database } from '../db.js';
+import type { ItemRarity, ItemSlot, TransactionClient } from '../db.js';
+
+export type WishlistLimitViolation = {
+  status: 409 | 422;
+  error: string;
+  limit: {
+    scope: 'GLOBAL' | 'SLOT';
+    slot: ItemSlot | null;
+    maxWishes: number;
+    currentWishes: number;
+  };
+};
+
+// Check whether a character may add another wish for this item. Returns the limit that blocks it, or null.
+// Pass the transaction that adds the wish so concurrent wishes cannot both fit under the same limit.
+export const checkWishlistLimits = async (
+  characterId: number,
+  item: { guildId: number; slot: ItemSlot | null },
+  client: TransactionClient = prisma
+): Promise<WishlistLimitViolation | null> => {
+  const limits = await client.wishlistLimit.findMany({ where: { guildId: item.guildId } });
+  const globalLimit = limits.find((limit) => limit.slot === null);
+  const slotLimit = item.slot ? limits.find((limit) => limit.slot === item.slot) : undefined;
+
+  // A slot capped at zero is closed for wishlisting altogether
+  if (slotLimit && slotLimit.maxWishes === 0) {
+    return {
+      status: 422,
+      error: `${item.slot} items cannot be added to wishlists`,
+      limit: { scope: 'SLOT', slot: slotLimit.slot, maxWishes: 0, currentWishes: 0 }
+    };
+  }
+
+  if (globalLimit) {
+    const currentWishes = await client.wish.count({ where: { characterId } });
+    if (currentWishes >= globalLimit.maxWishes) {
+      return {
+        status: 409,
+        error: `Wishlist limit reached: a character can wish for at most ${globalLimit.maxWishes} item(s)`,
+        limit: { scope: 'GLOBAL', slot: null, maxWishes: globalLimit.maxWishes, currentWishes }
+      };
+    }
+  }
+
+  if (slotLimit) {
+    const currentWishes = await client.wish.count({ where: { characterId, item: { slot: slotLimit.slot } } });
+    if (currentWishes >= slotLimit.maxWishes) {
+      return {
+        status: 409,
+        error: `Slot limit reached: a character can wish for at most ${slotLimit.maxWishes} ${slotLimit.slot} item(s)`,
+        limit: { scope: 'SLOT', slot: slotLimit.slot, maxWishes: slotLimit.maxWishes, currentWishes }
+      };
+    }
+  }
+
+  return null;
+};
+
+// Wishlist point cost per rarity, used when an item has no explicit cost
+export const RARITY_POINT_COSTS: Record<ItemRarity, number> = {
+  COMMON: 1,
+  UNCOMMON: 1,
+  RARE: 2,
+  EPIC: 3,
+  LEGENDARY: 5
+};
+
+export const DEFAULT_WISHLIST_POINT_COST = 1;
+
+export const getWishlistPointCost = (item: { wishlistPointCost: number | null; rarity: ItemRarity | null }) => {
+  if (item.wishlistPointCost !== null) return item.wishlistPointCost;
+  return item.rarity ? RARITY_POINT_COSTS[item.rarity] : DEFAULT_WISHLIST_POINT_COST;
+};
+
+export type WishViolation = {
+  status: 400 | 409 | 422;
+  error: string;
+  limit?: WishlistLimitViolation['limit'];
+  pointCost?: number;
+  remainingPoints?: number;
+};
+
+type WishCharacter = { id: number; name: string; active: string };
+type WishItem = {
+  id: number;
+  guildId: number;
+  name: string;
+  slot: ItemSlot | null;
+  wishlistPointCost: number | null;
+  rarity: ItemRarity | null;
+};
+
+type AddWishResult =
+  | { wish: NonNullable<Awaited<ReturnType<typeof database.createWish>>['wish']>; violation?: undefined }
+  | { violation: WishViolation; wish?: undefined };
+
+// Adds an item to a character's wishlist with the checks the REST API and Discord commands share.
+// Callers resolve the character and item, since each entry point finds them differently.
+export const addWish = async (
+  character: WishCharacter,
+  item: WishItem,
+  options: { priority?: unknown; actorId: number }
+): Promise<AddWishResult> => {
+  const { priority } = options;
+  if (priority !== undefined && (!Number.isInteger(priority) || (priority as number) < 1)) {
+    return { violation: { status: 400, error: 'Priority must be a positive integer' } };
+  }
+
+  if (character.active !== 'ACTIVE') {
+    return { violation: { status: 400, error: 'Only active characters can make wishes' } };
+  }
+
+  if (await database.checkWishExists(character.id, item.id)) {
+    return { violation: { status: 409, error: `${character.name} already wishes for ${item.name}` } };
+  }
+
+  // The officer-configured limits and the point budget are checked in the transaction that adds the wish
+  const pointCost = getWishlistPointCost(item);
+  const result = await database.createWish(character.id, item.id, {
+    priority: priority as number | undefined,
+    pointCost,
+    actorId: options.actorId
+  }, async (tx): Promise<WishViolation | null> => {
+    const limitViolation = await checkWishlistLimits(character.id, item, tx);
+    if (limitViolation) return limitViolation;
+
+    // Wishes are paid for from the character's wishlist point budget
+    const { wishlistPoints } = await tx.character.findUniqueOrThrow({
+      where: { id: character.id },
+      select: { wishlistPoints: true }
+    });
+    if (pointCost > wishlistPoints) {
+      return {
+        status: 409,
+        error: `Not enough wishlist points: ${item.name} costs ${pointCost}, ${character.name} has ${wishlistPoints} left`,
+        pointCost,
+        remainingPoints: wishlistPoints
+      };
+    }
+
+    return null;
+  });
+  return result.violation ? { violation: result.violation } : { wish: result.wish };
+};